@@ -24,6 +24,8 @@ export function adminAuth(req: Request, res: Response, next: NextFunction): void
 
     if (username === config.admin.username && password === config.admin.password) {
       logger.debug('admin.auth_success', { username, path: req.path });
+      // Authenticated user, recorded as the actor of audited admin actions
+      res.locals.adminUser = username;
       return next();
     }
 
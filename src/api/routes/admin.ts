@@ -4,6 +4,18 @@ import ejs from 'ejs';
 import fs from 'fs/promises';
 import { logger } from '../../utils/logger';
 import { getBreakerService } from '../../services/breaker';
+import {
+  getBreakerActions,
+  getBreakerHistory,
+  recordBreakerAction,
+} from '../../services/breakerHistory';
+import {
+  listHostPauses,
+  normalizePauseHost,
+  pauseHost,
+  unpauseHost,
+} from '../../services/hostPause';
+import { getRedisClient } from '../../config/redis';
 import { db } from '../../db';
 import { runs, findings, artifacts } from '../../db/schema';
 import { desc } from 'drizzle-orm';
@@ -11,6 +23,51 @@ import rulesRouter from './rules';
 
 const router: Router = Router();
 
+/** Transitions shown per breaker on the status page */
+const BREAKER_TIMELINE_LENGTH = 10;
+
+/** Longest forced open or timed pause (7 days) */
+const MAX_CONTROL_MINUTES = 7 * 24 * 60;
+
+/**
+ * Who performed an admin action: the user adminAuth authenticated
+ */
+function getAdminActor(res: Response): string {
+  return typeof res.locals.adminUser === 'string' && res.locals.adminUser
+    ? res.locals.adminUser
+    : 'admin';
+}
+
+/**
+ * Optional `actorName` from the body: a display name for the shared admin
+ * login, stored next to the actor but not verified
+ */
+function getActorName(req: Request): string | null {
+  return typeof req.body?.actorName === 'string' && req.body.actorName.trim()
+    ? req.body.actorName.trim().slice(0, 100)
+    : null;
+}
+
+/**
+ * Optional `reason` from the body
+ */
+function getActionReason(req: Request): string | null {
+  return typeof req.body?.reason === 'string' && req.body.reason.trim()
+    ? req.body.reason.trim()
+    : null;
+}
+
+/**
+ * `durationMinutes` from the body as ms; null when missing or out of range
+ */
+function getDurationMs(req: Request): number | null {
+  const minutes = Number(req.body?.durationMinutes);
+  if (!Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_CONTROL_MINUTES) {
+    return null;
+  }
+  return Math.round(minutes * 60 * 1000);
+}
+
 // Helper function to render EJS templates
 async function renderTemplate(
   templateName: string,
@@ -45,7 +102,21 @@ router.get('/breaker', async (req: Request, res: Response) => {
     const breaker = getBreakerService();
     const stats = await breaker.getAllStats();
 
-    const breakerData = stats.map((s) => ({
+    // Latest transitions per target for the timeline (empty if the database is unavailable)
+    const histories = await Promise.all(
+      stats.map((s) =>
+        getBreakerHistory(s.targetId, BREAKER_TIMELINE_LENGTH).catch((error) => {
+          logger.warn(`[Admin] Failed to load breaker history for ${s.targetId}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return [];
+        })
+      )
+    );
+
+    const pausedHosts = await listHostPauses(getRedisClient());
+
+    const breakerData = stats.map((s, index) => ({
       targetId: s.targetId,
       state: s.state,
       failureCount: s.failureCount,
@@ -56,6 +127,7 @@ router.get('/breaker', async (req: Request, res: Response) => {
       lastError: s.lastError,
       recentOutcomes: s.recentOutcomes || [], // Last 10 outcomes
       consecutiveFailures: s.consecutiveFailures,
+      transitions: histories[index],
     }));
 
     // Check if client wants HTML
@@ -66,6 +138,7 @@ router.get('/breaker', async (req: Request, res: Response) => {
       const html = await renderTemplate('breaker', {
         title: 'Circuit Breaker Status',
         breakerData,
+        pausedHosts,
       });
       
       return res.type('html').send(html);
@@ -76,6 +149,7 @@ router.get('/breaker', async (req: Request, res: Response) => {
       timestamp: new Date().toISOString(),
       breakerCount: stats.length,
       breakers: breakerData,
+      pausedHosts,
     });
   } catch (error) {
     logger.error('[Admin] Error fetching breaker stats', {
@@ -89,6 +163,35 @@ router.get('/breaker', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /admin/breaker/:targetId/history - State transitions of one breaker, newest first
+ * Optional query params: limit (default 100, max 500)
+ */
+router.get('/breaker/:targetId/history', async (req: Request, res: Response) => {
+  try {
+    const targetId = String(req.params.targetId);
+    const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 500);
+
+    const transitions = await getBreakerHistory(targetId, limit);
+
+    return res.json({
+      targetId,
+      total: transitions.length,
+      limit,
+      transitions,
+    });
+  } catch (error) {
+    logger.error('[Admin] Error fetching breaker history', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return res.status(500).json({
+      error: 'Failed to fetch breaker history',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 /**
  * GET /admin/runs - Get all runs (admin view)
  * Optional query params: limit, status
@@ -206,6 +309,7 @@ router.get('/runs/:id', async (req: Request, res: Response) => {
         processing: '#0066cc',
         evidence_captured: '#28a745',
         suppressed: '#ffc107',
+        skipped_breaker_open: '#fd7e14',
       };
 
       // Render HTML view using EJS template
@@ -255,11 +359,20 @@ router.post('/breaker/reset', async (req: Request, res: Response) => {
     const targetId = req.body?.targetId || 'global';
 
     const breaker = getBreakerService();
+    const actor = getAdminActor(res);
+    const actorName = getActorName(req);
+    await recordBreakerAction({
+      action: 'reset',
+      targetId,
+      actor,
+      actorName,
+      reason: getActionReason(req),
+    });
     
     // Reset the breaker by clearing its state
     await breaker.reset(targetId);
 
-    logger.info(`[Admin] Breaker reset for target: ${targetId}`);
+    logger.info(`[Admin] Breaker reset for target: ${targetId} by ${actor}`);
 
     return res.json({
       ok: true,
@@ -279,6 +392,218 @@ router.post('/breaker/reset', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /admin/breaker/force-open - Hold a target's circuit open (e.g. during a known outage)
+ * Body: { targetId: string, durationMinutes: number, reason?: string, actorName?: string }
+ */
+router.post('/breaker/force-open', async (req: Request, res: Response) => {
+  try {
+    const targetId = req.body?.targetId;
+    const durationMs = getDurationMs(req);
+    if (typeof targetId !== 'string' || !targetId) {
+      return res.status(400).json({ error: 'targetId is required' });
+    }
+    if (durationMs === null) {
+      return res.status(400).json({
+        error: `durationMinutes must be a number between 0 and ${MAX_CONTROL_MINUTES}`,
+      });
+    }
+
+    const breaker = getBreakerService();
+    const actor = getAdminActor(res);
+    const actorName = getActorName(req);
+    const reason = getActionReason(req);
+    const expiresAt = new Date(Date.now() + durationMs);
+
+    // Audit first: no manual control goes unrecorded
+    await recordBreakerAction({
+      action: 'force_open',
+      targetId,
+      actor,
+      actorName,
+      reason,
+      expiresAt,
+    });
+    const until = await breaker.forceOpen(targetId, durationMs);
+
+    logger.info(`[Admin] Breaker forced open for target: ${targetId} by ${actor}`);
+
+    return res.json({
+      ok: true,
+      targetId,
+      message: 'Breaker forced open',
+      until: until.toISOString(),
+    });
+  } catch (error) {
+    logger.error('[Admin] Error forcing breaker open', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return res.status(500).json({
+      error: 'Failed to force breaker open',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /admin/breaker/force-close - Close a target's circuit and clear its counters
+ * Body: { targetId: string, reason?: string, actorName?: string }
+ */
+router.post('/breaker/force-close', async (req: Request, res: Response) => {
+  try {
+    const targetId = req.body?.targetId;
+    if (typeof targetId !== 'string' || !targetId) {
+      return res.status(400).json({ error: 'targetId is required' });
+    }
+
+    const breaker = getBreakerService();
+    const actor = getAdminActor(res);
+    const actorName = getActorName(req);
+    await recordBreakerAction({
+      action: 'force_close',
+      targetId,
+      actor,
+      actorName,
+      reason: getActionReason(req),
+    });
+    await breaker.reset(targetId);
+
+    logger.info(`[Admin] Breaker forced closed for target: ${targetId} by ${actor}`);
+
+    return res.json({
+      ok: true,
+      targetId,
+      message: 'Breaker forced closed',
+      closedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('[Admin] Error forcing breaker closed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return res.status(500).json({
+      error: 'Failed to force breaker closed',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /admin/breaker/pause - Stop scanning and crawling a host
+ * Body: { host: string (host or URL), durationMinutes?: number, reason?: string, actorName?: string }
+ */
+router.post('/breaker/pause', async (req: Request, res: Response) => {
+  try {
+    const target = req.body?.host;
+    if (typeof target !== 'string' || !target.trim()) {
+      return res.status(400).json({ error: 'host is required' });
+    }
+    const durationMs = req.body?.durationMinutes === undefined ? undefined : getDurationMs(req);
+    if (durationMs === null) {
+      return res.status(400).json({
+        error: `durationMinutes must be a number between 0 and ${MAX_CONTROL_MINUTES}`,
+      });
+    }
+
+    const host = normalizePauseHost(target);
+    const actor = getAdminActor(res);
+    const actorName = getActorName(req);
+    const reason = getActionReason(req);
+    await recordBreakerAction({
+      action: 'pause',
+      targetId: host,
+      actor,
+      actorName,
+      reason,
+      expiresAt: durationMs ? new Date(Date.now() + durationMs) : null,
+    });
+    const pause = await pauseHost(getRedisClient(), host, { actor, reason, durationMs });
+
+    logger.info(
+      `[Admin] Host ${host} paused by ${actor}${pause.until ? ` until ${pause.until}` : ''}`
+    );
+
+    return res.json({ ok: true, message: 'Host paused', pause });
+  } catch (error) {
+    logger.error('[Admin] Error pausing host', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return res.status(500).json({
+      error: 'Failed to pause host',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /admin/breaker/unpause - Resume scanning a paused host
+ * Body: { host: string (host or URL), reason?: string, actorName?: string }
+ */
+router.post('/breaker/unpause', async (req: Request, res: Response) => {
+  try {
+    const target = req.body?.host;
+    if (typeof target !== 'string' || !target.trim()) {
+      return res.status(400).json({ error: 'host is required' });
+    }
+
+    const host = normalizePauseHost(target);
+    const actor = getAdminActor(res);
+    const actorName = getActorName(req);
+    await recordBreakerAction({
+      action: 'unpause',
+      targetId: host,
+      actor,
+      actorName,
+      reason: getActionReason(req),
+    });
+    const wasPaused = await unpauseHost(getRedisClient(), host);
+
+    logger.info(`[Admin] Host ${host} unpaused by ${actor}`);
+
+    return res.json({
+      ok: true,
+      host,
+      wasPaused,
+      message: wasPaused ? 'Host unpaused' : 'Host was not paused',
+    });
+  } catch (error) {
+    logger.error('[Admin] Error unpausing host', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return res.status(500).json({
+      error: 'Failed to unpause host',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /admin/breaker/actions - Audit log of manual breaker controls, newest first
+ * Optional query params: targetId, limit (default 100, max 500)
+ */
+router.get('/breaker/actions', async (req: Request, res: Response) => {
+  try {
+    const targetId = req.query.targetId ? String(req.query.targetId) : undefined;
+    const limit = Math.min(parseInt(String(req.query.limit || '100'), 10) || 100, 500);
+
+    const actions = await getBreakerActions(targetId, limit);
+
+    return res.json({ total: actions.length, limit, actions });
+  } catch (error) {
+    logger.error('[Admin] Error fetching breaker actions', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    return res.status(500).json({
+      error: 'Failed to fetch breaker actions',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 router.use('/rules', rulesRouter);
 
 export default router;
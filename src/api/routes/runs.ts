@@ -2,15 +2,34 @@ import { Router, Request, Response } from 'express';
 import { logger } from '../../utils/logger';
 import { runService } from '../../services/runService';
 import { loadAllowList } from '../../utils/allow-list';
+import { validateJourney } from '../../services/journeyService';
 
 const router: Router = Router();
 
 // POST /api/runs
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { payload } = req.body;
+    const { payload, runType = 'manual' } = req.body;
     const urls = loadAllowList();
 
+    if (runType !== 'manual' && runType !== 'crawl') {
+      return res.status(400).json({
+        error: 'Invalid run type',
+        message: 'runType must be "manual" or "crawl"',
+      });
+    }
+
+    if (payload?.journey !== undefined) {
+      try {
+        validateJourney(payload.journey, 'payload.journey');
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Invalid journey',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     // Validate URLs array
     const urlList = Array.isArray(urls) ? urls : [];
 
@@ -25,7 +44,7 @@ router.post('/', async (req: Request, res: Response) => {
     const result = await runService.createRun({
       urls: urlList,
       payload,
-      runType: 'manual',
+      runType,
     });
 
     logger.info(
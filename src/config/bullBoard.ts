@@ -1,7 +1,13 @@
 import { createBullBoard } from '@bull-board/api';
 import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { ExpressAdapter } from '@bull-board/express';
-import { getScanQueue, getRenderQueue } from '../services/queueService';
+import {
+  getScanQueue,
+  getRenderQueue,
+  getVerifyQueue,
+  getAlertQueue,
+  getCrawlQueue,
+} from '../services/queueService';
 import { logger } from '../utils/logger';
 
 // Create Express adapter for Bull Board
@@ -17,13 +23,24 @@ export function initializeBullBoard() {
   try {
     const scanQueue = getScanQueue();
     const renderQueue = getRenderQueue();
+    const verifyQueue = getVerifyQueue();
+    const alertQueue = getAlertQueue();
+    const crawlQueue = getCrawlQueue();
 
     bullBoard = createBullBoard({
-      queues: [new BullMQAdapter(scanQueue), new BullMQAdapter(renderQueue)],
+      queues: [
+        new BullMQAdapter(scanQueue),
+        new BullMQAdapter(renderQueue),
+        new BullMQAdapter(verifyQueue),
+        new BullMQAdapter(alertQueue),
+        new BullMQAdapter(crawlQueue),
+      ],
       serverAdapter,
     });
 
-    logger.info('Bull Board initialized successfully with scan-queue and render-queue');
+    logger.info(
+      'Bull Board initialized successfully with scan-queue, render-queue, verify-queue, alert-queue and crawl-queue'
+    );
     return serverAdapter;
   } catch (error) {
     logger.error('Failed to initialize Bull Board:', error);
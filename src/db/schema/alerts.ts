@@ -0,0 +1,46 @@
+import {
+  pgTable,
+  uuid,
+  varchar,
+  timestamp,
+  text,
+  integer,
+  jsonb,
+  index,
+} from 'drizzle-orm/pg-core';
+import { relations } from 'drizzle-orm';
+import { findings } from './findings';
+
+export const alerts = pgTable(
+  'alerts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    findingId: uuid('finding_id')
+      .references(() => findings.id, { onDelete: 'cascade' })
+      .notNull(),
+    channel: varchar('channel', { length: 20 }).notNull().default('slack'), // 'slack'
+    status: varchar('status', { length: 20 }).notNull().default('pending'), // 'pending' | 'sent' | 'skipped' | 'failed'
+    jobId: varchar('job_id', { length: 100 }),
+    attempts: integer('attempts').notNull().default(0),
+    lastError: text('last_error'),
+    fingerprint: varchar('fingerprint', { length: 512 }),
+    payload: jsonb('payload'),
+    sentAt: timestamp('sent_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    findingIdIdx: index('alerts_finding_id_idx').on(table.findingId),
+    statusIdx: index('alerts_status_idx').on(table.status),
+  })
+);
+
+export const alertsRelations = relations(alerts, ({ one }) => ({
+  finding: one(findings, {
+    fields: [alerts.findingId],
+    references: [findings.id],
+  }),
+}));
+
+export type Alert = typeof alerts.$inferSelect;
+export type NewAlert = typeof alerts.$inferInsert;
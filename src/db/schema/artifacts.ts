@@ -9,7 +9,8 @@ export const artifacts = pgTable(
     findingId: uuid('finding_id')
       .references(() => findings.id, { onDelete: 'cascade' })
       .notNull(),
-    type: varchar('type', { length: 50 }).notNull(), // 'screenshot', 'har', 'html', 'console_logs'
+    type: varchar('type', { length: 50 }).notNull(), // 'screenshot', 'har', 'html', 'console_logs', 'network_log', 'trace', 'video'
+    device: varchar('device', { length: 100 }), // Device matrix entry (null for the default desktop capture)
     storageUrl: varchar('storage_url', { length: 1024 }).notNull(), // Local path or S3 URL
     size: integer('size').notNull(), // File size in bytes
     createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
@@ -0,0 +1,27 @@
+import { pgTable, uuid, varchar, timestamp, text, index } from 'drizzle-orm/pg-core';
+
+/**
+ * Breaker Actions
+ *
+ * Audit log of manual breaker controls: who forced a target open or closed,
+ * reset it, or paused a host, and why.
+ */
+export const breakerActions = pgTable(
+  'breaker_actions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    action: varchar('action', { length: 20 }).notNull(), // 'force_open' | 'force_close' | 'reset' | 'pause' | 'unpause'
+    targetId: text('target_id').notNull(), // Breaker target, or host for pause/unpause
+    actor: varchar('actor', { length: 100 }).notNull(), // Authenticated admin user
+    actorName: varchar('actor_name', { length: 100 }), // Display name given with the request (not verified)
+    reason: text('reason'),
+    expiresAt: timestamp('expires_at', { withTimezone: true }), // End of a forced open or timed pause
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    targetIdIdx: index('breaker_actions_target_id_idx').on(table.targetId),
+  })
+);
+
+export type BreakerAction = typeof breakerActions.$inferSelect;
+export type NewBreakerAction = typeof breakerActions.$inferInsert;
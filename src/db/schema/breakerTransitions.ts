@@ -0,0 +1,30 @@
+import { pgTable, uuid, varchar, timestamp, text, integer, real, index } from 'drizzle-orm/pg-core';
+
+/**
+ * Breaker Transitions
+ *
+ * One row per circuit breaker state change, kept for incident reviews
+ * (when a host tripped, why, and when it recovered).
+ */
+export const breakerTransitions = pgTable(
+  'breaker_transitions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    targetId: text('target_id').notNull(),
+    fromState: varchar('from_state', { length: 20 }).notNull(), // 'closed' | 'half_open' | 'open'
+    toState: varchar('to_state', { length: 20 }).notNull(),
+    reason: varchar('reason', { length: 50 }).notNull(), // 'threshold' | 'rate' | 'probe_due' | 'probe_failed' | 'probe_succeeded' | 'manual_reset'
+    failureRate: real('failure_rate'), // 0-1 over the failure window, when known
+    failCount: integer('fail_count'),
+    createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    targetCreatedIdx: index('breaker_transitions_target_created_idx').on(
+      table.targetId,
+      table.createdAt
+    ),
+  })
+);
+
+export type BreakerTransition = typeof breakerTransitions.$inferSelect;
+export type NewBreakerTransition = typeof breakerTransitions.$inferInsert;
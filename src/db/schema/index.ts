@@ -3,3 +3,6 @@ export * from './findings';
 export * from './artifacts';
 export * from './stripeEvents';
 export * from './reverifyAttempts';
+export * from './alerts';
+export * from './breakerTransitions';
+export * from './breakerActions';
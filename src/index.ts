@@ -9,8 +9,9 @@ import { errorHandler } from './api/middleware/errorHandler';
 import { bullBoardAuth } from './api/middleware/bullBoardAuth';
 import { logger } from './utils/logger';
 import { getMetrics } from './utils/metrics';
-import { initializeBreakerService } from './services/breaker';
+import { getBreakerConfigFromEnv, initializeBreakerService } from './services/breaker';
 import { initializeFetcher } from './services/fetcher';
+import { getFetcherConfigFromEnv } from './services/fetcher/index';
 import { loadRulesConfig } from './services/rulesService';
 import { loadAllowList } from './services/allowListService';
 
@@ -72,22 +73,13 @@ async function startServer() {
     // Initialize Circuit Breaker service (if enabled)
     if (config.circuitBreaker.enabled) {
       const redis = getRedisClient();
-      initializeBreakerService(redis, {
-        failThreshold: 3,
-        openDurationMs: config.circuitBreaker.openMinutes * 60 * 1000, // 20 min
-        halfOpenProbeDelayMs: config.circuitBreaker.openMinutes * 2 * 60 * 1000, // openDuration × 2 → 40 min
-        failureWindowSize: config.circuitBreaker.errorRateWindow,
-        failureRateThreshold: config.circuitBreaker.errorRateThresholdPct / 100,
-      });
+      // Service-wide settings; rules.json can override them per rule (`breaker` block)
+      initializeBreakerService(redis, getBreakerConfigFromEnv());
       logger.info('Circuit Breaker service initialized');
     }
 
     // Initialize Fetcher service
-    initializeFetcher({
-      adapter: (process.env.FETCHER_ADAPTER as 'direct' | 'zenrows') || 'direct',
-      defaultTimeoutMs: parseInt(process.env.FETCHER_TIMEOUT_MS || '30000'),
-      defaultRetries: parseInt(process.env.FETCHER_RETRIES || '3'),
-    });
+    initializeFetcher(getFetcherConfigFromEnv());
     logger.info('Fetcher service initialized');
     
     // Only initialize Bull Board when admin is enabled
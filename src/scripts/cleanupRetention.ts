@@ -1,22 +1,31 @@
 import { db } from '../db';
 import { findings, artifacts } from '../db/schema';
-import { lt } from 'drizzle-orm';
+import { and, eq, lt } from 'drizzle-orm';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { pruneFetchCache } from '../services/fetcher/cache';
 import * as fs from 'fs';
 import * as path from 'path';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Clean up findings and artifacts older than RETENTION_DAYS
+ * (trace and video artifacts use TRACE_RETENTION_DAYS / VIDEO_RETENTION_DAYS)
  * This should be run as a daily cron job
  */
 export async function cleanupRetention(): Promise<void> {
   const retentionDays = config.retentionDays;
-  const cutoffDate = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const cutoffDate = new Date(Date.now() - retentionDays * DAY_MS);
 
   logger.info(`[Retention] Starting cleanup for data older than ${retentionDays} days (before ${cutoffDate.toISOString()})`);
 
   try {
+    // Step 0: Trace and video artifacts are large and may be kept for less time
+    const recordingsDeleted =
+      (await cleanupArtifactType('trace', config.traceRetentionDays)) +
+      (await cleanupArtifactType('video', config.videoRetentionDays));
+
     // Step 1: Find old artifacts to get file paths
     const oldArtifacts = await db.query.artifacts.findMany({
       where: lt(artifacts.createdAt, cutoffDate),
@@ -35,23 +44,10 @@ export async function cleanupRetention(): Promise<void> {
 
     for (const artifact of oldArtifacts) {
       if (artifact.storageUrl) {
-        try {
-          // Convert storage URL to file path
-          // Assuming storage_url is like "/artifacts/{runId}/{findingId}/screenshot.png"
-          const filePath = artifact.storageUrl.startsWith('/')
-            ? path.join(process.cwd(), artifact.storageUrl.substring(1))
-            : path.join(process.cwd(), artifact.storageUrl);
-
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-            filesDeleted++;
-            logger.debug(`[Retention] Deleted file: ${filePath}`);
-          }
-        } catch (error) {
+        if (deleteArtifactFile(artifact.storageUrl)) {
+          filesDeleted++;
+        } else {
           filesFailedToDelete++;
-          logger.warn(`[Retention] Failed to delete file: ${artifact.storageUrl}`, {
-            error: error instanceof Error ? error.message : String(error),
-          });
         }
       }
     }
@@ -78,11 +74,16 @@ export async function cleanupRetention(): Promise<void> {
       cleanupEmptyDirectories(artifactsDir);
     }
 
+    // Step 6: Cached response bodies no longer revalidated (FETCH_CACHE_TTL_SECONDS)
+    const cachedBodiesDeleted = await pruneFetchCache();
+
     logger.info(`[Retention] Cleanup complete:`, {
       artifactsDeleted: deletedArtifacts.length,
+      recordingsDeleted,
       findingsDeleted: deletedFindings.length,
       filesDeleted,
       filesFailedToDelete,
+      cachedBodiesDeleted,
       cutoffDate: cutoffDate.toISOString(),
       retentionDays,
     });
@@ -94,6 +95,67 @@ export async function cleanupRetention(): Promise<void> {
   }
 }
 
+/**
+ * Delete artifacts of one type (files and records) older than its retention period
+ */
+async function cleanupArtifactType(
+  type: 'trace' | 'video',
+  retentionDays: number
+): Promise<number> {
+  const cutoffDate = new Date(Date.now() - retentionDays * DAY_MS);
+  const where = and(eq(artifacts.type, type), lt(artifacts.createdAt, cutoffDate));
+
+  const oldArtifacts = await db.query.artifacts.findMany({
+    where,
+    columns: {
+      id: true,
+      storageUrl: true,
+    },
+  });
+
+  for (const artifact of oldArtifacts) {
+    if (artifact.storageUrl) {
+      deleteArtifactFile(artifact.storageUrl);
+    }
+  }
+
+  const deleted = await db.delete(artifacts).where(where).returning({ id: artifacts.id });
+
+  logger.info(
+    `[Retention] Deleted ${deleted.length} ${type} artifacts older than ${retentionDays} days`
+  );
+  return deleted.length;
+}
+
+/**
+ * Resolve a storage URL to a file path. Storage URLs are relative to the
+ * artifacts directory ("{runId}/{findingId}/screenshot.png"); older rows may
+ * carry an "/artifacts/" prefix.
+ */
+export function resolveArtifactPath(storageUrl: string): string {
+  const relative = storageUrl.replace(/^\/+/, '').replace(/^artifacts\//, '');
+  return path.join(process.cwd(), 'artifacts', relative);
+}
+
+/**
+ * Delete one artifact file; returns false if deleting it failed
+ */
+function deleteArtifactFile(storageUrl: string): boolean {
+  const filePath = resolveArtifactPath(storageUrl);
+  try {
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      logger.debug(`[Retention] Deleted file: ${filePath}`);
+    }
+    return true;
+  } catch (error) {
+    logger.warn(`[Retention] Failed to delete file: ${storageUrl}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
 /**
  * Recursively clean up empty directories
  */
@@ -0,0 +1,206 @@
+import http from 'http';
+import crypto from 'crypto';
+import type { AddressInfo } from 'net';
+import { logger } from '../utils/logger';
+
+/**
+ * Local stand-in for the ZenRows API (https://api.zenrows.com/v1/).
+ *
+ * It checks the API key and parameters the way ZenRows does, fetches the
+ * target directly (no rendering or proxying) and answers with ZenRows'
+ * status semantics and cost headers. Used by the tests, and for trying
+ * FETCHER_ADAPTER=zenrows locally:
+ *
+ *   pnpm mock:zenrows
+ *   ZENROWS_API_URL=http://localhost:8181/v1/ ZENROWS_API_KEY=test-key FETCHER_ADAPTER=zenrows pnpm dev:api
+ */
+
+export interface MockZenRowsOptions {
+  port?: number;
+  apiKey?: string;
+  concurrencyLimit?: number;
+}
+
+export interface MockZenRowsRequest {
+  params: Record<string, string>;
+  method: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export interface MockZenRowsServer {
+  /** API base URL to use as ZENROWS_API_URL */
+  url: string;
+  /** Every API request received, oldest first */
+  requests: MockZenRowsRequest[];
+  close(): Promise<void>;
+}
+
+/** Headers that describe the connection to the mock, not the target request */
+const HOP_BY_HOP_HEADERS = ['host', 'connection', 'content-length', 'transfer-encoding'];
+
+/**
+ * Credits charged per request (basic, js_render, premium_proxy, both)
+ */
+function requestCost(params: Record<string, string>): number {
+  const jsRender = params.js_render === 'true';
+  const premiumProxy = params.premium_proxy === 'true';
+  if (jsRender && premiumProxy) return 25;
+  if (premiumProxy) return 10;
+  if (jsRender) return 5;
+  return 1;
+}
+
+function sendProblem(
+  res: http.ServerResponse,
+  status: number,
+  code: string,
+  title: string,
+  detail?: string
+): void {
+  res.writeHead(status, { 'content-type': 'application/problem+json' });
+  res.end(JSON.stringify({ code, title, detail, status }));
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Start the mock API (port 0 picks a free port)
+ */
+export async function startMockZenRowsServer(
+  options: MockZenRowsOptions = {}
+): Promise<MockZenRowsServer> {
+  const apiKey = options.apiKey || 'test-key';
+  const concurrencyLimit = options.concurrencyLimit ?? 5;
+  const requests: MockZenRowsRequest[] = [];
+  let active = 0;
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const requestUrl = new URL(req.url || '/', 'http://localhost');
+    const params = Object.fromEntries(requestUrl.searchParams.entries());
+    const body = await readBody(req);
+    requests.push({ params, method: req.method || 'GET', headers: req.headers, body });
+
+    if (params.apikey !== apiKey) {
+      return sendProblem(res, 401, 'AUTH002', 'Invalid API Key');
+    }
+
+    let target: URL;
+    try {
+      target = new URL(params.url);
+    } catch {
+      return sendProblem(res, 400, 'REQS001', 'Requested URL is not valid', params.url);
+    }
+
+    if ((params.wait_for || params.wait) && params.js_render !== 'true') {
+      return sendProblem(res, 400, 'REQS002', 'wait and wait_for require js_render');
+    }
+
+    if (params.proxy_country && params.premium_proxy !== 'true') {
+      return sendProblem(res, 400, 'REQS002', 'proxy_country requires premium_proxy');
+    }
+
+    if (active >= concurrencyLimit) {
+      return sendProblem(res, 429, 'AUTH006', 'Concurrency limit reached');
+    }
+
+    active++;
+    try {
+      // Only forward the caller's headers when custom_headers is on, like ZenRows
+      const headers: Record<string, string> = {};
+      if (params.custom_headers === 'true') {
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (!HOP_BY_HOP_HEADERS.includes(name) && typeof value === 'string') {
+            headers[name] = value;
+          }
+        }
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(target, {
+          method: req.method,
+          headers,
+          ...(body && !['GET', 'HEAD'].includes(req.method || 'GET') && { body }),
+        });
+      } catch (error) {
+        return sendProblem(
+          res,
+          422,
+          'RESP001',
+          'Could not get content',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+
+      const content = await response.text();
+
+      // Without original_status, ZenRows answers 200 or fails the request
+      if (!response.ok && params.original_status !== 'true') {
+        return sendProblem(
+          res,
+          422,
+          'RESP001',
+          'Could not get content',
+          `Target responded with ${response.status}`
+        );
+      }
+
+      res.writeHead(params.original_status === 'true' ? response.status : 200, {
+        'content-type': response.headers.get('content-type') || 'text/html',
+        'x-request-cost': String(requestCost(params)),
+        'x-request-id': crypto.randomUUID(),
+        'concurrency-limit': String(concurrencyLimit),
+        'concurrency-remaining': String(concurrencyLimit - active),
+        'zr-final-url': response.url || target.toString(),
+      });
+      res.end(content);
+    } finally {
+      active--;
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      logger.error('[MockZenRows] Request failed:', error);
+      if (!res.headersSent) {
+        sendProblem(res, 500, 'CTX001', 'Internal error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/v1/`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}
+
+/**
+ * Main entry point for running the mock as a standalone server
+ */
+async function main() {
+  const server = await startMockZenRowsServer({
+    port: parseInt(process.env.MOCK_ZENROWS_PORT || '8181', 10),
+    apiKey: process.env.ZENROWS_API_KEY || 'test-key',
+  });
+  logger.info(`[MockZenRows] Listening at ${server.url}`);
+}
+
+// Run if executed directly
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,34 @@
+import 'dotenv/config';
+import { createAlertWorker } from '../workers/alertWorker';
+import { initializeRedis } from '../config/redis';
+import { logger } from '../utils/logger';
+
+async function main() {
+  try {
+    logger.info('=== Starting Alert Worker ===');
+
+    // Initialize Redis
+    await initializeRedis();
+    logger.info('Redis connected');
+
+    // Create and start the alert worker
+    const worker = createAlertWorker();
+    logger.info('Alert worker started and waiting for jobs...');
+    logger.info('Press Ctrl+C to stop the worker');
+
+    // Handle graceful shutdown
+    const shutdown = async () => {
+      logger.info('Shutting down alert worker...');
+      await worker.close();
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+  } catch (error) {
+    logger.error('Failed to start alert worker:', error);
+    process.exit(1);
+  }
+}
+
+main();
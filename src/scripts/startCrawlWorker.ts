@@ -0,0 +1,61 @@
+import 'dotenv/config';
+import { createCrawlWorker } from '../workers/crawlWorker';
+import { initializeRedis, getRedisClient } from '../config/redis';
+import { config } from '../config';
+import { getBreakerConfigFromEnv, initializeBreakerService } from '../services/breaker';
+import { loadRulesConfig } from '../services/rulesService';
+import { loadAllowList } from '../services/allowListService';
+import { logger } from '../utils/logger';
+
+async function main() {
+  try {
+    logger.info('=== Starting Crawl Worker ===');
+
+    // Initialize Redis
+    await initializeRedis();
+    logger.info('Redis connected');
+
+    // Load rules configuration
+    try {
+      loadRulesConfig();
+      logger.info('Rules engine configuration loaded successfully');
+    } catch (error) {
+      logger.error('Failed to load rules configuration:', error);
+      logger.warn('Crawl worker will continue without rules engine');
+    }
+
+    // Load allow-list
+    try {
+      loadAllowList();
+      logger.info('Allow-list loaded successfully');
+    } catch (error) {
+      logger.error('Failed to load allow-list:', error);
+      logger.warn('Crawl worker will continue without allow-list');
+    }
+
+    // Share per-host circuit state with the render worker (the fetcher skips hosts whose circuit is open)
+    if (config.circuitBreaker.enabled) {
+      initializeBreakerService(getRedisClient(), getBreakerConfigFromEnv());
+    }
+
+    // Create and start the crawl worker
+    const worker = createCrawlWorker();
+    logger.info('Crawl worker started and waiting for jobs...');
+    logger.info('Press Ctrl+C to stop the worker');
+
+    // Handle graceful shutdown
+    const shutdown = async () => {
+      logger.info('Shutting down crawl worker...');
+      await worker.close();
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+  } catch (error) {
+    logger.error('Failed to start crawl worker:', error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,7 +1,10 @@
 import 'dotenv/config';
 import { createRenderWorker, shutdownRenderWorker } from '../workers/renderWorker';
-import { initializeRedis } from '../config/redis';
+import { initializeRedis, getRedisClient } from '../config/redis';
+import { config } from '../config';
+import { getBreakerConfigFromEnv, initializeBreakerService } from '../services/breaker';
 import { storageService } from '../services/storageService';
+import { loadRulesConfig } from '../services/rulesService';
 import { logger } from '../utils/logger';
 
 async function main() {
@@ -16,6 +19,20 @@ async function main() {
     await storageService.initialize();
     logger.info('Storage initialized');
 
+    // Load rules configuration (selects the detectors to run per URL)
+    try {
+      loadRulesConfig();
+      logger.info('Rules engine configuration loaded successfully');
+    } catch (error) {
+      logger.error('Failed to load rules configuration:', error);
+      logger.warn('Render worker will run every registered detector');
+    }
+
+    // Share per-host circuit state with the API's fetcher (skips hosts whose circuit is open)
+    if (config.circuitBreaker.enabled) {
+      initializeBreakerService(getRedisClient(), getBreakerConfigFromEnv());
+    }
+
     // Create and start the render worker
     const worker = createRenderWorker();
     logger.info('Render worker started and waiting for jobs...');
@@ -1,6 +1,8 @@
 import 'dotenv/config';
 import { createScanWorker } from '../workers/scanWorker';
-import { initializeRedis } from '../config/redis';
+import { initializeRedis, getRedisClient } from '../config/redis';
+import { config } from '../config';
+import { getBreakerConfigFromEnv, initializeBreakerService } from '../services/breaker';
 import { loadRulesConfig } from '../services/rulesService';
 import { loadAllowList } from '../services/allowListService';
 import { logger } from '../utils/logger';
@@ -31,6 +33,11 @@ async function main() {
       logger.warn('Scan worker will continue without allow-list');
     }
 
+    // Share per-host circuit state with the render worker (the fetcher skips hosts whose circuit is open)
+    if (config.circuitBreaker.enabled) {
+      initializeBreakerService(getRedisClient(), getBreakerConfigFromEnv());
+    }
+
     // Create and start the scan worker
     const worker = createScanWorker();
     logger.info('Scan worker started and waiting for jobs...');
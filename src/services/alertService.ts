@@ -0,0 +1,79 @@
+import { eq, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { alerts, type Alert, type Finding } from '../db/schema';
+import { addAlertJob } from './queueService';
+import type { SlackAlert } from './slackService';
+import { logger } from '../utils/logger';
+
+export type AlertChannel = 'slack';
+
+export interface AlertDetails {
+  fingerprint?: string;
+  latencyMs?: number;
+  status?: number;
+  error?: string;
+  isFirstSeen?: boolean;
+}
+
+export class AlertService {
+  /**
+   * Record an alert for a persisted finding and queue it for delivery
+   */
+  async enqueueAlert(
+    finding: Finding,
+    details: AlertDetails = {},
+    channel: AlertChannel = 'slack'
+  ): Promise<Alert> {
+    const payload: SlackAlert = {
+      findingId: finding.id,
+      runId: finding.runId || undefined,
+      url: finding.url,
+      errorType: finding.findingType || 'unknown',
+      title: finding.title || undefined,
+      latencyMs: details.latencyMs,
+      status: details.status,
+      error: details.error ?? finding.detectedValue ?? undefined,
+      timestamp: new Date(),
+      fingerprint: details.fingerprint ?? finding.fingerprint ?? undefined,
+      isFirstSeen: details.isFirstSeen,
+    };
+
+    const [alert] = await db
+      .insert(alerts)
+      .values({
+        findingId: finding.id,
+        channel,
+        status: 'pending',
+        fingerprint: payload.fingerprint,
+        payload,
+      })
+      .returning();
+
+    const job = await addAlertJob({ alertId: alert.id });
+
+    const [queued] = await db
+      .update(alerts)
+      .set({ jobId: job.id, updatedAt: new Date() })
+      .where(eq(alerts.id, alert.id))
+      .returning();
+
+    logger.info(`[Alerts] Queued ${channel} alert ${alert.id} for finding ${finding.id}`);
+
+    return queued || alert;
+  }
+
+  async getAlertById(id: string): Promise<Alert | undefined> {
+    const [result] = await db.select().from(alerts).where(eq(alerts.id, id));
+    return result;
+  }
+
+  async listAlertsForFinding(findingId: string): Promise<Alert[]> {
+    return db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.findingId, findingId))
+      .orderBy(desc(alerts.createdAt));
+  }
+}
+
+export const alertService = new AlertService();
@@ -3,16 +3,33 @@ import { artifacts, findings, type NewArtifact, type Artifact } from '../db/sche
 import { eq, and, lt } from 'drizzle-orm';
 import { storageService, type StorageResult, type ArtifactType } from './storageService';
 import { logger } from '../utils/logger';
+import { config } from '../config';
 
 export interface SaveArtifactInput {
   findingId: string;
   type: ArtifactType;
   data: Buffer | string | any;
+  filename?: string; // Overrides the default file name
+  device?: string; // Device the evidence was captured as (device matrix rules)
+}
+
+/**
+ * Days an artifact of the given type is kept before it expires
+ */
+export function getRetentionDays(type: ArtifactType): number {
+  switch (type) {
+    case 'trace':
+      return config.traceRetentionDays;
+    case 'video':
+      return config.videoRetentionDays;
+    default:
+      return 7;
+  }
 }
 
 export class ArtifactService {
   async saveArtifact(input: SaveArtifactInput): Promise<Artifact> {
-    const { findingId, type, data } = input;
+    const { findingId, type, data, filename, device } = input;
 
     // Get the finding to retrieve runId
     const [finding] = await db
@@ -39,39 +56,103 @@ export class ArtifactService {
           if (!Buffer.isBuffer(data)) {
             throw new Error('Screenshot data must be a Buffer');
           }
-          storageResult = await storageService.saveScreenshot(finding.runId, findingId, data, finding.url);
+          storageResult = await storageService.saveScreenshot(
+            finding.runId,
+            findingId,
+            data,
+            finding.url,
+            filename
+          );
           break;
 
         case 'har':
-          storageResult = await storageService.saveHAR(finding.runId, findingId, data, finding.url);
+          storageResult = await storageService.saveHAR(
+            finding.runId,
+            findingId,
+            data,
+            finding.url,
+            filename
+          );
           break;
 
         case 'html':
           if (typeof data !== 'string') {
             throw new Error('HTML data must be a string');
           }
-          storageResult = await storageService.saveHTML(finding.runId, findingId, data, finding.url);
+          storageResult = await storageService.saveHTML(
+            finding.runId,
+            findingId,
+            data,
+            finding.url,
+            filename
+          );
           break;
 
         case 'console_logs':
           if (!Array.isArray(data)) {
             throw new Error('Console logs data must be an array');
           }
-          storageResult = await storageService.saveConsoleLogs(finding.runId, findingId, data, finding.url);
+          storageResult = await storageService.saveConsoleLogs(
+            finding.runId,
+            findingId,
+            data,
+            finding.url,
+            filename
+          );
+          break;
+
+        case 'network_log':
+          if (!Array.isArray(data)) {
+            throw new Error('Network log data must be an array');
+          }
+          storageResult = await storageService.saveNetworkLog(
+            finding.runId,
+            findingId,
+            data,
+            finding.url,
+            filename
+          );
+          break;
+
+        case 'trace':
+          if (!Buffer.isBuffer(data)) {
+            throw new Error('Trace data must be a Buffer');
+          }
+          storageResult = await storageService.saveTrace(
+            finding.runId,
+            findingId,
+            data,
+            finding.url,
+            filename
+          );
+          break;
+
+        case 'video':
+          if (!Buffer.isBuffer(data)) {
+            throw new Error('Video data must be a Buffer');
+          }
+          storageResult = await storageService.saveVideo(
+            finding.runId,
+            findingId,
+            data,
+            finding.url,
+            filename
+          );
           break;
 
         default:
           throw new Error(`Unsupported artifact type: ${type}`);
       }
 
-      // Calculate expiration date (7 days from now)
+      // Calculate expiration date (7 days from now; traces and videos have their own retention)
       const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+      expiresAt.setDate(expiresAt.getDate() + getRetentionDays(type));
 
       // Create database record
       const newArtifact: NewArtifact = {
         findingId,
         type,
+        device: device ?? null,
         storageUrl: storageResult.storageUrl,
         size: storageResult.size,
         expiresAt,
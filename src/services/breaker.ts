@@ -1,5 +1,12 @@
 import Redis from 'ioredis';
 import { logger } from '../utils/logger';
+import { config as appConfig } from '../config';
+import {
+  findMatchingRule,
+  getEffectiveBreakerSettings,
+  type RuleBreakerSettings,
+} from './rulesService';
+import { recordBreakerTransition } from './breakerHistory';
 
 export interface BreakerConfig {
   /** Number of consecutive failures before opening the circuit */
@@ -12,6 +19,8 @@ export interface BreakerConfig {
   failureWindowSize?: number;
   /** Failure rate threshold (0-1, default: 0.5 = 50%) */
   failureRateThreshold?: number;
+  /** How long a half-open probe holds its lease before another caller may probe */
+  probeLeaseMs?: number;
 }
 
 export type BreakerState = 'open' | 'half_open' | 'closed';
@@ -22,8 +31,148 @@ const DEFAULT_CONFIG: BreakerConfig = {
   halfOpenProbeDelayMs: 40 * 60 * 1000, // 40 minutes (exponential backoff)
   failureWindowSize: 10,
   failureRateThreshold: 0.5, // 50%
+  probeLeaseMs: 5 * 60 * 1000, // 5 minutes
 };
 
+/**
+ * Keys passed to every state script, in order. All transitions run as Lua
+ * scripts so concurrent workers cannot interleave them (no double opens, no
+ * lost or duplicate half-open probes).
+ */
+const SCRIPT_KEYS = [
+  'state',
+  'nextProbe',
+  'probeLease',
+  'failCount',
+  'openedAt',
+  'failureWindow',
+] as const;
+
+/**
+ * Shared prelude: read the state and promote an open circuit whose probe time
+ * has passed to half-open. Every script returns { state, promoted, ... }.
+ *
+ * KEYS = SCRIPT_KEYS, ARGV[1] = now
+ */
+const PROMOTE_PRELUDE = `
+local now = tonumber(ARGV[1])
+local state = redis.call('GET', KEYS[1]) or 'closed'
+local promoted = 0
+if state == 'open' then
+  local nextProbe = tonumber(redis.call('GET', KEYS[2]))
+  if nextProbe and now >= nextProbe then
+    state = 'half_open'
+    promoted = 1
+    redis.call('SET', KEYS[1], state)
+  end
+end
+`;
+
+const STATE_SCRIPT = `${PROMOTE_PRELUDE}
+return { state, promoted }
+`;
+
+/**
+ * Decide whether a request may go through: closed → yes, open → no,
+ * half-open → only if it takes the probe lease.
+ *
+ * ARGV[2] = probe lease ms. Returns { state, promoted, allowed, lease } where
+ * lease is the token of a lease taken by this call.
+ */
+const ACQUIRE_SCRIPT = `${PROMOTE_PRELUDE}
+if state == 'half_open' then
+  if redis.call('SET', KEYS[3], ARGV[1], 'NX', 'PX', ARGV[2]) then
+    return { state, promoted, 1, ARGV[1] }
+  end
+  return { state, promoted, 0 }
+end
+return { state, promoted, state == 'open' and 0 or 1 }
+`;
+
+/**
+ * Give back a probe lease whose request ended without a recorded outcome, so
+ * the next caller can probe. Only the holder's token releases it.
+ *
+ * ARGV[2] = lease token. Returns { state, promoted, released }.
+ */
+const RELEASE_SCRIPT = `${PROMOTE_PRELUDE}
+if redis.call('GET', KEYS[3]) == ARGV[2] then
+  redis.call('DEL', KEYS[3])
+  return { state, promoted, 1 }
+end
+return { state, promoted, 0 }
+`;
+
+/**
+ * Record a failure and open the circuit when it trips: a failed probe reopens
+ * with the probe backoff, a closed circuit opens on the consecutive-failure
+ * threshold or the failure rate over a full window. While half-open only the
+ * probe lease holder's failure reopens it; a late result from a request that
+ * started before the circuit opened is only counted.
+ *
+ * ARGV[2..6] = failThreshold, openDurationMs, halfOpenProbeDelayMs,
+ * windowSize, failureRateThreshold, ARGV[7] = lease token ('' for none).
+ * Returns { state, promoted, failCount, reason ('' | 'probe' | 'threshold' |
+ * 'rate'), failures, windowLength }.
+ */
+const FAILURE_SCRIPT = `${PROMOTE_PRELUDE}
+local windowSize = tonumber(ARGV[5])
+redis.call('LPUSH', KEYS[6], '0')
+redis.call('LTRIM', KEYS[6], 0, windowSize - 1)
+local failCount = redis.call('INCR', KEYS[4])
+
+local window = redis.call('LRANGE', KEYS[6], 0, windowSize - 1)
+local failures = 0
+for _, outcome in ipairs(window) do
+  if outcome == '0' then
+    failures = failures + 1
+  end
+end
+
+local reason = ''
+local delay = 0
+if state == 'half_open' then
+  if ARGV[7] ~= '' and redis.call('GET', KEYS[3]) == ARGV[7] then
+    reason = 'probe'
+  end
+  delay = tonumber(ARGV[4])
+elseif state == 'closed' then
+  if failCount >= tonumber(ARGV[2]) then
+    reason = 'threshold'
+  elseif #window >= windowSize and failures / #window >= tonumber(ARGV[6]) then
+    reason = 'rate'
+  end
+  delay = tonumber(ARGV[3])
+end
+
+if reason ~= '' then
+  redis.call('SET', KEYS[1], 'open')
+  redis.call('SET', KEYS[5], ARGV[1])
+  redis.call('SET', KEYS[2], string.format('%d', now + delay))
+  redis.call('DEL', KEYS[3])
+end
+return { state, promoted, failCount, reason, failures, #window }
+`;
+
+/**
+ * Record a success; a successful probe closes the circuit and clears its
+ * counters. Only the probe lease holder's success closes a half-open circuit.
+ *
+ * ARGV[2] = windowSize, ARGV[3] = lease token ('' for none).
+ * Returns { state, promoted, closed }.
+ */
+const SUCCESS_SCRIPT = `${PROMOTE_PRELUDE}
+redis.call('LPUSH', KEYS[6], '1')
+redis.call('LTRIM', KEYS[6], 0, tonumber(ARGV[2]) - 1)
+if state == 'half_open' and ARGV[3] ~= '' and redis.call('GET', KEYS[3]) == ARGV[3] then
+  redis.call('SET', KEYS[1], 'closed')
+  redis.call('SET', KEYS[4], '0')
+  redis.call('DEL', KEYS[5], KEYS[2], KEYS[6], KEYS[3])
+  return { state, promoted, 1 }
+end
+return { state, promoted, 0 }
+`;
+
 export class BreakerService {
   private redis: Redis;
   private config: Required<BreakerConfig>;
@@ -35,6 +184,36 @@ export class BreakerService {
       ...config,
       failureWindowSize: config.failureWindowSize ?? DEFAULT_CONFIG.failureWindowSize!,
       failureRateThreshold: config.failureRateThreshold ?? DEFAULT_CONFIG.failureRateThreshold!,
+      probeLeaseMs: config.probeLeaseMs ?? DEFAULT_CONFIG.probeLeaseMs!,
+    };
+  }
+
+  /**
+   * Settings for a target: the `breaker` block of the rule matching it (and
+   * `defaults.breaker`) over the service config
+   */
+  getConfig(targetId: string): Required<BreakerConfig> {
+    let settings: RuleBreakerSettings;
+    try {
+      settings = getEffectiveBreakerSettings(findMatchingRule(targetId));
+    } catch {
+      // Rules not loaded
+      return this.config;
+    }
+
+    return {
+      failThreshold: settings.failThreshold ?? this.config.failThreshold,
+      openDurationMs:
+        settings.openSeconds !== undefined
+          ? settings.openSeconds * 1000
+          : this.config.openDurationMs,
+      halfOpenProbeDelayMs:
+        settings.probeBackoffSeconds !== undefined
+          ? settings.probeBackoffSeconds * 1000
+          : this.config.halfOpenProbeDelayMs,
+      failureWindowSize: settings.windowSize ?? this.config.failureWindowSize,
+      failureRateThreshold: settings.failureRateThreshold ?? this.config.failureRateThreshold,
+      probeLeaseMs: this.config.probeLeaseMs,
     };
   }
 
@@ -45,30 +224,43 @@ export class BreakerService {
       nextProbe: `cb:${targetId}:next_probe`,
       openedAt: `cb:${targetId}:opened_at`,
       failureWindow: `cb:${targetId}:failure_window`,
+      probeLease: `cb:${targetId}:probe_lease`,
     };
   }
 
+  /**
+   * Run a state script against the target's keys (in the order of SCRIPT_KEYS)
+   */
+  private async runScript(
+    script: string,
+    targetId: string,
+    ...args: Array<string | number>
+  ): Promise<Array<string | number>> {
+    const keys = this.getKeys(targetId);
+    const result = await this.redis.eval(
+      script,
+      SCRIPT_KEYS.length,
+      ...SCRIPT_KEYS.map((name) => keys[name]),
+      Date.now(),
+      ...args
+    );
+
+    const [, promoted] = result as [string, number];
+    if (promoted === 1) {
+      logger.info(`[Breaker] ${new URL(targetId).host}: open → half_open (probe)`);
+      await recordBreakerTransition({
+        targetId,
+        fromState: 'open',
+        toState: 'half_open',
+        reason: 'probe_due',
+      });
+    }
+    return result as Array<string | number>;
+  }
+
   async getState(targetId: string): Promise<BreakerState> {
     try {
-      const keys = this.getKeys(targetId);
-      const state = await this.redis.get(keys.state);
-
-      if (!state) {
-        return 'closed';
-      }
-
-      // Check if we should transition from open to half-open
-      if (state === 'open') {
-        const nextProbeStr = await this.redis.get(keys.nextProbe);
-        if (nextProbeStr) {
-          const nextProbe = parseInt(nextProbeStr, 10);
-          if (Date.now() >= nextProbe) {
-            await this.transitionToHalfOpen(targetId);
-            return 'half_open';
-          }
-        }
-      }
-
+      const [state] = await this.runScript(STATE_SCRIPT, targetId);
       return state as BreakerState;
     } catch (error) {
       logger.error(`Failed to get breaker state for ${targetId}:`, error);
@@ -77,136 +269,99 @@ export class BreakerService {
     }
   }
 
-  private async transitionToHalfOpen(targetId: string): Promise<void> {
-    try {
-      const keys = this.getKeys(targetId);
-      await this.redis.set(keys.state, 'half_open');
-      const host = new URL(targetId).host;
-      logger.info(`[Breaker] ${host}: closed → half_open (probe)`);
-    } catch (error) {
-      logger.error(`Failed to transition ${targetId} to half-open:`, error);
-    }
-  }
-
-  async recordFailure(targetId: string, errorCode?: string): Promise<void> {
+  /**
+   * Record a failed request. `probeLease` is the token acquire() returned for
+   * it; without it the failure cannot reopen a half-open circuit.
+   */
+  async recordFailure(
+    targetId: string,
+    errorCode?: string,
+    probeLease?: string | null
+  ): Promise<void> {
     try {
-      const keys = this.getKeys(targetId);
-      const currentState = await this.getState(targetId);
-
-      // Track failure in sliding window
-      await this.redis.lpush(keys.failureWindow, '0'); // 0 = failure
-      await this.redis.ltrim(keys.failureWindow, 0, this.config.failureWindowSize - 1);
-
-      // Increment failure counter
-      const failCount = await this.redis.incr(keys.failCount);
+      const config = this.getConfig(targetId);
+      const [previousState, , failCount, reason, failures, windowLength] = await this.runScript(
+        FAILURE_SCRIPT,
+        targetId,
+        config.failThreshold,
+        config.openDurationMs,
+        config.halfOpenProbeDelayMs,
+        config.failureWindowSize,
+        config.failureRateThreshold,
+        probeLease ?? ''
+      );
 
       logger.warn(
-        `Failure recorded for ${targetId} (count: ${failCount}, state: ${currentState})`,
+        `Failure recorded for ${targetId} (count: ${failCount}, state: ${previousState})`,
         errorCode ? { errorCode } : {}
       );
 
-      // Handle state-specific logic
-      if (currentState === 'half_open') {
-        // Failed probe → reopen circuit with extended cooldown
-        const host = new URL(targetId).host;
-        await this.openCircuit(targetId, true);
-        logger.warn(`[Breaker] ${host}: half_open → open (probe failed, extended cooldown)`);
-      } else if (currentState === 'closed') {
-        // Check if we should open the circuit
-        const shouldOpen = await this.shouldOpenCircuit(targetId, failCount);
-        if (shouldOpen) {
-          const host = new URL(targetId).host;
-          await this.openCircuit(targetId, false);
-          const openMinutes = Math.round(this.config.openDurationMs / 60000);
-          logger.warn(`[Breaker] ${host}: closed → open (${failCount} failures, ${openMinutes}m window)`);
-        }
-      }
-    } catch (error) {
-      logger.error(`Failed to record failure for ${targetId}:`, error);
-    }
-  }
-
-  async recordSuccess(targetId: string): Promise<void> {
-    try {
-      const keys = this.getKeys(targetId);
-      const currentState = await this.getState(targetId);
-
-      // Track success in sliding window
-      await this.redis.lpush(keys.failureWindow, '1'); // 1 = success
-      await this.redis.ltrim(keys.failureWindow, 0, this.config.failureWindowSize - 1);
-
-      logger.debug(`Success recorded for ${targetId} (state: ${currentState})`);
-
-      // If half-open and probe succeeded, reset to closed
-      if (currentState === 'half_open') {
-        const host = new URL(targetId).host;
-        await this.resetCircuit(targetId);
-        logger.info(`[Breaker] ${host}: half_open → closed (probe succeeded)`);
-      }
-    } catch (error) {
-      logger.error(`Failed to record success for ${targetId}:`, error);
-    }
-  }
-
-  private async shouldOpenCircuit(targetId: string, failCount: number): Promise<boolean> {
-    try {
-      // Check consecutive failure threshold
-      if (failCount >= this.config.failThreshold) {
-        return true;
+      if (!reason) {
+        return;
       }
 
-      // Check failure rate in sliding window
-      const keys = this.getKeys(targetId);
-      const window = await this.redis.lrange(
-        keys.failureWindow,
-        0,
-        this.config.failureWindowSize - 1
+      // Failed probes reopen with the extended delay
+      const host = new URL(targetId).host;
+      const delayMs = reason === 'probe' ? config.halfOpenProbeDelayMs : config.openDurationMs;
+      const windowMinutes = Math.round(delayMs / 60000);
+      logger.info(
+        `[Breaker] ${host}: open (${windowMinutes}m window until ${new Date(Date.now() + delayMs).toISOString()})`
       );
 
-      if (window.length >= this.config.failureWindowSize) {
-        const failures = window.filter((v) => v === '0').length;
-        const failureRate = failures / window.length;
+      const failureRate = Number(windowLength) > 0 ? Number(failures) / Number(windowLength) : null;
+      await recordBreakerTransition({
+        targetId,
+        fromState: reason === 'probe' ? 'half_open' : 'closed',
+        toState: 'open',
+        reason: reason === 'probe' ? 'probe_failed' : (reason as 'threshold' | 'rate'),
+        failureRate,
+        failCount: Number(failCount),
+      });
 
-        if (failureRate >= this.config.failureRateThreshold) {
+      if (reason === 'probe') {
+        logger.warn(`[Breaker] ${host}: half_open → open (probe failed, extended cooldown)`);
+      } else {
+        if (reason === 'rate') {
           logger.warn(
-            `Failure rate threshold exceeded for ${targetId}: ${(failureRate * 100).toFixed(1)}%`
+            `Failure rate threshold exceeded for ${targetId}: ${(failureRate! * 100).toFixed(1)}%`
           );
-          return true;
         }
+        logger.warn(
+          `[Breaker] ${host}: closed → open (${failCount} failures, ${windowMinutes}m window)`
+        );
       }
-
-      return false;
     } catch (error) {
-      logger.error(`Failed to check if circuit should open for ${targetId}:`, error);
-      return false;
+      logger.error(`Failed to record failure for ${targetId}:`, error);
     }
   }
 
-  private async openCircuit(targetId: string, isProbeFailure: boolean): Promise<void> {
+  /**
+   * Record a successful request. `probeLease` is the token acquire() returned
+   * for it; without it the success cannot close a half-open circuit.
+   */
+  async recordSuccess(targetId: string, probeLease?: string | null): Promise<void> {
     try {
-      const keys = this.getKeys(targetId);
-      const now = Date.now();
-
-      // Use extended delay for failed probes
-      const delayMs = isProbeFailure
-        ? this.config.halfOpenProbeDelayMs
-        : this.config.openDurationMs;
+      const config = this.getConfig(targetId);
+      const [previousState, , closed] = await this.runScript(
+        SUCCESS_SCRIPT,
+        targetId,
+        config.failureWindowSize,
+        probeLease ?? ''
+      );
 
-      const nextProbe = now + delayMs;
+      logger.debug(`Success recorded for ${targetId} (state: ${previousState})`);
 
-      await this.redis
-        .multi()
-        .set(keys.state, 'open')
-        .set(keys.openedAt, now.toString())
-        .set(keys.nextProbe, nextProbe.toString())
-        .exec();
-
-      // Concise single-line log with key info
-      const host = new URL(targetId).host;
-      const windowMinutes = Math.round(delayMs / 60000);
-      logger.info(`[Breaker] ${host}: open (${windowMinutes}m window until ${new Date(nextProbe).toISOString()})`);
+      if (closed === 1) {
+        logger.info(`[Breaker] ${new URL(targetId).host}: half_open → closed (probe succeeded)`);
+        await recordBreakerTransition({
+          targetId,
+          fromState: 'half_open',
+          toState: 'closed',
+          reason: 'probe_succeeded',
+        });
+      }
     } catch (error) {
-      logger.error(`Failed to open circuit for ${targetId}:`, error);
+      logger.error(`Failed to record success for ${targetId}:`, error);
     }
   }
 
@@ -221,6 +376,7 @@ export class BreakerService {
         .del(keys.openedAt)
         .del(keys.nextProbe)
         .del(keys.failureWindow)
+        .del(keys.probeLease)
         .exec();
 
       logger.info(`Circuit breaker reset to closed for ${targetId}`);
@@ -229,14 +385,51 @@ export class BreakerService {
     }
   }
 
-  async shouldSkip(targetId: string): Promise<boolean> {
+  /**
+   * Whether a request to the target may go through. While half-open only the
+   * caller that takes the probe lease goes through (`probeLease` is its
+   * token); the lease is released when its outcome is recorded, by
+   * releaseProbe(), or expires after probeLeaseMs.
+   */
+  async acquire(targetId: string): Promise<{ allowed: boolean; probeLease: string | null }> {
     try {
-      const state = await this.getState(targetId);
-      return state === 'open';
+      const [state, , allowed, lease] = await this.runScript(
+        ACQUIRE_SCRIPT,
+        targetId,
+        this.getConfig(targetId).probeLeaseMs
+      );
+      if (state === 'half_open' && allowed === 1) {
+        logger.debug(`[Breaker] ${new URL(targetId).host}: probe lease taken`);
+      }
+      return { allowed: allowed === 1, probeLease: lease !== undefined ? String(lease) : null };
     } catch (error) {
       logger.error(`Failed to check if should skip ${targetId}:`, error);
       // Default to allowing requests on error
-      return false;
+      return { allowed: true, probeLease: null };
+    }
+  }
+
+  /**
+   * Whether the target's circuit is open. Read-only: it takes no probe lease,
+   * so use acquire() before sending a request.
+   */
+  async shouldSkip(targetId: string): Promise<boolean> {
+    return (await this.getState(targetId)) === 'open';
+  }
+
+  /**
+   * Release a probe lease taken by acquire() when the request ended without
+   * an outcome that counts (e.g. a 4xx, or a deferred job). No-op once the
+   * outcome has been recorded or the lease was taken over.
+   */
+  async releaseProbe(targetId: string, probeLease: string): Promise<void> {
+    try {
+      const [, , released] = await this.runScript(RELEASE_SCRIPT, targetId, probeLease);
+      if (released === 1) {
+        logger.debug(`[Breaker] ${new URL(targetId).host}: probe lease released`);
+      }
+    } catch (error) {
+      logger.error(`Failed to release probe lease for ${targetId}:`, error);
     }
   }
 
@@ -278,7 +471,7 @@ export class BreakerService {
         this.getState(targetId),
         this.redis.get(keys.failCount),
         this.redis.get(keys.openedAt),
-        this.redis.lrange(keys.failureWindow, 0, this.config.failureWindowSize - 1),
+        this.redis.lrange(keys.failureWindow, 0, this.getConfig(targetId).failureWindowSize - 1),
       ]);
 
       const failCount = parseInt(failCountStr || '0', 10);
@@ -352,7 +545,7 @@ export class BreakerService {
           this.redis.get(keys.failCount),
           this.redis.get(keys.openedAt),
           this.redis.get(keys.nextProbe),
-          this.redis.lrange(keys.failureWindow, 0, this.config.failureWindowSize - 1),
+          this.redis.lrange(keys.failureWindow, 0, this.getConfig(targetId).failureWindowSize - 1),
         ]);
 
         const failCount = parseInt(failCountStr || '0', 10);
@@ -408,16 +601,83 @@ export class BreakerService {
     }
   }
 
+  /**
+   * Hold a circuit open for `durationMs` (admin action, e.g. during a known
+   * outage). When it ends the circuit goes half-open and probes as usual.
+   */
+  async forceOpen(targetId: string, durationMs: number): Promise<Date> {
+    const previousState = await this.getState(targetId);
+    const keys = this.getKeys(targetId);
+    const now = Date.now();
+    const nextProbe = now + durationMs;
+
+    await this.redis
+      .multi()
+      .set(keys.state, 'open')
+      .set(keys.openedAt, now.toString())
+      .set(keys.nextProbe, nextProbe.toString())
+      .del(keys.probeLease)
+      .exec();
+
+    logger.warn(
+      `[Breaker] ${targetId}: forced open until ${new Date(nextProbe).toISOString()} (admin)`
+    );
+    await recordBreakerTransition({
+      targetId,
+      fromState: previousState,
+      toState: 'open',
+      reason: 'manual_open',
+    });
+    return new Date(nextProbe);
+  }
+
   /**
    * Manually reset a circuit breaker (admin action)
    */
   async reset(targetId: string): Promise<void> {
+    const previousState = await this.getState(targetId);
     await this.resetCircuit(targetId);
+
+    if (previousState !== 'closed') {
+      await recordBreakerTransition({
+        targetId,
+        fromState: previousState,
+        toState: 'closed',
+        reason: 'manual_reset',
+      });
+    }
   }
 }
 
 let breakerInstance: BreakerService | null = null;
 
+/**
+ * Per-host circuit key of a URL (its origin), shared by the fetcher and the
+ * render worker so both count against and skip the same circuit
+ */
+export function getBreakerTargetId(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Service-wide settings from BREAKER_* (rules.json can override them per rule)
+ */
+export function getBreakerConfigFromEnv(): BreakerConfig {
+  const { circuitBreaker } = appConfig;
+  return {
+    failThreshold: circuitBreaker.failThreshold,
+    openDurationMs: circuitBreaker.openMinutes * 60 * 1000, // 20 min
+    halfOpenProbeDelayMs: circuitBreaker.openMinutes * 2 * 60 * 1000, // openDuration × 2 → 40 min
+    failureWindowSize: circuitBreaker.errorRateWindow,
+    failureRateThreshold: circuitBreaker.errorRateThresholdPct / 100,
+    probeLeaseMs: circuitBreaker.probeLeaseSeconds * 1000,
+  };
+}
+
 export function initializeBreakerService(
   redis: Redis,
   config?: Partial<BreakerConfig>
@@ -0,0 +1,114 @@
+import { desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  breakerActions,
+  breakerTransitions,
+  type BreakerAction,
+  type BreakerTransition,
+} from '../db/schema';
+import type { BreakerState } from './breaker';
+import { recordBreakerStateChange } from '../utils/metrics';
+import { logger } from '../utils/logger';
+
+export type BreakerTransitionReason =
+  | 'threshold'
+  | 'rate'
+  | 'probe_due'
+  | 'probe_failed'
+  | 'probe_succeeded'
+  | 'manual_open'
+  | 'manual_reset';
+
+export type BreakerActionType = 'force_open' | 'force_close' | 'reset' | 'pause' | 'unpause';
+
+export interface BreakerActionEvent {
+  action: BreakerActionType;
+  /** Breaker target, or the host for pause/unpause */
+  targetId: string;
+  /** Authenticated admin user */
+  actor: string;
+  /** Display name given with the request (not verified) */
+  actorName?: string | null;
+  reason?: string | null;
+  expiresAt?: Date | null;
+}
+
+export interface BreakerTransitionEvent {
+  targetId: string;
+  fromState: BreakerState;
+  toState: BreakerState;
+  reason: BreakerTransitionReason;
+  /** Failure rate (0-1) over the failure window when the transition happened */
+  failureRate?: number | null;
+  failCount?: number | null;
+}
+
+/**
+ * Count a breaker transition in the metrics and persist it to
+ * breaker_transitions. Never throws: the breaker keeps working without the
+ * database.
+ */
+export async function recordBreakerTransition(event: BreakerTransitionEvent): Promise<void> {
+  recordBreakerStateChange(event.targetId, event.fromState, event.toState);
+
+  try {
+    await db.insert(breakerTransitions).values({
+      targetId: event.targetId,
+      fromState: event.fromState,
+      toState: event.toState,
+      reason: event.reason,
+      failureRate: event.failureRate ?? null,
+      failCount: event.failCount ?? null,
+    });
+  } catch (error) {
+    logger.warn(`[Breaker] Failed to persist transition for ${event.targetId}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Most recent transitions of a target, newest first
+ */
+export async function getBreakerHistory(
+  targetId: string,
+  limit: number = 100
+): Promise<BreakerTransition[]> {
+  return db
+    .select()
+    .from(breakerTransitions)
+    .where(eq(breakerTransitions.targetId, targetId))
+    .orderBy(desc(breakerTransitions.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Write the audit record of a manual breaker control
+ */
+export async function recordBreakerAction(event: BreakerActionEvent): Promise<BreakerAction> {
+  const [action] = await db
+    .insert(breakerActions)
+    .values({
+      action: event.action,
+      targetId: event.targetId,
+      actor: event.actor,
+      actorName: event.actorName ?? null,
+      reason: event.reason ?? null,
+      expiresAt: event.expiresAt ?? null,
+    })
+    .returning();
+  return action;
+}
+
+/**
+ * Most recent manual controls, newest first, optionally for one target
+ */
+export async function getBreakerActions(
+  targetId?: string,
+  limit: number = 100
+): Promise<BreakerAction[]> {
+  const query = db.select().from(breakerActions);
+  return (targetId ? query.where(eq(breakerActions.targetId, targetId)) : query)
+    .orderBy(desc(breakerActions.createdAt))
+    .limit(limit);
+}
@@ -0,0 +1,305 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+import { logger } from '../utils/logger';
+import { recordBrowserRelaunch, updateActiveBrowserContexts } from '../utils/metrics';
+
+export interface BrowserPoolConfig {
+  /** Contexts checked out at once; acquire() waits for a free slot beyond this */
+  maxContexts: number;
+  /** Idle contexts kept ready with the default context options */
+  warmContexts: number;
+  /** Contexts (one page each) served by a browser before it is recycled */
+  maxPagesPerBrowser: number;
+  /** Options used for warm contexts; callers asking for the same options get a warm one */
+  defaultContextOptions: BrowserContextOptions;
+  /** Browser launcher (defaults to headless Chromium) */
+  launch?: () => Promise<Browser>;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  activeContexts: number;
+  warmContexts: number;
+  waiting: number;
+  relaunches: number;
+}
+
+interface PooledBrowser {
+  id: number;
+  browser: Browser;
+  served: number;
+  active: number;
+  warm: BrowserContext[];
+  warming: number;
+  retired: boolean;
+}
+
+function launchChromium(): Promise<Browser> {
+  return chromium.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+  });
+}
+
+/**
+ * Pool of browser contexts over a recycled Chromium instance.
+ *
+ * Contexts are never reused between captures (cookies and storage would leak);
+ * "warm" contexts are fresh ones created ahead of time. A browser is retired
+ * after serving maxPagesPerBrowser contexts and closed once its last context
+ * is released, and a browser that disconnects unexpectedly is relaunched.
+ */
+export class BrowserPool {
+  private config: BrowserPoolConfig;
+  private current: PooledBrowser | null = null;
+  private launching: Promise<PooledBrowser> | null = null;
+  private browsers = new Set<PooledBrowser>();
+  private owners = new Map<BrowserContext, PooledBrowser>();
+  private waiters: Array<() => void> = [];
+  private active = 0;
+  private relaunches = 0;
+  private nextId = 1;
+
+  constructor(config: BrowserPoolConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Launch the browser and create the warm contexts
+   */
+  async initialize(): Promise<void> {
+    const pooled = await this.getBrowser();
+    await this.fillWarm(pooled);
+  }
+
+  /**
+   * Check out a context (waits while maxContexts are in use).
+   * Every acquired context must be handed back with release().
+   */
+  async acquire(contextOptions: BrowserContextOptions = {}): Promise<BrowserContext> {
+    while (this.active >= this.config.maxContexts) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    }
+
+    this.active++;
+    updateActiveBrowserContexts(this.active);
+
+    try {
+      const pooled = await this.getBrowser();
+      const context =
+        (this.isDefaultOptions(contextOptions) && pooled.warm.shift()) ||
+        (await pooled.browser.newContext({
+          ...this.config.defaultContextOptions,
+          ...contextOptions,
+        }));
+
+      pooled.served++;
+      pooled.active++;
+      this.owners.set(context, pooled);
+
+      if (pooled.served >= this.config.maxPagesPerBrowser) {
+        this.retire(pooled);
+      } else {
+        this.fillWarm(pooled).catch(() => undefined);
+      }
+
+      return context;
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+  }
+
+  /**
+   * Close a context and free its slot (closing writes any recorded HAR)
+   */
+  async release(context: BrowserContext): Promise<void> {
+    const pooled = this.owners.get(context);
+    this.owners.delete(context);
+
+    try {
+      await context.close();
+    } catch (error) {
+      // Already closed, or its browser crashed
+      logger.debug(
+        'Failed to close browser context:',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    if (!pooled) {
+      return;
+    }
+
+    pooled.active--;
+    if (pooled.retired && pooled.active === 0) {
+      await this.closeBrowser(pooled);
+    }
+    this.releaseSlot();
+  }
+
+  /**
+   * Close every browser. Contexts still checked out are closed with them.
+   */
+  async close(): Promise<void> {
+    const browsers = Array.from(this.browsers);
+    for (const pooled of browsers) {
+      pooled.retired = true;
+    }
+
+    this.current = null;
+    this.owners.clear();
+    this.active = 0;
+    updateActiveBrowserContexts(0);
+    this.waiters.splice(0).forEach((resolve) => resolve());
+
+    await Promise.all(browsers.map((pooled) => this.closeBrowser(pooled)));
+  }
+
+  stats(): BrowserPoolStats {
+    return {
+      browsers: this.browsers.size,
+      activeContexts: this.active,
+      warmContexts: this.current ? this.current.warm.length : 0,
+      waiting: this.waiters.length,
+      relaunches: this.relaunches,
+    };
+  }
+
+  private releaseSlot(): void {
+    this.active = Math.max(0, this.active - 1);
+    updateActiveBrowserContexts(this.active);
+    this.waiters.shift()?.();
+  }
+
+  private async getBrowser(): Promise<PooledBrowser> {
+    if (this.current && !this.current.retired) {
+      return this.current;
+    }
+
+    if (!this.launching) {
+      this.launching = this.launchBrowser().finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  private async launchBrowser(): Promise<PooledBrowser> {
+    const browser = await (this.config.launch || launchChromium)();
+    const pooled: PooledBrowser = {
+      id: this.nextId++,
+      browser,
+      served: 0,
+      active: 0,
+      warm: [],
+      warming: 0,
+      retired: false,
+    };
+
+    browser.on('disconnected', () => this.handleDisconnect(pooled));
+    this.browsers.add(pooled);
+    this.current = pooled;
+
+    logger.info(`Browser ${pooled.id} launched`);
+    return pooled;
+  }
+
+  /**
+   * Stop handing out contexts from a browser that has served its quota
+   */
+  private retire(pooled: PooledBrowser): void {
+    pooled.retired = true;
+    if (this.current === pooled) {
+      this.current = null;
+    }
+
+    this.relaunches++;
+    recordBrowserRelaunch('recycle');
+    logger.info(
+      `Browser ${pooled.id} served ${pooled.served} contexts, recycling after ${pooled.active} in-flight context(s) finish`
+    );
+
+    const warm = pooled.warm.splice(0);
+    Promise.all(warm.map((context) => context.close().catch(() => undefined))).catch(
+      () => undefined
+    );
+
+    if (pooled.active === 0) {
+      this.closeBrowser(pooled).catch(() => undefined);
+    }
+  }
+
+  private async closeBrowser(pooled: PooledBrowser): Promise<void> {
+    this.browsers.delete(pooled);
+    try {
+      await pooled.browser.close();
+      logger.info(`Browser ${pooled.id} closed`);
+    } catch (error) {
+      logger.warn(
+        `Failed to close browser ${pooled.id}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Crash detection: a browser that disconnects without being retired is
+   * dropped and a replacement is launched (in-flight contexts on it fail)
+   */
+  private handleDisconnect(pooled: PooledBrowser): void {
+    this.browsers.delete(pooled);
+    if (pooled.retired) {
+      return;
+    }
+
+    pooled.retired = true;
+    pooled.warm = [];
+    if (this.current === pooled) {
+      this.current = null;
+    }
+
+    this.relaunches++;
+    recordBrowserRelaunch('crash');
+    logger.error(
+      `Browser ${pooled.id} disconnected unexpectedly with ${pooled.active} context(s) in use, relaunching`
+    );
+
+    this.initialize().catch((error) => {
+      logger.error('Failed to relaunch browser:', error);
+    });
+  }
+
+  private async fillWarm(pooled: PooledBrowser): Promise<void> {
+    while (!pooled.retired && pooled.warm.length + pooled.warming < this.config.warmContexts) {
+      pooled.warming++;
+      try {
+        const context = await pooled.browser.newContext(this.config.defaultContextOptions);
+        if (pooled.retired) {
+          await context.close().catch(() => undefined);
+        } else {
+          pooled.warm.push(context);
+        }
+      } catch (error) {
+        logger.warn(
+          `Failed to create warm context on browser ${pooled.id}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        return;
+      } finally {
+        pooled.warming--;
+      }
+    }
+  }
+
+  /**
+   * Warm contexts can only serve callers asking for exactly the default options
+   * (e.g. HAR recording has to be configured when the context is created)
+   */
+  private isDefaultOptions(contextOptions: BrowserContextOptions): boolean {
+    const defaults = this.config.defaultContextOptions as Record<string, unknown>;
+    return Object.entries(contextOptions).every(
+      ([key, value]) =>
+        value === undefined || JSON.stringify(value) === JSON.stringify(defaults[key])
+    );
+  }
+}
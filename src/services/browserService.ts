@@ -1,5 +1,11 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright';
+import { BrowserContext, BrowserContextOptions, Page, Request } from 'playwright';
 import { logger } from '../utils/logger';
+import { config } from '../config';
+import { BrowserPool } from './browserPool';
+import { resolveDevice } from './deviceProfiles';
+import { describeJourneyStep, type JourneyAction, type JourneyStep } from './journeyService';
+import { getProxyPool, proxyServerUrl, type ProxyEndpoint } from './fetcher/proxyPool';
+import { BlockedDestinationError, checkDestination } from './destinationGuard';
 
 export interface ConsoleLogEntry {
   timestamp: string;
@@ -12,9 +18,16 @@ export interface ConsoleLogEntry {
 export interface NetworkRequest {
   url: string;
   method: string;
-  status: number;
+  resourceType: string; // 'document', 'script', 'xhr', 'fetch', 'image', ...
+  status: number | null; // null when no response was received
   statusText: string;
-  headers: Record<string, string>;
+  headers: Record<string, string>; // Response headers
+  /** Main-frame navigation (the page itself) rather than a sub-request */
+  navigation: boolean;
+  /** Host differs from the page's host */
+  thirdParty: boolean;
+  /** Playwright failure text (e.g. net::ERR_BLOCKED_BY_CLIENT) for failed requests */
+  failure?: string;
   timing: {
     startTime: number;
     endTime: number;
@@ -27,6 +40,9 @@ export interface EvidenceCapture {
   html: string;
   consoleLogs: ConsoleLogEntry[];
   har: any; // HAR (HTTP Archive) format
+  networkRequests: NetworkRequest[]; // Every request the page made (kept even when the HAR is missing)
+  trace?: Buffer; // Playwright trace.zip (open with `npx playwright show-trace`)
+  video?: Buffer; // WebM recording of the page
   title: string;
   url: string;
   timestamp: string;
@@ -34,6 +50,9 @@ export interface EvidenceCapture {
     loadTime: number;
     finalUrl: string;
     viewport: { width: number; height: number };
+    device?: string; // Playwright device descriptor the page was emulated as
+    proxy?: { id: string; egress?: string }; // Egress proxy the page was loaded through
+    status?: number; // HTTP status of the main document
   };
 }
 
@@ -43,28 +62,229 @@ export interface ScanOptions {
   viewport?: { width: number; height: number };
   userAgent?: string;
   captureHAR?: boolean;
+  /** Playwright device descriptor name (overrides the desktop viewport and user agent) */
+  device?: string;
+  /** Record a Playwright trace (DOM snapshots, screenshots, network) */
+  captureTrace?: boolean;
+  /** Record a WebM video of the page */
+  recordVideo?: boolean;
+  /**
+   * Egress proxy for the page (null loads it directly). Defaults to one from
+   * the proxy pool when PROXY_BROWSER_ENABLED is set.
+   */
+  proxy?: ProxyEndpoint | null;
+  /**
+   * Checked before each navigation retry; returning true gives up early
+   * (e.g. the host's circuit breaker opened in the meantime)
+   */
+  stopRetrying?: () => Promise<boolean>;
+}
+
+/**
+ * Raised by captureEvidence when the page could not be loaded at all (every
+ * navigation attempt failed), as opposed to failures after it loaded
+ */
+export class NavigationError extends Error {
+  readonly code = 'NAVIGATION_FAILED';
+
+  constructor(
+    readonly url: string,
+    readonly attempts: number,
+    readonly reason: string
+  ) {
+    super(`Navigation failed after ${attempts} attempts: ${reason}`);
+    this.name = 'NavigationError';
+  }
+}
+
+export interface FormField {
+  tag: string; // 'input', 'textarea', 'select'
+  type: string;
+  name: string;
+  id: string;
+  placeholder: string;
+  autocomplete: string;
+  required: boolean;
+}
+
+export interface FormDescriptor {
+  index: number;
+  selector: string;
+  action: string;
+  method: string;
+  fields: FormField[];
+  hasSubmitButton: boolean;
+}
+
+export interface FormSubmissionAttempt {
+  form: FormDescriptor;
+  filledFields: string[];
+  /** Status of the response to the submission request (null if none was observed) */
+  responseStatus: number | null;
+  responseHeaders: Record<string, string>;
+  requestUrl: string | null;
+  requestMethod: string | null;
+  finalUrl: string;
+  title: string;
+  html: string;
+  navigated: boolean;
+  domChanged: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+export interface FormSubmitOptions {
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
+  timeout?: number;
+  submitTimeout?: number;
+  maxForms?: number;
+  userAgent?: string;
+  /** Egress proxy (null submits directly); defaults as for captureEvidence */
+  proxy?: ProxyEndpoint | null;
+  /** Resolves the value to type into a field (null leaves the field untouched) */
+  resolveValue: (field: FormField) => string | null;
+}
+
+export interface JourneyOptions {
+  waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
+  timeout?: number; // Navigation timeout
+  stepTimeout?: number; // Default timeout for non-navigation steps
+  viewport?: { width: number; height: number };
+  userAgent?: string;
+  /** Egress proxy (null runs the journey directly); defaults as for captureEvidence */
+  proxy?: ProxyEndpoint | null;
+}
+
+export interface JourneyStepResult {
+  index: number;
+  action: JourneyAction;
+  name: string;
+  status: 'passed' | 'failed';
+  error?: string;
+  url: string;
+  title: string;
+  screenshot: Buffer;
+  html: string;
+  durationMs: number;
+  /** Observed submission for `submit` steps */
+  submission?: FormSubmissionAttempt;
+}
+
+export interface JourneyResult {
+  steps: JourneyStepResult[];
+  completed: boolean;
+  /** Index of the step that failed (null if every step passed) */
+  failedStep: number | null;
+  consoleLogs: ConsoleLogEntry[];
+  durationMs: number;
+}
+
+const DEFAULT_USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+function getUrlHostname(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Playwright context proxy settings for an egress proxy
+ */
+function contextProxy(proxy: ProxyEndpoint): NonNullable<BrowserContextOptions['proxy']> {
+  return {
+    server: proxyServerUrl(proxy),
+    ...(proxy.username !== undefined && {
+      username: proxy.username,
+      password: proxy.password ?? '',
+    }),
+  };
 }
 
 export class BrowserService {
-  private browser: Browser | null = null;
+  private pool: BrowserPool;
 
-  async initialize(): Promise<void> {
-    if (!this.browser) {
-      this.browser = await chromium.launch({
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+  constructor(pool?: BrowserPool) {
+    this.pool =
+      pool ||
+      new BrowserPool({
+        maxContexts: config.browserPool.maxContexts,
+        warmContexts: config.browserPool.warmContexts,
+        maxPagesPerBrowser: config.browserPool.maxPagesPerBrowser,
+        defaultContextOptions: {
+          viewport: { width: 1920, height: 1080 },
+          userAgent: DEFAULT_USER_AGENT,
+        },
       });
-      logger.info('Browser initialized');
-    }
   }
 
+  async initialize(): Promise<void> {
+    await this.pool.initialize();
+    logger.info('Browser initialized');
+  }
+
+  /**
+   * Open a page in its own pooled context (released when the page closes)
+   */
   async createPage(): Promise<Page> {
-    if (!this.browser) {
-      await this.initialize();
+    const context = await this.acquireContext();
+    const page = await context.newPage();
+    page.once('close', () => {
+      this.pool.release(context).catch(() => undefined);
+    });
+    return page;
+  }
+
+  /**
+   * Check out a pooled context whose requests (navigations, redirects and
+   * sub-resources alike) go through the destination guard
+   */
+  private async acquireContext(contextOptions?: BrowserContextOptions): Promise<BrowserContext> {
+    const context = await this.pool.acquire(contextOptions);
+    if (!config.destinationGuard.enabled) {
+      return context;
     }
 
-    const page = await this.browser!.newPage();
-    return page;
+    try {
+      await context.route('**/*', async (route) => {
+        const requestUrl = route.request().url();
+        if (!/^https?:/i.test(requestUrl)) {
+          await route.continue().catch(() => undefined);
+          return;
+        }
+        try {
+          await checkDestination(requestUrl);
+        } catch (error) {
+          // Never throw here: the request would hang unanswered
+          if (error instanceof BlockedDestinationError) {
+            logger.warn(`[DestinationGuard] ${error.message}`);
+            await route.abort('blockedbyclient').catch(() => undefined);
+          } else {
+            logger.warn(
+              `[DestinationGuard] Could not check ${requestUrl}: ${error instanceof Error ? error.message : String(error)}`
+            );
+            await route.abort('failed').catch(() => undefined);
+          }
+          return;
+        }
+        await route.continue().catch(() => undefined);
+      });
+    } catch (error) {
+      await this.pool.release(context);
+      throw error;
+    }
+
+    return context;
+  }
+
+  /**
+   * Pick the egress proxy for a page from the pool (null when browser proxies are off)
+   */
+  selectProxy(url: string): ProxyEndpoint | null {
+    const proxyPool = config.proxy.browserEnabled ? getProxyPool() : null;
+    return proxyPool?.select(url) || null;
   }
 
   /**
@@ -73,6 +293,7 @@ export class BrowserService {
   async captureEvidence(url: string, options: ScanOptions = {}): Promise<EvidenceCapture> {
     const startTime = Date.now();
     const consoleLogs: ConsoleLogEntry[] = [];
+    const networkRequests: NetworkRequest[] = [];
 
     const {
       waitUntil = 'networkidle',
@@ -80,32 +301,62 @@ export class BrowserService {
       viewport = { width: 1920, height: 1080 },
       userAgent,
       captureHAR = true,
+      device,
+      captureTrace = false,
+      recordVideo = false,
     } = options;
 
+    const fs = await import('fs/promises');
+    const tempId = `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const tracePath = `/tmp/trace_${tempId}.zip`;
+    let videoPath: string | null = null;
+
     let context: BrowserContext | null = null;
     let page: Page | null = null;
 
-    try {
-      if (!this.browser) {
-        await this.initialize();
-      }
+    const proxyPool = config.proxy.browserEnabled ? getProxyPool() : null;
+    const proxy = options.proxy !== undefined ? options.proxy : this.selectProxy(url);
 
-      // Create context with HAR recording if enabled
-      const contextOptions: any = {
-        viewport,
-        userAgent:
-          userAgent ||
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      };
+    try {
+      // Create context (emulating the device, if any) with HAR recording if enabled
+      const profile = device ? resolveDevice(device) : null;
+      const pageViewport = profile ? profile.viewport : viewport;
+      const contextOptions: BrowserContextOptions = profile
+        ? {
+            viewport: pageViewport,
+            userAgent: userAgent || profile.userAgent,
+            deviceScaleFactor: profile.deviceScaleFactor,
+            isMobile: profile.isMobile,
+            hasTouch: profile.hasTouch,
+          }
+        : {
+            viewport: pageViewport,
+            userAgent: userAgent || DEFAULT_USER_AGENT,
+          };
 
       if (captureHAR) {
         contextOptions.recordHar = {
-          path: `/tmp/har_${Date.now()}.har`,
+          path: `/tmp/har_${tempId}.har`,
           mode: 'minimal',
         };
       }
 
-      context = await this.browser!.newContext(contextOptions);
+      if (recordVideo) {
+        contextOptions.recordVideo = {
+          dir: `/tmp/video_${tempId}`,
+          size: pageViewport,
+        };
+      }
+
+      // Route the page through an egress proxy (Chromium cannot authenticate to SOCKS5 proxies)
+      if (proxy) {
+        contextOptions.proxy = contextProxy(proxy);
+      }
+
+      context = await this.acquireContext(contextOptions);
+      if (captureTrace) {
+        await context.tracing.start({ screenshots: true, snapshots: true });
+      }
       page = await context.newPage();
 
       // Capture console logs
@@ -127,13 +378,18 @@ export class BrowserService {
         });
       });
 
+      // Capture every request/response (independent of HAR recording)
+      this.recordNetworkRequests(page, url, networkRequests);
+
       // Navigate to URL with retry logic
       logger.info(`Navigating to ${url}`);
       let response;
       let lastError;
       const maxRetries = 3;
+      let attempts = 0;
       
       for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        attempts = attempt;
         try {
           response = await page.goto(url, {
             waitUntil,
@@ -144,6 +400,11 @@ export class BrowserService {
           lastError = error;
           logger.warn(`Navigation attempt ${attempt}/${maxRetries} failed for ${url}:`, error instanceof Error ? error.message : String(error));
           
+          if (attempt < maxRetries && (await options.stopRetrying?.())) {
+            logger.warn(`Giving up on ${url} after ${attempt} navigation attempts`);
+            break;
+          }
+
           if (attempt < maxRetries) {
             // Wait before retrying (exponential backoff)
             const waitTime = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
@@ -155,7 +416,14 @@ export class BrowserService {
       if (!response) {
         // If all retries failed, throw a more descriptive error
         const errorMessage = lastError instanceof Error ? lastError.message : String(lastError);
-        throw new Error(`Navigation failed after ${maxRetries} attempts: ${errorMessage}`);
+        if (proxy) {
+          proxyPool?.recordFailure(proxy.id, errorMessage);
+        }
+        throw new NavigationError(url, attempts, errorMessage);
+      }
+
+      if (proxy) {
+        proxyPool?.recordSuccess(proxy.id);
       }
 
       const loadTime = Date.now() - startTime;
@@ -179,17 +447,34 @@ export class BrowserService {
       // Get final URL (after redirects)
       const finalUrl = page.url();
 
-      // Get HAR data if enabled
+      // Stop tracing while the context is still open
+      let trace: Buffer | undefined;
+      if (captureTrace && context) {
+        try {
+          await context.tracing.stop({ path: tracePath });
+          trace = await fs.readFile(tracePath);
+          await fs.unlink(tracePath);
+        } catch (error) {
+          logger.warn('Failed to capture trace:', error);
+        }
+      }
+
+      // The video path is known up front, but the file is only complete once the context closes
+      if (recordVideo) {
+        videoPath = (await page.video()?.path()) || null;
+      }
+
+      // Get HAR data if enabled (HAR and video files are written when the context closes)
       let har = null;
-      if (captureHAR && context) {
-        await context.close();
+      let video: Buffer | undefined;
+      if ((captureHAR || recordVideo) && context) {
+        await this.pool.release(context);
         context = null;
         page = null;
 
         // Read HAR file if it was created
         if (contextOptions.recordHar?.path) {
           try {
-            const fs = await import('fs/promises');
             const harContent = await fs.readFile(contextOptions.recordHar.path, 'utf-8');
             har = JSON.parse(harContent);
             // Clean up temp HAR file
@@ -198,10 +483,18 @@ export class BrowserService {
             logger.warn('Failed to read HAR file:', error);
           }
         }
+
+        if (videoPath) {
+          try {
+            video = await fs.readFile(videoPath);
+          } catch (error) {
+            logger.warn('Failed to read video file:', error);
+          }
+        }
       }
 
       logger.info(
-        `Evidence captured for ${url}: ${consoleLogs.length} console logs, ${html.length} bytes HTML`
+        `Evidence captured for ${url}: ${consoleLogs.length} console logs, ${networkRequests.length} requests, ${html.length} bytes HTML`
       );
 
       return {
@@ -209,13 +502,19 @@ export class BrowserService {
         html,
         consoleLogs,
         har,
+        networkRequests,
+        ...(trace && { trace }),
+        ...(video && { video }),
         title,
         url: finalUrl,
         timestamp: new Date().toISOString(),
         metadata: {
           loadTime,
           finalUrl,
-          viewport,
+          viewport: pageViewport,
+          ...(device && { device }),
+          ...(proxy && { proxy: { id: proxy.id, ...(proxy.egress && { egress: proxy.egress }) } }),
+          status: response.status(),
         },
       };
     } catch (error) {
@@ -227,11 +526,524 @@ export class BrowserService {
         await page.close();
       }
       if (context) {
-        await context.close();
+        await this.pool.release(context);
+      }
+      // Remove temp recordings (a no-op when they were read and deleted above)
+      if (captureTrace) {
+        await fs.rm(tracePath, { force: true }).catch(() => undefined);
+      }
+      if (recordVideo) {
+        await fs.rm(`/tmp/video_${tempId}`, { recursive: true, force: true }).catch(() => undefined);
       }
     }
   }
 
+  /**
+   * Append an entry to `log` for every request the page makes, completed when
+   * its response arrives or the request fails
+   */
+  private recordNetworkRequests(page: Page, pageUrl: string, log: NetworkRequest[]): void {
+    const pending = new Map<Request, NetworkRequest>();
+    const pageHost = getUrlHostname(pageUrl);
+
+    const finish = (entry: NetworkRequest) => {
+      entry.timing.endTime = Date.now();
+      entry.timing.duration = entry.timing.endTime - entry.timing.startTime;
+    };
+
+    page.on('request', (request) => {
+      const entry: NetworkRequest = {
+        url: request.url(),
+        method: request.method(),
+        resourceType: request.resourceType(),
+        status: null,
+        statusText: '',
+        headers: {},
+        navigation: request.isNavigationRequest() && request.frame() === page.mainFrame(),
+        thirdParty: getUrlHostname(request.url()) !== pageHost,
+        timing: { startTime: Date.now(), endTime: 0, duration: 0 },
+      };
+      pending.set(request, entry);
+      log.push(entry);
+    });
+
+    page.on('response', (response) => {
+      const entry = pending.get(response.request());
+      if (!entry) {
+        return;
+      }
+      entry.status = response.status();
+      entry.statusText = response.statusText();
+      entry.headers = response.headers();
+      finish(entry);
+    });
+
+    page.on('requestfinished', (request) => {
+      pending.delete(request);
+    });
+
+    page.on('requestfailed', (request) => {
+      const entry = pending.get(request);
+      if (!entry) {
+        return;
+      }
+      entry.failure = request.failure()?.errorText || 'Request failed';
+      finish(entry);
+      pending.delete(request);
+    });
+  }
+
+  /**
+   * Locate forms on a page, fill them with test data and submit each one,
+   * recording how the site responded to the submission
+   */
+  async submitForms(url: string, options: FormSubmitOptions): Promise<FormSubmissionAttempt[]> {
+    const {
+      waitUntil = 'networkidle',
+      timeout = 30000,
+      submitTimeout = 10000,
+      maxForms = 3,
+      userAgent,
+      resolveValue,
+    } = options;
+    const proxy = options.proxy !== undefined ? options.proxy : this.selectProxy(url);
+
+    const context = await this.acquireContext({
+      viewport: { width: 1920, height: 1080 },
+      userAgent: userAgent || DEFAULT_USER_AGENT,
+      ...(proxy && { proxy: contextProxy(proxy) }),
+    });
+    const attempts: FormSubmissionAttempt[] = [];
+
+    try {
+      const page = await context.newPage();
+      await page.goto(url, { waitUntil, timeout });
+
+      const forms = await this.describeForms(page);
+      logger.info(`Found ${forms.length} form(s) on ${url}`);
+
+      for (const form of forms.slice(0, maxForms)) {
+        // Reload between forms so each submission starts from a clean page
+        if (attempts.length > 0) {
+          await page.goto(url, { waitUntil, timeout });
+        }
+        attempts.push(await this.submitForm(page, form, submitTimeout, resolveValue));
+      }
+    } finally {
+      await this.pool.release(context);
+    }
+
+    return attempts;
+  }
+
+  private async describeForms(page: Page): Promise<FormDescriptor[]> {
+    return page.$$eval('form', (forms) =>
+      forms.map((form: any, index: number) => {
+        const controls = Array.from(
+          form.querySelectorAll('input, textarea, select')
+        ) as any[];
+        const skippedTypes = ['hidden', 'submit', 'button', 'reset', 'image', 'file'];
+
+        return {
+          index,
+          selector: form.id ? `form#${form.id}` : `form >> nth=${index}`,
+          action: form.action,
+          method: (form.getAttribute('method') || 'GET').toUpperCase(),
+          fields: controls
+            .map((el) => ({
+              tag: el.tagName.toLowerCase(),
+              type: (el.getAttribute('type') || el.tagName).toLowerCase(),
+              name: el.getAttribute('name') || '',
+              id: el.id || '',
+              placeholder: el.getAttribute('placeholder') || '',
+              autocomplete: el.getAttribute('autocomplete') || '',
+              required: el.hasAttribute('required'),
+            }))
+            .filter((field) => !skippedTypes.includes(field.type)),
+          hasSubmitButton:
+            form.querySelector(
+              'button[type="submit"], input[type="submit"], input[type="image"], button:not([type])'
+            ) !== null,
+        };
+      })
+    );
+  }
+
+  private async submitForm(
+    page: Page,
+    form: FormDescriptor,
+    submitTimeout: number,
+    resolveValue: (field: FormField) => string | null
+  ): Promise<FormSubmissionAttempt> {
+    const startTime = Date.now();
+    const formLocator = page.locator('form').nth(form.index);
+    const controls = formLocator.locator(
+      'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]):not([type="file"]), textarea, select'
+    );
+    const filledFields: string[] = [];
+    const initialUrl = page.url();
+
+    const attempt: FormSubmissionAttempt = {
+      form,
+      filledFields,
+      responseStatus: null,
+      responseHeaders: {},
+      requestUrl: null,
+      requestMethod: null,
+      finalUrl: initialUrl,
+      title: '',
+      html: '',
+      navigated: false,
+      domChanged: false,
+      durationMs: 0,
+    };
+
+    try {
+      // Fill every field we have test data for
+      for (let i = 0; i < form.fields.length; i++) {
+        const field = form.fields[i];
+        const value = resolveValue(field);
+        if (value === null) {
+          continue;
+        }
+
+        const control = controls.nth(i);
+        try {
+          if (field.type === 'checkbox' || field.type === 'radio') {
+            await control.check({ timeout: 2000 });
+          } else if (field.tag === 'select') {
+            await control.selectOption({ index: 1 }, { timeout: 2000 });
+          } else {
+            await control.fill(value, { timeout: 2000 });
+          }
+          filledFields.push(field.name || field.id || `${field.tag}[${i}]`);
+        } catch (error) {
+          logger.debug(
+            `Could not fill field ${field.name || field.id || i} in form ${form.index}:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+
+      const trigger = form.hasSubmitButton
+        ? () =>
+            formLocator
+              .locator(
+                'button[type="submit"], input[type="submit"], input[type="image"], button:not([type])'
+              )
+              .first()
+              .click({ timeout: submitTimeout })
+        : () => formLocator.evaluate((el: any) => el.requestSubmit());
+
+      await this.observeSubmission(page, attempt, submitTimeout, trigger);
+    } catch (error) {
+      attempt.error = error instanceof Error ? error.message : String(error);
+      logger.warn(`Form ${form.index} submission failed on ${initialUrl}: ${attempt.error}`);
+    }
+
+    attempt.durationMs = Date.now() - startTime;
+    return attempt;
+  }
+
+  /**
+   * Trigger a submission and record the response, navigation and DOM change it caused
+   */
+  private async observeSubmission(
+    page: Page,
+    attempt: FormSubmissionAttempt,
+    submitTimeout: number,
+    trigger: () => Promise<unknown>
+  ): Promise<void> {
+    const initialUrl = page.url();
+    const htmlBefore = await page.content();
+
+    // The submission is either a main-frame navigation or a write request
+    // (XHR/fetch POST) fired by the form's submit handler
+    const responsePromise = page
+      .waitForResponse(
+        (response) => {
+          const request = response.request();
+          if (request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+            return true;
+          }
+          return ['POST', 'PUT', 'PATCH'].includes(request.method());
+        },
+        { timeout: submitTimeout }
+      )
+      .catch(() => null);
+
+    await trigger();
+
+    const response = await responsePromise;
+    if (response) {
+      attempt.responseStatus = response.status();
+      attempt.responseHeaders = await response.allHeaders();
+      attempt.requestUrl = response.url();
+      attempt.requestMethod = response.request().method();
+    }
+
+    await page
+      .waitForLoadState('domcontentloaded', { timeout: submitTimeout })
+      .catch(() => undefined);
+    // Give client-side handlers a moment to render success or error feedback
+    await page.waitForTimeout(1000);
+
+    attempt.finalUrl = page.url();
+    attempt.title = await page.title();
+    attempt.html = await page.content();
+    attempt.navigated = attempt.finalUrl !== initialUrl;
+    attempt.domChanged = attempt.html !== htmlBefore;
+  }
+
+  /**
+   * Replay a scripted journey in a single browser context, starting from `url`.
+   * Evidence (screenshot, HTML, title, URL) is captured after every step and the
+   * journey stops at the first step that fails.
+   */
+  async runJourney(
+    url: string,
+    steps: JourneyStep[],
+    options: JourneyOptions = {}
+  ): Promise<JourneyResult> {
+    const startTime = Date.now();
+    const consoleLogs: ConsoleLogEntry[] = [];
+
+    const {
+      waitUntil = 'networkidle',
+      timeout = 30000,
+      stepTimeout = 10000,
+      viewport = { width: 1920, height: 1080 },
+      userAgent,
+    } = options;
+    const proxy = options.proxy !== undefined ? options.proxy : this.selectProxy(url);
+
+    const context = await this.acquireContext({
+      viewport,
+      userAgent: userAgent || DEFAULT_USER_AGENT,
+      ...(proxy && { proxy: contextProxy(proxy) }),
+    });
+    const results: JourneyStepResult[] = [];
+
+    try {
+      const page = await context.newPage();
+
+      page.on('console', (msg) => {
+        consoleLogs.push({
+          timestamp: new Date().toISOString(),
+          type: msg.type(),
+          text: msg.text(),
+          location: msg.location().url,
+        });
+      });
+
+      page.on('pageerror', (error) => {
+        consoleLogs.push({
+          timestamp: new Date().toISOString(),
+          type: 'error',
+          text: error.message,
+        });
+      });
+
+      logger.info(`Starting ${steps.length}-step journey on ${url}`);
+      await page.goto(url, { waitUntil, timeout });
+
+      // Fields filled since the last submit, reported with the submission
+      let filledFields: string[] = [];
+
+      for (let index = 0; index < steps.length; index++) {
+        const step = steps[index];
+        const stepStart = Date.now();
+        let submission: FormSubmissionAttempt | undefined;
+        let error: string | undefined;
+
+        try {
+          switch (step.action) {
+            case 'goto':
+              await page.goto(new URL(step.url, page.url()).toString(), {
+                waitUntil,
+                timeout: step.timeout || timeout,
+              });
+              break;
+
+            case 'click':
+              await page
+                .locator(step.selector)
+                .first()
+                .click({ timeout: step.timeout || stepTimeout });
+              await page
+                .waitForLoadState('domcontentloaded', { timeout: step.timeout || stepTimeout })
+                .catch(() => undefined);
+              break;
+
+            case 'fill':
+              await page
+                .locator(step.selector)
+                .first()
+                .fill(step.value, { timeout: step.timeout || stepTimeout });
+              filledFields.push(step.selector);
+              break;
+
+            case 'select':
+              await page
+                .locator(step.selector)
+                .first()
+                .selectOption(step.value, { timeout: step.timeout || stepTimeout });
+              filledFields.push(step.selector);
+              break;
+
+            case 'wait-for-selector':
+              await page
+                .locator(step.selector)
+                .first()
+                .waitFor({ state: step.state || 'visible', timeout: step.timeout || stepTimeout });
+              break;
+
+            case 'submit':
+              submission = await this.submitJourneyForm(
+                page,
+                step.selector,
+                filledFields,
+                step.timeout || stepTimeout
+              );
+              filledFields = [];
+              if (submission.error) {
+                throw new Error(submission.error);
+              }
+              break;
+
+            case 'assert-text': {
+              const text = await page
+                .locator(step.selector || 'body')
+                .first()
+                .innerText({ timeout: step.timeout || stepTimeout });
+              if (!text.includes(step.text)) {
+                throw new Error(
+                  `Expected text "${step.text}" not found in ${step.selector || 'page body'}`
+                );
+              }
+              break;
+            }
+          }
+        } catch (stepError) {
+          error = stepError instanceof Error ? stepError.message : String(stepError);
+          logger.warn(
+            `Journey step ${describeJourneyStep(step, index)} failed on ${page.url()}: ${error}`
+          );
+        }
+
+        results.push({
+          index,
+          action: step.action,
+          name: describeJourneyStep(step, index),
+          status: error ? 'failed' : 'passed',
+          error,
+          url: page.url(),
+          title: await page.title().catch(() => ''),
+          screenshot: await page
+            .screenshot({ fullPage: true, type: 'png' })
+            .catch(() => Buffer.alloc(0)),
+          html: await page.content().catch(() => ''),
+          durationMs: Date.now() - stepStart,
+          submission,
+        });
+
+        if (error) {
+          break;
+        }
+      }
+    } finally {
+      await this.pool.release(context);
+    }
+
+    const failed = results.find((result) => result.status === 'failed');
+
+    logger.info(
+      `Journey on ${url} ${failed ? `failed at step ${failed.index + 1}` : 'completed'}: ` +
+        `${results.length}/${steps.length} steps run`
+    );
+
+    return {
+      steps: results,
+      completed: !failed && results.length === steps.length,
+      failedStep: failed ? failed.index : null,
+      consoleLogs,
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Submit the form matched by `selector` (or the form containing it) as a journey step,
+   * recording the submission the same way the form detector does
+   */
+  private async submitJourneyForm(
+    page: Page,
+    selector: string | undefined,
+    filledFields: string[],
+    submitTimeout: number
+  ): Promise<FormSubmissionAttempt> {
+    const startTime = Date.now();
+    const target = page.locator(selector || 'form').first();
+
+    const attempt: FormSubmissionAttempt = {
+      form: {
+        index: -1,
+        selector: selector || 'form',
+        action: '',
+        method: 'GET',
+        fields: [],
+        hasSubmitButton: false,
+      },
+      filledFields,
+      responseStatus: null,
+      responseHeaders: {},
+      requestUrl: null,
+      requestMethod: null,
+      finalUrl: page.url(),
+      title: '',
+      html: '',
+      navigated: false,
+      domChanged: false,
+      durationMs: 0,
+    };
+
+    try {
+      const details = await target.evaluate(
+        (el: any) => {
+          const form = el.tagName === 'FORM' ? el : el.closest('form');
+          return {
+            isForm: el.tagName === 'FORM',
+            index: form ? Array.from(el.ownerDocument.querySelectorAll('form')).indexOf(form) : -1,
+            action: form ? form.action : '',
+            method: ((form && form.getAttribute('method')) || 'GET').toUpperCase(),
+          };
+        },
+        undefined,
+        { timeout: submitTimeout }
+      );
+
+      attempt.form = {
+        ...attempt.form,
+        index: details.index,
+        action: details.action,
+        method: details.method,
+        hasSubmitButton: !details.isForm,
+      };
+
+      // Click a submit control directly; submit a form element via requestSubmit()
+      // so its validation and submit handlers run as they would for a user
+      const trigger = details.isForm
+        ? () => target.evaluate((el: any) => el.requestSubmit())
+        : () => target.click({ timeout: submitTimeout });
+
+      await this.observeSubmission(page, attempt, submitTimeout, trigger);
+    } catch (error) {
+      attempt.error = error instanceof Error ? error.message : String(error);
+    }
+
+    attempt.durationMs = Date.now() - startTime;
+    return attempt;
+  }
+
   /**
    * Legacy method for backward compatibility
    */
@@ -248,11 +1060,8 @@ export class BrowserService {
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-      logger.info('Browser closed');
-    }
+    await this.pool.close();
+    logger.info('Browser closed');
   }
 }
 
@@ -0,0 +1,194 @@
+import { Redis } from 'ioredis';
+import { config } from '../config';
+
+const CRAWL_KEY_PREFIX = 'crawl:';
+/** Per-run crawl state outlives any reasonable run */
+const CRAWL_STATE_TTL_SECONDS = 24 * 60 * 60;
+/** Only the start of very large pages is searched for links */
+const MAX_HTML_CHARS = 2 * 1024 * 1024;
+
+export type CrawlScope = 'host' | 'subdomains';
+
+export interface CrawlLimits {
+  /** Link hops followed from a seed (seed = 0) */
+  maxDepth: number;
+  /** Pages the crawler may add to one run, across all seeds */
+  maxPages: number;
+  scope: CrawlScope;
+}
+
+export interface ExtractedLink {
+  url: string;
+  source: 'link' | 'form';
+}
+
+const TAG_PATTERN = /<(a|area|form|base)\b([^>]*)>/gi;
+const ATTRIBUTE_PATTERN = /\b(href|action)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+
+function decodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Canonical form used to deduplicate crawled URLs: fragment dropped, host
+ * lowercased, default port removed and query parameters sorted.
+ * Returns null for anything that is not an http(s) URL.
+ */
+export function normalizeCrawlUrl(url: string, base?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null;
+  }
+
+  parsed.hash = '';
+  parsed.searchParams.sort();
+  // URL drops default ports and lowercases the host on its own
+  return parsed.toString().replace(/\?$/, '');
+}
+
+/**
+ * Links (<a>, <area>) and form actions on a page, resolved against the page
+ * URL (or its <base href>) and normalized. A form without an action posts
+ * to the page itself and is skipped.
+ */
+export function extractLinks(html: string, pageUrl: string): ExtractedLink[] {
+  const content = html.length > MAX_HTML_CHARS ? html.slice(0, MAX_HTML_CHARS) : html;
+  let base = pageUrl;
+  const links: ExtractedLink[] = [];
+  const seen = new Set<string>();
+
+  for (const [, tag, attributes] of content.matchAll(TAG_PATTERN)) {
+    const attribute = attributes.match(ATTRIBUTE_PATTERN);
+    if (!attribute) {
+      continue;
+    }
+
+    const name = attribute[1].toLowerCase();
+    const value = decodeHtmlAttribute(attribute[2] ?? attribute[3] ?? attribute[4] ?? '');
+    const tagName = tag.toLowerCase();
+
+    if (tagName === 'base') {
+      if (name === 'href' && value) {
+        base = normalizeCrawlUrl(value, pageUrl) ?? base;
+      }
+      continue;
+    }
+    if (!value || (tagName === 'form') !== (name === 'action')) {
+      continue;
+    }
+
+    const url = normalizeCrawlUrl(value, base);
+    if (url && !seen.has(url)) {
+      seen.add(url);
+      links.push({ url, source: tagName === 'form' ? 'form' : 'link' });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Whether `url` stays within the crawl scope of `seed`: the same host, or
+ * with `subdomains` the seed host and any host below it
+ */
+export function isInCrawlScope(url: string, seed: string, scope: CrawlScope): boolean {
+  const host = new URL(url).hostname;
+  const seedHost = new URL(seed).hostname;
+
+  if (scope === 'subdomains') {
+    const root = seedHost.replace(/^www\./, '');
+    return host === root || host.endsWith(`.${root}`);
+  }
+  return host === seedHost;
+}
+
+/**
+ * Crawl limits for a run: the payload can lower CRAWLER_MAX_DEPTH and
+ * CRAWLER_MAX_PAGES but not raise them
+ */
+export function getCrawlLimits(payload?: { maxDepth?: unknown; maxPages?: unknown }): CrawlLimits {
+  const lower = (value: unknown, max: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 ? Math.min(value, max) : max;
+
+  return {
+    maxDepth: lower(payload?.maxDepth, config.crawler.maxDepth),
+    maxPages: lower(payload?.maxPages, config.crawler.maxPages),
+    scope: config.crawler.scope,
+  };
+}
+
+/**
+ * Mark URLs as already part of a run so the crawler does not add them again
+ */
+export async function markCrawlUrlsSeen(
+  redis: Redis,
+  runId: string,
+  urls: string[]
+): Promise<void> {
+  const normalized = urls
+    .map((url) => normalizeCrawlUrl(url))
+    .filter((url): url is string => url !== null);
+  if (normalized.length === 0) {
+    return;
+  }
+
+  const key = `${CRAWL_KEY_PREFIX}${runId}:seen`;
+  await redis.sadd(key, ...normalized);
+  await redis.expire(key, CRAWL_STATE_TTL_SECONDS);
+}
+
+/**
+ * Claim a URL for a run; false if the run has already seen it
+ */
+export async function claimCrawlUrl(redis: Redis, runId: string, url: string): Promise<boolean> {
+  const key = `${CRAWL_KEY_PREFIX}${runId}:seen`;
+  const added = await redis.sadd(key, url);
+  await redis.expire(key, CRAWL_STATE_TTL_SECONDS);
+  return added === 1;
+}
+
+/**
+ * Count a crawl job of a run as pending. Called before the job is queued, so
+ * the count cannot reach zero while a running job is still queueing others.
+ */
+export async function trackCrawlJob(redis: Redis, runId: string): Promise<void> {
+  const key = `${CRAWL_KEY_PREFIX}${runId}:pending`;
+  await redis.incr(key);
+  await redis.expire(key, CRAWL_STATE_TTL_SECONDS);
+}
+
+/**
+ * Count a crawl job of a run as done; true when it was the run's last one
+ */
+export async function settleCrawlJob(redis: Redis, runId: string): Promise<boolean> {
+  const pending = await redis.decr(`${CRAWL_KEY_PREFIX}${runId}:pending`);
+  return pending <= 0;
+}
+
+/**
+ * Take one of the run's page slots; false once `maxPages` have been taken
+ */
+export async function reserveCrawlPage(
+  redis: Redis,
+  runId: string,
+  maxPages: number
+): Promise<boolean> {
+  const key = `${CRAWL_KEY_PREFIX}${runId}:pages`;
+  const pages = await redis.incr(key);
+  await redis.expire(key, CRAWL_STATE_TTL_SECONDS);
+  return pages <= maxPages;
+}
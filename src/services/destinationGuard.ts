@@ -0,0 +1,211 @@
+import dns from 'dns/promises';
+import net from 'net';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+
+export interface DestinationGuardOptions {
+  enabled: boolean;
+  /** Hosts exempt from the check: `host` (any port) or `host:port`, e.g. localhost:3000 */
+  allowedHosts: string[];
+  /** Address ranges exempt from the check, e.g. 10.20.0.0/16 */
+  allowedCidrs: string[];
+}
+
+/**
+ * Raised when a URL points at (or resolves to) an address the scanner must
+ * not reach, such as loopback, private networks or cloud metadata endpoints
+ */
+export class BlockedDestinationError extends Error {
+  readonly code = 'BLOCKED_DESTINATION';
+
+  constructor(
+    readonly url: string,
+    readonly range: string,
+    readonly address?: string
+  ) {
+    super(
+      `Blocked destination ${url}${address ? ` (${address})` : ''}: ${range} addresses are not allowed`
+    );
+    this.name = 'BlockedDestinationError';
+  }
+}
+
+/** [CIDR, label], checked in order so the narrower metadata ranges win */
+const BLOCKED_RANGES: Array<[string, string]> = [
+  ['169.254.169.254/32', 'metadata'],
+  ['fd00:ec2::254/128', 'metadata'],
+  ['0.0.0.0/8', 'unspecified'],
+  ['10.0.0.0/8', 'private'],
+  ['100.64.0.0/10', 'shared'],
+  ['127.0.0.0/8', 'loopback'],
+  ['169.254.0.0/16', 'link-local'],
+  ['172.16.0.0/12', 'private'],
+  ['192.0.0.0/24', 'reserved'],
+  ['192.168.0.0/16', 'private'],
+  ['198.18.0.0/15', 'benchmarking'],
+  ['224.0.0.0/4', 'multicast'],
+  ['240.0.0.0/4', 'reserved'],
+  ['::/128', 'unspecified'],
+  ['::1/128', 'loopback'],
+  ['fc00::/7', 'private'],
+  ['fe80::/10', 'link-local'],
+  ['ff00::/8', 'multicast'],
+];
+
+const blockedRanges = BLOCKED_RANGES.map(([cidr, label]) => ({
+  label,
+  list: toBlockList([cidr]),
+}));
+
+const DNS_CACHE_TTL_MS = 30000;
+const dnsCache = new Map<string, { addresses: string[]; expiresAt: number }>();
+
+function toBlockList(cidrs: string[]): net.BlockList {
+  const list = new net.BlockList();
+  for (const cidr of cidrs) {
+    const [address, prefix] = cidr.split('/');
+    const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+    const bits = prefix !== undefined ? parseInt(prefix, 10) : family === 'ipv6' ? 128 : 32;
+    list.addSubnet(address, bits, family);
+  }
+  return list;
+}
+
+function defaultOptions(): DestinationGuardOptions {
+  return {
+    enabled: config.destinationGuard.enabled,
+    allowedHosts: config.destinationGuard.allowedHosts,
+    allowedCidrs: config.destinationGuard.allowedCidrs,
+  };
+}
+
+/**
+ * Label of the blocked range an IP address falls in, or null if it is public.
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as IPv4.
+ */
+export function classifyAddress(address: string): string | null {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIPv6(ip) ? 'ipv6' : 'ipv4';
+
+  for (const range of blockedRanges) {
+    if (range.list.check(ip, family)) {
+      return range.label;
+    }
+  }
+  return null;
+}
+
+async function resolveHost(hostname: string): Promise<string[]> {
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.addresses;
+  }
+
+  const results = await dns.lookup(hostname, { all: true, verbatim: true });
+  const addresses = results.map((result) => result.address);
+  dnsCache.set(hostname, { addresses, expiresAt: Date.now() + DNS_CACHE_TTL_MS });
+  return addresses;
+}
+
+function isAllowedHost(parsed: URL, allowedHosts: string[]): boolean {
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = parsed.port || (parsed.protocol === 'https:' ? '443' : '80');
+
+  return allowedHosts.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    return allowed === hostname || allowed === `${hostname}:${port}`;
+  });
+}
+
+/**
+ * Throw a BlockedDestinationError unless `url` is an http(s) URL whose host
+ * resolves only to public addresses (or is listed as an exception).
+ *
+ * Every address a hostname resolves to is checked, so a name with one
+ * private record is rejected, and so is a name that does not resolve. The
+ * lookup is separate from the connection, so fetchers that connect themselves
+ * also check the address they connect to (checkConnectAddress).
+ */
+export async function checkDestination(
+  url: string,
+  overrides: Partial<DestinationGuardOptions> = {}
+): Promise<void> {
+  const options = { ...defaultOptions(), ...overrides };
+  if (!options.enabled) {
+    return;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedDestinationError(url, 'invalid URL');
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedDestinationError(url, `${parsed.protocol.replace(/:$/, '')} protocol`);
+  }
+
+  if (isAllowedHost(parsed, options.allowedHosts)) {
+    return;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolveHost(hostname);
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      logger.debug(
+        `[DestinationGuard] Could not resolve ${hostname}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      throw Object.assign(new Error(`DNS lookup failed for ${hostname} (${code || error})`), {
+        code,
+      });
+    }
+  }
+
+  for (const address of addresses) {
+    checkAddress(url, address, options);
+  }
+}
+
+/**
+ * Throw a BlockedDestinationError if the address a connection to `url` is
+ * about to be made to is blocked, so a host that resolves differently on the
+ * second lookup (DNS rebinding) cannot reach it
+ */
+export function checkConnectAddress(
+  url: string,
+  address: string,
+  overrides: Partial<DestinationGuardOptions> = {}
+): void {
+  const options = { ...defaultOptions(), ...overrides };
+  if (!options.enabled || isAllowedHost(new URL(url), options.allowedHosts)) {
+    return;
+  }
+  checkAddress(url, address, options);
+}
+
+function checkAddress(url: string, address: string, options: DestinationGuardOptions): void {
+  const range = classifyAddress(address);
+  if (!range) {
+    return;
+  }
+  const family = net.isIPv6(address) ? 'ipv6' : 'ipv4';
+  if (options.allowedCidrs.length > 0 && toBlockList(options.allowedCidrs).check(address, family)) {
+    return;
+  }
+  throw new BlockedDestinationError(url, range, address);
+}
+
+/**
+ * Forget cached DNS answers (tests)
+ */
+export function clearDestinationCache(): void {
+  dnsCache.clear();
+}
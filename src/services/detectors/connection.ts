@@ -0,0 +1,111 @@
+import { config } from '../../config';
+import type { FetchResult } from '../fetcher/types';
+import type { Detector, DetectorInput } from './types';
+
+/** Certificates this close to expiry are reported as high severity */
+const CERT_EXPIRY_CRITICAL_DAYS = 3;
+
+/**
+ * Whether the request failed resolving the host or in the TLS handshake
+ * (reported by the dns.failure and tls.error detectors, not as network errors)
+ */
+export function isDnsOrTlsFailure(fetchResult: FetchResult): boolean {
+  const stage = fetchResult.diagnostics?.failure?.stage;
+  return stage === 'dns' || stage === 'tls';
+}
+
+/**
+ * Requests that failed because the hostname did not resolve
+ */
+export const dnsFailureDetector: Detector = {
+  id: 'dns.failure',
+  description: 'Flags requests whose hostname did not resolve',
+  inputs: ['fetch'],
+  detect({ fetchResult }: DetectorInput) {
+    const diagnostics = fetchResult?.diagnostics;
+    if (!fetchResult || fetchResult.success || diagnostics?.failure?.stage !== 'dns') {
+      return [];
+    }
+
+    const code = diagnostics.failure.code || 'DNS_ERROR';
+    return [
+      {
+        detector: 'dns.failure',
+        type: 'dns',
+        severity: 'high',
+        title: `DNS resolution failed (${code})`,
+        detectedValue: code,
+        context: diagnostics.host,
+        metadata: { diagnostics },
+      },
+    ];
+  },
+};
+
+/**
+ * Requests that failed in the TLS handshake: invalid or untrusted certificate
+ * chains, hostname mismatches and protocol errors
+ */
+export const tlsErrorDetector: Detector = {
+  id: 'tls.error',
+  description: 'Flags TLS handshake failures and certificates that do not verify',
+  inputs: ['fetch'],
+  detect({ fetchResult }: DetectorInput) {
+    const diagnostics = fetchResult?.diagnostics;
+    if (!fetchResult || fetchResult.success || diagnostics?.failure?.stage !== 'tls') {
+      return [];
+    }
+
+    const reason =
+      diagnostics.chainError || diagnostics.failure.code || diagnostics.failure.message;
+    return [
+      {
+        detector: 'tls.error',
+        type: 'tls',
+        severity: 'high',
+        title: diagnostics.chainError
+          ? `Invalid TLS certificate (${diagnostics.chainError})`
+          : 'TLS handshake failed',
+        detectedValue: reason,
+        context: diagnostics.certificate
+          ? `${diagnostics.certificate.subject} issued by ${diagnostics.certificate.issuer}`
+          : diagnostics.host,
+        metadata: { diagnostics },
+      },
+    ];
+  },
+};
+
+/**
+ * Valid certificates that expire within TLS_EXPIRY_WARNING_DAYS
+ */
+export const tlsExpiringDetector: Detector = {
+  id: 'tls.expiring',
+  description: 'Flags certificates that expire within the warning window',
+  inputs: ['fetch'],
+  detect({ fetchResult }: DetectorInput) {
+    const diagnostics = fetchResult?.diagnostics;
+    const certificate = diagnostics?.certificate;
+    // Expired or otherwise invalid certificates are reported by tls.error
+    if (!certificate || diagnostics.chainError || diagnostics.failure) {
+      return [];
+    }
+    if (certificate.daysRemaining > config.tuning.tlsExpiryWarningDays) {
+      return [];
+    }
+
+    const days = Math.max(certificate.daysRemaining, 0);
+    return [
+      {
+        detector: 'tls.expiring',
+        type: 'tls.expiring',
+        severity: days <= CERT_EXPIRY_CRITICAL_DAYS ? 'high' : 'medium',
+        title: `TLS certificate expires in ${days} day${days === 1 ? '' : 's'}`,
+        // The expiry date, not the countdown, so the fingerprint stays stable
+        detectedValue: certificate.validTo,
+        context: `${certificate.subject} issued by ${certificate.issuer}`,
+        metadata: { diagnostics },
+      },
+    ];
+  },
+};
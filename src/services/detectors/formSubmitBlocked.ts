@@ -0,0 +1,354 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../../utils/logger';
+import { config } from '../../config';
+import type { FormField, FormSubmissionAttempt } from '../browserService';
+import { SEVERITY_RANK, type Detector, type FindingSeverity } from './types';
+import { classifyWafPage, type WafClassification } from './wafClassifier';
+
+export const FORM_SUBMIT_BLOCKED = 'form.submit_blocked';
+
+export type SubmissionOutcome =
+  | 'submitted'
+  | 'waf_block'
+  | 'challenge'
+  | 'forbidden'
+  | 'rate_limited'
+  | 'server_error'
+  | 'silent_noop'
+  | 'error';
+
+export interface FormTestData {
+  fields: Array<{ match: string; value: string }>;
+  defaults: Record<string, string>;
+}
+
+export interface SubmissionClassification {
+  outcome: SubmissionOutcome;
+  /** The evidence that produced the outcome (matched text, status line, ...) */
+  signal?: string;
+}
+
+export interface FormAttemptSummary {
+  formIndex: number;
+  action: string;
+  method: string;
+  outcome: SubmissionOutcome;
+  responseStatus: number | null;
+  signal?: string;
+}
+
+export interface FormDetectionResult {
+  blocked: boolean;
+  findingType: typeof FORM_SUBMIT_BLOCKED;
+  severity: FindingSeverity | null;
+  title: string | null;
+  description: string | null;
+  detectedValue: string | null;
+  context: string | null;
+  /** WAF vendor and block type of the blocked submission's response, when recognised */
+  waf: WafClassification | null;
+  attempts: FormAttemptSummary[];
+}
+
+const OUTCOME_SEVERITY: Record<SubmissionOutcome, FindingSeverity | null> = {
+  waf_block: 'high',
+  challenge: 'high',
+  forbidden: 'high',
+  rate_limited: 'medium',
+  server_error: 'medium',
+  silent_noop: 'medium',
+  submitted: null,
+  error: null,
+};
+
+/**
+ * Interstitial challenge pages served instead of the submission result
+ */
+const CHALLENGE_SIGNATURES: RegExp[] = [
+  /<title>\s*Just a moment\.\.\.\s*<\/title>/i,
+  /challenge-platform/i,
+  /cf-chl-/i,
+  /Checking your browser before accessing/i,
+  /captcha-delivery\.com/i,
+  /px-captcha/i,
+  /Please verify you are a human/i,
+];
+
+/**
+ * Block pages served by common WAFs and bot-management products
+ */
+const WAF_BLOCK_SIGNATURES: RegExp[] = [
+  /Attention Required! \| Cloudflare/i,
+  /Sorry, you have been blocked/i,
+  /Request unsuccessful\. Incapsula incident ID/i,
+  /The requested URL was rejected\. Please consult with your administrator/i,
+  /Access Denied<\/title>[\s\S]*Reference #/i,
+  /Request blocked\.[\s\S]*could not be satisfied/i,
+  /Not Acceptable![\s\S]*Mod_Security/i,
+  /Web Application Firewall/i,
+];
+
+let testDataCache: FormTestData | null = null;
+
+/**
+ * Load the test data used to fill in forms
+ */
+export function loadFormTestData(filePath?: string): FormTestData {
+  const testDataPath =
+    filePath ||
+    config.formDetector.testDataFile ||
+    path.join(process.cwd(), 'src', 'config', 'form-test-data.json');
+
+  try {
+    const content = fs.readFileSync(testDataPath, 'utf-8');
+    const data = JSON.parse(content);
+
+    if (!Array.isArray(data.fields)) {
+      throw new Error('Form test data must have a "fields" array');
+    }
+
+    testDataCache = {
+      fields: data.fields,
+      defaults: data.defaults || {},
+    };
+    logger.info(
+      `[FormDetector] Loaded ${testDataCache.fields.length} field rule(s) from ${testDataPath}`
+    );
+  } catch (error) {
+    logger.warn(
+      `[FormDetector] Failed to load form test data from ${testDataPath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    testDataCache = { fields: [], defaults: {} };
+  }
+
+  return testDataCache;
+}
+
+/**
+ * Get cached form test data, loading it on first use
+ */
+export function getFormTestData(): FormTestData {
+  return testDataCache || loadFormTestData();
+}
+
+/**
+ * Pick the test value for a form field (null leaves the field untouched)
+ */
+export function resolveFormFieldValue(field: FormField, testData: FormTestData): string | null {
+  if (field.type === 'checkbox' || field.type === 'radio') {
+    return 'on';
+  }
+
+  // Selects are filled by choosing the first real option
+  if (field.tag === 'select') {
+    return '';
+  }
+
+  const haystack = [field.name, field.id, field.placeholder, field.autocomplete, field.type]
+    .filter(Boolean)
+    .join(' ');
+
+  for (const rule of testData.fields) {
+    try {
+      if (new RegExp(rule.match, 'i').test(haystack)) {
+        return rule.value;
+      }
+    } catch {
+      logger.warn(`[FormDetector] Invalid field match pattern: ${rule.match}`);
+    }
+  }
+
+  const typeKey = field.tag === 'textarea' ? 'textarea' : field.type;
+  if (testData.defaults[typeKey] !== undefined) {
+    return testData.defaults[typeKey];
+  }
+
+  if (['text', 'search', 'input'].includes(field.type) && testData.defaults.text !== undefined) {
+    return testData.defaults.text;
+  }
+
+  return null;
+}
+
+function matchSignature(content: string, signatures: RegExp[]): string | undefined {
+  for (const signature of signatures) {
+    const match = content.match(signature);
+    if (match) {
+      return match[0].slice(0, 200);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Classify how a site responded to a form submission
+ */
+export function classifySubmission(attempt: FormSubmissionAttempt): SubmissionClassification {
+  const sawResponse = attempt.responseStatus !== null;
+
+  if (attempt.error && !sawResponse && !attempt.navigated) {
+    return { outcome: 'error', signal: attempt.error };
+  }
+
+  const content = `${attempt.title}\n${attempt.html}`;
+
+  if (attempt.responseHeaders['cf-mitigated'] === 'challenge') {
+    return { outcome: 'challenge', signal: 'cf-mitigated: challenge' };
+  }
+
+  const challenge = matchSignature(content, CHALLENGE_SIGNATURES);
+  if (challenge) {
+    return { outcome: 'challenge', signal: challenge };
+  }
+
+  const block = matchSignature(content, WAF_BLOCK_SIGNATURES);
+  if (block) {
+    return { outcome: 'waf_block', signal: block };
+  }
+
+  if (attempt.responseStatus === 429) {
+    return { outcome: 'rate_limited', signal: 'HTTP 429' };
+  }
+
+  if (attempt.responseStatus === 403) {
+    return { outcome: 'forbidden', signal: 'HTTP 403' };
+  }
+
+  if (attempt.responseStatus !== null && attempt.responseStatus >= 500) {
+    return { outcome: 'server_error', signal: `HTTP ${attempt.responseStatus}` };
+  }
+
+  if (!sawResponse && !attempt.navigated && !attempt.domChanged) {
+    return { outcome: 'silent_noop', signal: 'No request, navigation or DOM change after submit' };
+  }
+
+  return { outcome: 'submitted' };
+}
+
+function extractSnippet(html: string, signal: string | undefined): string | undefined {
+  if (!signal || !html) {
+    return undefined;
+  }
+
+  const position = html.indexOf(signal);
+  if (position === -1) {
+    return undefined;
+  }
+
+  return html.slice(Math.max(0, position - 200), position + signal.length + 200);
+}
+
+/**
+ * Run the form.submit_blocked detector over a set of submission attempts.
+ * The most severe blocked attempt becomes the finding.
+ */
+export function detectFormSubmitBlocked(
+  url: string,
+  attempts: FormSubmissionAttempt[]
+): FormDetectionResult {
+  const classified = attempts.map((attempt) => ({
+    attempt,
+    ...classifySubmission(attempt),
+  }));
+
+  const summaries: FormAttemptSummary[] = classified.map(({ attempt, outcome, signal }) => ({
+    formIndex: attempt.form.index,
+    action: attempt.form.action,
+    method: attempt.form.method,
+    outcome,
+    responseStatus: attempt.responseStatus,
+    signal,
+  }));
+
+  let worst: (typeof classified)[number] | null = null;
+  for (const entry of classified) {
+    const severity = OUTCOME_SEVERITY[entry.outcome];
+    if (!severity) {
+      continue;
+    }
+    if (!worst || SEVERITY_RANK[severity] > SEVERITY_RANK[OUTCOME_SEVERITY[worst.outcome]!]) {
+      worst = entry;
+    }
+  }
+
+  if (!worst) {
+    return {
+      blocked: false,
+      findingType: FORM_SUBMIT_BLOCKED,
+      severity: null,
+      title: null,
+      description: null,
+      detectedValue: null,
+      context: null,
+      waf: null,
+      attempts: summaries,
+    };
+  }
+
+  const { attempt, outcome, signal } = worst;
+  const host = new URL(url).hostname;
+  const waf = classifyWafPage({
+    html: attempt.html,
+    title: attempt.title,
+    headers: attempt.responseHeaders,
+    status: attempt.responseStatus,
+    finalUrl: attempt.finalUrl,
+  });
+
+  return {
+    blocked: true,
+    findingType: FORM_SUBMIT_BLOCKED,
+    severity: OUTCOME_SEVERITY[outcome],
+    title: `Form submission blocked on ${host} (${outcome})`,
+    description: `Submitting form ${attempt.form.selector} (${attempt.form.method} ${attempt.form.action}) with test data resulted in ${outcome}.`,
+    detectedValue: signal || outcome,
+    context: JSON.stringify({
+      outcome,
+      form: attempt.form.selector,
+      action: attempt.form.action,
+      method: attempt.form.method,
+      requestUrl: attempt.requestUrl,
+      requestMethod: attempt.requestMethod,
+      responseStatus: attempt.responseStatus,
+      finalUrl: attempt.finalUrl,
+      filledFields: attempt.filledFields,
+      snippet: extractSnippet(attempt.html, signal),
+      waf,
+    }),
+    waf,
+    attempts: summaries,
+  };
+}
+
+/**
+ * Registry entry for the form.submit_blocked detector
+ */
+export const formSubmitBlockedDetector: Detector = {
+  id: FORM_SUBMIT_BLOCKED,
+  description: 'Submits forms with test data and flags blocked submissions',
+  inputs: ['forms'],
+  detect({ url, formAttempts }) {
+    if (!formAttempts || formAttempts.length === 0) {
+      return [];
+    }
+
+    const result = detectFormSubmitBlocked(url, formAttempts);
+    if (!result.blocked || !result.severity) {
+      return [];
+    }
+
+    return [
+      {
+        detector: FORM_SUBMIT_BLOCKED,
+        type: FORM_SUBMIT_BLOCKED,
+        severity: result.severity,
+        title: result.title!,
+        description: result.description ?? undefined,
+        detectedValue: result.detectedValue ?? undefined,
+        context: result.context ?? undefined,
+        metadata: { attempts: result.attempts, ...(result.waf && { waf: result.waf }) },
+      },
+    ];
+  },
+};
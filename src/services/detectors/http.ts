@@ -0,0 +1,134 @@
+import { config } from '../../config';
+import { getEffectiveLatencyThreshold } from '../rulesService';
+import { isDnsOrTlsFailure } from './connection';
+import type { Detector, DetectorInput } from './types';
+
+function isTimeout(error: string): boolean {
+  return error.toLowerCase().includes('timeout');
+}
+
+/**
+ * HTTP 5xx responses from the target
+ */
+export const http5xxDetector: Detector = {
+  id: 'http.5xx',
+  description: 'Flags HTTP 5xx responses',
+  inputs: ['fetch'],
+  detect({ fetchResult }: DetectorInput) {
+    if (!fetchResult || !fetchResult.status || fetchResult.status < 500) {
+      return [];
+    }
+
+    return [
+      {
+        detector: 'http.5xx',
+        type: '5xx',
+        severity: 'high',
+        title: `Server error (HTTP ${fetchResult.status})`,
+        detectedValue: `HTTP ${fetchResult.status}`,
+      },
+    ];
+  },
+};
+
+/**
+ * Successful responses slower than the rule's latency threshold
+ */
+export const httpLatencyDetector: Detector = {
+  id: 'http.latency',
+  description: 'Flags successful responses slower than the latency threshold',
+  inputs: ['fetch'],
+  detect({ fetchResult, rule }: DetectorInput) {
+    if (
+      !fetchResult ||
+      !fetchResult.success ||
+      !fetchResult.status ||
+      fetchResult.status < 200 ||
+      fetchResult.status >= 300
+    ) {
+      return [];
+    }
+
+    let threshold = config.tuning.latencyMsThreshold;
+    try {
+      threshold = getEffectiveLatencyThreshold(rule ?? null);
+    } catch {
+      // Rules not loaded, keep the global threshold
+    }
+
+    if (fetchResult.latencyMs <= threshold) {
+      return [];
+    }
+
+    return [
+      {
+        detector: 'http.latency',
+        type: 'latency',
+        severity: 'low',
+        title: `High latency (${Math.round(fetchResult.latencyMs)}ms > ${threshold}ms)`,
+        detectedValue: `${Math.round(fetchResult.latencyMs)}ms`,
+      },
+    ];
+  },
+};
+
+/**
+ * Requests that timed out
+ */
+export const httpTimeoutDetector: Detector = {
+  id: 'http.timeout',
+  description: 'Flags requests that timed out',
+  inputs: ['fetch'],
+  detect({ fetchResult }: DetectorInput) {
+    if (!fetchResult || fetchResult.success || !fetchResult.error || fetchResult.skipped) {
+      return [];
+    }
+    if ((fetchResult.status && fetchResult.status >= 500) || !isTimeout(fetchResult.error)) {
+      return [];
+    }
+    if (isDnsOrTlsFailure(fetchResult)) {
+      return [];
+    }
+
+    return [
+      {
+        detector: 'http.timeout',
+        type: 'timeout',
+        severity: 'medium',
+        title: 'Request timeout',
+        detectedValue: fetchResult.error,
+      },
+    ];
+  },
+};
+
+/**
+ * Requests that failed without a response (refused or reset connections, ...);
+ * DNS and TLS failures have their own detectors
+ */
+export const httpNetworkDetector: Detector = {
+  id: 'http.network',
+  description: 'Flags requests that failed with a network error',
+  inputs: ['fetch'],
+  detect({ fetchResult }: DetectorInput) {
+    if (!fetchResult || fetchResult.success || !fetchResult.error || fetchResult.skipped) {
+      return [];
+    }
+    if ((fetchResult.status && fetchResult.status >= 500) || isTimeout(fetchResult.error)) {
+      return [];
+    }
+    if (isDnsOrTlsFailure(fetchResult)) {
+      return [];
+    }
+
+    return [
+      {
+        detector: 'http.network',
+        type: 'network',
+        severity: 'medium',
+        title: 'Network error',
+        detectedValue: fetchResult.error,
+      },
+    ];
+  },
+};
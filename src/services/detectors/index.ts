@@ -0,0 +1,34 @@
+export * from './types';
+export * from './registry';
+
+// Built-in detectors
+export {
+  http5xxDetector,
+  httpLatencyDetector,
+  httpTimeoutDetector,
+  httpNetworkDetector,
+} from './http';
+export {
+  dnsFailureDetector,
+  tlsErrorDetector,
+  tlsExpiringDetector,
+  isDnsOrTlsFailure,
+} from './connection';
+export { formSubmitBlockedDetector, FORM_SUBMIT_BLOCKED } from './formSubmitBlocked';
+export {
+  networkSubrequestDetector,
+  classifySubrequest,
+  findDocumentRequest,
+  NETWORK_SUBREQUEST_FAILED,
+  type FailedSubrequest,
+  type SubrequestProblem,
+} from './networkLog';
+export {
+  wafBlockDetector,
+  classifyWafPage,
+  extractDocumentResponse,
+  WAF_BLOCK,
+  type WafVendor,
+  type WafBlockType,
+  type WafClassification,
+} from './wafClassifier';
@@ -0,0 +1,111 @@
+import type { NetworkRequest } from '../browserService';
+import { SEVERITY_RANK, type Detector, type FindingSeverity } from './types';
+
+export const NETWORK_SUBREQUEST_FAILED = 'network.subrequest_failed';
+
+export type SubrequestProblem = 'form_post_error' | 'third_party_script_blocked';
+
+export interface FailedSubrequest {
+  problem: SubrequestProblem;
+  severity: FindingSeverity;
+  url: string;
+  method: string;
+  resourceType: string;
+  status: number | null;
+  failure?: string;
+}
+
+/** Failed sub-requests stored on the finding (the full list is in the network_log artifact) */
+const MAX_REPORTED_REQUESTS = 20;
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH'];
+
+/**
+ * Find the main document's request in a network log (latest navigation to the
+ * final URL, else the first navigation)
+ */
+export function findDocumentRequest(
+  requests: NetworkRequest[] | undefined,
+  finalUrl: string
+): NetworkRequest | null {
+  const navigations = (requests || []).filter((request) => request.navigation);
+  return (
+    [...navigations].reverse().find((request) => request.url === finalUrl) || navigations[0] || null
+  );
+}
+
+/**
+ * Classify one sub-request, or return null when it is not a problem:
+ * - form_post_error: a POST/PUT/PATCH endpoint answered 4xx/5xx (403, 429 and 5xx are high)
+ * - third_party_script_blocked: a third-party script failed to load or answered 4xx/5xx
+ */
+export function classifySubrequest(request: NetworkRequest): FailedSubrequest | null {
+  if (request.navigation) {
+    return null;
+  }
+
+  const base = {
+    url: request.url,
+    method: request.method,
+    resourceType: request.resourceType,
+    status: request.status,
+    ...(request.failure && { failure: request.failure }),
+  };
+
+  const errorStatus = request.status !== null && request.status >= 400;
+
+  if (WRITE_METHODS.includes(request.method.toUpperCase()) && errorStatus) {
+    const status = request.status!;
+    const severity: FindingSeverity =
+      status === 403 || status === 429 || status >= 500 ? 'high' : 'medium';
+    return { problem: 'form_post_error', severity, ...base };
+  }
+
+  if (request.resourceType === 'script' && request.thirdParty && (request.failure || errorStatus)) {
+    return { problem: 'third_party_script_blocked', severity: 'medium', ...base };
+  }
+
+  return null;
+}
+
+/**
+ * Registry entry for the network.subrequest_failed detector
+ */
+export const networkSubrequestDetector: Detector = {
+  id: NETWORK_SUBREQUEST_FAILED,
+  description:
+    'Flags failed form POST endpoints and blocked third-party scripts in the network log',
+  inputs: ['evidence'],
+  detect({ url, evidence }) {
+    const failed = (evidence?.networkRequests || []).flatMap((request) => {
+      const classified = classifySubrequest(request);
+      return classified ? [classified] : [];
+    });
+
+    if (failed.length === 0) {
+      return [];
+    }
+
+    const worst = failed.reduce((current, candidate) =>
+      SEVERITY_RANK[candidate.severity] > SEVERITY_RANK[current.severity] ? candidate : current
+    );
+    const host = new URL(url).hostname;
+    const label =
+      worst.problem === 'form_post_error'
+        ? `${worst.method} ${worst.url} returned ${worst.status}`
+        : `third-party script ${worst.url} ${worst.failure ? `failed (${worst.failure})` : `returned ${worst.status}`}`;
+
+    return [
+      {
+        detector: NETWORK_SUBREQUEST_FAILED,
+        type: NETWORK_SUBREQUEST_FAILED,
+        severity: worst.severity,
+        title: `${failed.length} failed sub-request(s) on ${host}`,
+        description: `The page loaded, but ${label}.`,
+        detectedValue: worst.status !== null ? `${worst.problem}:${worst.status}` : worst.problem,
+        context: JSON.stringify(worst),
+        metadata: { failedRequests: failed.slice(0, MAX_REPORTED_REQUESTS) },
+      },
+    ];
+  },
+};
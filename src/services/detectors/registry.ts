@@ -0,0 +1,134 @@
+import { logger } from '../../utils/logger';
+import { findMatchingRule, getEffectiveDetectors, type Rule } from '../rulesService';
+import {
+  http5xxDetector,
+  httpLatencyDetector,
+  httpNetworkDetector,
+  httpTimeoutDetector,
+} from './http';
+import { dnsFailureDetector, tlsErrorDetector, tlsExpiringDetector } from './connection';
+import { formSubmitBlockedDetector } from './formSubmitBlocked';
+import { wafBlockDetector } from './wafClassifier';
+import { networkSubrequestDetector } from './networkLog';
+import {
+  SEVERITY_RANK,
+  type DetectedFinding,
+  type Detector,
+  type DetectorInput,
+  type DetectorInputKind,
+} from './types';
+
+const detectors = new Map<string, Detector>();
+
+const BUILT_IN_DETECTORS: Detector[] = [
+  http5xxDetector,
+  httpLatencyDetector,
+  httpTimeoutDetector,
+  httpNetworkDetector,
+  dnsFailureDetector,
+  tlsErrorDetector,
+  tlsExpiringDetector,
+  formSubmitBlockedDetector,
+  wafBlockDetector,
+  networkSubrequestDetector,
+];
+
+/**
+ * Register a detector (replaces any detector with the same ID)
+ */
+export function registerDetector(detector: Detector): void {
+  if (detectors.has(detector.id)) {
+    logger.warn(`[Detectors] Replacing detector: ${detector.id}`);
+  }
+  detectors.set(detector.id, detector);
+}
+
+/**
+ * Remove a detector from the registry
+ */
+export function unregisterDetector(id: string): boolean {
+  return detectors.delete(id);
+}
+
+export function getDetector(id: string): Detector | undefined {
+  return detectors.get(id);
+}
+
+export function listDetectors(): Detector[] {
+  return Array.from(detectors.values());
+}
+
+/**
+ * Find the rule for a URL, or null when rules are not loaded
+ */
+export function findRuleForDetection(url: string): Rule | null {
+  try {
+    return findMatchingRule(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Select the detectors to run for a rule at a given stage.
+ * Uses the rule's `detectors` list, then the defaults, then every registered detector,
+ * keeping only detectors that consume one of the available inputs.
+ */
+export function selectDetectors(rule: Rule | null, inputs: DetectorInputKind[]): Detector[] {
+  let ids: string[] | null = null;
+  try {
+    ids = getEffectiveDetectors(rule);
+  } catch {
+    // Rules not loaded, run every registered detector
+  }
+
+  const candidates = ids
+    ? ids.flatMap((id) => {
+        const detector = detectors.get(id);
+        if (!detector) {
+          logger.warn(`[Detectors] Unknown detector "${id}" in rule ${rule?.id || 'defaults'}`);
+          return [];
+        }
+        return [detector];
+      })
+    : listDetectors();
+
+  return candidates.filter((detector) => detector.inputs.some((kind) => inputs.includes(kind)));
+}
+
+/**
+ * Run detectors against an input. A failing detector is logged and skipped.
+ */
+export async function runDetectors(
+  input: DetectorInput,
+  selected: Detector[]
+): Promise<DetectedFinding[]> {
+  const results: DetectedFinding[] = [];
+
+  for (const detector of selected) {
+    try {
+      results.push(...(await detector.detect(input)));
+    } catch (error) {
+      logger.error(
+        `[Detectors] Detector ${detector.id} failed for ${input.url}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Pick the most severe finding (first one wins on ties)
+ */
+export function mostSevereFinding(found: DetectedFinding[]): DetectedFinding | null {
+  let worst: DetectedFinding | null = null;
+  for (const finding of found) {
+    if (!worst || SEVERITY_RANK[finding.severity] > SEVERITY_RANK[worst.severity]) {
+      worst = finding;
+    }
+  }
+  return worst;
+}
+
+BUILT_IN_DETECTORS.forEach(registerDetector);
@@ -0,0 +1,53 @@
+import type { FetchResult } from '../fetcher/types';
+import type { EvidenceCapture, FormSubmissionAttempt } from '../browserService';
+import type { Rule } from '../rulesService';
+
+export type FindingSeverity = 'low' | 'medium' | 'high';
+
+export const SEVERITY_RANK: Record<FindingSeverity, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Inputs a detector can consume:
+ * - fetch: the FetchResult of an HTTP fetch (scan stage)
+ * - evidence: the EvidenceCapture of a rendered page (render stage)
+ * - forms: form submission attempts made by the browser (render stage)
+ */
+export type DetectorInputKind = 'fetch' | 'evidence' | 'forms';
+
+export interface DetectorInput {
+  url: string;
+  rule?: Rule | null;
+  fetchResult?: FetchResult;
+  evidence?: EvidenceCapture;
+  formAttempts?: FormSubmissionAttempt[];
+}
+
+/**
+ * A typed finding produced by a detector
+ */
+export interface DetectedFinding {
+  /** ID of the detector that produced the finding */
+  detector: string;
+
+  /** Finding type, used for fingerprinting, suppression and alerting (e.g. '5xx', 'form.submit_blocked') */
+  type: string;
+
+  severity: FindingSeverity;
+  title: string;
+  description?: string;
+  detectedValue?: string;
+  context?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface Detector {
+  /** Unique detector ID, referenced from the `detectors` list of a rule */
+  id: string;
+
+  description: string;
+
+  /** Inputs the detector needs; it only runs when at least one is available */
+  inputs: DetectorInputKind[];
+
+  detect(input: DetectorInput): DetectedFinding[] | Promise<DetectedFinding[]>;
+}
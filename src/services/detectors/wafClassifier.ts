@@ -0,0 +1,422 @@
+import type { Detector, FindingSeverity } from './types';
+import { findDocumentRequest } from './networkLog';
+
+export const WAF_BLOCK = 'waf.block';
+
+export type WafVendor = 'cloudflare' | 'akamai' | 'imperva' | 'aws_waf' | 'datadome' | 'unknown';
+
+export type WafBlockType = 'hard_block' | 'js_challenge' | 'captcha' | 'rate_limit';
+
+export interface WafPageInput {
+  html: string;
+  title?: string;
+  /** Response headers of the main document (lower-cased names) */
+  headers: Record<string, string>;
+  status: number | null;
+  finalUrl: string;
+}
+
+export interface WafClassification {
+  vendor: WafVendor;
+  blockType: WafBlockType;
+  /** The evidence that identified the vendor and block type */
+  signals: string[];
+  status: number | null;
+  finalUrl: string;
+}
+
+interface Signature {
+  vendor?: WafVendor;
+  blockType?: WafBlockType;
+  /** Human readable description stored in `signals` */
+  signal: string;
+  /** Only proves a block on an error response (the marker also appears on normal pages) */
+  requiresError?: boolean;
+  header?: { name: string; value?: RegExp };
+  html?: RegExp;
+  url?: RegExp;
+}
+
+/**
+ * Vendor and block type signatures. Signatures with a vendor identify the WAF;
+ * signatures with a block type prove the page is a block rather than the real content.
+ */
+const SIGNATURES: Signature[] = [
+  // Cloudflare
+  { vendor: 'cloudflare', signal: 'cf-ray header', header: { name: 'cf-ray' } },
+  {
+    vendor: 'cloudflare',
+    signal: 'server: cloudflare',
+    header: { name: 'server', value: /cloudflare/i },
+  },
+  {
+    vendor: 'cloudflare',
+    blockType: 'js_challenge',
+    signal: 'cf-mitigated: challenge',
+    header: { name: 'cf-mitigated', value: /challenge/i },
+  },
+  {
+    vendor: 'cloudflare',
+    blockType: 'captcha',
+    signal: 'Turnstile widget',
+    requiresError: true,
+    html: /challenges\.cloudflare\.com\/turnstile|cf-turnstile/i,
+  },
+  {
+    vendor: 'cloudflare',
+    blockType: 'rate_limit',
+    signal: 'Cloudflare error 1015',
+    html: /error code:?\s*1015|You are being rate limited/i,
+  },
+  {
+    vendor: 'cloudflare',
+    blockType: 'js_challenge',
+    signal: 'Cloudflare challenge page',
+    html: /<title>\s*Just a moment\.\.\.\s*<\/title>|cf-chl-/i,
+  },
+  {
+    vendor: 'cloudflare',
+    blockType: 'js_challenge',
+    signal: 'Cloudflare challenge platform',
+    requiresError: true,
+    html: /\/cdn-cgi\/challenge-platform/i,
+  },
+  {
+    vendor: 'cloudflare',
+    blockType: 'hard_block',
+    signal: 'Cloudflare block page',
+    html: /Attention Required! \| Cloudflare|Sorry, you have been blocked|error code:?\s*10(06|07|08|10|12|20)\b/i,
+  },
+  {
+    vendor: 'cloudflare',
+    blockType: 'js_challenge',
+    signal: 'Cloudflare challenge token in URL',
+    url: /[?&]__cf_chl_(rt_tk|tk|f_tk|jschl_tk__)=/,
+  },
+  { vendor: 'cloudflare', signal: 'Cloudflare Ray ID', html: /Cloudflare Ray ID/i },
+
+  // Akamai
+  {
+    vendor: 'akamai',
+    signal: 'server: AkamaiGHost',
+    header: { name: 'server', value: /AkamaiGHost|AkamaiNetStorage/i },
+  },
+  { vendor: 'akamai', signal: 'akamai-grn header', header: { name: 'akamai-grn' } },
+  {
+    vendor: 'akamai',
+    signal: 'Akamai Bot Manager cookie',
+    header: { name: 'set-cookie', value: /\b(_abck|bm_sz|ak_bmsc)=/ },
+  },
+  {
+    vendor: 'akamai',
+    blockType: 'hard_block',
+    signal: 'Akamai Access Denied page',
+    html: /You don't have permission to access[\s\S]*Reference #\d+\.|errors\.edgesuite\.net/i,
+  },
+  {
+    vendor: 'akamai',
+    blockType: 'js_challenge',
+    signal: 'Akamai Bot Manager challenge',
+    html: /sec-if-cpt-container|\/_sec\/cp_challenge/i,
+  },
+
+  // Imperva (Incapsula)
+  { vendor: 'imperva', signal: 'x-iinfo header', header: { name: 'x-iinfo' } },
+  {
+    vendor: 'imperva',
+    signal: 'x-cdn: Imperva',
+    header: { name: 'x-cdn', value: /Imperva|Incapsula/i },
+  },
+  {
+    vendor: 'imperva',
+    signal: 'Incapsula cookie',
+    header: { name: 'set-cookie', value: /\b(incap_ses_|visid_incap_)/ },
+  },
+  {
+    vendor: 'imperva',
+    blockType: 'hard_block',
+    signal: 'Incapsula incident page',
+    html: /Request unsuccessful\. Incapsula incident ID|Incapsula incident ID/i,
+  },
+  {
+    vendor: 'imperva',
+    blockType: 'captcha',
+    signal: 'Imperva CAPTCHA',
+    requiresError: true,
+    html: /_Incapsula_Resource[\s\S]*(captcha|recaptcha|hcaptcha)/i,
+  },
+  {
+    vendor: 'imperva',
+    blockType: 'js_challenge',
+    signal: 'Imperva JS challenge',
+    requiresError: true,
+    html: /_Incapsula_Resource/i,
+  },
+
+  // AWS WAF / CloudFront
+  {
+    vendor: 'aws_waf',
+    blockType: 'captcha',
+    signal: 'x-amzn-waf-action: captcha',
+    header: { name: 'x-amzn-waf-action', value: /captcha/i },
+  },
+  {
+    vendor: 'aws_waf',
+    blockType: 'js_challenge',
+    signal: 'x-amzn-waf-action: challenge',
+    header: { name: 'x-amzn-waf-action', value: /challenge/i },
+  },
+  {
+    vendor: 'aws_waf',
+    blockType: 'hard_block',
+    signal: 'x-amzn-waf-action: block',
+    header: { name: 'x-amzn-waf-action', value: /block/i },
+  },
+  {
+    vendor: 'aws_waf',
+    blockType: 'captcha',
+    signal: 'AWS WAF CAPTCHA',
+    requiresError: true,
+    html: /AwsWafIntegration|captcha\.awswaf\.com|awsWafCookieDomainList/i,
+  },
+  {
+    vendor: 'aws_waf',
+    blockType: 'hard_block',
+    signal: 'CloudFront request blocked page',
+    html: /Request blocked\.[\s\S]*could not be satisfied|Generated by cloudfront \(CloudFront\)[\s\S]*Request blocked/i,
+  },
+  { vendor: 'aws_waf', signal: 'x-amz-cf-id header', header: { name: 'x-amz-cf-id' } },
+
+  // DataDome
+  { vendor: 'datadome', signal: 'x-datadome header', header: { name: 'x-datadome' } },
+  { vendor: 'datadome', signal: 'x-dd-b header', header: { name: 'x-dd-b' } },
+  {
+    vendor: 'datadome',
+    signal: 'DataDome cookie',
+    header: { name: 'set-cookie', value: /\bdatadome=/i },
+  },
+  {
+    vendor: 'datadome',
+    blockType: 'js_challenge',
+    signal: 'DataDome interstitial',
+    html: /geo\.captcha-delivery\.com\/interstitial|ct\.captcha-delivery\.com\/i\.js/i,
+  },
+  {
+    vendor: 'datadome',
+    blockType: 'captcha',
+    signal: 'DataDome CAPTCHA',
+    html: /captcha-delivery\.com/i,
+  },
+
+  // Vendor-neutral
+  {
+    blockType: 'captcha',
+    signal: 'CAPTCHA widget',
+    html: /g-recaptcha|google\.com\/recaptcha|hcaptcha\.com|h-captcha/i,
+  },
+  {
+    blockType: 'rate_limit',
+    signal: 'Too Many Requests page',
+    html: /<title>[^<]*Too Many Requests[^<]*<\/title>/i,
+  },
+  {
+    blockType: 'js_challenge',
+    signal: 'Browser check page',
+    html: /Checking your browser before accessing|Please enable JavaScript and cookies to continue/i,
+  },
+  {
+    blockType: 'hard_block',
+    signal: 'Access Denied page',
+    html: /<title>\s*Access Denied\s*<\/title>/i,
+  },
+];
+
+const VENDOR_NAMES: Record<WafVendor, string> = {
+  cloudflare: 'Cloudflare',
+  akamai: 'Akamai',
+  imperva: 'Imperva',
+  aws_waf: 'AWS WAF',
+  datadome: 'DataDome',
+  unknown: 'Unknown WAF',
+};
+
+const BLOCK_TYPE_SEVERITY: Record<WafBlockType, FindingSeverity> = {
+  hard_block: 'high',
+  captcha: 'high',
+  js_challenge: 'medium',
+  rate_limit: 'medium',
+};
+
+function matches(signature: Signature, input: WafPageInput, content: string): boolean {
+  if (signature.header) {
+    const value = input.headers[signature.header.name];
+    if (value === undefined) {
+      return false;
+    }
+    return signature.header.value ? signature.header.value.test(value) : true;
+  }
+  if (signature.html) {
+    return signature.html.test(content);
+  }
+  if (signature.url) {
+    return signature.url.test(input.finalUrl);
+  }
+  return false;
+}
+
+/**
+ * Identify the WAF / bot-management vendor and block type of a page.
+ * Returns null when the page is not a block or challenge page.
+ */
+export function classifyWafPage(input: WafPageInput): WafClassification | null {
+  const content = `${input.title || ''}\n${input.html || ''}`;
+  const matched = SIGNATURES.filter((signature) => matches(signature, input, content));
+
+  const errorStatus = input.status !== null && input.status >= 400;
+
+  // Vendor-neutral page signatures (e.g. a CAPTCHA on a contact form) only count on error responses
+  const blockEvidence = matched.filter(
+    (signature) =>
+      signature.blockType && (errorStatus || (signature.vendor && !signature.requiresError))
+  );
+
+  let vendor: WafVendor = matched.find((signature) => signature.vendor)?.vendor || 'unknown';
+  const vendorBlock = blockEvidence.filter((signature) => signature.vendor);
+  const blockSignature =
+    vendorBlock.find((signature) => signature.vendor === vendor) ||
+    vendorBlock[0] ||
+    blockEvidence[0];
+
+  // The vendor that served the block page wins over a CDN in front of it
+  if (blockSignature?.vendor) {
+    vendor = blockSignature.vendor;
+  }
+
+  let blockType: WafBlockType | undefined = blockSignature?.blockType;
+
+  // Vendor present with an error status but no page signature
+  if (!blockType && vendor !== 'unknown') {
+    if (input.status === 429) {
+      blockType = 'rate_limit';
+    } else if (input.status === 403) {
+      blockType = 'hard_block';
+    }
+  }
+
+  if (!blockType) {
+    return null;
+  }
+
+  if (input.status === 429) {
+    blockType = 'rate_limit';
+  }
+
+  const signals = matched
+    .filter((signature) => !signature.vendor || signature.vendor === vendor)
+    .map((signature) => signature.signal);
+  if (input.status !== null && input.status >= 400) {
+    signals.push(`HTTP ${input.status}`);
+  }
+
+  return {
+    vendor,
+    blockType,
+    signals: Array.from(new Set(signals)),
+    status: input.status,
+    finalUrl: input.finalUrl,
+  };
+}
+
+/**
+ * The parts of a HAR (HTTP Archive) the classifier reads
+ */
+interface HarLog {
+  log?: {
+    entries?: Array<{
+      request?: { url?: string };
+      response?: { status?: number; headers?: Array<{ name: string; value: string }> };
+    }>;
+  };
+}
+
+/**
+ * Find the main document response in a HAR (the entry for the final URL, else the first entry)
+ */
+export function extractDocumentResponse(
+  har: HarLog | null | undefined,
+  finalUrl: string
+): { status: number | null; headers: Record<string, string> } {
+  const entries = har?.log?.entries || [];
+  const entry =
+    [...entries].reverse().find((candidate) => candidate?.request?.url === finalUrl) || entries[0];
+
+  if (!entry?.response) {
+    return { status: null, headers: {} };
+  }
+
+  const headers: Record<string, string> = {};
+  for (const header of entry.response.headers || []) {
+    if (!header?.name) {
+      continue;
+    }
+    const name = String(header.name).toLowerCase();
+    headers[name] = headers[name] ? `${headers[name]}\n${header.value}` : String(header.value);
+  }
+
+  return {
+    status: typeof entry.response.status === 'number' ? entry.response.status : null,
+    headers,
+  };
+}
+
+/**
+ * Registry entry for the waf.block detector
+ */
+export const wafBlockDetector: Detector = {
+  id: WAF_BLOCK,
+  description: 'Classifies WAF / bot-management block and challenge pages by vendor and type',
+  inputs: ['evidence'],
+  detect({ url, evidence }) {
+    if (!evidence) {
+      return [];
+    }
+
+    const finalUrl = evidence.metadata.finalUrl || evidence.url || url;
+    let response = extractDocumentResponse(evidence.har, finalUrl);
+
+    // Fall back to the network log when HAR recording was off or failed
+    const documentRequest =
+      response.status === null ? findDocumentRequest(evidence.networkRequests, finalUrl) : null;
+    if (documentRequest) {
+      response = { status: documentRequest.status, headers: documentRequest.headers };
+    }
+
+    const classification = classifyWafPage({
+      html: evidence.html,
+      title: evidence.title,
+      headers: response.headers,
+      status: response.status,
+      finalUrl,
+    });
+
+    if (!classification) {
+      return [];
+    }
+
+    const host = new URL(url).hostname;
+    const label = classification.blockType.replace('_', ' ');
+
+    return [
+      {
+        detector: WAF_BLOCK,
+        type: WAF_BLOCK,
+        severity: BLOCK_TYPE_SEVERITY[classification.blockType],
+        title: `${VENDOR_NAMES[classification.vendor]} ${label} on ${host}`,
+        description: `The page was served a ${VENDOR_NAMES[classification.vendor]} ${label} page instead of its content.`,
+        detectedValue: `${classification.vendor}:${classification.blockType}`,
+        context: JSON.stringify(classification),
+        metadata: { waf: classification },
+      },
+    ];
+  },
+};
@@ -0,0 +1,51 @@
+import { devices } from 'playwright';
+
+/**
+ * Browser context settings for one entry of a rule's device matrix
+ */
+export interface DeviceProfile {
+  name: string;
+  viewport: { width: number; height: number };
+  userAgent: string;
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+/**
+ * Whether `name` is a Playwright device descriptor (e.g. "iPhone 13", "Pixel 7")
+ */
+export function isKnownDevice(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(devices, name);
+}
+
+/**
+ * Resolve a Playwright device descriptor by name.
+ * Every device is emulated in Chromium (viewport, user agent, touch, DPR),
+ * including descriptors whose default browser is WebKit.
+ */
+export function resolveDevice(name: string): DeviceProfile {
+  if (!isKnownDevice(name)) {
+    throw new Error(`Unknown device "${name}" (expected a Playwright device descriptor name)`);
+  }
+
+  const descriptor = devices[name];
+  return {
+    name,
+    viewport: descriptor.viewport,
+    userAgent: descriptor.userAgent,
+    deviceScaleFactor: descriptor.deviceScaleFactor,
+    isMobile: descriptor.isMobile,
+    hasTouch: descriptor.hasTouch,
+  };
+}
+
+/**
+ * File-name-safe form of a device name ("iPhone 13 Pro" -> "iphone-13-pro")
+ */
+export function deviceSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
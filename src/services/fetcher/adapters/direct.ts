@@ -1,16 +1,41 @@
-import { IFetcher, FetchOptions, FetchResult, FetcherAdapterOptions } from '../types';
+import {
+  Agent,
+  fetch as undiciFetch,
+  type RequestInit as UndiciRequestInit,
+  type Response as UndiciResponse,
+} from 'undici';
+import {
+  IFetcher,
+  FetchOptions,
+  FetchResult,
+  FetcherAdapterOptions,
+  ConnectionDiagnostics,
+} from '../types';
 import { retryWithBackoff, DEFAULT_RETRY_CONFIG, isRetryableError } from '../retry';
 import { logger } from '../../../utils/logger';
+import {
+  BlockedDestinationError,
+  checkDestination,
+  type DestinationGuardOptions,
+} from '../../destinationGuard';
+import { createDiagnosticConnector, describeConnectionFailure } from '../connectionDiagnostics';
+
+/** Redirects followed before giving up (same limit as the fetch spec) */
+const MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
 
 export class DirectFetcher implements IFetcher {
   private defaultTimeoutMs: number;
   private defaultRetries: number;
   private debug: boolean;
+  private destinationGuard: Partial<DestinationGuardOptions>;
 
   constructor(options: FetcherAdapterOptions = {}) {
     this.defaultTimeoutMs = options.defaultTimeoutMs || 30000; // 30 seconds
     this.defaultRetries = options.defaultRetries || 3;
     this.debug = options.debug || false;
+    this.destinationGuard = options.destinationGuard || {};
   }
 
   async fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
@@ -22,10 +47,16 @@ export class DirectFetcher implements IFetcher {
       logger.debug(`[DirectFetcher] Fetching ${url}`, { timeoutMs, retries });
     }
 
+    // Last connection made, kept up to date by the connector
+    let diagnostics: ConnectionDiagnostics | undefined;
+    const onConnection = (connection: ConnectionDiagnostics) => {
+      diagnostics = connection;
+    };
+
     try {
       // Use retry with backoff
       const result = await retryWithBackoff(
-        async () => this._fetchOnce(url, options, timeoutMs),
+        async () => this._fetchOnce(url, options, timeoutMs, onConnection),
         {
           ...DEFAULT_RETRY_CONFIG,
           maxRetries: retries,
@@ -38,10 +69,13 @@ export class DirectFetcher implements IFetcher {
         ...result,
         latencyMs,
         success: result.status !== null && result.status >= 200 && result.status < 300,
+        ...(diagnostics && { diagnostics: { ...diagnostics } }),
       };
     } catch (error) {
       const latencyMs = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const connectionError = diagnostics && describeConnectionFailure(diagnostics);
+      const errorMessage =
+        connectionError || (error instanceof Error ? error.message : String(error));
 
       logger.error(`[DirectFetcher] Failed to fetch ${url}`, { error: errorMessage });
 
@@ -51,6 +85,7 @@ export class DirectFetcher implements IFetcher {
         latencyMs,
         success: false,
         attempts: retries + 1,
+        ...(diagnostics && { diagnostics: { ...diagnostics } }),
       };
     }
   }
@@ -58,29 +93,42 @@ export class DirectFetcher implements IFetcher {
   private async _fetchOnce(
     url: string,
     options: FetchOptions,
-    timeoutMs: number
+    timeoutMs: number,
+    onConnection: (diagnostics: ConnectionDiagnostics) => void
   ): Promise<Omit<FetchResult, 'latencyMs' | 'success' | 'skipped' | 'reason'>> {
     // Create abort controller for timeout
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
+    // A fresh connection per attempt, so every fetch reports its own DNS and TLS handshake
+    // (HTTP/2 is offered in ALPN, so it is spoken when the server picks it)
+    const dispatcher = new Agent({
+      connect: createDiagnosticConnector(controller.signal, onConnection, this.destinationGuard),
+      allowH2: true,
+    });
+
     try {
-      // Prepare fetch options
-      const fetchOptions: RequestInit = {
+      // Prepare fetch options (redirects are followed here so every hop is checked)
+      const fetchOptions: UndiciRequestInit = {
         method: options.method || 'GET',
         headers: options.headers || {},
         signal: controller.signal,
-        redirect: options.followRedirects === false ? 'manual' : 'follow',
-        ...options.fetchOptions,
+        ...(options.fetchOptions as UndiciRequestInit),
+        redirect: 'manual',
+        dispatcher,
       };
 
       // Add body for POST/PUT/PATCH
       if (options.body && ['POST', 'PUT', 'PATCH'].includes(fetchOptions.method || 'GET')) {
-        fetchOptions.body = options.body;
+        fetchOptions.body = options.body as UndiciRequestInit['body'];
       }
 
       // Perform the fetch
-      const response = await fetch(url, fetchOptions);
+      const response = await this.fetchFollowingRedirects(
+        url,
+        fetchOptions,
+        options.followRedirects !== false
+      );
 
       // Extract response body
       let body: string | undefined;
@@ -109,10 +157,59 @@ export class DirectFetcher implements IFetcher {
         throw new Error(`Request timeout after ${timeoutMs}ms`);
       }
 
+      // A connection the connector refused comes back as the cause of undici's "fetch failed"
+      if (error instanceof Error && error.cause instanceof BlockedDestinationError) {
+        throw error.cause;
+      }
+
       // Re-throw other errors
       throw error;
     } finally {
       clearTimeout(timeoutId);
+      dispatcher.destroy().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Fetch `url`, checking it and every redirect target against the destination
+   * guard (a public page must not be able to redirect the scanner to localhost)
+   */
+  private async fetchFollowingRedirects(
+    url: string,
+    fetchOptions: UndiciRequestInit,
+    followRedirects: boolean
+  ): Promise<UndiciResponse> {
+    let currentUrl = url;
+    let init = fetchOptions;
+
+    for (let redirects = 0; ; redirects++) {
+      await checkDestination(currentUrl, this.destinationGuard);
+      const response = await undiciFetch(currentUrl, init);
+
+      const location = response.headers.get('location');
+      if (!followRedirects || !REDIRECT_STATUSES.has(response.status) || !location) {
+        return response;
+      }
+
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+
+      await response.body?.cancel().catch(() => undefined);
+      currentUrl = new URL(location, currentUrl).toString();
+
+      // 303 (and 301/302 after a POST) switch to a body-less GET, as browsers do
+      const method = (init.method || 'GET').toUpperCase();
+      if (
+        (response.status === 303 && method !== 'HEAD') ||
+        ([301, 302].includes(response.status) && method === 'POST')
+      ) {
+        init = { ...init, method: 'GET', body: undefined };
+      }
+
+      if (this.debug) {
+        logger.debug(`[DirectFetcher] Following ${response.status} redirect to ${currentUrl}`);
+      }
     }
   }
 
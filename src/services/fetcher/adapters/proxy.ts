@@ -0,0 +1,305 @@
+import {
+  fetch as undiciFetch,
+  ProxyAgent,
+  type Dispatcher,
+  type RequestInit as UndiciRequestInit,
+  type Response as UndiciResponse,
+} from 'undici';
+import { socksDispatcher } from 'fetch-socks';
+import { IFetcher, FetchOptions, FetchResult, FetcherAdapterOptions, ProxyUsage } from '../types';
+import { retryWithBackoff, DEFAULT_RETRY_CONFIG, isRetryableError } from '../retry';
+import { ProxyPool, ProxyEndpoint, getProxyPool, proxyServerUrl } from '../proxyPool';
+import { logger } from '../../../utils/logger';
+import {
+  BlockedDestinationError,
+  checkDestination,
+  type DestinationGuardOptions,
+} from '../../destinationGuard';
+
+/** Redirects followed before giving up (same limit as the direct fetcher) */
+const MAX_REDIRECTS = 20;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+type SingleFetch = Omit<FetchResult, 'latencyMs' | 'success' | 'skipped' | 'reason'>;
+
+/**
+ * Fetches pages through a pool of HTTP/HTTPS/SOCKS5 egress proxies.
+ *
+ * Every attempt picks a proxy from the pool, so a retry after a proxy failure
+ * goes out through another one. Connection and tunnel errors count against the
+ * proxy's health; target statuses (a 403 block included) do not.
+ */
+export class ProxyFetcher implements IFetcher {
+  private pool: ProxyPool;
+  private dispatchers = new Map<string, Dispatcher>();
+  private defaultTimeoutMs: number;
+  private defaultRetries: number;
+  private debug: boolean;
+  private destinationGuard: Partial<DestinationGuardOptions>;
+
+  constructor(options: FetcherAdapterOptions = {}) {
+    const pool = options.proxyPool || getProxyPool();
+    if (!pool) {
+      throw new Error(
+        'Proxy adapter needs at least one proxy. Set PROXY_POOL environment variable.'
+      );
+    }
+
+    this.pool = pool;
+    this.defaultTimeoutMs = options.defaultTimeoutMs || 30000;
+    this.defaultRetries = options.defaultRetries ?? 3;
+    this.debug = options.debug || false;
+    this.destinationGuard = options.destinationGuard || {};
+  }
+
+  async fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    const startTime = Date.now();
+    const timeoutMs = options.timeoutMs || this.defaultTimeoutMs;
+    const retries = options.retries !== undefined ? options.retries : this.defaultRetries;
+    let lastProxy: ProxyEndpoint | undefined;
+
+    try {
+      const result = await retryWithBackoff(
+        async () => {
+          const proxy = this.pool.select(url);
+          lastProxy = proxy;
+
+          if (this.debug) {
+            logger.debug(`[ProxyFetcher] Fetching ${url} via ${proxy.id}`, {
+              egress: proxy.egress,
+              timeoutMs,
+            });
+          }
+
+          try {
+            const single = await this.fetchOnce(url, options, timeoutMs, proxy);
+            this.pool.recordSuccess(proxy.id);
+            return single;
+          } catch (error) {
+            // A blocked destination says nothing about the proxy's health
+            if (!(error instanceof BlockedDestinationError)) {
+              this.pool.recordFailure(proxy.id, describeError(error));
+            }
+            throw error;
+          }
+        },
+        {
+          ...DEFAULT_RETRY_CONFIG,
+          maxRetries: retries,
+        },
+        // undici reports connection errors as "fetch failed" with the code on the cause
+        (error) =>
+          causeChain(error).some((cause) => isRetryableError(cause)) || isTunnelError(error)
+      );
+
+      const latencyMs = Date.now() - startTime;
+      return {
+        ...result,
+        latencyMs,
+        success: result.status !== null && result.status >= 200 && result.status < 300,
+      };
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      const errorMessage = describeError(error);
+
+      logger.error(`[ProxyFetcher] Failed to fetch ${url}`, {
+        error: errorMessage,
+        proxy: lastProxy?.id,
+      });
+
+      return {
+        status: null,
+        error: errorMessage,
+        latencyMs,
+        success: false,
+        attempts: retries + 1,
+        ...(lastProxy && { proxy: toUsage(lastProxy) }),
+      };
+    }
+  }
+
+  private async fetchOnce(
+    url: string,
+    options: FetchOptions,
+    timeoutMs: number,
+    proxy: ProxyEndpoint
+  ): Promise<SingleFetch> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      // undici's own fetch: Node's bundled one cannot take a dispatcher from the undici package
+      // (redirects are followed here so every hop is checked)
+      const fetchOptions: UndiciRequestInit = {
+        method: options.method || 'GET',
+        headers: options.headers || {},
+        signal: controller.signal,
+        ...(options.fetchOptions as UndiciRequestInit),
+        redirect: 'manual',
+        dispatcher: this.getDispatcher(proxy),
+      };
+
+      if (options.body && ['POST', 'PUT', 'PATCH'].includes(fetchOptions.method || 'GET')) {
+        fetchOptions.body = options.body as UndiciRequestInit['body'];
+      }
+
+      const response = await this.fetchFollowingRedirects(
+        url,
+        fetchOptions,
+        options.followRedirects !== false
+      );
+
+      let body: string | undefined;
+      try {
+        body = await response.text();
+      } catch (error) {
+        logger.warn('[ProxyFetcher] Failed to read response body', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      return {
+        status: response.status,
+        body,
+        headers,
+        proxy: toUsage(proxy),
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Request timeout after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Fetch `url`, checking it and every redirect target against the destination
+   * guard. The proxy resolves the hostname, so the check uses our own lookup.
+   */
+  private async fetchFollowingRedirects(
+    url: string,
+    fetchOptions: UndiciRequestInit,
+    followRedirects: boolean
+  ): Promise<UndiciResponse> {
+    let currentUrl = url;
+    let init = fetchOptions;
+
+    for (let redirects = 0; ; redirects++) {
+      await checkDestination(currentUrl, this.destinationGuard);
+      const response = await undiciFetch(currentUrl, init);
+
+      const location = response.headers.get('location');
+      if (!followRedirects || !REDIRECT_STATUSES.has(response.status) || !location) {
+        return response;
+      }
+
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+
+      await response.body?.cancel().catch(() => undefined);
+      currentUrl = new URL(location, currentUrl).toString();
+
+      // 303 (and 301/302 after a POST) switch to a body-less GET, as browsers do
+      const method = (init.method || 'GET').toUpperCase();
+      if (
+        (response.status === 303 && method !== 'HEAD') ||
+        ([301, 302].includes(response.status) && method === 'POST')
+      ) {
+        init = { ...init, method: 'GET', body: undefined };
+      }
+
+      if (this.debug) {
+        logger.debug(`[ProxyFetcher] Following ${response.status} redirect to ${currentUrl}`);
+      }
+    }
+  }
+
+  /**
+   * One dispatcher (connection pool) per proxy, created on first use
+   */
+  private getDispatcher(proxy: ProxyEndpoint): Dispatcher {
+    let dispatcher = this.dispatchers.get(proxy.id);
+    if (!dispatcher) {
+      if (proxy.protocol === 'socks5') {
+        dispatcher = socksDispatcher({
+          type: 5,
+          host: proxy.host,
+          port: proxy.port,
+          userId: proxy.username,
+          password: proxy.password,
+        });
+      } else {
+        dispatcher = new ProxyAgent({
+          uri: proxyServerUrl(proxy),
+          ...(proxy.username !== undefined && {
+            token: `Basic ${Buffer.from(`${proxy.username}:${proxy.password ?? ''}`).toString('base64')}`,
+          }),
+        });
+      }
+      this.dispatchers.set(proxy.id, dispatcher);
+    }
+    return dispatcher;
+  }
+
+  /**
+   * Close the proxy connections
+   */
+  async close(): Promise<void> {
+    await Promise.all([...this.dispatchers.values()].map((dispatcher) => dispatcher.close()));
+    this.dispatchers.clear();
+  }
+
+  getAdapterName(): string {
+    return 'proxy';
+  }
+}
+
+function toUsage(proxy: ProxyEndpoint): ProxyUsage {
+  return {
+    id: proxy.id,
+    protocol: proxy.protocol,
+    ...(proxy.egress && { egress: proxy.egress }),
+  };
+}
+
+/**
+ * The proxy refused the tunnel (e.g. 407 Proxy Authentication Required) or the
+ * SOCKS handshake failed; another proxy may succeed
+ */
+function isTunnelError(error: unknown): boolean {
+  return causeChain(error).some((cause) => /proxy|tunnel|socks/i.test(cause?.message ?? ''));
+}
+
+/**
+ * undici wraps the real error ("fetch failed" → "Request was cancelled" → cause),
+ * so report the innermost message along with the outer one
+ */
+function describeError(error: unknown): string {
+  const chain = causeChain(error);
+  const outer = chain[0]?.message ?? String(error);
+  const inner = chain[chain.length - 1]?.message;
+  return inner && inner !== outer ? `${outer}: ${inner}` : outer;
+}
+
+function causeChain(error: unknown): Array<{ message?: string }> {
+  const chain: Array<{ message?: string; cause?: unknown }> = [];
+  let current = error as { message?: string; cause?: unknown } | undefined;
+  while (current && typeof current === 'object' && chain.length < 5) {
+    chain.push(current);
+    current = current.cause as typeof current;
+  }
+  return chain;
+}
+
+export function createProxyFetcher(options?: FetcherAdapterOptions): IFetcher {
+  return new ProxyFetcher(options);
+}
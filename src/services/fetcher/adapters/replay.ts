@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { IFetcher, FetchOptions, FetchResult, FetcherAdapterOptions } from '../types';
+import { sleep } from '../retry';
+import { logger } from '../../../utils/logger';
+import { config } from '../../../config';
+
+export type ReplayMode = 'record' | 'replay';
+
+/**
+ * Replay-specific options
+ */
+export interface ReplayOptions {
+  /** record: fetch through the upstream adapter and save; replay: serve saved results */
+  mode?: ReplayMode;
+
+  /** Directory holding the cassettes (one JSON file per normalized request) */
+  cassetteDir?: string;
+
+  /** Wait for the recorded latency before returning a replayed result */
+  simulateLatency?: boolean;
+}
+
+export interface CassetteRequest {
+  method: string;
+  url: string;
+  /** SHA-256 of the request body, when there is one */
+  bodyHash?: string;
+}
+
+export interface CassetteEntry {
+  recordedAt: string;
+  result: FetchResult;
+}
+
+/**
+ * Recorded responses for one request, in the order they were seen. Replay
+ * serves them in turn and repeats the last one, so a cassette can script a
+ * sequence such as 503, 503, 200.
+ */
+export interface Cassette {
+  request: CassetteRequest;
+  responses: CassetteEntry[];
+}
+
+/**
+ * Normalize a request so equivalent URLs share a cassette: lowercase scheme
+ * and host, default port and fragment dropped, query parameters sorted
+ */
+export function normalizeRequest(url: string, options: FetchOptions = {}): CassetteRequest {
+  const method = (options.method || 'GET').toUpperCase();
+
+  let normalizedUrl = url;
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    parsed.searchParams.sort();
+    normalizedUrl = parsed.toString();
+  } catch {
+    // Not a URL; key on the raw string
+  }
+
+  const body = typeof options.body === 'string' ? options.body : options.body?.toString();
+  return {
+    method,
+    url: normalizedUrl,
+    ...(body && { bodyHash: crypto.createHash('sha256').update(body).digest('hex') }),
+  };
+}
+
+/**
+ * Cassette path: <dir>/<host>/<method>-<hash of the normalized request>.json
+ */
+export function cassettePath(cassetteDir: string, request: CassetteRequest): string {
+  let host = 'unknown';
+  try {
+    host = new URL(request.url).host;
+  } catch {
+    // Fall back to the shared directory
+  }
+
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${request.method} ${request.url} ${request.bodyHash ?? ''}`)
+    .digest('hex')
+    .slice(0, 16);
+
+  return path.join(
+    cassetteDir,
+    host.replace(/[^a-z0-9.-]/gi, '_'),
+    `${request.method.toLowerCase()}-${hash}.json`
+  );
+}
+
+/**
+ * Records fetch results to cassettes and plays them back, so the scan
+ * pipeline (breaker, rules engine, fingerprinting) can run offline against
+ * fixtures captured from real incidents.
+ *
+ * In record mode the first result saved for a request in a process replaces
+ * its cassette; later ones are appended. In replay mode a request without a
+ * cassette fails like a network error (`status: null`).
+ */
+export class ReplayFetcher implements IFetcher {
+  private upstream: IFetcher | null;
+  private mode: ReplayMode;
+  private cassetteDir: string;
+  private simulateLatency: boolean;
+  private debug: boolean;
+  /** Replay position per cassette */
+  private positions = new Map<string, number>();
+  /** Cassettes already rewritten by this recording session */
+  private recorded = new Set<string>();
+  /** Serializes writes to the same cassette */
+  private writes = new Map<string, Promise<void>>();
+
+  constructor(options: FetcherAdapterOptions = {}) {
+    const replayOptions: ReplayOptions = options.replay || {};
+    this.upstream = options.upstream || null;
+    this.mode = replayOptions.mode || (config.replay.mode as ReplayMode);
+    this.cassetteDir = path.resolve(replayOptions.cassetteDir || config.replay.cassetteDir);
+    this.simulateLatency = replayOptions.simulateLatency ?? config.replay.simulateLatency;
+    this.debug = options.debug || false;
+
+    if (this.mode === 'record' && !this.upstream) {
+      throw new Error('Replay adapter in record mode needs an upstream adapter to record from');
+    }
+  }
+
+  async fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    const request = normalizeRequest(url, options);
+    const file = cassettePath(this.cassetteDir, request);
+
+    if (this.mode === 'record') {
+      const result = await this.upstream!.fetch(url, options);
+      await this.record(file, request, result);
+      return result;
+    }
+
+    return this.replay(file, request);
+  }
+
+  private async replay(file: string, request: CassetteRequest): Promise<FetchResult> {
+    let cassette: Cassette;
+    try {
+      cassette = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      const missing = (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+      const errorMessage = missing
+        ? `No recorded response for ${request.method} ${request.url}`
+        : `Unreadable cassette ${file}: ${error instanceof Error ? error.message : String(error)}`;
+
+      logger.warn(`[ReplayFetcher] ${errorMessage}`);
+      return { status: null, error: errorMessage, latencyMs: 0, success: false };
+    }
+
+    const position = this.positions.get(file) ?? 0;
+    const entry = cassette.responses[Math.min(position, cassette.responses.length - 1)];
+    this.positions.set(file, position + 1);
+
+    if (!entry) {
+      const errorMessage = `Empty cassette ${file}`;
+      logger.warn(`[ReplayFetcher] ${errorMessage}`);
+      return { status: null, error: errorMessage, latencyMs: 0, success: false };
+    }
+
+    if (this.debug) {
+      logger.debug(
+        `[ReplayFetcher] Replaying ${request.method} ${request.url} (${position + 1}/${cassette.responses.length})`,
+        { status: entry.result.status, recordedAt: entry.recordedAt }
+      );
+    }
+
+    if (this.simulateLatency && entry.result.latencyMs > 0) {
+      await sleep(entry.result.latencyMs);
+    }
+
+    return { ...entry.result };
+  }
+
+  private async record(file: string, request: CassetteRequest, result: FetchResult): Promise<void> {
+    const previous = this.writes.get(file) || Promise.resolve();
+    const write = previous.then(async () => {
+      let cassette: Cassette = { request, responses: [] };
+      if (this.recorded.has(file)) {
+        try {
+          cassette = JSON.parse(await fs.readFile(file, 'utf-8'));
+        } catch {
+          // Start over if the cassette went missing
+        }
+      }
+
+      cassette.responses.push({ recordedAt: new Date().toISOString(), result });
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(cassette, null, 2));
+      this.recorded.add(file);
+
+      if (this.debug) {
+        logger.debug(`[ReplayFetcher] Recorded ${request.method} ${request.url} to ${file}`);
+      }
+    });
+
+    // Recording must never fail the fetch
+    this.writes.set(
+      file,
+      write.catch((error) => {
+        logger.error(`[ReplayFetcher] Failed to record ${request.url} to ${file}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+    );
+    await this.writes.get(file);
+  }
+
+  /**
+   * Start every cassette from its first response again
+   */
+  rewind(): void {
+    this.positions.clear();
+  }
+
+  getAdapterName(): string {
+    return this.upstream && this.mode === 'record'
+      ? `replay-record-${this.upstream.getAdapterName()}`
+      : 'replay';
+  }
+}
+
+export function createReplayFetcher(options?: FetcherAdapterOptions): IFetcher {
+  return new ReplayFetcher(options);
+}
@@ -1,34 +1,74 @@
-import { IFetcher, FetchOptions, FetchResult, FetcherAdapterOptions } from '../types';
+import {
+  IFetcher,
+  FetchOptions,
+  FetchResult,
+  FetcherAdapterOptions,
+  ProviderUsage,
+} from '../types';
+import { retryWithBackoff, DEFAULT_RETRY_CONFIG, isRetryableError } from '../retry';
 import { logger } from '../../../utils/logger';
+import { config } from '../../../config';
 
 /**
  * ZenRows-specific options
  */
-interface ZenRowsOptions {
-  /** Enable JavaScript rendering */
+export interface ZenRowsOptions {
+  /** Render the page in a headless browser (needed for waitFor / waitMs) */
   jsRender?: boolean;
 
-  /** Use premium residential proxies */
+  /** Use premium residential proxies (for targets that block datacenter IPs) */
   premiumProxy?: boolean;
 
-  /** Wait time in milliseconds before returning */
-  waitFor?: number;
+  /** Two-letter country code of the premium proxy */
+  proxyCountry?: string;
 
-  /** Enable CAPTCHA solving */
-  autoparse?: boolean;
+  /** CSS selector to wait for before returning (js_render only) */
+  waitFor?: string;
+
+  /** Fixed wait in milliseconds before returning (js_render only) */
+  waitMs?: number;
 }
 
+/**
+ * Error body ZenRows returns for its own failures (application/problem+json)
+ */
+interface ZenRowsProblem {
+  code?: string;
+  title?: string;
+  detail?: string;
+  status?: number;
+}
+
+type SingleFetch = Omit<FetchResult, 'latencyMs' | 'success' | 'skipped' | 'reason'>;
+
+/**
+ * Fetches pages through the ZenRows scraping API.
+ *
+ * Requests are sent with `original_status=true`, so the result carries the
+ * target's own status code; ZenRows' own errors (bad key, no credits,
+ * concurrency limit) are told apart by their problem+json body.
+ */
 export class ZenRowsFetcher implements IFetcher {
   private apiKey: string;
-  // @ts-ignore - Used in future implementation
+  private apiUrl: string;
   private defaultTimeoutMs: number;
+  private defaultRetries: number;
+  private zenrowsOptions: ZenRowsOptions;
   private debug: boolean;
 
   constructor(options: FetcherAdapterOptions = {}) {
-    // Get API key from environment or options
-    this.apiKey = options.apiKey || process.env.ZENROWS_API_KEY || '';
+    this.apiKey = options.apiKey ?? config.zenrows.apiKey;
+    this.apiUrl = options.apiUrl || config.zenrows.apiUrl;
     this.defaultTimeoutMs = options.defaultTimeoutMs || 30000;
+    this.defaultRetries = options.defaultRetries ?? 3;
     this.debug = options.debug || false;
+    this.zenrowsOptions = options.zenrows || {
+      jsRender: config.zenrows.jsRender,
+      premiumProxy: config.zenrows.premiumProxy,
+      proxyCountry: config.zenrows.proxyCountry || undefined,
+      waitFor: config.zenrows.waitFor || undefined,
+      waitMs: config.zenrows.waitMs || undefined,
+    };
 
     if (!this.apiKey && this.debug) {
       logger.warn(
@@ -37,38 +77,158 @@ export class ZenRowsFetcher implements IFetcher {
     }
   }
 
-  // @ts-ignore - options will be used in full implementation
   async fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
     const startTime = Date.now();
 
+    if (!this.apiKey) {
+      const latencyMs = Date.now() - startTime;
+      return {
+        status: null,
+        error: 'ZenRows API key not configured. Set ZENROWS_API_KEY environment variable.',
+        latencyMs,
+        success: false,
+      };
+    }
+
+    const timeoutMs = options.timeoutMs || this.defaultTimeoutMs;
+    const retries = options.retries !== undefined ? options.retries : this.defaultRetries;
+    const requestUrl = this.buildZenRowsUrl(url, this.zenrowsOptions, !!options.headers);
+
     if (this.debug) {
-      logger.debug(`[ZenRowsFetcher] Would fetch ${url} via ZenRows proxy`, {
-        apiKey: this.apiKey ? '***' + this.apiKey.slice(-4) : 'NOT_SET',
+      logger.debug(`[ZenRowsFetcher] Fetching ${url} via ZenRows`, {
+        apiKey: '***' + this.apiKey.slice(-4),
+        timeoutMs,
+        retries,
+        ...this.zenrowsOptions,
       });
     }
 
-    if (!this.apiKey) {
+    try {
+      // Retry ZenRows-side failures (concurrency limit, 5xx); target statuses are returned as-is
+      const result = await retryWithBackoff(
+        async () => this.fetchOnce(requestUrl, options, timeoutMs),
+        {
+          ...DEFAULT_RETRY_CONFIG,
+          maxRetries: retries,
+        },
+        (error) => isRetryableError(error)
+      );
+
+      const latencyMs = Date.now() - startTime;
+      if (result.providerUsage?.requestCost !== undefined) {
+        logger.debug(
+          `[ZenRowsFetcher] ${url} cost ${result.providerUsage.requestCost} credit(s)`,
+          result.providerUsage
+        );
+      }
+
+      return {
+        ...result,
+        latencyMs,
+        success: result.status !== null && result.status >= 200 && result.status < 300,
+      };
+    } catch (error) {
       const latencyMs = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      logger.error(`[ZenRowsFetcher] Failed to fetch ${url}`, { error: errorMessage });
+
       return {
         status: null,
-        error: 'ZenRows API key not configured. Set ZENROWS_API_KEY environment variable.',
+        error: errorMessage,
         latencyMs,
         success: false,
+        attempts: retries + 1,
+      };
+    }
+  }
+
+  private async fetchOnce(
+    requestUrl: string,
+    options: FetchOptions,
+    timeoutMs: number
+  ): Promise<SingleFetch> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const fetchOptions: RequestInit = {
+        method: options.method || 'GET',
+        // Passed on to the target (custom_headers=true)
+        headers: options.headers || {},
+        signal: controller.signal,
+        ...options.fetchOptions,
+      };
+
+      if (options.body && ['POST', 'PUT', 'PATCH'].includes(fetchOptions.method || 'GET')) {
+        fetchOptions.body = options.body;
+      }
+
+      const response = await fetch(requestUrl, fetchOptions);
+
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      let body: string | undefined;
+      try {
+        body = await response.text();
+      } catch (error) {
+        logger.warn('[ZenRowsFetcher] Failed to read response body', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      if (headers['content-type']?.includes('application/problem+json')) {
+        throw this.toProblemError(response.status, body);
+      }
+
+      return {
+        status: response.status,
+        body,
+        headers,
+        providerUsage: this.extractUsage(headers),
       };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`Request timeout after ${timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Turn a ZenRows error body into an Error (with `status`, so 429 and 5xx are retried)
+   */
+  private toProblemError(status: number, body: string | undefined): Error {
+    let problem: ZenRowsProblem = {};
+    try {
+      problem = JSON.parse(body || '{}');
+    } catch {
+      // Not JSON, fall back to the status
     }
 
-    // Stub success response
-    const latencyMs = Date.now() - startTime;
-    logger.info('[ZenRowsFetcher] STUB: Would use ZenRows API', { url });
+    const label = [problem.code, problem.title || problem.detail].filter(Boolean).join(' ');
+    const error = new Error(`ZenRows error ${status}${label ? `: ${label}` : ''}`);
+    return Object.assign(error, { status, code: problem.code });
+  }
+
+  private extractUsage(headers: Record<string, string>): ProviderUsage {
+    const toNumber = (value: string | undefined) => {
+      const parsed = value !== undefined ? Number(value) : NaN;
+      return Number.isFinite(parsed) ? parsed : undefined;
+    };
 
     return {
-      status: 200,
-      body: `<!-- ZenRows STUB Response for ${url} -->`,
-      latencyMs,
-      success: true,
-      headers: {
-        'x-zenrows-stub': 'true',
-      },
+      provider: 'zenrows',
+      requestCost: toNumber(headers['x-request-cost']),
+      concurrencyLimit: toNumber(headers['concurrency-limit']),
+      concurrencyRemaining: toNumber(headers['concurrency-remaining']),
+      requestId: headers['x-request-id'],
+      finalUrl: headers['zr-final-url'],
     };
   }
 
@@ -86,20 +246,28 @@ export class ZenRowsFetcher implements IFetcher {
     return !!this.apiKey;
   }
 
-  // @ts-ignore - Will be used in full implementation
-  private _buildZenRowsUrl(targetUrl: string, options: ZenRowsOptions = {}): string {
-    const baseUrl = 'https://api.zenrows.com/v1/';
+  /**
+   * Build the ZenRows API URL for a target.
+   * Waiting only works with js_render, so waitFor / waitMs turn it on.
+   */
+  buildZenRowsUrl(targetUrl: string, options: ZenRowsOptions = {}, customHeaders = false): string {
     const params = new URLSearchParams({
       url: targetUrl,
       apikey: this.apiKey,
+      original_status: 'true',
     });
 
-    // Add optional parameters
-    if (options.jsRender) params.append('js_render', 'true');
+    const jsRender = options.jsRender || !!options.waitFor || !!options.waitMs;
+    if (jsRender) params.append('js_render', 'true');
     if (options.premiumProxy) params.append('premium_proxy', 'true');
-    if (options.waitFor) params.append('wait_for', options.waitFor.toString());
+    if (options.premiumProxy && options.proxyCountry) {
+      params.append('proxy_country', options.proxyCountry.toLowerCase());
+    }
+    if (options.waitFor) params.append('wait_for', options.waitFor);
+    if (options.waitMs) params.append('wait', options.waitMs.toString());
+    if (customHeaders) params.append('custom_headers', 'true');
 
-    return `${baseUrl}?${params.toString()}`;
+    return `${this.apiUrl}?${params.toString()}`;
   }
 }
 
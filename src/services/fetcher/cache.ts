@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { Redis } from 'ioredis';
+import { IFetcher, FetchOptions, FetchResult } from './types';
+import { normalizeRequest } from './adapters/replay';
+import { getRedisClient } from '../../config/redis';
+import { logger } from '../../utils/logger';
+import { config } from '../../config';
+
+const CACHE_KEY_PREFIX = 'fetchcache:';
+
+export interface FetchCacheOptions {
+  /** Redis client for cache metadata (default: the shared client) */
+  redis?: Redis;
+
+  /** Directory holding cached response bodies */
+  cacheDir?: string;
+
+  /** How long an entry is kept without being fetched again */
+  ttlSeconds?: number;
+
+  /** Larger bodies are not stored (their hash is still kept for the change signal) */
+  maxBodyBytes?: number;
+}
+
+/**
+ * Cache metadata for one URL, stored in Redis
+ */
+export interface CachedResponse {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  headers: Record<string, string>;
+  /** SHA-256 of the body, compared on the next fetch for the change signal */
+  bodyHash: string;
+  /** Whether the body is on disk (only with a validator to revalidate it) */
+  bodyStored: boolean;
+  fetchedAt: string;
+}
+
+function cacheId(url: string): string {
+  return crypto.createHash('sha256').update(normalizeRequest(url).url).digest('hex');
+}
+
+function hasHeader(headers: Record<string, string> | undefined, name: string): boolean {
+  return Object.keys(headers || {}).some((key) => key.toLowerCase() === name);
+}
+
+/**
+ * Wraps a fetcher with conditional requests: GETs for a URL fetched before
+ * send If-None-Match / If-Modified-Since, and a 304 is answered with the
+ * cached body (status 304, success true). Every result of a cacheable GET
+ * carries `cache.contentChanged`, comparing the body with the previous fetch
+ * (null on the first one).
+ *
+ * Metadata lives in Redis (`fetchcache:<hash>`), bodies on disk under
+ * `cacheDir`. Cache errors never fail a fetch; they fall back to a plain one.
+ */
+export class CachingFetcher implements IFetcher {
+  private upstream: IFetcher;
+  private redis: Redis | undefined;
+  private cacheDir: string;
+  private ttlSeconds: number;
+  private maxBodyBytes: number;
+
+  constructor(upstream: IFetcher, options: FetchCacheOptions = {}) {
+    this.upstream = upstream;
+    this.redis = options.redis;
+    this.cacheDir = path.resolve(options.cacheDir || config.fetchCache.dir);
+    this.ttlSeconds = options.ttlSeconds ?? config.fetchCache.ttlSeconds;
+    this.maxBodyBytes = options.maxBodyBytes ?? config.fetchCache.maxBodyBytes;
+  }
+
+  async fetch(url: string, options: FetchOptions = {}): Promise<FetchResult> {
+    const method = (options.method || 'GET').toUpperCase();
+    // Only plain GETs; a caller sending its own validators gets the raw response
+    if (
+      method !== 'GET' ||
+      options.body ||
+      hasHeader(options.headers, 'if-none-match') ||
+      hasHeader(options.headers, 'if-modified-since')
+    ) {
+      return this.upstream.fetch(url, options);
+    }
+
+    const id = cacheId(url);
+    const cached = await this.readEntry(id);
+    const validators: Record<string, string> = {};
+    if (cached?.bodyStored && cached.etag) {
+      validators['If-None-Match'] = cached.etag;
+    }
+    if (cached?.bodyStored && cached.lastModified) {
+      validators['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const result = await this.upstream.fetch(url, {
+      ...options,
+      headers: { ...options.headers, ...validators },
+    });
+
+    if (result.status === 304 && cached?.bodyStored) {
+      const body = await this.readBody(id);
+      if (body !== null) {
+        return this.notModified(id, cached, result, body);
+      }
+      // Body went missing: fetch it again in full
+      logger.warn(`[FetchCache] Cached body for ${url} is missing, refetching`);
+      return this.store(id, url, cached, await this.upstream.fetch(url, options));
+    }
+
+    return this.store(id, url, cached, result);
+  }
+
+  getAdapterName(): string {
+    return this.upstream.getAdapterName();
+  }
+
+  private getRedis(): Redis {
+    return this.redis ?? getRedisClient();
+  }
+
+  private bodyPath(id: string): string {
+    return path.join(this.cacheDir, id.slice(0, 2), `${id}.body`);
+  }
+
+  private async readEntry(id: string): Promise<CachedResponse | null> {
+    try {
+      const raw = await this.getRedis().get(`${CACHE_KEY_PREFIX}${id}`);
+      return raw ? (JSON.parse(raw) as CachedResponse) : null;
+    } catch (error) {
+      logger.warn('[FetchCache] Failed to read cache entry', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private async writeEntry(id: string, entry: CachedResponse): Promise<void> {
+    await this.getRedis().set(
+      `${CACHE_KEY_PREFIX}${id}`,
+      JSON.stringify(entry),
+      'EX',
+      this.ttlSeconds
+    );
+  }
+
+  private async readBody(id: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.bodyPath(id), 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Answer a 304 with the cached body and headers; the page has not changed
+   */
+  private async notModified(
+    id: string,
+    cached: CachedResponse,
+    result: FetchResult,
+    body: string
+  ): Promise<FetchResult> {
+    // A 304 may carry updated validators
+    const etag = result.headers?.['etag'] || cached.etag;
+    const lastModified = result.headers?.['last-modified'] || cached.lastModified;
+
+    try {
+      const now = new Date();
+      await this.writeEntry(id, {
+        ...cached,
+        ...(etag && { etag }),
+        ...(lastModified && { lastModified }),
+        fetchedAt: now.toISOString(),
+      });
+      // Keeps the body out of pruneFetchCache while it is still being revalidated
+      await fs.utimes(this.bodyPath(id), now, now);
+    } catch (error) {
+      logger.warn('[FetchCache] Failed to refresh cache entry', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return {
+      ...result,
+      success: true,
+      body,
+      headers: { ...cached.headers, ...result.headers },
+      cache: { notModified: true, contentChanged: false, previousFetchAt: cached.fetchedAt },
+    };
+  }
+
+  /**
+   * Record a fresh 2xx response and compare it with the previous one; other
+   * results are returned untouched
+   */
+  private async store(
+    id: string,
+    url: string,
+    cached: CachedResponse | null,
+    result: FetchResult
+  ): Promise<FetchResult> {
+    if (!result.success || !result.status || result.status < 200 || result.status >= 300) {
+      return result;
+    }
+
+    const body = result.body ?? '';
+    const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+    const withCache: FetchResult = {
+      ...result,
+      cache: {
+        notModified: false,
+        contentChanged: cached ? cached.bodyHash !== bodyHash : null,
+        ...(cached && { previousFetchAt: cached.fetchedAt }),
+      },
+    };
+
+    const headers = result.headers || {};
+    if (/no-store/i.test(headers['cache-control'] || '')) {
+      return withCache;
+    }
+
+    const etag = headers['etag'];
+    const lastModified = headers['last-modified'];
+    const bodyStored =
+      Boolean(etag || lastModified) && Buffer.byteLength(body) <= this.maxBodyBytes;
+
+    try {
+      const file = this.bodyPath(id);
+      if (bodyStored) {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        // Write then rename, so a concurrent revalidation never reads half a body
+        const temp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+        await fs.writeFile(temp, body);
+        await fs.rename(temp, file);
+      } else if (cached?.bodyStored) {
+        await fs.rm(file, { force: true });
+      }
+
+      await this.writeEntry(id, {
+        url,
+        ...(etag && { etag }),
+        ...(lastModified && { lastModified }),
+        headers,
+        bodyHash,
+        bodyStored,
+        fetchedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.warn(`[FetchCache] Failed to cache response for ${url}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return withCache;
+  }
+}
+
+export function createCachingFetcher(upstream: IFetcher, options?: FetchCacheOptions): IFetcher {
+  return new CachingFetcher(upstream, options);
+}
+
+/**
+ * Delete cached bodies not fetched or revalidated for `maxAgeSeconds` (their
+ * Redis entries have expired by then). Returns the number of files deleted.
+ */
+export async function pruneFetchCache(
+  cacheDir: string = config.fetchCache.dir,
+  maxAgeSeconds: number = config.fetchCache.ttlSeconds
+): Promise<number> {
+  const root = path.resolve(cacheDir);
+  const cutoff = Date.now() - maxAgeSeconds * 1000;
+  let deleted = 0;
+
+  let shards: string[];
+  try {
+    shards = await fs.readdir(root);
+  } catch {
+    return 0;
+  }
+
+  for (const shard of shards) {
+    const dir = path.join(root, shard);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+
+    for (const file of files) {
+      const filePath = path.join(dir, file);
+      try {
+        const stats = await fs.stat(filePath);
+        if (stats.mtimeMs < cutoff) {
+          await fs.rm(filePath, { force: true });
+          deleted++;
+        }
+      } catch {
+        // Removed by a concurrent fetch
+      }
+    }
+  }
+
+  return deleted;
+}
@@ -0,0 +1,250 @@
+import dns from 'dns/promises';
+import net from 'net';
+import tls from 'tls';
+import type { buildConnector } from 'undici';
+import type { CertificateInfo, ConnectionDiagnostics, ConnectionStage } from './types';
+import {
+  BlockedDestinationError,
+  checkConnectAddress,
+  type DestinationGuardOptions,
+} from '../destinationGuard';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function elapsed(start: bigint): number {
+  return Math.round(Number(process.hrtime.bigint() - start) / 1e4) / 100;
+}
+
+function formatDistinguishedName(name: Record<string, string | string[]> | undefined): string {
+  if (!name) {
+    return '';
+  }
+  return Object.entries(name)
+    .map(([key, value]) => `${key}=${Array.isArray(value) ? value.join('+') : value}`)
+    .join(', ');
+}
+
+/**
+ * Resolve once `socket` emits `event`; reject on error or an early close
+ */
+function waitFor(socket: net.Socket, event: 'connect' | 'secureConnect'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => onError(new Error('Socket closed'));
+    const cleanup = () => {
+      socket.off(event, onEvent);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    };
+    socket.once(event, onEvent);
+    socket.once('error', onError);
+    socket.once('close', onClose);
+  });
+}
+
+/**
+ * Summarize the leaf certificate of a TLS connection (null when the server
+ * sent none)
+ */
+export function describeCertificate(
+  certificate: tls.PeerCertificate,
+  now: number = Date.now()
+): CertificateInfo | null {
+  if (!certificate || Object.keys(certificate).length === 0) {
+    return null;
+  }
+
+  const validTo = new Date(certificate.valid_to);
+  const altNames = (certificate.subjectaltname || '')
+    .split(/,\s*/)
+    .filter((entry) => entry.startsWith('DNS:'))
+    .map((entry) => entry.slice(4));
+
+  return {
+    subject: formatDistinguishedName(certificate.subject as unknown as Record<string, string>),
+    issuer: formatDistinguishedName(certificate.issuer as unknown as Record<string, string>),
+    validFrom: new Date(certificate.valid_from).toISOString(),
+    validTo: validTo.toISOString(),
+    daysRemaining: Math.floor((validTo.getTime() - now) / DAY_MS),
+    ...(altNames.length > 0 && { altNames }),
+    fingerprint256: certificate.fingerprint256,
+  };
+}
+
+/**
+ * Human-readable error for a connection that failed at DNS or TLS (null for
+ * TCP failures and connections that did not fail, which keep undici's error)
+ */
+export function describeConnectionFailure(diagnostics: ConnectionDiagnostics): string | null {
+  const failure = diagnostics.failure;
+  if (failure?.stage === 'dns') {
+    return `DNS lookup failed for ${diagnostics.host} (${failure.code || failure.message})`;
+  }
+  if (failure?.stage === 'tls') {
+    return diagnostics.chainError
+      ? `TLS certificate error for ${diagnostics.host}: ${diagnostics.chainError}`
+      : `TLS handshake failed for ${diagnostics.host}: ${failure.message}`;
+  }
+  return null;
+}
+
+/**
+ * undici connector that resolves, connects and (for https) handshakes step
+ * by step, timing each stage and recording the negotiated TLS parameters and
+ * server certificate. `onConnection` receives the diagnostics object when a
+ * connection starts; it is filled in as the stages complete.
+ *
+ * Certificates are verified as usual: the handshake runs with
+ * rejectUnauthorized off only so the certificate can be read before the
+ * connection is refused with the chain error.
+ *
+ * The address about to be connected to goes through the destination guard,
+ * since the hostname may resolve differently than when the URL was checked.
+ */
+export function createDiagnosticConnector(
+  signal: AbortSignal,
+  onConnection: (diagnostics: ConnectionDiagnostics) => void,
+  destinationGuard: Partial<DestinationGuardOptions> = {}
+): buildConnector.connector {
+  return (options, callback) => {
+    const host = options.hostname.replace(/^\[|\]$/g, '');
+    const port = Number(options.port) || (options.protocol === 'https:' ? 443 : 80);
+    const diagnostics: ConnectionDiagnostics = { host };
+    onConnection(diagnostics);
+
+    let socket: net.Socket | undefined;
+    let stage: ConnectionStage = 'dns';
+    let settled = false;
+
+    const fail = (error: Error & { code?: string }) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal.removeEventListener('abort', onAbort);
+      // An abort is the request timing out, and a blocked address is no connection failure
+      if (error.name !== 'AbortError' && !(error instanceof BlockedDestinationError)) {
+        diagnostics.failure = {
+          stage,
+          ...(error.code && { code: error.code }),
+          message: error.message,
+        };
+      }
+      socket?.destroy();
+      callback(error, null);
+    };
+    const onAbort = () =>
+      fail(Object.assign(new Error('Connection aborted'), { name: 'AbortError' }));
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    const connect = async () => {
+      let addresses = [host];
+      if (!net.isIP(host)) {
+        const start = process.hrtime.bigint();
+        const results = await dns.lookup(host, { all: true });
+        addresses = results.map((result) => result.address);
+        diagnostics.dnsMs = elapsed(start);
+      }
+      if (addresses.length > 1) {
+        diagnostics.addresses = addresses;
+      }
+      if (settled) {
+        return;
+      }
+      for (const address of addresses) {
+        checkConnectAddress(
+          `${options.protocol}//${options.hostname}:${port}/`,
+          address,
+          destinationGuard
+        );
+      }
+
+      // Each address in turn until one accepts the connection
+      stage = 'tcp';
+      for (const [index, address] of addresses.entries()) {
+        diagnostics.address = address;
+        const tcpStart = process.hrtime.bigint();
+        socket = net.connect({
+          host: address,
+          port,
+          localAddress: options.localAddress ?? undefined,
+        });
+        socket.setNoDelay(true);
+        try {
+          await waitFor(socket, 'connect');
+          diagnostics.tcpMs = elapsed(tcpStart);
+          break;
+        } catch (error) {
+          socket.destroy();
+          if (settled || index === addresses.length - 1) {
+            throw error;
+          }
+        }
+      }
+      if (settled || !socket) {
+        return;
+      }
+
+      if (options.protocol !== 'https:') {
+        return socket;
+      }
+
+      stage = 'tls';
+      const tlsStart = process.hrtime.bigint();
+      const servername = options.servername || (net.isIP(host) ? undefined : host);
+      const tlsSocket = tls.connect({
+        socket,
+        servername,
+        ALPNProtocols: ['h2', 'http/1.1'],
+        rejectUnauthorized: false,
+        // The socket is connected to an address, so name the host to check
+        checkServerIdentity: (_hostname, certificate) =>
+          tls.checkServerIdentity(servername || host, certificate),
+      });
+      socket = tlsSocket;
+      await waitFor(tlsSocket, 'secureConnect');
+      diagnostics.tlsMs = elapsed(tlsStart);
+      diagnostics.tlsVersion = tlsSocket.getProtocol() || undefined;
+      diagnostics.alpnProtocol = tlsSocket.alpnProtocol || undefined;
+      diagnostics.cipher = tlsSocket.getCipher()?.name;
+
+      const certificate = describeCertificate(tlsSocket.getPeerCertificate());
+      if (certificate) {
+        diagnostics.certificate = certificate;
+      }
+
+      if (!tlsSocket.authorized) {
+        const code = String(tlsSocket.authorizationError || 'UNABLE_TO_VERIFY_CERTIFICATE');
+        diagnostics.chainError = code;
+        throw Object.assign(new Error(`Certificate verification failed: ${code}`), { code });
+      }
+
+      return tlsSocket;
+    };
+
+    connect().then(
+      (connected) => {
+        if (settled || !connected) {
+          connected?.destroy();
+          return;
+        }
+        settled = true;
+        signal.removeEventListener('abort', onAbort);
+        callback(null, connected);
+      },
+      (error: Error & { code?: string }) => fail(error)
+    );
+  };
+}
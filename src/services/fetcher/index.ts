@@ -3,21 +3,52 @@ export * from './retry';
 
 // Adapters
 export { DirectFetcher, createDirectFetcher } from './adapters/direct';
-export { ZenRowsFetcher, createZenRowsFetcher } from './adapters/zenrows';
+export { ZenRowsFetcher, createZenRowsFetcher, type ZenRowsOptions } from './adapters/zenrows';
+export { ProxyFetcher, createProxyFetcher } from './adapters/proxy';
+export {
+  ReplayFetcher,
+  createReplayFetcher,
+  normalizeRequest,
+  cassettePath,
+  type ReplayMode,
+  type ReplayOptions,
+  type Cassette,
+} from './adapters/replay';
+export {
+  CachingFetcher,
+  createCachingFetcher,
+  pruneFetchCache,
+  type FetchCacheOptions,
+  type CachedResponse,
+} from './cache';
+export {
+  ProxyPool,
+  PROXY_ROTATIONS,
+  getProxyPool,
+  parseProxyUrl,
+  proxyServerUrl,
+  type ProxyEndpoint,
+  type ProxyRotation,
+} from './proxyPool';
 
 import { IFetcher, FetcherAdapterOptions, FetchOptions, FetchResult } from './types';
 import { createDirectFetcher } from './adapters/direct';
 import { createZenRowsFetcher } from './adapters/zenrows';
+import { createProxyFetcher } from './adapters/proxy';
+import { createReplayFetcher } from './adapters/replay';
+import { createCachingFetcher } from './cache';
 import { logger } from '../../utils/logger';
 import { BreakerService, getBreakerService } from '../breaker';
 import { config } from '../../config';
-import { sendSlackAlert } from '../slackService';
-import { nanoid } from 'nanoid';
+import { alertService, type AlertDetails } from '../alertService';
+import { findingService } from '../findingService';
 import { recordHttpRequest, recordBlockedRequest } from '../../utils/metrics';
 import { getRedisClient } from '../../config/redis';
-import { checkSuppression, shouldAlertLatency } from '../rulesEngine';
+import { checkSuppression } from '../rulesEngine';
+import { findRuleForDetection, runDetectors, selectDetectors } from '../detectors';
+import { addVerifyJob } from '../queueService';
 
-export type FetcherAdapter = 'direct' | 'zenrows';
+export type FetcherAdapter = 'direct' | 'zenrows' | 'proxy' | 'replay';
 
 export interface FetcherFactoryOptions extends FetcherAdapterOptions {
   adapter?: FetcherAdapter;
@@ -47,8 +78,8 @@ export class BreakerAwareFetcher implements IFetcher {
     }
 
     // Check if breaker is open for this target
-    const shouldSkip = await this.breaker.shouldSkip(targetId);
-    if (shouldSkip) {
+    const { allowed, probeLease } = await this.breaker.acquire(targetId);
+    if (!allowed) {
       logger.warn(`[breaker] Target ${targetId} skipped (open)`);
       recordBlockedRequest(targetId); // Record metrics
       return {
@@ -61,25 +92,34 @@ export class BreakerAwareFetcher implements IFetcher {
     }
 
     // Wrap the fetch with breaker logic
-    return this.wrapWithBreaker(
-      targetId,
-      async () => {
-        return this.adapter.fetch(url, options);
-      },
-      url
-    );
+    try {
+      return await this.wrapWithBreaker(
+        targetId,
+        async () => {
+          return this.adapter.fetch(url, options);
+        },
+        url,
+        probeLease
+      );
+    } finally {
+      // A probe whose outcome did not count (e.g. a 4xx) lets the next request probe
+      if (probeLease) {
+        await this.breaker.releaseProbe(targetId, probeLease);
+      }
+    }
   }
 
   private async wrapWithBreaker(
     targetId: string,
     fetchFn: () => Promise<FetchResult>,
-    url?: string
+    url?: string,
+    probeLease?: string | null
   ): Promise<FetchResult> {
     const startTime = performance.now();
-    const redis = getRedisClient();
+    let result: FetchResult;
 
     try {
-      const result = await fetchFn();
+      result = await fetchFn();
       const latencyMs = performance.now() - startTime;
 
       // Update result with measured latency
@@ -88,169 +128,132 @@ export class BreakerAwareFetcher implements IFetcher {
       // Record HTTP metrics
       recordHttpRequest(targetId, result.status || null, latencyMs);
 
-      // Record success or failure based on status code
-      if (result.success && result.status && result.status >= 200 && result.status < 300) {
-        await this.breaker.recordSuccess(targetId);
+      // Record success or failure based on status code (a 304 from the fetch cache is a success)
+      if (
+        result.success &&
+        result.status &&
+        ((result.status >= 200 && result.status < 300) || result.status === 304)
+      ) {
+        await this.breaker.recordSuccess(targetId, probeLease);
         logger.debug(`[breaker] Success recorded for target ${targetId}`);
-
-        // Check for high latency even on success (using rule-based threshold)
-        if (url && shouldAlertLatency(url, latencyMs)) {
-          logger.warn(`[breaker] High latency detected for ${targetId}: ${latencyMs}ms`);
-          
-          // Check suppression via rules engine
-          const suppression = await checkSuppression(
-            redis,
-            url,
-            'latency',
-            result.status,
-            undefined,
-            latencyMs
-          );
-
-          if (!suppression.suppressed) {
-            // Send Slack alert for high latency (non-blocking)
-            sendSlackAlert({
-              findingId: nanoid(),
-              url,
-              errorType: 'latency',
-              latencyMs,
-              status: result.status,
-              timestamp: new Date(),
-              fingerprint: suppression.fingerprint,
-            }).catch((err) => {
-              logger.error('[breaker] Failed to send latency Slack alert', err);
-            });
-          } else {
-            logger.debug(
-              `[breaker] Latency alert suppressed for ${url} (reason: ${suppression.reason})`
-            );
-          }
-        }
       } else if (result.status && result.status >= 500) {
         // 5xx errors are server failures
-        await this.breaker.recordFailure(targetId, `HTTP_${result.status}`);
+        await this.breaker.recordFailure(targetId, `HTTP_${result.status}`, probeLease);
         logger.warn(`[breaker] Failure recorded for target ${targetId} (HTTP ${result.status})`);
-
-        // Check suppression via rules engine
-        if (url) {
-          const suppression = await checkSuppression(
-            redis,
-            url,
-            '5xx',
-            result.status,
-            result.error,
-            latencyMs
-          );
-
-          if (!suppression.suppressed) {
-            // Send Slack alert for 5xx error (non-blocking)
-            sendSlackAlert({
-              findingId: nanoid(),
-              url,
-              errorType: '5xx',
-              latencyMs,
-              status: result.status,
-              error: result.error,
-              timestamp: new Date(),
-              fingerprint: suppression.fingerprint,
-            }).catch((err) => {
-              logger.error('[breaker] Failed to send 5xx Slack alert', err);
-            });
-          } else {
-            logger.debug(
-              `[breaker] 5xx alert suppressed for ${url} (reason: ${suppression.reason})`
-            );
-          }
-        }
       } else if (!result.success && result.error) {
         // Network errors, timeouts, etc.
-        await this.breaker.recordFailure(targetId, result.error);
+        await this.breaker.recordFailure(targetId, result.error, probeLease);
         logger.warn(`[breaker] Failure recorded for target ${targetId} (${result.error})`);
-
-        // Determine alert type based on error
-        const isTimeout = result.error.toLowerCase().includes('timeout');
-        const errorType = isTimeout ? 'timeout' : 'network';
-
-        // Check suppression via rules engine
-        if (url) {
-          const suppression = await checkSuppression(
-            redis,
-            url,
-            errorType,
-            undefined,
-            result.error,
-            latencyMs
-          );
-
-          if (!suppression.suppressed) {
-            // Send Slack alert for network/timeout error (non-blocking)
-            sendSlackAlert({
-              findingId: nanoid(),
-              url,
-              errorType,
-              latencyMs,
-              error: result.error,
-              timestamp: new Date(),
-              fingerprint: suppression.fingerprint,
-            }).catch((err) => {
-              logger.error('[breaker] Failed to send network Slack alert', err);
-            });
-          } else {
-            logger.debug(
-              `[breaker] ${errorType} alert suppressed for ${url} (reason: ${suppression.reason})`
-            );
-          }
-        }
       }
-
-      return result;
     } catch (error) {
       const latencyMs = performance.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : String(error);
 
       // Record failure for any exception
-      await this.breaker.recordFailure(targetId, errorMessage);
+      await this.breaker.recordFailure(targetId, errorMessage, probeLease);
       logger.error(
         `[breaker] Failure recorded for target ${targetId} (exception: ${errorMessage})`
       );
 
-      // Check suppression via rules engine
-      if (url) {
+      result = {
+        success: false,
+        status: null,
+        error: errorMessage,
+        latencyMs,
+      };
+    }
+
+    if (url) {
+      await this.alertOnDetections(url, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run the fetch-stage detectors selected by the URL's rule, persist each
+   * finding that is not suppressed and queue its alert
+   */
+  private async alertOnDetections(url: string, result: FetchResult): Promise<void> {
+    try {
+      const redis = getRedisClient();
+      const rule = findRuleForDetection(url);
+      const detected = await runDetectors(
+        { url, rule, fetchResult: result },
+        selectDetectors(rule, ['fetch'])
+      );
+
+      for (const finding of detected) {
+        logger.warn(`[breaker] ${finding.title} for ${url} (detector: ${finding.detector})`);
+
+        // Check suppression via rules engine
         const suppression = await checkSuppression(
           redis,
           url,
-          'network',
-          undefined,
-          errorMessage,
-          latencyMs
+          finding.type,
+          result.status ?? undefined,
+          result.error ?? finding.detectedValue,
+          result.latencyMs
         );
 
-        if (!suppression.suppressed) {
-          // Send Slack alert for exception (non-blocking)
-          sendSlackAlert({
-            findingId: nanoid(),
-            url,
-            errorType: 'network',
-            latencyMs,
-            error: errorMessage,
-            timestamp: new Date(),
-            fingerprint: suppression.fingerprint,
-          }).catch((err) => {
-            logger.error('[breaker] Failed to send exception Slack alert', err);
-          });
-        } else {
+        if (suppression.suppressed) {
           logger.debug(
-            `[breaker] Exception alert suppressed for ${url} (reason: ${suppression.reason})`
+            `[breaker] ${finding.type} alert suppressed for ${url} (reason: ${suppression.reason})`
           );
+          continue;
         }
-      }
 
-      return {
-        success: false,
-        status: null,
-        error: errorMessage,
-        latencyMs,
-      };
+        // Persist the finding so alert buttons resolve to a real row
+        const persisted = await findingService.createDetectedFinding({
+          url,
+          status: 'completed',
+          findingType: finding.type,
+          severity: finding.severity,
+          title: finding.title,
+          description: finding.description,
+          detectedValue: finding.detectedValue,
+          context: finding.context,
+          fingerprint: suppression.fingerprint,
+          metadata: {
+            source: 'fetcher',
+            detector: finding.detector,
+            httpStatus: result.status,
+            latencyMs: result.latencyMs,
+            error: result.error,
+            proxy: result.proxy,
+            diagnostics: result.diagnostics,
+            ...finding.metadata,
+          },
+        });
+
+        const details: AlertDetails = {
+          fingerprint: suppression.fingerprint,
+          latencyMs: result.latencyMs,
+          status: result.status ?? undefined,
+          error: result.error,
+        };
+
+        // Only CRM-verified findings reach Slack; the verify worker queues the alert
+        if (config.verifier.enabled) {
+          try {
+            const verifyJob = await addVerifyJob({ findingId: persisted.id, alert: details });
+            logger.info(`[breaker] Queued verify job ${verifyJob.id} for finding ${persisted.id}`);
+          } catch (error) {
+            logger.error(
+              `[breaker] Failed to queue verify job for finding ${persisted.id}:`,
+              error
+            );
+          }
+          continue;
+        }
+
+        // Queue the alert for durable delivery
+        await alertService.enqueueAlert(persisted, details);
+      }
+    } catch (error) {
+      logger.error(
+        `[breaker] Detection failed for ${url}: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
   }
 
@@ -259,25 +262,47 @@ export class BreakerAwareFetcher implements IFetcher {
   }
 }
 
-export function createFetcher(options: FetcherFactoryOptions = {}): IFetcher {
-  const adapter = options.adapter || 'direct';
-
-  logger.info(`[Fetcher] Creating ${adapter} adapter`);
-
-  // Create the base adapter
-  let baseAdapter: IFetcher;
+function createBaseAdapter(adapter: FetcherAdapter, options: FetcherAdapterOptions): IFetcher {
   switch (adapter) {
     case 'direct':
-      baseAdapter = createDirectFetcher(options);
-      break;
+      return createDirectFetcher(options);
 
     case 'zenrows':
-      baseAdapter = createZenRowsFetcher(options);
-      break;
+      return createZenRowsFetcher(options);
+
+    case 'proxy':
+      return createProxyFetcher(options);
+
+    case 'replay': {
+      // Record mode fetches through the upstream adapter; replay mode never touches the network
+      const mode = options.replay?.mode || config.replay.mode;
+      const upstreamAdapter = config.replay.upstreamAdapter as FetcherAdapter;
+      if (upstreamAdapter === 'replay') {
+        throw new Error('REPLAY_UPSTREAM_ADAPTER cannot be replay');
+      }
+      return createReplayFetcher({
+        ...options,
+        upstream:
+          options.upstream ||
+          (mode === 'record' ? createBaseAdapter(upstreamAdapter, options) : undefined),
+      });
+    }
 
     default:
       logger.warn(`[Fetcher] Unknown adapter: ${adapter}, falling back to direct`);
-      baseAdapter = createDirectFetcher(options);
+      return createDirectFetcher(options);
+  }
+}
+
+export function createFetcher(options: FetcherFactoryOptions = {}): IFetcher {
+  const adapter = options.adapter || 'direct';
+
+  logger.info(`[Fetcher] Creating ${adapter} adapter`);
+
+  // Create the base adapter (replay serves fixtures, so it is not cached)
+  let baseAdapter = createBaseAdapter(adapter, options);
+  if (config.fetchCache.enabled && adapter !== 'replay') {
+    baseAdapter = createCachingFetcher(baseAdapter);
   }
 
   // Wrap with BreakerAwareFetcher if breaker is enabled
@@ -287,7 +312,9 @@ export function createFetcher(options: FetcherFactoryOptions = {}): IFetcher {
       logger.info('[Fetcher] Wrapping adapter with circuit breaker and Slack alerts');
       return new BreakerAwareFetcher(baseAdapter, breakerService);
     } catch (error) {
-      logger.warn('[Fetcher] Circuit breaker enabled but service not initialized, skipping wrapper');
+      logger.warn(
+        '[Fetcher] Circuit breaker enabled but service not initialized, skipping wrapper'
+      );
       logger.warn(`[Fetcher] Error: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
@@ -296,15 +323,27 @@ export function createFetcher(options: FetcherFactoryOptions = {}): IFetcher {
   return baseAdapter;
 }
 
+/**
+ * Fetcher settings from FETCHER_ADAPTER, FETCHER_TIMEOUT_MS and FETCHER_RETRIES
+ */
+export function getFetcherConfigFromEnv(): FetcherFactoryOptions {
+  return {
+    adapter: (process.env.FETCHER_ADAPTER as FetcherAdapter) || 'direct',
+    defaultTimeoutMs: parseInt(process.env.FETCHER_TIMEOUT_MS || '30000'),
+    defaultRetries: parseInt(process.env.FETCHER_RETRIES || '3'),
+  };
+}
+
 let defaultFetcherInstance: IFetcher | null = null;
 
 export function getDefaultFetcher(): IFetcher {
   if (!defaultFetcherInstance) {
-    defaultFetcherInstance = createDirectFetcher({
+    const direct = createDirectFetcher({
       defaultTimeoutMs: 30000,
       defaultRetries: 3,
       debug: process.env.NODE_ENV !== 'production',
     });
+    defaultFetcherInstance = config.fetchCache.enabled ? createCachingFetcher(direct) : direct;
   }
   return defaultFetcherInstance;
 }
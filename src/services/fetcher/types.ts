@@ -54,6 +54,112 @@ export interface FetchResult {
 
   /** Reason for skip (e.g., 'breaker_open') */
   reason?: string;
+
+  /** Cost and quota reported by a scraping provider (e.g. ZenRows) */
+  providerUsage?: ProviderUsage;
+
+  /** Egress proxy the request went out through (proxy adapter) */
+  proxy?: ProxyUsage;
+
+  /** DNS, TCP and TLS details of the last connection made (direct adapter) */
+  diagnostics?: ConnectionDiagnostics;
+
+  /** Conditional request outcome (FETCH_CACHE_ENABLED) */
+  cache?: FetchCacheInfo;
+}
+
+export interface FetchCacheInfo {
+  /** The server answered 304 and the body came from the cache */
+  notModified: boolean;
+
+  /** Whether the body differs from the previous fetch of the URL (null on the first fetch) */
+  contentChanged: boolean | null;
+
+  /** When the URL was previously fetched */
+  previousFetchAt?: string;
+}
+
+export type ConnectionStage = 'dns' | 'tcp' | 'tls';
+
+export interface ConnectionDiagnostics {
+  /** Hostname connected to */
+  host: string;
+
+  /** IP address connected to (the first one that accepted the connection) */
+  address?: string;
+
+  /** Every address the hostname resolved to, in the order tried (when more than one) */
+  addresses?: string[];
+
+  /** Time spent on each stage, in milliseconds (dnsMs is absent for IP literals) */
+  dnsMs?: number;
+  tcpMs?: number;
+  tlsMs?: number;
+
+  /** Negotiated TLS version, e.g. TLSv1.3 */
+  tlsVersion?: string;
+
+  /** Application protocol negotiated with ALPN (h2 or http/1.1) */
+  alpnProtocol?: string;
+
+  cipher?: string;
+
+  /** Leaf certificate presented by the server */
+  certificate?: CertificateInfo;
+
+  /** Why the certificate chain did not verify (e.g. CERT_HAS_EXPIRED) */
+  chainError?: string;
+
+  /** Stage at which the connection failed, if it did */
+  failure?: {
+    stage: ConnectionStage;
+    code?: string;
+    message: string;
+  };
+}
+
+export interface CertificateInfo {
+  /** Distinguished names, e.g. "CN=example.com, O=Example Inc" */
+  subject: string;
+  issuer: string;
+
+  /** Validity period (ISO 8601) */
+  validFrom: string;
+  validTo: string;
+
+  /** Whole days until validTo (negative once expired) */
+  daysRemaining: number;
+
+  /** DNS names from the subjectAltName extension */
+  altNames?: string[];
+
+  fingerprint256: string;
+}
+
+export interface ProxyUsage {
+  /** host:port of the proxy */
+  id: string;
+
+  protocol: string;
+
+  /** Egress label of the proxy, e.g. residential, datacenter, vpn */
+  egress?: string;
+}
+
+export interface ProviderUsage {
+  provider: string;
+
+  /** Credits charged for the request */
+  requestCost?: number;
+
+  concurrencyLimit?: number;
+  concurrencyRemaining?: number;
+
+  /** Provider request ID (quote it in support tickets) */
+  requestId?: string;
+
+  /** Final URL of the target after redirects */
+  finalUrl?: string;
 }
 
 export interface IFetcher {
@@ -12,6 +12,14 @@ export class FindingService {
     return result;
   }
 
+  /**
+   * Persist a finding produced by a detector outside a run (e.g. the breaker-aware fetcher)
+   */
+  async createDetectedFinding(values: Omit<NewFinding, 'id'>): Promise<Finding> {
+    const [result] = await db.insert(findings).values(values).returning();
+    return result;
+  }
+
   async getFindingById(id: string): Promise<Finding | undefined> {
     const [result] = await db.select().from(findings).where(eq(findings.id, id));
     return result;
@@ -0,0 +1,78 @@
+import { Redis } from 'ioredis';
+import { logger } from '../utils/logger';
+
+const HOST_SLOTS_KEY_PREFIX = 'render:host_slots:';
+
+/**
+ * Take a slot in the host's sorted set (member = lease id, score = lease expiry).
+ * Expired leases are dropped first; re-acquiring an existing lease refreshes it.
+ *
+ * KEYS[1] = slot set, ARGV = now, expiresAt, limit, leaseId, leaseMs
+ */
+const ACQUIRE_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+if redis.call('ZSCORE', KEYS[1], ARGV[4]) == false and redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[3]) then
+  return 0
+end
+redis.call('ZADD', KEYS[1], ARGV[2], ARGV[4])
+redis.call('PEXPIRE', KEYS[1], ARGV[5])
+return 1
+`;
+
+/**
+ * Host key used for per-host concurrency (host includes a non-default port)
+ */
+export function getUrlHost(url: string): string {
+  try {
+    return new URL(url).host.toLowerCase();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Try to take one of the host's concurrency slots.
+ * Slots are shared by every worker process through Redis and expire after
+ * leaseMs so a crashed worker cannot hold a host forever.
+ */
+export async function acquireHostSlot(
+  redis: Redis,
+  host: string,
+  leaseId: string,
+  limit: number,
+  leaseMs: number
+): Promise<boolean> {
+  const now = Date.now();
+  const acquired = await redis.eval(
+    ACQUIRE_SCRIPT,
+    1,
+    `${HOST_SLOTS_KEY_PREFIX}${host}`,
+    now,
+    now + leaseMs,
+    limit,
+    leaseId,
+    leaseMs
+  );
+
+  return acquired === 1;
+}
+
+/**
+ * Give a host slot back (best-effort; the lease expires on its own otherwise)
+ */
+export async function releaseHostSlot(redis: Redis, host: string, leaseId: string): Promise<void> {
+  try {
+    await redis.zrem(`${HOST_SLOTS_KEY_PREFIX}${host}`, leaseId);
+  } catch (error) {
+    logger.warn(`[HostConcurrency] Failed to release slot for ${host}:`, error);
+  }
+}
+
+/**
+ * Number of render jobs currently holding a slot for the host
+ */
+export async function getActiveHostSlots(redis: Redis, host: string): Promise<number> {
+  const key = `${HOST_SLOTS_KEY_PREFIX}${host}`;
+  await redis.zremrangebyscore(key, '-inf', Date.now());
+  return redis.zcard(key);
+}
@@ -0,0 +1,78 @@
+import { Redis } from 'ioredis';
+import { getUrlHost } from './hostConcurrency';
+
+const HOST_PAUSE_KEY_PREFIX = 'pause:host:';
+
+export interface HostPause {
+  host: string;
+  actor: string;
+  reason: string | null;
+  pausedAt: string;
+  /** When the pause lifts on its own (null = until unpaused) */
+  until: string | null;
+}
+
+/**
+ * Host key for a URL or a bare host name
+ */
+export function normalizePauseHost(target: string): string {
+  return target.includes('://') ? getUrlHost(target) : target.trim().toLowerCase();
+}
+
+/**
+ * Pause all scanning and crawling of a host, optionally for a limited time
+ */
+export async function pauseHost(
+  redis: Redis,
+  target: string,
+  options: { actor: string; reason?: string | null; durationMs?: number }
+): Promise<HostPause> {
+  const host = normalizePauseHost(target);
+  const now = Date.now();
+  const pause: HostPause = {
+    host,
+    actor: options.actor,
+    reason: options.reason ?? null,
+    pausedAt: new Date(now).toISOString(),
+    until: options.durationMs ? new Date(now + options.durationMs).toISOString() : null,
+  };
+
+  const key = `${HOST_PAUSE_KEY_PREFIX}${host}`;
+  if (options.durationMs) {
+    await redis.set(key, JSON.stringify(pause), 'PX', options.durationMs);
+  } else {
+    await redis.set(key, JSON.stringify(pause));
+  }
+  return pause;
+}
+
+/**
+ * Lift a host pause. Returns false if the host was not paused.
+ */
+export async function unpauseHost(redis: Redis, target: string): Promise<boolean> {
+  const deleted = await redis.del(`${HOST_PAUSE_KEY_PREFIX}${normalizePauseHost(target)}`);
+  return deleted > 0;
+}
+
+/**
+ * The pause on a URL's host, or null if it is not paused
+ */
+export async function getHostPause(redis: Redis, target: string): Promise<HostPause | null> {
+  const raw = await redis.get(`${HOST_PAUSE_KEY_PREFIX}${normalizePauseHost(target)}`);
+  return raw ? (JSON.parse(raw) as HostPause) : null;
+}
+
+/**
+ * All currently paused hosts
+ */
+export async function listHostPauses(redis: Redis): Promise<HostPause[]> {
+  const keys = await redis.keys(`${HOST_PAUSE_KEY_PREFIX}*`);
+  if (keys.length === 0) {
+    return [];
+  }
+
+  const values = await redis.mget(...keys);
+  return values
+    .filter((raw): raw is string => raw !== null)
+    .map((raw) => JSON.parse(raw) as HostPause);
+}
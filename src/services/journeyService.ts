@@ -0,0 +1,130 @@
+/**
+ * Scripted user journeys
+ *
+ * A journey is a declarative list of browser steps (attached to a rule or a run)
+ * that the render worker replays after the landing page has been captured, so
+ * detectors can see pages several steps into checkout or signup flows.
+ */
+
+export type JourneyAction =
+  'goto' | 'click' | 'fill' | 'select' | 'wait-for-selector' | 'submit' | 'assert-text';
+
+interface JourneyStepBase {
+  name?: string; // Human-readable label used in logs and artifacts
+  timeout?: number; // Per-step timeout in ms (defaults to the journey's step timeout)
+}
+
+export type JourneyStep = JourneyStepBase &
+  (
+    | { action: 'goto'; url: string } // Absolute, or relative to the current page
+    | { action: 'click'; selector: string }
+    | { action: 'fill'; selector: string; value: string }
+    | { action: 'select'; selector: string; value: string }
+    | {
+        action: 'wait-for-selector';
+        selector: string;
+        state?: 'attached' | 'detached' | 'visible' | 'hidden';
+      }
+    | { action: 'submit'; selector?: string } // Form (or element inside it); first form if omitted
+    | { action: 'assert-text'; text: string; selector?: string } // Defaults to the page body
+  );
+
+export const JOURNEY_ACTIONS: JourneyAction[] = [
+  'goto',
+  'click',
+  'fill',
+  'select',
+  'wait-for-selector',
+  'submit',
+  'assert-text',
+];
+
+const WAIT_STATES = ['attached', 'detached', 'visible', 'hidden'];
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Validate a journey step list (from rules.json or a run payload).
+ * Throws with the offending step on the first invalid entry.
+ */
+export function validateJourney(steps: unknown, label = 'journey'): JourneyStep[] {
+  if (!Array.isArray(steps)) {
+    throw new Error(`${label} must be an array of steps`);
+  }
+
+  steps.forEach((step: any, index: number) => {
+    const where = `${label} step ${index}`;
+
+    if (!step || typeof step !== 'object') {
+      throw new Error(`${where} must be an object`);
+    }
+    if (!JOURNEY_ACTIONS.includes(step.action)) {
+      throw new Error(`${where} has unknown action "${step.action}"`);
+    }
+    if (step.name !== undefined && typeof step.name !== 'string') {
+      throw new Error(`${where} name must be a string`);
+    }
+    if (step.timeout !== undefined && (typeof step.timeout !== 'number' || step.timeout <= 0)) {
+      throw new Error(`${where} timeout must be a positive number`);
+    }
+
+    switch (step.action as JourneyAction) {
+      case 'goto':
+        if (!isNonEmptyString(step.url)) {
+          throw new Error(`${where} (goto) must have a string "url"`);
+        }
+        break;
+
+      case 'click':
+        if (!isNonEmptyString(step.selector)) {
+          throw new Error(`${where} (click) must have a string "selector"`);
+        }
+        break;
+
+      case 'wait-for-selector':
+        if (!isNonEmptyString(step.selector)) {
+          throw new Error(`${where} (wait-for-selector) must have a string "selector"`);
+        }
+        if (step.state !== undefined && !WAIT_STATES.includes(step.state)) {
+          throw new Error(`${where} state must be one of: ${WAIT_STATES.join(', ')}`);
+        }
+        break;
+
+      case 'fill':
+      case 'select':
+        if (!isNonEmptyString(step.selector)) {
+          throw new Error(`${where} (${step.action}) must have a string "selector"`);
+        }
+        if (typeof step.value !== 'string') {
+          throw new Error(`${where} (${step.action}) must have a string "value"`);
+        }
+        break;
+
+      case 'submit':
+        if (step.selector !== undefined && !isNonEmptyString(step.selector)) {
+          throw new Error(`${where} (submit) selector must be a string`);
+        }
+        break;
+
+      case 'assert-text':
+        if (!isNonEmptyString(step.text)) {
+          throw new Error(`${where} (assert-text) must have a string "text"`);
+        }
+        if (step.selector !== undefined && !isNonEmptyString(step.selector)) {
+          throw new Error(`${where} (assert-text) selector must be a string`);
+        }
+        break;
+    }
+  });
+
+  return steps as JourneyStep[];
+}
+
+/**
+ * Label a step for logs and artifact file names
+ */
+export function describeJourneyStep(step: JourneyStep, index: number): string {
+  return step.name || `${index + 1}. ${step.action}`;
+}
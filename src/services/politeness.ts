@@ -0,0 +1,169 @@
+import { Redis } from 'ioredis';
+import { DelayedError, Job } from 'bullmq';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { recordPolitenessDeferral } from '../utils/metrics';
+import { getUrlHost } from './hostConcurrency';
+import { getRobotsTxtRules } from './robotsService';
+import {
+  getEffectiveCrawlBurst,
+  getEffectiveCrawlDelay,
+  getEffectiveRobotsRespect,
+  type Rule,
+} from './rulesService';
+
+const CRAWL_TAT_KEY_PREFIX = 'politeness:tat:';
+
+/** A job back from the delayed set this early is treated as on time (delay timer jitter) */
+const SLOT_EARLY_TOLERANCE_MS = 250;
+
+/**
+ * Reserve the host's next request slot (GCRA token bucket: one token every
+ * intervalMs, up to `burst` at once). The key holds the theoretical arrival
+ * time; every call moves it forward, so concurrent callers get distinct slots.
+ * Returns how long the caller must wait for its slot (0 = go now).
+ *
+ * KEYS[1] = host key, ARGV = now, intervalMs, burst
+ */
+const RESERVE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local interval = tonumber(ARGV[2])
+local burst = tonumber(ARGV[3])
+local tat = tonumber(redis.call('GET', KEYS[1]) or '0')
+if tat < now then tat = now end
+local newTat = tat + interval
+redis.call('SET', KEYS[1], newTat, 'PX', newTat - now + interval)
+local allowAt = newTat - interval * burst
+if allowAt <= now then
+  return 0
+end
+return allowAt - now
+`;
+
+export interface CrawlPolicy {
+  /** Minimum spacing between requests to the host (0 disables the bucket) */
+  intervalMs: number;
+  /** Requests allowed back to back before the spacing applies */
+  burst: number;
+  source: 'rule' | 'robots' | 'default';
+}
+
+/** Job data fields the politeness check reads and writes */
+export interface PoliteJobData {
+  url: string;
+  /** Time of the request slot reserved for this job when it was deferred */
+  crawlSlotAt?: number;
+}
+
+/**
+ * Request spacing for a URL: the rule's crawlDelaySeconds, else the site's
+ * robots.txt Crawl-delay (when the rule respects robots.txt, capped at
+ * POLITENESS_MAX_CRAWL_DELAY_MS), else POLITENESS_DEFAULT_DELAY_MS
+ */
+export async function getCrawlPolicy(
+  redis: Redis,
+  url: string,
+  rule: Rule | null
+): Promise<CrawlPolicy> {
+  const burst = Math.max(1, getEffectiveCrawlBurst(rule) ?? config.politeness.burst);
+
+  const ruleDelay = getEffectiveCrawlDelay(rule);
+  if (ruleDelay !== null) {
+    return { intervalMs: Math.round(ruleDelay * 1000), burst, source: 'rule' };
+  }
+
+  if (getEffectiveRobotsRespect(rule)) {
+    try {
+      const robots = await getRobotsTxtRules(redis, url);
+      if (robots?.crawlDelay !== undefined && robots.crawlDelay > 0) {
+        return {
+          intervalMs: Math.min(
+            Math.round(robots.crawlDelay * 1000),
+            config.politeness.maxCrawlDelayMs
+          ),
+          burst,
+          source: 'robots',
+        };
+      }
+    } catch (error) {
+      logger.warn(`[Politeness] Failed to read Crawl-delay for ${url}:`, error);
+    }
+  }
+
+  return { intervalMs: config.politeness.defaultDelayMs, burst, source: 'default' };
+}
+
+/**
+ * Reserve the next request slot for a host and return the wait in ms (0 = now).
+ * Slots are shared by every scan, render and crawl worker through Redis.
+ */
+export async function reserveCrawlSlot(
+  redis: Redis,
+  host: string,
+  intervalMs: number,
+  burst: number
+): Promise<number> {
+  const waitMs = await redis.eval(
+    RESERVE_SCRIPT,
+    1,
+    `${CRAWL_TAT_KEY_PREFIX}${host}`,
+    Date.now(),
+    intervalMs,
+    burst
+  );
+  return Number(waitMs) || 0;
+}
+
+/**
+ * Hold a job back until its host's next request slot. A job that has to wait
+ * reserves the slot, records it in `crawlSlotAt` and goes back to the delayed
+ * set (throws DelayedError); when it returns in time it runs on that slot.
+ */
+export async function waitForCrawlSlot(
+  redis: Redis,
+  job: Job<PoliteJobData>,
+  token: string | undefined,
+  rule: Rule | null,
+  stage: 'scan' | 'render' | 'crawl'
+): Promise<void> {
+  if (!config.politeness.enabled) {
+    return;
+  }
+
+  const host = getUrlHost(job.data.url);
+  const policy = await getCrawlPolicy(redis, job.data.url, rule);
+  if (policy.intervalMs <= 0) {
+    return;
+  }
+
+  const now = Date.now();
+  const { crawlSlotAt } = job.data;
+  if (crawlSlotAt !== undefined) {
+    if (now < crawlSlotAt - SLOT_EARLY_TOLERANCE_MS) {
+      // Back before its slot (e.g. promoted by hand): keep the reservation
+      await job.moveToDelayed(crawlSlotAt, token);
+      throw new DelayedError();
+    }
+
+    await job.updateData({ ...job.data, crawlSlotAt: undefined });
+    if (now <= crawlSlotAt + policy.intervalMs) {
+      return;
+    }
+    // The slot went by long ago (worker backlog); take a fresh one
+  }
+
+  const waitMs = await reserveCrawlSlot(redis, host, policy.intervalMs, policy.burst);
+  if (waitMs <= 0) {
+    return;
+  }
+
+  const slotAt = now + waitMs;
+  logger.info(
+    `[Politeness] ${stage} job ${job.id} for ${host} deferred ${waitMs}ms (${policy.source} crawl delay ${policy.intervalMs}ms)`
+  );
+  recordPolitenessDeferral(host, stage);
+
+  await job.updateData({ ...job.data, crawlSlotAt: slotAt });
+  await job.moveToDelayed(slotAt, token);
+  throw new DelayedError();
+}
@@ -3,9 +3,15 @@ import { getRedisClient } from '../config/redis';
 import { config } from '../config';
 import { ScanJobData } from '../workers/scanWorker';
 import { RenderJobData } from '../workers/renderWorker';
+import { VerifyJobData } from '../workers/verifyWorker';
+import { AlertJobData } from '../workers/alertWorker';
+import { CrawlJobData } from '../workers/crawlWorker';
 
 let scanQueue: Queue<ScanJobData> | null = null;
 let renderQueue: Queue<RenderJobData> | null = null;
+let verifyQueue: Queue<VerifyJobData> | null = null;
+let alertQueue: Queue<AlertJobData> | null = null;
+let crawlQueue: Queue<CrawlJobData> | null = null;
 
 export function getScanQueue(): Queue<ScanJobData> {
   if (!scanQueue) {
@@ -37,6 +43,58 @@ export function getRenderQueue(): Queue<RenderJobData> {
   return renderQueue;
 }
 
+export function getVerifyQueue(): Queue<VerifyJobData> {
+  if (!verifyQueue) {
+    const connection = getRedisClient();
+
+    const queueOptions: QueueOptions = {
+      connection,
+      defaultJobOptions: config.bullmq.defaultJobOptions,
+    };
+
+    verifyQueue = new Queue<VerifyJobData>('verify-queue', queueOptions);
+  }
+
+  return verifyQueue;
+}
+
+export function getAlertQueue(): Queue<AlertJobData> {
+  if (!alertQueue) {
+    const connection = getRedisClient();
+
+    const queueOptions: QueueOptions = {
+      connection,
+      defaultJobOptions: {
+        ...config.bullmq.defaultJobOptions,
+        attempts: config.alerts.maxAttempts,
+        backoff: {
+          type: 'exponential' as const,
+          delay: config.alerts.backoffMs,
+        },
+      },
+    };
+
+    alertQueue = new Queue<AlertJobData>('alert-queue', queueOptions);
+  }
+
+  return alertQueue;
+}
+
+export function getCrawlQueue(): Queue<CrawlJobData> {
+  if (!crawlQueue) {
+    const connection = getRedisClient();
+
+    const queueOptions: QueueOptions = {
+      connection,
+      defaultJobOptions: config.bullmq.defaultJobOptions,
+    };
+
+    crawlQueue = new Queue<CrawlJobData>('crawl-queue', queueOptions);
+  }
+
+  return crawlQueue;
+}
+
 export async function addScanJob(data: ScanJobData) {
   const queue = getScanQueue();
 
@@ -57,6 +115,36 @@ export async function addRenderJob(data: RenderJobData) {
   return job;
 }
 
+export async function addVerifyJob(data: VerifyJobData) {
+  const queue = getVerifyQueue();
+
+  const job = await queue.add('verify', data, {
+    jobId: `verify-${data.findingId}-${Date.now()}`,
+  });
+
+  return job;
+}
+
+export async function addAlertJob(data: AlertJobData) {
+  const queue = getAlertQueue();
+
+  const job = await queue.add('alert', data, {
+    jobId: `alert-${data.alertId}`,
+  });
+
+  return job;
+}
+
+export async function addCrawlJob(data: CrawlJobData) {
+  const queue = getCrawlQueue();
+
+  const job = await queue.add('crawl', data, {
+    jobId: `crawl-${data.runId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  });
+
+  return job;
+}
+
 export async function closeScanQueue() {
   if (scanQueue) {
     await scanQueue.close();
@@ -71,7 +159,31 @@ export async function closeRenderQueue() {
   }
 }
 
+export async function closeVerifyQueue() {
+  if (verifyQueue) {
+    await verifyQueue.close();
+    verifyQueue = null;
+  }
+}
+
+export async function closeAlertQueue() {
+  if (alertQueue) {
+    await alertQueue.close();
+    alertQueue = null;
+  }
+}
+
+export async function closeCrawlQueue() {
+  if (crawlQueue) {
+    await crawlQueue.close();
+    crawlQueue = null;
+  }
+}
+
 export async function closeAllQueues() {
   await closeScanQueue();
   await closeRenderQueue();
+  await closeVerifyQueue();
+  await closeAlertQueue();
+  await closeCrawlQueue();
 }
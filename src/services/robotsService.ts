@@ -1,103 +1,225 @@
 import { Redis } from 'ioredis';
 import { logger } from '../utils/logger';
 import { config } from '../config';
+import { BlockedDestinationError, checkDestination } from './destinationGuard';
 
 const ROBOTS_CACHE_PREFIX = 'robots:';
 const ROBOTS_CACHE_TTL = config.tuning.robotsCacheTtlSeconds;
 
+/** Product token matched against robots.txt User-agent lines */
+export const ROBOTS_USER_AGENT = 'UnleakBot';
+
+/** Only the first 500 KiB of a robots.txt file is parsed (RFC 9309 section 2.5) */
+const MAX_ROBOTS_TXT_BYTES = 500 * 1024;
+
+/** Redirects followed before robots.txt counts as unavailable (RFC 9309 section 2.3.1.2) */
+const MAX_ROBOTS_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
 export interface RobotsTxtRules {
   disallowedPaths: string[];
   allowedPaths: string[];
   crawlDelay?: number;
+  /** Sitemap URLs listed anywhere in the file */
+  sitemaps?: string[];
+}
+
+type RobotsFetchResult =
+  | { status: 'ok'; content: string }
+  | { status: 'unavailable' } // 4xx: no restrictions
+  | { status: 'unreachable' }; // 5xx or network error: assume everything is disallowed
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsTxtRules;
 }
 
 /**
- * Parse robots.txt content
+ * Parse robots.txt content (RFC 9309) and return the rules that apply to
+ * `userAgent`.
+ *
+ * Consecutive User-agent lines share one group, and every group naming the
+ * agent is merged. Product tokens match case-insensitively
+ * ("UnleakBot/1.0" matches UnleakBot). The `*` groups apply only when no
+ * group names the agent.
  */
-function parseRobotsTxt(content: string, userAgent: string = '*'): RobotsTxtRules {
-  const rules: RobotsTxtRules = {
-    disallowedPaths: [],
-    allowedPaths: [],
-  };
-
-  const lines = content.split('\n').map(line => line.trim());
-  let isRelevantSection = false;
-
-  for (const line of lines) {
-    // Skip empty lines and comments
-    if (!line || line.startsWith('#')) {
+export function parseRobotsTxt(
+  content: string,
+  userAgent: string = ROBOTS_USER_AGENT
+): RobotsTxtRules {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
       continue;
     }
 
-    // Parse User-agent directive
-    if (line.toLowerCase().startsWith('user-agent:')) {
-      const agent = line.substring(11).trim();
-      isRelevantSection = agent === '*' || agent.toLowerCase() === userAgent.toLowerCase();
+    const key = line.substring(0, separator).trim().toLowerCase();
+    const value = line.substring(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: { disallowedPaths: [], allowedPaths: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.split(/[\s/]/)[0].toLowerCase());
+      inAgentLines = true;
       continue;
     }
 
-    // Only process rules for relevant user-agent sections
-    if (!isRelevantSection) {
+    // Sitemap lines apply to the whole file rather than a group
+    if (key === 'sitemap') {
+      if (value) {
+        sitemaps.push(value);
+      }
       continue;
     }
 
-    // Parse Disallow directive
-    if (line.toLowerCase().startsWith('disallow:')) {
-      const path = line.substring(9).trim();
-      if (path) {
-        rules.disallowedPaths.push(path);
-      }
+    if (key !== 'allow' && key !== 'disallow' && key !== 'crawl-delay') {
+      // Unknown lines do not end the User-agent lines of a group
+      continue;
     }
 
-    // Parse Allow directive
-    if (line.toLowerCase().startsWith('allow:')) {
-      const path = line.substring(6).trim();
-      if (path) {
-        rules.allowedPaths.push(path);
-      }
+    inAgentLines = false;
+    // Rules before the first User-agent line belong to no group
+    if (!current) {
+      continue;
     }
 
-    // Parse Crawl-delay directive
-    if (line.toLowerCase().startsWith('crawl-delay:')) {
-      const delay = parseInt(line.substring(12).trim(), 10);
-      if (!isNaN(delay)) {
-        rules.crawlDelay = delay;
+    // An empty Disallow or Allow matches nothing
+    if (key === 'disallow' && value) {
+      current.rules.disallowedPaths.push(value);
+    } else if (key === 'allow' && value) {
+      current.rules.allowedPaths.push(value);
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.rules.crawlDelay = delay;
       }
     }
   }
 
+  const token = userAgent.toLowerCase();
+  let selected = groups.filter(group => group.agents.includes(token));
+  if (selected.length === 0) {
+    selected = groups.filter(group => group.agents.includes('*'));
+  }
+
+  const rules: RobotsTxtRules = { disallowedPaths: [], allowedPaths: [] };
+  for (const group of selected) {
+    rules.disallowedPaths.push(...group.rules.disallowedPaths);
+    rules.allowedPaths.push(...group.rules.allowedPaths);
+    if (group.rules.crawlDelay !== undefined && rules.crawlDelay === undefined) {
+      rules.crawlDelay = group.rules.crawlDelay;
+    }
+  }
+  if (sitemaps.length > 0) {
+    rules.sitemaps = sitemaps;
+  }
   return rules;
 }
 
 /**
- * Fetch robots.txt for a domain
+ * Read at most MAX_ROBOTS_TXT_BYTES of a robots.txt body. A longer file is
+ * cut at its last complete line within the limit, so no rule (or UTF-8
+ * sequence) is split.
  */
-async function fetchRobotsTxt(baseUrl: string): Promise<string | null> {
-  try {
-    const url = new URL('/robots.txt', baseUrl);
-    
-    logger.debug(`[Robots] Fetching robots.txt from: ${url.toString()}`);
-    
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'User-Agent': 'UnleakBot/1.0',
-      },
-      signal: AbortSignal.timeout(5000), // 5 second timeout
-    });
-
-    if (!response.ok) {
-      logger.debug(`[Robots] robots.txt not found for ${baseUrl} (status: ${response.status})`);
-      return null;
+async function readRobotsBody(response: Response, baseUrl: string): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(Buffer.from(value));
+    length += value.length;
+    if (length > MAX_ROBOTS_TXT_BYTES) {
+      await reader.cancel();
+      break;
     }
+  }
 
-    const content = await response.text();
-    logger.debug(`[Robots] Successfully fetched robots.txt for ${baseUrl} (${content.length} bytes)`);
-    
-    return content;
+  let body = Buffer.concat(chunks);
+  if (body.length > MAX_ROBOTS_TXT_BYTES) {
+    logger.debug(`[Robots] robots.txt for ${baseUrl} exceeds 500 KiB, truncating`);
+    body = body.subarray(0, MAX_ROBOTS_TXT_BYTES);
+    body = body.subarray(0, Math.max(body.lastIndexOf(0x0a), body.lastIndexOf(0x0d)) + 1);
+  }
+  return body.toString('utf-8');
+}
+
+/**
+ * Fetch robots.txt for a domain, following redirects through the destination
+ * guard so neither the host nor a redirect reaches an internal address
+ */
+async function fetchRobotsTxt(baseUrl: string): Promise<RobotsFetchResult> {
+  let target: string;
+  try {
+    target = new URL('/robots.txt', baseUrl).toString();
   } catch (error) {
-    logger.warn(`[Robots] Failed to fetch robots.txt for ${baseUrl}: ${error}`);
-    return null;
+    logger.warn(`[Robots] Failed to parse URL "${baseUrl}": ${error}`);
+    return { status: 'unavailable' };
+  }
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      await checkDestination(target);
+
+      logger.debug(`[Robots] Fetching robots.txt from: ${target}`);
+
+      const response = await fetch(target, {
+        method: 'GET',
+        headers: {
+          'User-Agent': `${ROBOTS_USER_AGENT}/1.0`,
+        },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(5000), // 5 second timeout
+      });
+
+      const location = response.headers.get('location');
+      if (REDIRECT_STATUSES.has(response.status) && location) {
+        if (redirects >= MAX_ROBOTS_REDIRECTS) {
+          logger.debug(`[Robots] Too many redirects for robots.txt of ${baseUrl}`);
+          return { status: 'unavailable' };
+        }
+        target = new URL(location, target).toString();
+        continue;
+      }
+
+      if (!response.ok) {
+        if (response.status >= 500) {
+          logger.warn(`[Robots] robots.txt unreachable for ${baseUrl} (status: ${response.status}), disallowing all`);
+          return { status: 'unreachable' };
+        }
+        logger.debug(`[Robots] robots.txt not found for ${baseUrl} (status: ${response.status})`);
+        return { status: 'unavailable' };
+      }
+
+      const content = await readRobotsBody(response, baseUrl);
+      logger.debug(`[Robots] Successfully fetched robots.txt for ${baseUrl} (${content.length} bytes)`);
+
+      return { status: 'ok', content };
+    }
+  } catch (error) {
+    // Never fetched; the scan of a blocked host is refused by the guard itself
+    if (error instanceof BlockedDestinationError) {
+      logger.warn(`[Robots] robots.txt for ${baseUrl} not fetched: ${error.message}`);
+      return { status: 'unavailable' };
+    }
+    // Timeouts, DNS and connection failures count as unreachable (RFC 9309 section 2.3.1.4)
+    logger.warn(`[Robots] robots.txt unreachable for ${baseUrl} (${error}), disallowing all`);
+    return { status: 'unreachable' };
   }
 }
 
@@ -120,7 +242,7 @@ function getDomain(url: string): string {
 export async function getRobotsTxtRules(
   redis: Redis,
   url: string,
-  userAgent: string = '*'
+  userAgent: string = ROBOTS_USER_AGENT
 ): Promise<RobotsTxtRules | null> {
   const domain = getDomain(url);
   const cacheKey = `${ROBOTS_CACHE_PREFIX}${domain}`;
@@ -137,44 +259,86 @@ export async function getRobotsTxtRules(
   }
 
   // Fetch robots.txt
-  const content = await fetchRobotsTxt(domain);
-  if (!content) {
+  const result = await fetchRobotsTxt(domain);
+  if (result.status === 'unavailable') {
     // Cache null result to avoid repeated fetches
     await redis.setex(cacheKey, ROBOTS_CACHE_TTL, JSON.stringify(null));
     return null;
   }
 
   // Parse and cache
-  const rules = parseRobotsTxt(content, userAgent);
+  const rules =
+    result.status === 'ok'
+      ? parseRobotsTxt(result.content, userAgent)
+      : { disallowedPaths: ['/'], allowedPaths: [] };
   await redis.setex(cacheKey, ROBOTS_CACHE_TTL, JSON.stringify(rules));
 
   return rules;
 }
 
 /**
- * Check if URL path is allowed by robots.txt
+ * Percent-encode non-ASCII characters and uppercase existing escapes, so
+ * patterns and paths compare octet by octet
  */
-function isPathAllowed(path: string, rules: RobotsTxtRules): boolean {
-  // Check if path matches any Allow directive (takes precedence)
-  for (const allowedPath of rules.allowedPaths) {
-    if (path.startsWith(allowedPath) || allowedPath === '/') {
-      return true;
-    }
+function normalizeForMatch(value: string): string {
+  return value
+    .replace(/%[0-9a-f]{2}/gi, escape => escape.toUpperCase())
+    .replace(/[^\x00-\x7f]+/g, chars => encodeURIComponent(chars));
+}
+
+/**
+ * Length of `pattern` if it matches the start of `path`, else -1.
+ * `*` matches any run of characters and a trailing `$` anchors the end.
+ * Matched segment by segment (each at its leftmost position), so hostile
+ * patterns cannot make it backtrack.
+ */
+function matchLength(pattern: string, path: string): number {
+  const normalized = normalizeForMatch(pattern);
+  const anchored = normalized.endsWith('$');
+  const segments = (anchored ? normalized.slice(0, -1) : normalized).split('*');
+  const first = segments[0];
+  const last = segments[segments.length - 1];
+
+  if (!path.startsWith(first)) {
+    return -1;
+  }
+  if (segments.length === 1) {
+    return !anchored || path.length === first.length ? normalized.length : -1;
   }
 
-  // Check if path matches any Disallow directive
-  for (const disallowedPath of rules.disallowedPaths) {
-    if (disallowedPath === '/') {
-      // Disallow all
-      return false;
-    }
-    if (path.startsWith(disallowedPath)) {
-      return false;
+  let position = first.length;
+  for (const segment of segments.slice(1, -1)) {
+    const found = path.indexOf(segment, position);
+    if (found === -1) {
+      return -1;
     }
+    position = found + segment.length;
   }
 
-  // Default: allow if not explicitly disallowed
-  return true;
+  if (anchored) {
+    return path.endsWith(last) && path.length - last.length >= position ? normalized.length : -1;
+  }
+  return path.indexOf(last, position) !== -1 ? normalized.length : -1;
+}
+
+/**
+ * Check if URL path is allowed by robots.txt. The longest matching pattern
+ * wins; Allow wins a tie. /robots.txt itself is always allowed.
+ */
+export function isPathAllowed(path: string, rules: RobotsTxtRules): boolean {
+  const target = normalizeForMatch(path);
+  if (target === '/robots.txt') {
+    return true;
+  }
+
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.map(pattern => matchLength(pattern, target)));
+
+  const disallowLength = longest(rules.disallowedPaths);
+  if (disallowLength === -1) {
+    return true;
+  }
+  return longest(rules.allowedPaths) >= disallowLength;
 }
 
 /**
@@ -183,7 +347,7 @@ function isPathAllowed(path: string, rules: RobotsTxtRules): boolean {
 export async function isAllowedByRobotsTxt(
   redis: Redis,
   url: string,
-  userAgent: string = '*'
+  userAgent: string = ROBOTS_USER_AGENT
 ): Promise<boolean> {
   try {
     const parsed = new URL(url);
@@ -16,11 +16,13 @@ export interface SuppressionCheck {
 /**
  * Check if a finding should be suppressed by rules engine
  * Returns { suppressed: true, reason, fingerprint } if suppressed
+ *
+ * errorType is the finding type reported by a detector ('5xx', 'latency', 'form.submit_blocked', ...)
  */
 export async function checkSuppression(
   redis: Redis,
   url: string,
-  errorType: '5xx' | 'latency' | 'timeout' | 'network',
+  errorType: string,
   statusCode?: number,
   errorMessage?: string,
   latencyMs?: number
@@ -81,7 +83,8 @@ export async function checkSuppression(
         fingerprint = generateNetworkErrorFingerprint(url, errorMessage || 'NETWORK_ERROR');
         break;
       default:
-        fingerprint = generateFingerprint(url, statusCode, errorMessage);
+        // Detector-specific types: keep fingerprints distinct per finding type
+        fingerprint = generateFingerprint(url, statusCode, `${errorType}::${errorMessage || ''}`);
     }
 
     // Step 6: Check deduplication and cooldown
@@ -1,6 +1,8 @@
 import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { validateJourney, type JourneyStep } from './journeyService';
+import { isKnownDevice } from './deviceProfiles';
 
 export interface MaintenanceWindow {
   start: string; // ISO 8601 timestamp
@@ -9,6 +11,18 @@ export interface MaintenanceWindow {
   timezone?: string; // Optional timezone (defaults to UTC)
 }
 
+/**
+ * Circuit breaker settings for the targets a rule matches (unset fields fall
+ * back to `defaults.breaker`, then to the BREAKER_* environment settings)
+ */
+export interface RuleBreakerSettings {
+  failThreshold?: number; // Consecutive failures that open the circuit
+  openSeconds?: number; // How long the circuit stays open before a probe
+  probeBackoffSeconds?: number; // Wait before the next probe after a failed one
+  windowSize?: number; // Recent requests the failure rate is measured over
+  failureRateThreshold?: number; // Failure rate (0-1) over the window that opens the circuit
+}
+
 export interface Rule {
   id: string;
   pattern: string; // Regex pattern to match URLs
@@ -17,6 +31,12 @@ export interface Rule {
   respectRobots?: boolean;
   maintenance?: MaintenanceWindow[];
   suppressDuringMaintenance?: boolean;
+  detectors?: string[]; // Detector IDs to run for matching URLs
+  journey?: JourneyStep[]; // Scripted steps replayed by the render worker
+  devices?: string[]; // Playwright device descriptors to capture evidence as
+  crawlDelaySeconds?: number; // Spacing between requests to a host (overrides robots.txt Crawl-delay)
+  crawlBurst?: number; // Requests allowed back to back before the spacing applies
+  breaker?: RuleBreakerSettings;
 }
 
 export interface RulesDefaults {
@@ -24,6 +44,10 @@ export interface RulesDefaults {
   latencyMsThreshold: number;
   respectRobots: boolean;
   suppressDuringMaintenance?: boolean;
+  detectors?: string[];
+  crawlDelaySeconds?: number;
+  crawlBurst?: number;
+  breaker?: RuleBreakerSettings;
 }
 
 export interface RulesConfig {
@@ -33,6 +57,56 @@ export interface RulesConfig {
 
 let rulesConfigCache: RulesConfig | null = null;
 
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateCrawlSettings(settings: any, label: string): void {
+  if (
+    settings.crawlDelaySeconds !== undefined &&
+    (typeof settings.crawlDelaySeconds !== 'number' || settings.crawlDelaySeconds < 0)
+  ) {
+    throw new Error(`${label}crawlDelaySeconds must be a non-negative number`);
+  }
+  if (
+    settings.crawlBurst !== undefined &&
+    (!Number.isInteger(settings.crawlBurst) || settings.crawlBurst < 1)
+  ) {
+    throw new Error(`${label}crawlBurst must be a positive integer`);
+  }
+}
+
+function validateBreakerSettings(breaker: any, label: string): void {
+  if (breaker === undefined) {
+    return;
+  }
+  if (!breaker || typeof breaker !== 'object' || Array.isArray(breaker)) {
+    throw new Error(`${label}breaker must be an object`);
+  }
+
+  for (const field of ['failThreshold', 'windowSize']) {
+    if (breaker[field] !== undefined && (!Number.isInteger(breaker[field]) || breaker[field] < 1)) {
+      throw new Error(`${label}breaker.${field} must be a positive integer`);
+    }
+  }
+  for (const field of ['openSeconds', 'probeBackoffSeconds']) {
+    if (
+      breaker[field] !== undefined &&
+      (typeof breaker[field] !== 'number' || breaker[field] <= 0)
+    ) {
+      throw new Error(`${label}breaker.${field} must be a positive number`);
+    }
+  }
+  if (
+    breaker.failureRateThreshold !== undefined &&
+    (typeof breaker.failureRateThreshold !== 'number' ||
+      breaker.failureRateThreshold <= 0 ||
+      breaker.failureRateThreshold > 1)
+  ) {
+    throw new Error(`${label}breaker.failureRateThreshold must be a number between 0 and 1`);
+  }
+}
+
 /**
  * Validate rules configuration schema
  */
@@ -57,6 +131,11 @@ function validateRulesConfig(config: any): config is RulesConfig {
   if (typeof defaults.respectRobots !== 'boolean') {
     throw new Error('defaults.respectRobots must be a boolean');
   }
+  if (defaults.detectors !== undefined && !isStringArray(defaults.detectors)) {
+    throw new Error('defaults.detectors must be an array of strings');
+  }
+  validateCrawlSettings(defaults, 'defaults.');
+  validateBreakerSettings(defaults.breaker, 'defaults.');
 
   // Validate rules array
   if (!Array.isArray(config.rules)) {
@@ -96,6 +175,27 @@ function validateRulesConfig(config: any): config is RulesConfig {
       throw new Error(`Rule "${rule.id}" respectRobots must be a boolean`);
     }
 
+    if (rule.detectors !== undefined && !isStringArray(rule.detectors)) {
+      throw new Error(`Rule "${rule.id}" detectors must be an array of strings`);
+    }
+
+    validateCrawlSettings(rule, `Rule "${rule.id}" `);
+    validateBreakerSettings(rule.breaker, `Rule "${rule.id}" `);
+
+    if (rule.journey !== undefined) {
+      validateJourney(rule.journey, `Rule "${rule.id}" journey`);
+    }
+
+    if (rule.devices !== undefined) {
+      if (!isStringArray(rule.devices)) {
+        throw new Error(`Rule "${rule.id}" devices must be an array of strings`);
+      }
+      const unknown = rule.devices.filter((name: string) => !isKnownDevice(name));
+      if (unknown.length > 0) {
+        throw new Error(`Rule "${rule.id}" has unknown devices: ${unknown.join(', ')}`);
+      }
+    }
+
     // Validate maintenance windows
     if (rule.maintenance !== undefined) {
       if (!Array.isArray(rule.maintenance)) {
@@ -235,6 +335,48 @@ export function getEffectiveRobotsRespect(rule: Rule | null): boolean {
   return config.defaults.respectRobots;
 }
 
+/**
+ * Get the detector IDs to run for a rule (null runs every registered detector)
+ */
+export function getEffectiveDetectors(rule: Rule | null): string[] | null {
+  const config = getRulesConfig();
+  if (rule && rule.detectors !== undefined) {
+    return rule.detectors;
+  }
+  return config.defaults.detectors ?? null;
+}
+
+/**
+ * Get the crawl delay for a rule in seconds (null falls back to robots.txt Crawl-delay)
+ */
+export function getEffectiveCrawlDelay(rule: Rule | null): number | null {
+  const config = getRulesConfig();
+  if (rule && rule.crawlDelaySeconds !== undefined) {
+    return rule.crawlDelaySeconds;
+  }
+  return config.defaults.crawlDelaySeconds ?? null;
+}
+
+/**
+ * Get the crawl burst for a rule (null uses POLITENESS_BURST)
+ */
+export function getEffectiveCrawlBurst(rule: Rule | null): number | null {
+  const config = getRulesConfig();
+  if (rule && rule.crawlBurst !== undefined) {
+    return rule.crawlBurst;
+  }
+  return config.defaults.crawlBurst ?? null;
+}
+
+/**
+ * Get the circuit breaker settings for a rule, field by field over
+ * `defaults.breaker` (unset fields use the breaker service's own config)
+ */
+export function getEffectiveBreakerSettings(rule: Rule | null): RuleBreakerSettings {
+  const config = getRulesConfig();
+  return { ...config.defaults.breaker, ...rule?.breaker };
+}
+
 /**
  * Check if current time is within any maintenance window
  */
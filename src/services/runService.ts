@@ -1,14 +1,26 @@
 import { db } from '../db';
 import { runs, findings } from '../db/schema';
-import { eq } from 'drizzle-orm';
-import { addScanJob } from './queueService';
+import { eq, sql } from 'drizzle-orm';
+import { addCrawlJob, addScanJob } from './queueService';
 import { logger } from '../utils/logger';
 import { nanoid } from 'nanoid';
+import { validateJourney, type JourneyStep } from './journeyService';
+import { expandSeedUrl, type SitemapExpansion } from './sitemapService';
+import {
+  claimCrawlUrl,
+  getCrawlLimits,
+  normalizeCrawlUrl,
+  settleCrawlJob,
+  trackCrawlJob,
+  type CrawlLimits,
+} from './crawlerService';
+import { getRedisClient } from '../config/redis';
+import { config } from '../config';
 
 export interface CreateRunInput {
   urls: string[];
   payload?: any;
-  runType?: 'manual' | 'scheduled' | 'webhook';
+  runType?: 'manual' | 'scheduled' | 'webhook' | 'crawl';
 }
 
 export interface CreateRunResult {
@@ -17,6 +29,29 @@ export interface CreateRunResult {
   jobIds: string[];
 }
 
+/**
+ * Finding statuses a run waits for: once every finding of a run has one of
+ * them the run is completed. `skipped_breaker_open` is left out on purpose:
+ * the render job comes back at the next probe and moves the finding on.
+ */
+export const TERMINAL_FINDING_STATUSES = [
+  'evidence_captured',
+  'completed',
+  'failed',
+  'resolved',
+  'suppressed',
+];
+
+/**
+ * Per-seed sitemap URL cap: `maxUrls` (from the payload) can lower
+ * SITEMAP_MAX_URLS but not raise it
+ */
+function getSitemapMaxUrls(maxUrls?: unknown): number {
+  return typeof maxUrls === 'number' && Number.isInteger(maxUrls) && maxUrls > 0
+    ? Math.min(maxUrls, config.sitemap.maxUrls)
+    : config.sitemap.maxUrls;
+}
+
 export class RunService {
   /**
    * Create a new run and enqueue jobs for all URLs
@@ -43,56 +78,57 @@ export class RunService {
       throw new Error('No valid URLs provided');
     }
 
+    // Optional scripted journey replayed on every URL of the run
+    const journey =
+      payload?.journey !== undefined
+        ? validateJourney(payload.journey, 'payload.journey')
+        : undefined;
+
+    // Crawl runs treat the URLs as seeds: the crawl worker adds the pages their
+    // sitemaps list and follows their links, so no URL is scanned up front
+    let runUrls = validUrls;
+    let runPayload = payload || { urls: validUrls };
+    let crawlLimits: CrawlLimits | null = null;
+    if (runType === 'crawl') {
+      crawlLimits = getCrawlLimits(payload);
+      runUrls = [];
+      runPayload = { ...payload, seeds: validUrls, crawlLimits, sitemapDiscovery: [] };
+    }
+
     // Create run
     const [run] = await db
       .insert(runs)
       .values({
         status: 'queued',
-        urlCount: validUrls.length,
+        urlCount: runUrls.length,
         runType,
-        payload: payload || { urls: validUrls },
+        payload: runPayload,
       })
       .returning();
 
-    logger.info(`Created run ${run.id} with ${validUrls.length} URLs`);
+    logger.info(`Created run ${run.id} with ${runUrls.length} URLs`);
 
     // Create findings and enqueue jobs
     const createdFindings = [];
     const jobIds = [];
 
-    for (const url of validUrls) {
+    for (const url of runUrls) {
       try {
-        const [finding] = await db
-          .insert(findings)
-          .values({
-            runId: run.id,
-            url,
-            status: 'pending',
-            findingType: 'scan',
-            severity: 'low',
-            title: `Scan for ${url}`,
-            description: `Automated scan initiated by run ${run.id}`,
-            fingerprint: nanoid(),
-          })
-          .returning();
-
+        const { finding, jobId } = await this.enqueueUrl(run.id, url, journey);
         createdFindings.push(finding);
-        logger.info(`Created finding ${finding.id} for URL: ${url}`);
-
-        // Enqueue scan job (scan worker will then queue render job)
-        const job = await addScanJob({
-          findingId: finding.id,
-          url,
-        });
-
-        jobIds.push(job.id!);
-        logger.info(`Enqueued scan job ${job.id} for finding ${finding.id}`);
+        jobIds.push(jobId);
       } catch (error) {
         logger.error(`Failed to create finding for URL ${url}:`, error);
         // Continue with other URLs
       }
     }
 
+    if (crawlLimits) {
+      jobIds.push(
+        ...(await this.startCrawl(run.id, validUrls, crawlLimits, payload?.maxUrls, journey))
+      );
+    }
+
     // Update run status to in_progress if jobs were enqueued
     if (jobIds.length > 0) {
       await db
@@ -115,6 +151,190 @@ export class RunService {
     };
   }
 
+  /**
+   * Create the finding for one URL of a run and enqueue its scan job
+   */
+  async enqueueUrl(
+    runId: string,
+    url: string,
+    journey?: JourneyStep[]
+  ): Promise<{ finding: any; jobId: string }> {
+    const [finding] = await db
+      .insert(findings)
+      .values({
+        runId,
+        url,
+        status: 'pending',
+        findingType: 'scan',
+        severity: 'low',
+        title: `Scan for ${url}`,
+        description: `Automated scan initiated by run ${runId}`,
+        fingerprint: nanoid(),
+      })
+      .returning();
+
+    logger.info(`Created finding ${finding.id} for URL: ${url}`);
+
+    // Enqueue scan job (scan worker will then queue render job)
+    const job = await addScanJob({
+      findingId: finding.id,
+      url,
+      journey,
+    });
+
+    logger.info(`Enqueued scan job ${job.id} for finding ${finding.id}`);
+    return { finding, jobId: job.id! };
+  }
+
+  /**
+   * Add a URL the link crawler found after the run was created. A run whose
+   * earlier findings all finished (and was marked completed) is back in
+   * progress until the new scan is done.
+   */
+  async addDiscoveredUrl(runId: string, url: string, journey?: JourneyStep[]) {
+    const result = await this.enqueueUrl(runId, url, journey);
+
+    await db
+      .update(runs)
+      .set({
+        urlCount: sql`${runs.urlCount} + 1`,
+        status: 'in_progress',
+        completedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(runs.id, runId));
+
+    return result;
+  }
+
+  /**
+   * Queue each seed of a crawl run on the crawl queue. Its job expands the
+   * seed's sitemaps and then follows its links, so slow sitemaps never hold
+   * up the request that created the run.
+   */
+  private async startCrawl(
+    runId: string,
+    seeds: string[],
+    limits: CrawlLimits,
+    maxUrls?: unknown,
+    journey?: JourneyStep[]
+  ): Promise<string[]> {
+    const redis = getRedisClient();
+    const sitemapMaxUrls = getSitemapMaxUrls(maxUrls);
+    const jobIds: string[] = [];
+
+    for (const seed of seeds) {
+      await trackCrawlJob(redis, runId);
+      try {
+        const job = await addCrawlJob({
+          runId,
+          url: seed,
+          seed,
+          depth: 0,
+          limits,
+          journey,
+          sitemapMaxUrls,
+        });
+        jobIds.push(job.id!);
+      } catch (error) {
+        logger.error(`Failed to queue crawl of seed ${seed} for run ${runId}:`, error);
+        await settleCrawlJob(redis, runId);
+      }
+    }
+
+    logger.info(
+      `Run ${runId}: crawl queued for ${jobIds.length} seed(s) (depth ${limits.maxDepth}, ${limits.maxPages} pages)`
+    );
+    return jobIds;
+  }
+
+  /**
+   * Add a crawl seed and the pages its sitemaps list to the run, and record
+   * the discovery in `payload.sitemapDiscovery`. URLs the run has already seen
+   * are skipped; a seed whose discovery fails is still scanned on its own.
+   */
+  async expandCrawlSeed(
+    runId: string,
+    seed: string,
+    maxUrls: number,
+    journey?: JourneyStep[]
+  ): Promise<number> {
+    const redis = getRedisClient();
+
+    let expansion: SitemapExpansion;
+    try {
+      expansion = await expandSeedUrl(redis, seed, {
+        maxUrls,
+        maxFiles: config.sitemap.maxFiles,
+      });
+    } catch (error) {
+      logger.error(`Sitemap discovery failed for seed ${seed}:`, error);
+      expansion = {
+        seed,
+        urls: [seed],
+        sitemaps: [],
+        skipped: { offSite: 0, allowList: 0, robots: 0 },
+        truncated: false,
+      };
+    }
+
+    let added = 0;
+    for (const url of expansion.urls) {
+      if (!(await claimCrawlUrl(redis, runId, normalizeCrawlUrl(url) ?? url))) {
+        continue;
+      }
+      try {
+        await this.addDiscoveredUrl(runId, url, journey);
+        added++;
+      } catch (error) {
+        logger.error(`Failed to create finding for URL ${url}:`, error);
+      }
+    }
+
+    // Appended in one statement, since the run's seeds expand in parallel
+    const discovery = {
+      seed: expansion.seed,
+      urls: expansion.urls.length,
+      sitemaps: expansion.sitemaps,
+      skipped: expansion.skipped,
+      truncated: expansion.truncated,
+    };
+    await db
+      .update(runs)
+      .set({
+        payload: sql`jsonb_set(coalesce(${runs.payload}, '{}'::jsonb), '{sitemapDiscovery}', coalesce(${runs.payload} -> 'sitemapDiscovery', '[]'::jsonb) || ${JSON.stringify([discovery])}::jsonb)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(runs.id, runId));
+
+    logger.info(
+      `Run ${runId}: seed ${seed} expanded to ${expansion.urls.length} URL(s), ${added} added`
+    );
+    return added;
+  }
+
+  /**
+   * Called when the last crawl job of a run is done. A crawl that added no
+   * pages leaves the run with no findings to wait for, so it is completed here.
+   */
+  async finishCrawl(runId: string): Promise<void> {
+    const [finding] = await db
+      .select({ id: findings.id })
+      .from(findings)
+      .where(eq(findings.runId, runId))
+      .limit(1);
+    if (finding) {
+      await this.checkAndUpdateRunStatus(runId);
+      return;
+    }
+
+    await db
+      .update(runs)
+      .set({ status: 'completed', completedAt: new Date(), findingCount: 0 })
+      .where(eq(runs.id, runId));
+    logger.info(`Run ${runId} marked as completed (crawl added no pages)`);
+  }
+
   /**
    * Get run with findings
    */
@@ -144,13 +364,7 @@ export class RunService {
     }
 
     // Check if all findings are in a terminal state
-    const allComplete = runFindings.every(
-      (f) =>
-        f.status === 'evidence_captured' ||
-        f.status === 'completed' ||
-        f.status === 'failed' ||
-        f.status === 'resolved'
-    );
+    const allComplete = runFindings.every((f) => TERMINAL_FINDING_STATUSES.includes(f.status));
 
     if (allComplete) {
       await db
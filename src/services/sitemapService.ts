@@ -0,0 +1,275 @@
+import zlib from 'zlib';
+import { Redis } from 'ioredis';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { isUrlAllowed } from './allowListService';
+import { checkDestination } from './destinationGuard';
+import { ROBOTS_USER_AGENT, getRobotsTxtRules, isAllowedByRobotsTxt } from './robotsService';
+import { findMatchingRule, getEffectiveRobotsRespect } from './rulesService';
+
+/** Sitemaps are limited to 50 MB uncompressed (sitemaps.org protocol) */
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex';
+  /** Page URLs (urlset) or child sitemap URLs (sitemapindex) */
+  locs: string[];
+}
+
+export interface SitemapExpansionOptions {
+  maxUrls: number;
+  maxFiles: number;
+}
+
+export interface SitemapExpansion {
+  seed: string;
+  /** Seed first, then discovered pages, capped at maxUrls */
+  urls: string[];
+  /** Sitemap files fetched, in order */
+  sitemaps: string[];
+  /** Discovered URLs dropped, by reason */
+  skipped: { offSite: number; allowList: number; robots: number };
+  /** True when the URL or file cap stopped discovery early */
+  truncated: boolean;
+}
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Extract the <loc> entries of a sitemap or sitemap index. Namespaced
+ * elements (image:loc, video:loc) are ignored.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const type = /<(?:[\w-]+:)?sitemapindex[\s>]/i.test(xml) ? 'sitemapindex' : 'urlset';
+  const entryTag = type === 'sitemapindex' ? 'sitemap' : 'url';
+  const entryPattern = new RegExp(
+    `<(?:[\\w-]+:)?${entryTag}[\\s>]([\\s\\S]*?)</(?:[\\w-]+:)?${entryTag}>`,
+    'gi'
+  );
+
+  const locs: string[] = [];
+  for (const [, entry] of xml.matchAll(entryPattern)) {
+    const loc = entry.match(/<loc>([\s\S]*?)<\/loc>/i);
+    if (loc) {
+      const value = decodeXmlText(loc[1]);
+      if (value) {
+        locs.push(value);
+      }
+    }
+  }
+
+  return { type, locs };
+}
+
+/**
+ * Read a sitemap body, stopping once it passes MAX_SITEMAP_BYTES (the
+ * declared Content-Length may be missing or wrong). Returns null when it is
+ * too large.
+ */
+async function readSitemapBody(response: Response): Promise<Buffer | null> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    chunks.push(Buffer.from(value));
+    length += value.length;
+    if (length > MAX_SITEMAP_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Fetch a sitemap file, following redirects through the destination guard
+ * and unpacking gzip (`.xml.gz`) files. Returns null when it is unavailable.
+ */
+async function fetchSitemap(url: string): Promise<string | null> {
+  let target = url;
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      await checkDestination(target);
+
+      const response = await fetch(target, {
+        headers: { 'User-Agent': `${ROBOTS_USER_AGENT}/1.0` },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(config.sitemap.timeoutMs),
+      });
+
+      const location = response.headers.get('location');
+      if (REDIRECT_STATUSES.has(response.status) && location) {
+        if (redirects >= MAX_REDIRECTS) {
+          logger.debug(`[Sitemap] Too many redirects for ${url}`);
+          return null;
+        }
+        target = new URL(location, target).toString();
+        continue;
+      }
+
+      if (!response.ok) {
+        logger.debug(`[Sitemap] ${target} returned ${response.status}`);
+        return null;
+      }
+
+      const declaredLength = parseInt(response.headers.get('content-length') || '0', 10);
+      if (declaredLength > MAX_SITEMAP_BYTES) {
+        logger.warn(`[Sitemap] ${target} is larger than 50 MB, skipping`);
+        return null;
+      }
+
+      let body = await readSitemapBody(response);
+      if (!body) {
+        logger.warn(`[Sitemap] ${target} is larger than 50 MB, skipping`);
+        return null;
+      }
+      // Gzip magic bytes: .xml.gz files served without Content-Encoding
+      if (body[0] === 0x1f && body[1] === 0x8b) {
+        body = zlib.gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+      }
+      if (body.length > MAX_SITEMAP_BYTES) {
+        logger.warn(`[Sitemap] ${target} is larger than 50 MB, skipping`);
+        return null;
+      }
+
+      return body.toString('utf-8');
+    }
+  } catch (error) {
+    logger.warn(
+      `[Sitemap] Failed to fetch ${target}: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
+  }
+}
+
+/**
+ * Expand a seed URL into the pages its site lists in sitemaps.
+ *
+ * Sitemaps come from the robots.txt `Sitemap:` lines and `/sitemap.xml`;
+ * indexes are followed breadth-first up to `maxFiles` files. Pages on other
+ * hosts, outside the allow-list or disallowed by robots.txt (when the
+ * matching rule respects it) are dropped.
+ */
+export async function expandSeedUrl(
+  redis: Redis,
+  seed: string,
+  options: SitemapExpansionOptions = config.sitemap
+): Promise<SitemapExpansion> {
+  const seedUrl = new URL(seed);
+  const origin = seedUrl.origin;
+  const expansion: SitemapExpansion = {
+    seed,
+    urls: [seed],
+    sitemaps: [],
+    skipped: { offSite: 0, allowList: 0, robots: 0 },
+    truncated: false,
+  };
+
+  const robots = await getRobotsTxtRules(redis, seed);
+  const queue = [...(robots?.sitemaps ?? []), `${origin}/sitemap.xml`]
+    .map((loc) => {
+      try {
+        return new URL(loc, origin).toString();
+      } catch {
+        return null;
+      }
+    })
+    .filter((loc): loc is string => loc !== null);
+  const queued = new Set(queue);
+  const seen = new Set(expansion.urls);
+
+  while (queue.length > 0 && expansion.urls.length < options.maxUrls) {
+    if (expansion.sitemaps.length >= options.maxFiles) {
+      expansion.truncated = true;
+      break;
+    }
+
+    const sitemapUrl = queue.shift()!;
+    const xml = await fetchSitemap(sitemapUrl);
+    expansion.sitemaps.push(sitemapUrl);
+    if (!xml) {
+      continue;
+    }
+
+    const sitemap = parseSitemap(xml);
+    if (sitemap.type === 'sitemapindex') {
+      for (const loc of sitemap.locs) {
+        if (!queued.has(loc)) {
+          queued.add(loc);
+          queue.push(loc);
+        }
+      }
+      continue;
+    }
+
+    for (const loc of sitemap.locs) {
+      if (expansion.urls.length >= options.maxUrls) {
+        expansion.truncated = true;
+        break;
+      }
+      if (seen.has(loc)) {
+        continue;
+      }
+      seen.add(loc);
+
+      let page: URL;
+      try {
+        page = new URL(loc);
+      } catch {
+        expansion.skipped.offSite++;
+        continue;
+      }
+      if (page.hostname !== seedUrl.hostname) {
+        expansion.skipped.offSite++;
+        continue;
+      }
+      if (!isUrlAllowed(loc)) {
+        expansion.skipped.allowList++;
+        continue;
+      }
+      if (
+        getEffectiveRobotsRespect(findMatchingRule(loc)) &&
+        !(await isAllowedByRobotsTxt(redis, loc))
+      ) {
+        expansion.skipped.robots++;
+        continue;
+      }
+
+      expansion.urls.push(loc);
+    }
+  }
+
+  if (queue.length > 0 && expansion.urls.length >= options.maxUrls) {
+    expansion.truncated = true;
+  }
+
+  logger.info(
+    `[Sitemap] Expanded ${seed} to ${expansion.urls.length} URLs from ${expansion.sitemaps.length} sitemap(s)` +
+      (expansion.truncated ? ' (capped)' : '')
+  );
+
+  return expansion;
+}
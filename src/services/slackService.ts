@@ -9,7 +9,8 @@ export interface SlackAlert {
   findingId: string;
   runId?: string;
   url: string;
-  errorType: '5xx' | 'timeout' | 'latency' | 'network';
+  errorType: string; // Finding type reported by the detector
+  title?: string;
   latencyMs?: number;
   status?: number;
   error?: string;
@@ -20,15 +21,18 @@ export interface SlackAlert {
   path?: string;
 }
 
+export type SlackDeliveryStatus = 'sent' | 'skipped';
+
 /**
- * Send an actionable alert to Slack with Re-verify and Suppress24h buttons
+ * Deliver an actionable alert to Slack with Re-verify and Suppress24h buttons.
+ * Throws when Slack rejects the alert so the caller (alert worker) can retry.
  */
-export async function sendSlackAlert(alert: SlackAlert): Promise<void> {
+export async function deliverSlackAlert(alert: SlackAlert): Promise<SlackDeliveryStatus> {
   const webhookUrl = config.slackWebhookUrl;
 
   if (!webhookUrl) {
     logger.debug('[Slack] SLACK_WEBHOOK_URL not configured, skipping alert');
-    return;
+    return 'skipped';
   }
 
   try {
@@ -77,6 +81,28 @@ export async function sendSlackAlert(alert: SlackAlert): Promise<void> {
         title = 'Network Error';
         color = '#FF6600';
         break;
+      case 'dns':
+        emoji = '🧭';
+        title = 'DNS Resolution Failed';
+        color = '#FF6600';
+        break;
+      case 'tls':
+        emoji = '🔓';
+        title = 'TLS Certificate Error';
+        color = '#CC0000';
+        break;
+      case 'tls.expiring':
+        emoji = '📜';
+        title = 'TLS Certificate Expiring';
+        color = '#FFAA00';
+        break;
+      case 'form.submit_blocked':
+        emoji = '🛑';
+        title = 'Form Submission Blocked';
+        color = '#CC0000';
+        break;
+      default:
+        title = alert.title || alert.errorType;
     }
 
     // Build Slack message payload with Block Kit
@@ -173,7 +199,7 @@ export async function sendSlackAlert(alert: SlackAlert): Promise<void> {
       ],
     };
 
-    // Send to Slack webhook (non-blocking, fire and forget)
+    // Send to Slack webhook
     await axios.post(webhookUrl, payload, {
       headers: {
         'Content-Type': 'application/json',
@@ -190,12 +216,25 @@ export async function sendSlackAlert(alert: SlackAlert): Promise<void> {
 
     // Record metric
     recordSlackAlert(alert.errorType);
+
+    return 'sent';
   } catch (error) {
-    // Log error but don't throw - Slack alerts should be non-blocking
     logger.error('[Slack] Failed to send alert', {
       error: error instanceof Error ? error.message : String(error),
       findingId: alert.findingId,
     });
+    throw error;
+  }
+}
+
+/**
+ * Send an actionable alert to Slack without failing the caller
+ */
+export async function sendSlackAlert(alert: SlackAlert): Promise<void> {
+  try {
+    await deliverSlackAlert(alert);
+  } catch {
+    // Already logged - Slack alerts sent this way are best-effort
   }
 }
 
@@ -3,7 +3,14 @@ import path from 'path';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
 
-export type ArtifactType = 'screenshot' | 'har' | 'html' | 'console_logs';
+export type ArtifactType =
+  | 'screenshot'
+  | 'har'
+  | 'html'
+  | 'console_logs'
+  | 'network_log'
+  | 'trace'
+  | 'video';
 
 export interface StorageResult {
   storageUrl: string;
@@ -55,10 +62,16 @@ export class StorageService {
    * Save a screenshot
    * New structure: artifacts/<runId>/<findingId>/<url-hash>/screenshot.png
    * Backwards compatible: can save to artifacts/<runId>/<findingId>/screenshot.png if url not provided
+   * Journey steps and device captures pass their own filename (e.g. step-02-screenshot.png)
    */
-  async saveScreenshot(runId: string, findingId: string, buffer: Buffer, url?: string): Promise<StorageResult> {
+  async saveScreenshot(
+    runId: string,
+    findingId: string,
+    buffer: Buffer,
+    url?: string,
+    filename: string = 'screenshot.png'
+  ): Promise<StorageResult> {
     const dir = await this.ensureFindingDir(runId, findingId, url);
-    const filename = 'screenshot.png';
     const fullPath = path.join(dir, filename);
     const relativePath = path.relative(this.baseDir, fullPath);
 
@@ -77,10 +90,16 @@ export class StorageService {
    * Save HAR file (HTTP Archive)
    * New structure: artifacts/<runId>/<findingId>/<url-hash>/trace.har
    * Backwards compatible: can save to artifacts/<runId>/<findingId>/trace.har if url not provided
+   * Device captures pass their own filename (e.g. iphone-13-trace.har)
    */
-  async saveHAR(runId: string, findingId: string, harData: any, url?: string): Promise<StorageResult> {
+  async saveHAR(
+    runId: string,
+    findingId: string,
+    harData: any,
+    url?: string,
+    filename: string = 'trace.har'
+  ): Promise<StorageResult> {
     const dir = await this.ensureFindingDir(runId, findingId, url);
-    const filename = 'trace.har';
     const fullPath = path.join(dir, filename);
     const relativePath = path.relative(this.baseDir, fullPath);
 
@@ -100,10 +119,16 @@ export class StorageService {
    * Save HTML source
    * New structure: artifacts/<runId>/<findingId>/<url-hash>/page.html
    * Backwards compatible: can save to artifacts/<runId>/<findingId>/page.html if url not provided
+   * Journey steps and device captures pass their own filename (e.g. step-02-page.html)
    */
-  async saveHTML(runId: string, findingId: string, html: string, url?: string): Promise<StorageResult> {
+  async saveHTML(
+    runId: string,
+    findingId: string,
+    html: string,
+    url?: string,
+    filename: string = 'page.html'
+  ): Promise<StorageResult> {
     const dir = await this.ensureFindingDir(runId, findingId, url);
-    const filename = 'page.html';
     const fullPath = path.join(dir, filename);
     const relativePath = path.relative(this.baseDir, fullPath);
 
@@ -122,10 +147,16 @@ export class StorageService {
    * Save console logs
    * New structure: artifacts/<runId>/<findingId>/<url-hash>/console.json
    * Backwards compatible: can save to artifacts/<runId>/<findingId>/console.json if url not provided
+   * Device captures pass their own filename (e.g. iphone-13-console.json)
    */
-  async saveConsoleLogs(runId: string, findingId: string, logs: any[], url?: string): Promise<StorageResult> {
+  async saveConsoleLogs(
+    runId: string,
+    findingId: string,
+    logs: any[],
+    url?: string,
+    filename: string = 'console.json'
+  ): Promise<StorageResult> {
     const dir = await this.ensureFindingDir(runId, findingId, url);
-    const filename = 'console.json';
     const fullPath = path.join(dir, filename);
     const relativePath = path.relative(this.baseDir, fullPath);
 
@@ -141,6 +172,84 @@ export class StorageService {
     };
   }
 
+  /**
+   * Save the network request log (every request/response the page made)
+   * New structure: artifacts/<runId>/<findingId>/<url-hash>/network.json
+   */
+  async saveNetworkLog(
+    runId: string,
+    findingId: string,
+    requests: unknown[],
+    url?: string,
+    filename: string = 'network.json'
+  ): Promise<StorageResult> {
+    const dir = await this.ensureFindingDir(runId, findingId, url);
+    const fullPath = path.join(dir, filename);
+    const relativePath = path.relative(this.baseDir, fullPath);
+
+    await fs.writeFile(fullPath, JSON.stringify(requests, null, 2), 'utf-8');
+    const stats = await fs.stat(fullPath);
+
+    logger.info(`Network log saved: ${relativePath} (${stats.size} bytes)`);
+
+    return {
+      storageUrl: relativePath,
+      size: stats.size,
+    };
+  }
+
+  /**
+   * Save a Playwright trace (open with `npx playwright show-trace trace.zip`)
+   * New structure: artifacts/<runId>/<findingId>/<url-hash>/trace.zip
+   */
+  async saveTrace(
+    runId: string,
+    findingId: string,
+    buffer: Buffer,
+    url?: string,
+    filename: string = 'trace.zip'
+  ): Promise<StorageResult> {
+    const dir = await this.ensureFindingDir(runId, findingId, url);
+    const fullPath = path.join(dir, filename);
+    const relativePath = path.relative(this.baseDir, fullPath);
+
+    await fs.writeFile(fullPath, buffer);
+    const stats = await fs.stat(fullPath);
+
+    logger.info(`Trace saved: ${relativePath} (${stats.size} bytes)`);
+
+    return {
+      storageUrl: relativePath,
+      size: stats.size,
+    };
+  }
+
+  /**
+   * Save a page video recording (WebM)
+   * New structure: artifacts/<runId>/<findingId>/<url-hash>/video.webm
+   */
+  async saveVideo(
+    runId: string,
+    findingId: string,
+    buffer: Buffer,
+    url?: string,
+    filename: string = 'video.webm'
+  ): Promise<StorageResult> {
+    const dir = await this.ensureFindingDir(runId, findingId, url);
+    const fullPath = path.join(dir, filename);
+    const relativePath = path.relative(this.baseDir, fullPath);
+
+    await fs.writeFile(fullPath, buffer);
+    const stats = await fs.stat(fullPath);
+
+    logger.info(`Video saved: ${relativePath} (${stats.size} bytes)`);
+
+    return {
+      storageUrl: relativePath,
+      size: stats.size,
+    };
+  }
+
   /**
    * Read an artifact file
    */
@@ -0,0 +1,55 @@
+import axios from 'axios';
+import {
+  ICrmAdapter,
+  CrmAdapterOptions,
+  VerificationRequest,
+  VerificationResponse,
+} from '../types';
+import { logger } from '../../../utils/logger';
+
+/**
+ * Verifies findings against a CRM over HTTP.
+ * Expects `POST <url>` to answer `{ verified: boolean, falsePositive?: boolean, reason?: string }`.
+ */
+export class HttpCrmAdapter implements ICrmAdapter {
+  private url: string;
+  private timeoutMs: number;
+
+  constructor(options: CrmAdapterOptions = {}) {
+    this.url = options.url || 'http://localhost:3000/verify';
+    this.timeoutMs = options.timeoutMs || 5000;
+  }
+
+  async verify(request: VerificationRequest): Promise<VerificationResponse> {
+    logger.debug(`[HttpCrmAdapter] Verifying finding ${request.findingId} via ${this.url}`);
+
+    const response = await axios.post(this.url, request, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: this.timeoutMs,
+    });
+
+    const body = response.data || {};
+    if (typeof body.verified !== 'boolean') {
+      throw new Error(
+        `CRM response is missing a boolean "verified" field (HTTP ${response.status})`
+      );
+    }
+
+    return {
+      verified: body.verified,
+      falsePositive: typeof body.falsePositive === 'boolean' ? body.falsePositive : !body.verified,
+      reason: typeof body.reason === 'string' ? body.reason : undefined,
+      adapter: this.getAdapterName(),
+      verifiedAt: new Date().toISOString(),
+      raw: body,
+    };
+  }
+
+  getAdapterName(): string {
+    return 'http';
+  }
+}
+
+export function createHttpCrmAdapter(options: CrmAdapterOptions = {}): HttpCrmAdapter {
+  return new HttpCrmAdapter(options);
+}
@@ -0,0 +1,49 @@
+import {
+  ICrmAdapter,
+  CrmAdapterOptions,
+  VerificationRequest,
+  VerificationResponse,
+} from '../types';
+
+/**
+ * In-process mock CRM: confirms every finding except those on hosts
+ * configured as known legitimate blocks
+ */
+export class MockCrmAdapter implements ICrmAdapter {
+  private falsePositiveHosts: Set<string>;
+
+  constructor(options: CrmAdapterOptions = {}) {
+    this.falsePositiveHosts = new Set(
+      (options.falsePositiveHosts || []).map((host) => host.trim().toLowerCase()).filter(Boolean)
+    );
+  }
+
+  async verify(request: VerificationRequest): Promise<VerificationResponse> {
+    let host = '';
+    try {
+      host = new URL(request.url).hostname.toLowerCase();
+    } catch {
+      // Unparseable URLs are never on the false-positive list
+    }
+
+    const falsePositive = this.falsePositiveHosts.has(host);
+
+    return {
+      verified: !falsePositive,
+      falsePositive,
+      reason: falsePositive
+        ? `Known legitimate block for ${host}`
+        : 'No CRM record, finding confirmed',
+      adapter: this.getAdapterName(),
+      verifiedAt: new Date().toISOString(),
+    };
+  }
+
+  getAdapterName(): string {
+    return 'mock';
+  }
+}
+
+export function createMockCrmAdapter(options: CrmAdapterOptions = {}): MockCrmAdapter {
+  return new MockCrmAdapter(options);
+}
@@ -0,0 +1,52 @@
+export * from './types';
+
+// Adapters
+export { HttpCrmAdapter, createHttpCrmAdapter } from './adapters/http';
+export { MockCrmAdapter, createMockCrmAdapter } from './adapters/mock';
+
+import { ICrmAdapter, CrmAdapterOptions } from './types';
+import { createHttpCrmAdapter } from './adapters/http';
+import { createMockCrmAdapter } from './adapters/mock';
+import { logger } from '../../utils/logger';
+import { config } from '../../config';
+
+export type CrmAdapter = 'mock' | 'http';
+
+export interface CrmAdapterFactoryOptions extends CrmAdapterOptions {
+  adapter?: CrmAdapter;
+}
+
+export function createCrmAdapter(options: CrmAdapterFactoryOptions = {}): ICrmAdapter {
+  const adapter = options.adapter || 'mock';
+
+  logger.info(`[Verifier] Creating ${adapter} CRM adapter`);
+
+  switch (adapter) {
+    case 'http':
+      return createHttpCrmAdapter(options);
+
+    case 'mock':
+      return createMockCrmAdapter(options);
+
+    default:
+      logger.warn(`[Verifier] Unknown CRM adapter: ${adapter}, falling back to mock`);
+      return createMockCrmAdapter(options);
+  }
+}
+
+let crmAdapterInstance: ICrmAdapter | null = null;
+
+/**
+ * Get the CRM adapter configured by the VERIFIER_* environment variables
+ */
+export function getCrmAdapter(): ICrmAdapter {
+  if (!crmAdapterInstance) {
+    crmAdapterInstance = createCrmAdapter({
+      adapter: config.verifier.adapter as CrmAdapter,
+      url: config.verifier.crmUrl,
+      timeoutMs: config.verifier.timeoutMs,
+      falsePositiveHosts: config.verifier.mockFalsePositiveHosts,
+    });
+  }
+  return crmAdapterInstance;
+}
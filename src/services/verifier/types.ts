@@ -0,0 +1,52 @@
+/**
+ * Finding details sent to the CRM for verification
+ */
+export interface VerificationRequest {
+  findingId: string;
+  runId?: string | null;
+  url: string;
+  findingType: string;
+  severity?: string | null;
+  title?: string | null;
+  detectedValue?: string | null;
+  fingerprint?: string | null;
+}
+
+/**
+ * CRM verdict for a finding
+ */
+export interface VerificationResponse {
+  /** The CRM confirmed the finding is a real problem */
+  verified: boolean;
+
+  /** The CRM knows the behaviour is legitimate (e.g. an intentional block) */
+  falsePositive: boolean;
+
+  /** Reason given by the CRM */
+  reason?: string;
+
+  /** Name of the adapter that produced the verdict */
+  adapter: string;
+
+  /** ISO 8601 timestamp of the verdict */
+  verifiedAt: string;
+
+  /** Raw CRM response body, kept for auditing */
+  raw?: unknown;
+}
+
+export interface ICrmAdapter {
+  verify(request: VerificationRequest): Promise<VerificationResponse>;
+  getAdapterName(): string;
+}
+
+export interface CrmAdapterOptions {
+  /** CRM verification endpoint (http adapter) */
+  url?: string;
+
+  /** Request timeout in milliseconds */
+  timeoutMs?: number;
+
+  /** Hosts the mock CRM reports as legitimate blocks (mock adapter) */
+  falsePositiveHosts?: string[];
+}
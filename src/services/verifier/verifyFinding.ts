@@ -0,0 +1,51 @@
+import { db } from '../../db';
+import { findings, type Finding } from '../../db/schema';
+import { eq } from 'drizzle-orm';
+import { recordFindingVerification } from '../../utils/metrics';
+import { logger } from '../../utils/logger';
+import { getCrmAdapter } from './index';
+import type { VerificationResponse } from './types';
+
+/**
+ * Check a persisted finding against the CRM and record the verdict on the row
+ * (`verified`, `falsePositive` and `metadata.verification`). CRM errors are thrown.
+ */
+export async function verifyFinding(
+  finding: Finding
+): Promise<{ finding: Finding; response: VerificationResponse }> {
+  const adapter = getCrmAdapter();
+  const response = await adapter.verify({
+    findingId: finding.id,
+    runId: finding.runId,
+    url: finding.url,
+    findingType: finding.findingType || 'unknown',
+    severity: finding.severity,
+    title: finding.title,
+    detectedValue: finding.detectedValue,
+    fingerprint: finding.fingerprint,
+  });
+
+  const [updated] = await db
+    .update(findings)
+    .set({
+      verified: response.verified,
+      falsePositive: response.falsePositive,
+      metadata: {
+        ...((finding.metadata as Record<string, unknown>) || {}),
+        verification: { ...response },
+      },
+      updatedAt: new Date(),
+    })
+    .where(eq(findings.id, finding.id))
+    .returning();
+
+  recordFindingVerification(
+    response.verified ? 'verified' : response.falsePositive ? 'false_positive' : 'unconfirmed'
+  );
+
+  logger.info(
+    `[Verifier] Finding ${finding.id} verified=${response.verified} falsePositive=${response.falsePositive} (${response.adapter}${response.reason ? `: ${response.reason}` : ''})`
+  );
+
+  return { finding: updated || finding, response };
+}
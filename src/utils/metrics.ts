@@ -78,7 +78,7 @@ export const breakerRequestsBlockedCounter = new Counter({
 export const slackAlertsSentCounter = new Counter({
   name: 'unleak_slack_alerts_sent_total',
   help: 'Total number of Slack alerts sent',
-  labelNames: ['alertType'], // '5xx', 'latency', 'timeout', 'network'
+  labelNames: ['alertType'], // '5xx', 'latency', 'timeout', 'network', 'dns', 'tls', ...
   registers: [metricsRegistry],
 });
 
@@ -122,6 +122,43 @@ export const fingerprintDeduplicationCounter = new Counter({
   registers: [metricsRegistry],
 });
 
+/**
+ * CRM verification results
+ */
+export const findingsVerifiedCounter = new Counter({
+  name: 'unleak_findings_verified_total',
+  help: 'Total number of findings checked against the CRM',
+  labelNames: ['result'], // 'verified', 'false_positive', 'unconfirmed'
+  registers: [metricsRegistry],
+});
+
+/**
+ * Browser relaunches (recycled after max pages, or after a crash)
+ */
+export const browserRelaunchesCounter = new Counter({
+  name: 'unleak_browser_relaunches_total',
+  help: 'Total number of browser relaunches by the context pool',
+  labelNames: ['reason'], // 'recycle', 'crash'
+  registers: [metricsRegistry],
+});
+
+/**
+ * Render jobs deferred because their host was at its concurrency cap
+ */
+export const renderHostDeferralsCounter = new Counter({
+  name: 'unleak_render_host_deferrals_total',
+  help: 'Total number of render jobs deferred by the per-host concurrency cap',
+  labelNames: ['host'],
+  registers: [metricsRegistry],
+});
+
+export const politenessDeferralsCounter = new Counter({
+  name: 'unleak_politeness_deferrals_total',
+  help: 'Total number of scan and render jobs deferred to respect a host crawl delay',
+  labelNames: ['host', 'stage'],
+  registers: [metricsRegistry],
+});
+
 // ===== Histograms =====
 
 /**
@@ -199,6 +236,15 @@ export const queueDepthGauge = new Gauge({
   registers: [metricsRegistry],
 });
 
+/**
+ * Browser contexts currently checked out of the pool
+ */
+export const browserContextsActiveGauge = new Gauge({
+  name: 'unleak_browser_contexts_active',
+  help: 'Number of browser contexts currently in use',
+  registers: [metricsRegistry],
+});
+
 // ===== Helper Functions =====
 
 /**
@@ -354,6 +400,63 @@ export function recordFingerprintDeduplication(action: 'new' | 'updated'): void
   }
 }
 
+/**
+ * Record a CRM verification result
+ */
+export function recordFindingVerification(
+  result: 'verified' | 'false_positive' | 'unconfirmed'
+): void {
+  try {
+    findingsVerifiedCounter.labels(result).inc();
+  } catch (error) {
+    logger.error('[Metrics] Error recording finding verification', { error });
+  }
+}
+
+/**
+ * Record a browser relaunch by the context pool
+ */
+export function recordBrowserRelaunch(reason: 'recycle' | 'crash'): void {
+  try {
+    browserRelaunchesCounter.labels(reason).inc();
+  } catch (error) {
+    logger.error('[Metrics] Error recording browser relaunch', { error });
+  }
+}
+
+/**
+ * Record a render job deferred by the per-host concurrency cap
+ */
+export function recordRenderHostDeferral(host: string): void {
+  try {
+    renderHostDeferralsCounter.labels(host).inc();
+  } catch (error) {
+    logger.error('[Metrics] Error recording render host deferral', { error });
+  }
+}
+
+/**
+ * Record a job deferred by the per-host politeness scheduler
+ */
+export function recordPolitenessDeferral(host: string, stage: string): void {
+  try {
+    politenessDeferralsCounter.labels(host, stage).inc();
+  } catch (error) {
+    logger.error('[Metrics] Error recording politeness deferral', { error });
+  }
+}
+
+/**
+ * Update active browser contexts gauge
+ */
+export function updateActiveBrowserContexts(count: number): void {
+  try {
+    browserContextsActiveGauge.set(count);
+  } catch (error) {
+    logger.error('[Metrics] Error updating active browser contexts', { error });
+  }
+}
+
 /**
  * Update active runs gauge
  */
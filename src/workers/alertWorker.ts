@@ -0,0 +1,124 @@
+import { Worker, Job } from 'bullmq';
+import { getRedisClient } from '../config/redis';
+import { db } from '../db';
+import { alerts, type Alert } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { deliverSlackAlert, type SlackAlert } from '../services/slackService';
+import { logger } from '../utils/logger';
+
+export interface AlertJobData {
+  alertId: string;
+}
+
+export interface AlertJobResult {
+  alertId: string;
+  status: string;
+}
+
+/**
+ * Deliver an alert on its channel (throws on delivery failure so BullMQ retries)
+ */
+async function deliver(alert: Alert): Promise<'sent' | 'skipped'> {
+  switch (alert.channel) {
+    case 'slack': {
+      const payload = alert.payload as SlackAlert;
+      return deliverSlackAlert({
+        ...payload,
+        timestamp: payload.timestamp ? new Date(payload.timestamp) : undefined,
+      });
+    }
+
+    default:
+      throw new Error(`Unsupported alert channel: ${alert.channel}`);
+  }
+}
+
+export function createAlertWorker() {
+  const connection = getRedisClient();
+
+  const worker = new Worker<AlertJobData, AlertJobResult>(
+    'alert-queue',
+    async (job: Job<AlertJobData>) => {
+      logger.info(`Processing alert job ${job.id} for alert ${job.data.alertId}`);
+
+      const [alert] = await db.select().from(alerts).where(eq(alerts.id, job.data.alertId));
+
+      if (!alert) {
+        logger.warn(`[ALERT] Alert ${job.data.alertId} not found, skipping delivery`);
+        return { alertId: job.data.alertId, status: 'missing' };
+      }
+
+      if (alert.status === 'sent') {
+        logger.info(`[ALERT] Alert ${alert.id} already sent, skipping`);
+        return { alertId: alert.id, status: alert.status };
+      }
+
+      const attempts = job.attemptsMade + 1;
+
+      try {
+        const status = await deliver(alert);
+
+        await db
+          .update(alerts)
+          .set({
+            status,
+            attempts,
+            lastError: null,
+            sentAt: status === 'sent' ? new Date() : null,
+            updatedAt: new Date(),
+          })
+          .where(eq(alerts.id, alert.id));
+
+        return { alertId: alert.id, status };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        await db
+          .update(alerts)
+          .set({
+            attempts,
+            lastError: errorMessage,
+            updatedAt: new Date(),
+          })
+          .where(eq(alerts.id, alert.id));
+
+        // Re-throw to let BullMQ retry with backoff
+        throw error;
+      }
+    },
+    { connection }
+  );
+
+  worker.on('completed', (job, result) => {
+    logger.info(`Alert job ${job.id} completed: alert ${result.alertId} ${result.status}`);
+  });
+
+  worker.on('failed', async (job, err) => {
+    logger.error(`Alert job ${job?.id} failed (attempt ${job?.attemptsMade || 0}):`, err);
+
+    // If this was the final attempt, mark the alert as failed
+    if (job && job.attemptsMade >= (job.opts.attempts || 1)) {
+      try {
+        await db
+          .update(alerts)
+          .set({
+            status: 'failed',
+            updatedAt: new Date(),
+          })
+          .where(eq(alerts.id, job.data.alertId));
+
+        logger.warn(
+          `[ALERT] Alert ${job.data.alertId} marked as failed after all retries exhausted`
+        );
+      } catch (error) {
+        logger.error(`Failed to update alert status for ${job.data.alertId}:`, error);
+      }
+    }
+  });
+
+  worker.on('error', (err) => {
+    logger.error('Alert worker error:', err);
+  });
+
+  return worker;
+}
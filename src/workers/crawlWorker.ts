@@ -0,0 +1,221 @@
+import { Worker, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { getRedisClient } from '../config/redis';
+import { config } from '../config';
+import { createFetcher, getFetcherConfigFromEnv, type IFetcher } from '../services/fetcher/index';
+import { getBreakerTargetId } from '../services/breaker';
+import {
+  claimCrawlUrl,
+  extractLinks,
+  isInCrawlScope,
+  reserveCrawlPage,
+  settleCrawlJob,
+  trackCrawlJob,
+  type CrawlLimits,
+} from '../services/crawlerService';
+import { addCrawlJob } from '../services/queueService';
+import { runService } from '../services/runService';
+import { isUrlAllowed } from '../services/allowListService';
+import { isAllowedByRobotsTxt } from '../services/robotsService';
+import { getEffectiveRobotsRespect } from '../services/rulesService';
+import { findRuleForDetection } from '../services/detectors';
+import { waitForCrawlSlot } from '../services/politeness';
+import { getHostPause } from '../services/hostPause';
+import { logger } from '../utils/logger';
+import type { JourneyStep } from '../services/journeyService';
+
+export interface CrawlJobData {
+  runId: string;
+  url: string;
+  seed: string; // Scope is measured from the seed the page was reached from
+  depth: number; // Link hops from the seed
+  limits: CrawlLimits;
+  journey?: JourneyStep[]; // Run-level journey passed on to discovered pages
+  crawlSlotAt?: number; // Politeness slot reserved when the job was deferred
+  sitemapMaxUrls?: number; // Set on a seed's job until its sitemaps are expanded
+}
+
+export interface CrawlJobResult {
+  url: string;
+  links: number;
+  added: number;
+  crawled: number;
+  skipped: { scope: number; seen: number; allowList: number; robots: number };
+  pageLimitReached: boolean;
+}
+
+/**
+ * Whether robots.txt applies to a URL (the worker also runs without rules,
+ * and then respects it)
+ */
+function respectsRobots(url: string): boolean {
+  try {
+    return getEffectiveRobotsRespect(findRuleForDetection(url));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Fetch one page of a crawl run, add the in-scope links and form actions it
+ * has not seen yet to the run (finding + scan job), and queue a crawl of
+ * each added link while the depth limit allows
+ */
+export async function crawlPage(
+  redis: Redis,
+  fetcher: IFetcher,
+  data: CrawlJobData
+): Promise<CrawlJobResult> {
+  const result: CrawlJobResult = {
+    url: data.url,
+    links: 0,
+    added: 0,
+    crawled: 0,
+    skipped: { scope: 0, seen: 0, allowList: 0, robots: 0 },
+    pageLimitReached: false,
+  };
+
+  // Sitemaps-only runs add no linked pages
+  if (data.limits.maxDepth === 0 || data.limits.maxPages === 0) {
+    return result;
+  }
+
+  // Seeds and sitemap pages reach the crawler unchecked, so check the page itself
+  if (!isUrlAllowed(data.url)) {
+    logger.info(`[CRAWL] ${data.url} not crawled (not in allow-list)`);
+    return result;
+  }
+  if (respectsRobots(data.url) && !(await isAllowedByRobotsTxt(redis, data.url))) {
+    logger.info(`[CRAWL] ${data.url} not crawled (disallowed by robots.txt)`);
+    return result;
+  }
+
+  const pause = await getHostPause(redis, data.url);
+  if (pause) {
+    logger.info(`[CRAWL] ${data.url} not crawled (host ${pause.host} paused by ${pause.actor})`);
+    return result;
+  }
+
+  const response = await fetcher.fetch(data.url, {
+    retries: 1,
+    targetId: getBreakerTargetId(data.url),
+  });
+  const contentType = response.headers?.['content-type'] ?? '';
+  if (!response.success || !response.body) {
+    logger.info(
+      `[CRAWL] ${data.url} not crawled (${response.error || `status ${response.status}`})`
+    );
+    return result;
+  }
+  if (contentType && !contentType.includes('html')) {
+    logger.debug(`[CRAWL] ${data.url} is ${contentType}, no links to follow`);
+    return result;
+  }
+
+  const links = extractLinks(response.body, data.url);
+  result.links = links.length;
+
+  for (const link of links) {
+    if (!isInCrawlScope(link.url, data.seed, data.limits.scope)) {
+      result.skipped.scope++;
+      continue;
+    }
+    if (!(await claimCrawlUrl(redis, data.runId, link.url))) {
+      result.skipped.seen++;
+      continue;
+    }
+    if (!isUrlAllowed(link.url)) {
+      result.skipped.allowList++;
+      continue;
+    }
+    if (respectsRobots(link.url) && !(await isAllowedByRobotsTxt(redis, link.url))) {
+      result.skipped.robots++;
+      continue;
+    }
+    if (!(await reserveCrawlPage(redis, data.runId, data.limits.maxPages))) {
+      result.pageLimitReached = true;
+      break;
+    }
+
+    await runService.addDiscoveredUrl(data.runId, link.url, data.journey);
+    result.added++;
+
+    // Form actions are scanned but not crawled further
+    if (link.source === 'link' && data.depth + 1 < data.limits.maxDepth) {
+      await trackCrawlJob(redis, data.runId);
+      try {
+        await addCrawlJob({
+          runId: data.runId,
+          url: link.url,
+          seed: data.seed,
+          depth: data.depth + 1,
+          limits: data.limits,
+          journey: data.journey,
+        });
+      } catch (error) {
+        await settleCrawlJob(redis, data.runId);
+        throw error;
+      }
+      result.crawled++;
+    }
+  }
+
+  logger.info(
+    `[CRAWL] ${data.url} (depth ${data.depth}): ${result.links} links, ${result.added} added to run ${data.runId}` +
+      (result.pageLimitReached ? ' (page limit reached)' : '')
+  );
+
+  return result;
+}
+
+export function createCrawlWorker() {
+  const connection = getRedisClient();
+  // Configured adapter, wrapped with the circuit breaker when it is enabled
+  const fetcher = createFetcher(getFetcherConfigFromEnv());
+
+  const worker = new Worker<CrawlJobData, CrawlJobResult>(
+    'crawl-queue',
+    async (job: Job<CrawlJobData>, token?: string) => {
+      logger.info(`Processing crawl job ${job.id} for URL: ${job.data.url}`);
+
+      // Crawl fetches share the per-host request spacing with scans and renders
+      await waitForCrawlSlot(connection, job, token, findRuleForDetection(job.data.url), 'crawl');
+
+      // A seed adds its sitemap pages first, so the link crawl skips them
+      if (job.data.sitemapMaxUrls !== undefined) {
+        const { runId, seed, sitemapMaxUrls, journey } = job.data;
+        await runService.expandCrawlSeed(runId, seed, sitemapMaxUrls, journey);
+        await job.updateData({ ...job.data, sitemapMaxUrls: undefined });
+      }
+
+      return crawlPage(connection, fetcher, job.data);
+    },
+    { connection, concurrency: config.crawler.concurrency }
+  );
+
+  // The run's last crawl job settles it: a crawl that added nothing completes the run
+  const settle = async (job: Job<CrawlJobData>) => {
+    try {
+      if (await settleCrawlJob(connection, job.data.runId)) {
+        await runService.finishCrawl(job.data.runId);
+      }
+    } catch (error) {
+      logger.error(`Failed to settle crawl job ${job.id} of run ${job.data.runId}:`, error);
+    }
+  };
+
+  worker.on('completed', async (job) => {
+    logger.info(`Crawl job ${job.id} completed successfully`);
+    await settle(job);
+  });
+
+  worker.on('failed', async (job, err) => {
+    logger.error(`Crawl job ${job?.id} failed:`, err);
+
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      await settle(job);
+    }
+  });
+
+  return worker;
+}
@@ -1,13 +1,41 @@
-import { Worker, Job } from 'bullmq';
+import { Worker, Job, DelayedError } from 'bullmq';
 import { getRedisClient } from '../config/redis';
-import { browserService, type EvidenceCapture } from '../services/browserService';
-import { artifactService } from '../services/artifactService';
+import {
+  browserService,
+  NavigationError,
+  type EvidenceCapture,
+  type FormSubmissionAttempt,
+  type JourneyResult,
+} from '../services/browserService';
+import { artifactService, type SaveArtifactInput } from '../services/artifactService';
 import { storageService } from '../services/storageService';
-import { runService } from '../services/runService';
+import { runService, TERMINAL_FINDING_STATUSES } from '../services/runService';
+import { addVerifyJob } from '../services/queueService';
 import { db } from '../db';
-import { findings } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { findings, type Artifact } from '../db/schema';
+import { and, eq, notInArray } from 'drizzle-orm';
 import { logger } from '../utils/logger';
+import { config } from '../config';
+import {
+  recordBlockedRequest,
+  recordFindingCreated,
+  recordRenderHostDeferral,
+} from '../utils/metrics';
+import { getBreakerService, getBreakerTargetId, type BreakerService } from '../services/breaker';
+import { acquireHostSlot, getUrlHost, releaseHostSlot } from '../services/hostConcurrency';
+import { getHostPause } from '../services/hostPause';
+import { waitForCrawlSlot } from '../services/politeness';
+import { getFormTestData, resolveFormFieldValue } from '../services/detectors/formSubmitBlocked';
+import type { JourneyStep } from '../services/journeyService';
+import type { ProxyEndpoint } from '../services/fetcher/proxyPool';
+import { deviceSlug } from '../services/deviceProfiles';
+import {
+  findRuleForDetection,
+  mostSevereFinding,
+  runDetectors,
+  selectDetectors,
+  type DetectedFinding,
+} from '../services/detectors';
 
 export interface RenderJobData {
   findingId: string;
@@ -17,7 +45,12 @@ export interface RenderJobData {
     timeout?: number;
     waitUntil?: 'load' | 'domcontentloaded' | 'networkidle';
     captureHAR?: boolean;
+    captureTrace?: boolean; // Defaults to CAPTURE_TRACE
+    recordVideo?: boolean; // Defaults to CAPTURE_VIDEO
+    detectForms?: boolean;
+    journey?: JourneyStep[]; // Run-level journey (overrides the rule's)
   };
+  crawlSlotAt?: number; // Politeness slot reserved when the job was deferred
 }
 
 export interface RenderJobResult {
@@ -31,43 +64,478 @@ export interface RenderJobResult {
     screenshotSize: number;
     htmlSize: number;
   };
+  detection: {
+    detectors: string[];
+    findings: number;
+    severity: string | null;
+    formsTested: number;
+  } | null;
+  journey: {
+    steps: number;
+    completed: boolean;
+    failedStep: number | null;
+  } | null;
+  devices: string[];
+}
+
+interface RenderDetection {
+  detectors: string[];
+  findings: DetectedFinding[];
+  formsTested: number;
+}
+
+interface DeviceCapture {
+  device: string;
+  evidence: EvidenceCapture | null;
+  error?: string;
+}
+
+/**
+ * Artifact inputs for one capture. Device-matrix captures are tagged with the
+ * device and prefixed with its slug (e.g. iphone-13-screenshot.png).
+ */
+function evidenceArtifacts(
+  findingId: string,
+  evidence: EvidenceCapture,
+  device?: string
+): SaveArtifactInput[] {
+  const prefix = device ? `${deviceSlug(device)}-` : '';
+  const named = (filename: string) => (device ? { filename: `${prefix}${filename}`, device } : {});
+
+  const inputs: SaveArtifactInput[] = [
+    { findingId, type: 'screenshot', data: evidence.screenshot, ...named('screenshot.png') },
+    { findingId, type: 'html', data: evidence.html, ...named('page.html') },
+    { findingId, type: 'console_logs', data: evidence.consoleLogs, ...named('console.json') },
+  ];
+
+  // The network log is kept even when HAR recording fails
+  if (evidence.networkRequests?.length) {
+    inputs.push({
+      findingId,
+      type: 'network_log',
+      data: evidence.networkRequests,
+      ...named('network.json'),
+    });
+  }
+
+  // Add HAR if available
+  if (evidence.har) {
+    inputs.push({ findingId, type: 'har', data: evidence.har, ...named('trace.har') });
+  }
+
+  if (evidence.trace) {
+    inputs.push({ findingId, type: 'trace', data: evidence.trace, ...named('trace.zip') });
+  }
+
+  if (evidence.video) {
+    inputs.push({ findingId, type: 'video', data: evidence.video, ...named('video.webm') });
+  }
+
+  return inputs;
+}
+
+/**
+ * Capture the remaining devices of the rule's matrix and save their artifacts.
+ * A device that fails to capture is recorded but never fails the render job.
+ */
+async function captureDeviceMatrix(
+  data: RenderJobData,
+  devices: string[],
+  proxy: ProxyEndpoint | null
+): Promise<{ captures: DeviceCapture[]; artifacts: Artifact[] }> {
+  const captures: DeviceCapture[] = [];
+  const artifacts: Artifact[] = [];
+
+  for (const device of devices) {
+    try {
+      const evidence = await browserService.captureEvidence(data.url, {
+        timeout: data.options?.timeout || 30000,
+        waitUntil: data.options?.waitUntil || 'networkidle',
+        captureHAR: data.options?.captureHAR !== false,
+        captureTrace: data.options?.captureTrace ?? config.evidence.captureTrace,
+        recordVideo: data.options?.recordVideo ?? config.evidence.recordVideo,
+        device,
+        proxy,
+      });
+      captures.push({ device, evidence });
+      artifacts.push(
+        ...(await artifactService.saveArtifacts(
+          evidenceArtifacts(data.findingId, evidence, device)
+        ))
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.warn(
+        `[Devices] Evidence capture as ${device} failed for ${data.url}: ${errorMessage}`
+      );
+      captures.push({ device, evidence: null, error: errorMessage });
+    }
+  }
+
+  return { captures, artifacts };
+}
+
+/**
+ * Record which device an evidence-based finding was seen on
+ */
+function withDevice(detected: DetectedFinding, device: string): DetectedFinding {
+  return { ...detected, metadata: { ...detected.metadata, device } };
+}
+
+interface RenderJourney {
+  source: 'run' | 'rule';
+  result: JourneyResult | null;
+  error?: string;
+  artifacts: Artifact[];
+}
+
+/**
+ * Replay the run's (or else the rule's) scripted journey and save the evidence
+ * captured after each step. Journey failures never fail the render job.
+ */
+async function runRenderJourney(
+  data: RenderJobData,
+  proxy: ProxyEndpoint | null
+): Promise<RenderJourney | null> {
+  const source = data.options?.journey ? 'run' : 'rule';
+  const steps = data.options?.journey ?? findRuleForDetection(data.url)?.journey;
+  if (!steps || steps.length === 0) {
+    return null;
+  }
+
+  let result: JourneyResult;
+  try {
+    result = await browserService.runJourney(data.url, steps, {
+      timeout: data.options?.timeout || 30000,
+      waitUntil: data.options?.waitUntil || 'networkidle',
+      stepTimeout: config.journey.stepTimeoutMs,
+      proxy,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.warn(`[Journey] Journey could not start on ${data.url}: ${errorMessage}`);
+    return { source, result: null, error: errorMessage, artifacts: [] };
+  }
+
+  // Step evidence sits next to the landing-page artifacts as step-NN-*
+  const artifactInputs = result.steps.flatMap((step) => {
+    const prefix = `step-${String(step.index + 1).padStart(2, '0')}`;
+    return [
+      ...(step.screenshot.length > 0
+        ? [
+            {
+              findingId: data.findingId,
+              type: 'screenshot' as const,
+              data: step.screenshot,
+              filename: `${prefix}-screenshot.png`,
+            },
+          ]
+        : []),
+      {
+        findingId: data.findingId,
+        type: 'html' as const,
+        data: step.html,
+        filename: `${prefix}-page.html`,
+      },
+    ];
+  });
+
+  let artifacts: Artifact[] = [];
+  try {
+    artifacts = await artifactService.saveArtifacts(artifactInputs);
+  } catch (error) {
+    logger.error(`[Journey] Failed to save step artifacts for finding ${data.findingId}:`, error);
+  }
+
+  return { source, result, artifacts };
+}
+
+/**
+ * Submit the page's forms with test data (only when a selected detector needs them)
+ */
+async function submitFormsForDetection(data: RenderJobData, proxy: ProxyEndpoint | null) {
+  if (!config.formDetector.enabled || data.options?.detectForms === false) {
+    return undefined;
+  }
+
+  try {
+    const testData = getFormTestData();
+    return await browserService.submitForms(data.url, {
+      timeout: data.options?.timeout || 30000,
+      waitUntil: data.options?.waitUntil || 'networkidle',
+      submitTimeout: config.formDetector.submitTimeoutMs,
+      maxForms: config.formDetector.maxForms,
+      proxy,
+      resolveValue: (field) => resolveFormFieldValue(field, testData),
+    });
+  } catch (error) {
+    logger.warn(
+      `[FormDetector] Form submission failed for ${data.url}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Run the render-stage detectors selected by the URL's rule.
+ * Detector failures never fail the render job.
+ */
+async function runRenderDetectors(
+  data: RenderJobData,
+  proxy: ProxyEndpoint | null,
+  evidence: EvidenceCapture,
+  journeySubmissions: FormSubmissionAttempt[] = [],
+  deviceCaptures: DeviceCapture[] = []
+): Promise<RenderDetection | null> {
+  const rule = findRuleForDetection(data.url);
+  const selected = selectDetectors(rule, ['evidence', 'forms']);
+  if (selected.length === 0) {
+    return null;
+  }
+
+  // Journey submit steps are checked alongside the forms found on the landing page
+  const formAttempts = selected.some((detector) => detector.inputs.includes('forms'))
+    ? [...((await submitFormsForDetection(data, proxy)) || []), ...journeySubmissions]
+    : undefined;
+
+  const detected = await runDetectors({ url: data.url, rule, evidence, formAttempts }, selected);
+
+  // Evidence detectors also run against every other device in the rule's matrix,
+  // since some blocks only reproduce for mobile user agents
+  const evidenceDetectors = selected.filter((detector) => detector.inputs.includes('evidence'));
+  const primaryDevice = evidence.metadata.device;
+  const findings = primaryDevice
+    ? detected.map((found) =>
+        evidenceDetectors.some((detector) => detector.id === found.detector)
+          ? withDevice(found, primaryDevice)
+          : found
+      )
+    : detected;
+
+  for (const capture of deviceCaptures) {
+    if (!capture.evidence || evidenceDetectors.length === 0) {
+      continue;
+    }
+    const found = await runDetectors(
+      { url: data.url, rule, evidence: capture.evidence },
+      evidenceDetectors
+    );
+    findings.push(...found.map((detected) => withDevice(detected, capture.device)));
+  }
+
+  return {
+    detectors: selected.map((detector) => detector.id),
+    findings,
+    formsTested: formAttempts?.length ?? 0,
+  };
+}
+
+/**
+ * Breaker target of a render job: its targetId (set by the scan worker), else
+ * the URL's per-host key, so renders share the fetcher's circuit
+ */
+export function getRenderBreakerTarget(data: RenderJobData): string {
+  return data.targetId || getBreakerTargetId(data.url);
+}
+
+/**
+ * The shared breaker, or null when it is disabled
+ */
+function getRenderBreaker(): BreakerService | null {
+  if (!config.circuitBreaker.enabled) {
+    return null;
+  }
+  try {
+    return getBreakerService();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record the page load with the breaker the way the fetcher does: 2xx/304 is
+ * a success, 5xx a failure, anything else is not counted
+ */
+async function recordRenderOutcome(
+  breaker: BreakerService,
+  targetId: string,
+  status: number | undefined,
+  probeLease: string | null
+): Promise<void> {
+  if (status === undefined) {
+    return;
+  }
+  if ((status >= 200 && status < 300) || status === 304) {
+    await breaker.recordSuccess(targetId, probeLease);
+  } else if (status >= 500) {
+    await breaker.recordFailure(targetId, `HTTP_${status}`, probeLease);
+  }
+}
+
+/**
+ * Put a job whose host circuit is open back in the delayed set until the next
+ * probe (or hostRetryDelayMs while another job holds the probe lease). The
+ * finding shows `skipped_breaker_open` meanwhile; it is not terminal, so the
+ * run stays in progress until the job comes back, loads the page and moves
+ * the finding on to `processing`.
+ */
+async function deferForBreaker(
+  breaker: BreakerService,
+  breakerTarget: string,
+  job: Job<RenderJobData>,
+  token?: string
+): Promise<void> {
+  const retryInMs =
+    (await breaker.getNextProbeETA(breakerTarget)) || config.render.hostRetryDelayMs;
+  logger.warn(
+    `[breaker] Render of ${job.data.url} skipped (${breakerTarget} open), retrying in ${Math.round(retryInMs / 1000)}s`
+  );
+  recordBlockedRequest(breakerTarget);
+
+  // Never overwrite a finding that already reached a terminal state
+  await db
+    .update(findings)
+    .set({ status: 'skipped_breaker_open', updatedAt: new Date() })
+    .where(
+      and(
+        eq(findings.id, job.data.findingId),
+        notInArray(findings.status, TERMINAL_FINDING_STATUSES)
+      )
+    );
+  await job.moveToDelayed(Date.now() + retryInMs, token);
 }
 
 export function createRenderWorker() {
   const connection = getRedisClient();
 
-  const worker = new Worker<RenderJobData, RenderJobResult>(
+  // A null result is a job skipped because its host is paused
+  const worker = new Worker<RenderJobData, RenderJobResult | null>(
     'render-queue',
-    async (job: Job<RenderJobData>) => {
+    async (job: Job<RenderJobData>, token?: string) => {
       logger.info(`Processing render job ${job.id} for URL: ${job.data.url}`);
 
+      // Space out page loads on the same host (honours robots.txt Crawl-delay)
+      await waitForCrawlSlot(
+        connection,
+        job,
+        token,
+        findRuleForDetection(job.data.url),
+        'render'
+      );
+
+      // Hosts an admin paused are not loaded: the job waits out a timed pause,
+      // and an open-ended one suppresses the finding as the scan worker does
+      const pause = await getHostPause(connection, job.data.url);
+      if (pause?.until) {
+        logger.info(
+          `Host ${pause.host} paused by ${pause.actor} until ${pause.until}, deferring job ${job.id}`
+        );
+        await job.moveToDelayed(new Date(pause.until).getTime(), token);
+        throw new DelayedError();
+      }
+      if (pause) {
+        logger.warn(`Host ${pause.host} paused by ${pause.actor}, suppressing ${job.data.url}`);
+        const [suppressedFinding] = await db
+          .update(findings)
+          .set({
+            status: 'suppressed',
+            metadata: { suppressReason: 'host_paused', pausedBy: pause.actor },
+            updatedAt: new Date(),
+          })
+          .where(eq(findings.id, job.data.findingId))
+          .returning();
+        if (suppressedFinding?.runId) {
+          await runService.checkAndUpdateRunStatus(suppressedFinding.runId);
+        }
+        return null;
+      }
+
+      // Per-host cap: a slow site holds at most maxPerHost slots, and jobs over
+      // the cap go back to the delayed set instead of blocking a worker slot
+      const host = getUrlHost(job.data.url);
+      const leaseId = `render:${job.id}`;
+      const capped = config.render.maxPerHost > 0;
+
+      if (
+        capped &&
+        !(await acquireHostSlot(
+          connection,
+          host,
+          leaseId,
+          config.render.maxPerHost,
+          config.render.hostLeaseMs
+        ))
+      ) {
+        logger.info(
+          `Host ${host} is at its render concurrency cap (${config.render.maxPerHost}), deferring job ${job.id}`
+        );
+        recordRenderHostDeferral(host);
+        await job.moveToDelayed(Date.now() + config.render.hostRetryDelayMs, token);
+        throw new DelayedError();
+      }
+
+      // Hosts whose circuit is open are not loaded; the job comes back at the
+      // next probe (while half-open, only the job holding the probe lease loads)
+      const breaker = getRenderBreaker();
+      const breakerTarget = getRenderBreakerTarget(job.data);
+      const access = breaker ? await breaker.acquire(breakerTarget) : null;
+      if (breaker && access && !access.allowed) {
+        if (capped) {
+          await releaseHostSlot(connection, host, leaseId);
+        }
+        await deferForBreaker(breaker, breakerTarget, job, token);
+        throw new DelayedError();
+      }
+
       try {
         // Update finding status to processing
-        await db
+        const [processingFinding] = await db
           .update(findings)
           .set({
             status: 'processing',
             updatedAt: new Date(),
           })
-          .where(eq(findings.id, job.data.findingId));
+          .where(eq(findings.id, job.data.findingId))
+          .returning();
 
         logger.info(`Finding ${job.data.findingId} status updated to processing`);
 
         // Initialize storage if not already done
         await storageService.initialize();
 
-        // Capture evidence using browser service
+        // Capture evidence using browser service (as the first device of the rule's matrix, if any)
+        const devices = findRuleForDetection(job.data.url)?.devices ?? [];
+        // Every page load, form submission and journey of this job leaves through one proxy
+        const proxy = browserService.selectProxy(job.data.url);
         let evidence: EvidenceCapture;
         try {
           evidence = await browserService.captureEvidence(job.data.url, {
             timeout: job.data.options?.timeout || 30000,
             waitUntil: job.data.options?.waitUntil || 'networkidle',
             captureHAR: job.data.options?.captureHAR !== false,
+            captureTrace: job.data.options?.captureTrace ?? config.evidence.captureTrace,
+            recordVideo: job.data.options?.recordVideo ?? config.evidence.recordVideo,
+            device: devices[0],
+            proxy,
+            // Stop retrying once the host's circuit opens (e.g. tripped by another worker)
+            stopRetrying: breaker
+              ? async () => (await breaker.getState(breakerTarget)) === 'open'
+              : undefined,
           });
         } catch (captureError) {
           // If evidence capture fails completely, create a minimal error artifact
           logger.error(`Failed to capture evidence for ${job.data.url}:`, captureError);
-          
+
+          // Only an unreachable page counts against the host
+          if (breaker && captureError instanceof NavigationError) {
+            await breaker.recordFailure(
+              breakerTarget,
+              captureError.reason,
+              access?.probeLease
+            );
+          }
+
           // Save error information as console log artifact
           const errorArtifact = {
             findingId: job.data.findingId,
@@ -80,16 +548,25 @@ export function createRenderWorker() {
               },
             ],
           };
-          
+
           await artifactService.saveArtifacts([errorArtifact]);
           logger.warn(`Saved error artifact for failed evidence capture on ${job.data.url}`);
-          
+
           // Re-throw to let BullMQ retry mechanism handle it
           throw new Error(
             `Evidence capture failed for ${job.data.url}: ${captureError instanceof Error ? captureError.message : String(captureError)}`
           );
         }
 
+        if (breaker) {
+          await recordRenderOutcome(
+            breaker,
+            breakerTarget,
+            evidence.metadata.status,
+            access?.probeLease ?? null
+          );
+        }
+
         logger.info(
           `Evidence captured for ${job.data.url}: ` +
             `${evidence.consoleLogs.length} logs, ` +
@@ -98,46 +575,111 @@ export function createRenderWorker() {
         );
 
         // Save all artifacts
-        const artifactInputs: Array<{
-          findingId: string;
-          type: 'screenshot' | 'html' | 'console_logs' | 'har';
-          data: any;
-        }> = [
-          {
-            findingId: job.data.findingId,
-            type: 'screenshot',
-            data: evidence.screenshot,
-          },
-          {
-            findingId: job.data.findingId,
-            type: 'html',
-            data: evidence.html,
-          },
-          {
-            findingId: job.data.findingId,
-            type: 'console_logs',
-            data: evidence.consoleLogs,
-          },
-        ];
-
-        // Add HAR if available
-        if (evidence.har) {
-          artifactInputs.push({
-            findingId: job.data.findingId,
-            type: 'har' as const,
-            data: evidence.har,
-          });
-        }
+        const artifactInputs = evidenceArtifacts(job.data.findingId, evidence, devices[0]);
 
         const savedArtifacts = await artifactService.saveArtifacts(artifactInputs);
 
         logger.info(`Saved ${savedArtifacts.length} artifacts for finding ${job.data.findingId}`);
 
-        // Update finding status to evidence_captured
+        // Capture the rest of the device matrix
+        const deviceMatrix = await captureDeviceMatrix(job.data, devices.slice(1), proxy);
+        const deviceCaptures: DeviceCapture[] =
+          devices.length > 0 ? [{ device: devices[0], evidence }, ...deviceMatrix.captures] : [];
+
+        // Replay the scripted journey (if any) in its own browser context
+        const journey = await runRenderJourney(job.data, proxy);
+        const journeySubmissions = (journey?.result?.steps || []).flatMap((step) =>
+          step.submission ? [step.submission] : []
+        );
+
+        // Run the rule's render-stage detectors against the captured page
+        const detection = await runRenderDetectors(
+          job.data,
+          proxy,
+          evidence,
+          journeySubmissions,
+          deviceMatrix.captures
+        );
+        const worst = detection ? mostSevereFinding(detection.findings) : null;
+
+        // WAF vendor / block type evidence (from waf.block or a blocked form submission)
+        const waf = [worst, ...(detection?.findings || [])].find(
+          (detected) => detected?.metadata?.waf
+        )?.metadata?.waf;
+
+        for (const detected of detection?.findings || []) {
+          logger.warn(
+            `[Detectors] ${detected.title} (detector: ${detected.detector}, severity: ${detected.severity})`
+          );
+          recordFindingCreated(detected.severity, detected.type);
+        }
+
+        // Update finding status to evidence_captured (with the most severe detection, if any)
         const [finding] = await db
           .update(findings)
           .set({
             status: 'evidence_captured',
+            ...(worst && {
+              findingType: worst.type,
+              severity: worst.severity,
+              title: worst.title,
+              description: worst.description,
+              detectedValue: worst.detectedValue,
+              context: worst.context,
+            }),
+            ...((detection || journey || deviceCaptures.length > 0) && {
+              metadata: {
+                ...((processingFinding?.metadata as Record<string, unknown>) || {}),
+                ...(deviceCaptures.length > 0 && {
+                  devices: deviceCaptures.map((capture) =>
+                    capture.evidence
+                      ? {
+                          device: capture.device,
+                          finalUrl: capture.evidence.metadata.finalUrl,
+                          title: capture.evidence.title,
+                          loadTime: capture.evidence.metadata.loadTime,
+                          viewport: capture.evidence.metadata.viewport,
+                        }
+                      : { device: capture.device, error: capture.error }
+                  ),
+                }),
+                ...(journey && {
+                  journey: {
+                    source: journey.source,
+                    completed: journey.result?.completed ?? false,
+                    failedStep: journey.result?.failedStep ?? null,
+                    durationMs: journey.result?.durationMs,
+                    ...(journey.error && { error: journey.error }),
+                    steps: (journey.result?.steps || []).map((step) => ({
+                      index: step.index,
+                      action: step.action,
+                      name: step.name,
+                      status: step.status,
+                      error: step.error,
+                      url: step.url,
+                      title: step.title,
+                      durationMs: step.durationMs,
+                      responseStatus: step.submission?.responseStatus,
+                    })),
+                  },
+                }),
+                ...(detection && {
+                  detectors: {
+                    ran: detection.detectors,
+                    formsTested: detection.formsTested,
+                    findings: detection.findings.map((detected) => ({
+                      detector: detected.detector,
+                      type: detected.type,
+                      severity: detected.severity,
+                      title: detected.title,
+                      detectedValue: detected.detectedValue,
+                      ...detected.metadata,
+                    })),
+                  },
+                }),
+                ...(waf ? { waf } : {}),
+              },
+            }),
             updatedAt: new Date(),
           })
           .where(eq(findings.id, job.data.findingId))
@@ -153,11 +695,25 @@ export function createRenderWorker() {
               logger.info(`Run ${finding.runId} marked as completed`);
             }
           }
+
+          // Confirm the detection against the CRM before it can alert
+          if (worst && config.verifier.enabled) {
+            try {
+              const verifyJob = await addVerifyJob({ findingId: finding.id });
+              logger.info(`Queued verify job ${verifyJob.id} for finding ${finding.id}`);
+            } catch (error) {
+              logger.error(`Failed to queue verify job for finding ${finding.id}:`, error);
+            }
+          }
         }
 
         const result: RenderJobResult = {
           findingId: job.data.findingId,
-          artifactIds: savedArtifacts.map((a) => a.id),
+          artifactIds: [
+            ...savedArtifacts,
+            ...deviceMatrix.artifacts,
+            ...(journey?.artifacts || []),
+          ].map((a) => a.id),
           evidenceMetadata: {
             url: evidence.url,
             title: evidence.title,
@@ -166,21 +722,51 @@ export function createRenderWorker() {
             screenshotSize: evidence.screenshot.length,
             htmlSize: evidence.html.length,
           },
+          detection: detection
+            ? {
+                detectors: detection.detectors,
+                findings: detection.findings.length,
+                severity: worst?.severity ?? null,
+                formsTested: detection.formsTested,
+              }
+            : null,
+          journey: journey?.result
+            ? {
+                steps: journey.result.steps.length,
+                completed: journey.result.completed,
+                failedStep: journey.result.failedStep,
+              }
+            : null,
+          devices: deviceCaptures
+            .filter((capture) => capture.evidence)
+            .map((capture) => capture.device),
         };
 
         return result;
       } catch (error) {
         logger.error(`Render job ${job.id} failed:`, error);
         throw error;
+      } finally {
+        // A probe that ended without a counted outcome (3xx/4xx, a capture
+        // error other than navigation) lets the next job probe
+        if (breaker && access?.probeLease) {
+          await breaker.releaseProbe(breakerTarget, access.probeLease);
+        }
+        if (capped) {
+          await releaseHostSlot(connection, host, leaseId);
+        }
       }
     },
     {
       connection,
-      concurrency: 2, // Run 2 browsers in parallel
-      limiter: {
-        max: 10, // Max 10 jobs
-        duration: 60000, // per minute
-      },
+      concurrency: config.render.concurrency, // Browser contexts come from the shared pool
+      // The per-host cap is the main throttle; a global limiter is opt-in
+      ...(config.render.rateLimitPerMinute > 0 && {
+        limiter: {
+          max: config.render.rateLimitPerMinute,
+          duration: 60000, // per minute
+        },
+      }),
       settings: {
         backoffStrategy: (attemptsMade: number) => {
           // Exponential backoff: 2s, 4s, 8s, etc.
@@ -191,6 +777,10 @@ export function createRenderWorker() {
   );
 
   worker.on('completed', (job, result) => {
+    if (!result) {
+      logger.info(`Render job ${job.id} skipped (host paused)`);
+      return;
+    }
     logger.info(
       `Render job ${job.id} completed: ` +
         `${result.artifactIds.length} artifacts saved for finding ${result.findingId}`
@@ -198,7 +788,7 @@ export function createRenderWorker() {
   });
 
   worker.on('failed', async (job, err) => {
-    const attemptsLeft = job ? (job.attemptsMade || 0) : 0;
+    const attemptsLeft = job ? job.attemptsMade || 0 : 0;
     logger.error(`Render job ${job?.id} failed (attempt ${attemptsLeft}):`, err);
 
     // If this was the final attempt, mark finding as failed
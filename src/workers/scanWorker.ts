@@ -1,30 +1,55 @@
-import { Worker, Job } from 'bullmq';
+import { DelayedError, Worker, Job } from 'bullmq';
 import { getRedisClient } from '../config/redis';
 import { db } from '../db';
 import { findings } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { addRenderJob } from '../services/queueService';
+import { runService } from '../services/runService';
 import { findMatchingRule, getEffectiveCooldown, shouldSuppressDuringMaintenance } from '../services/rulesService';
 import { isUrlAllowed } from '../services/allowListService';
 import { generateFingerprint } from '../services/fingerprintService';
 import { checkDeduplication, recordFinding } from '../services/deduplicationService';
 import { isAllowedByRobotsTxt } from '../services/robotsService';
+import { getHostPause, type HostPause } from '../services/hostPause';
+import { waitForCrawlSlot } from '../services/politeness';
+import { createFetcher, getFetcherConfigFromEnv, type IFetcher } from '../services/fetcher/index';
+import { getBreakerTargetId } from '../services/breaker';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import type { JourneyStep } from '../services/journeyService';
 
 export interface ScanJobData {
   url: string;
   findingId: string;
   scanType?: string;
+  journey?: JourneyStep[]; // Run-level journey (overrides the rule's)
+  crawlSlotAt?: number; // Politeness slot reserved when the job was deferred
 }
 
 export function createScanWorker() {
   const connection = getRedisClient();
+  // Configured adapter, wrapped with the circuit breaker when it is enabled
+  const fetcher = createFetcher(getFetcherConfigFromEnv());
 
   const worker = new Worker<ScanJobData>(
     'scan-queue',
-    async (job: Job<ScanJobData>) => {
+    async (job: Job<ScanJobData>, token?: string) => {
       logger.info(`Processing scan job ${job.id} for URL: ${job.data.url}`);
 
+      // Space out requests to the same host (the job is re-queued, not held, while it waits)
+      await waitForCrawlSlot(connection, job, token, findMatchingRule(job.data.url), 'scan');
+
+      // Hosts an admin paused are not scanned: the job waits out a timed pause,
+      // and an open-ended one suppresses the finding (as in the render worker)
+      const pause = await getHostPause(connection, job.data.url);
+      if (pause?.until) {
+        logger.info(
+          `[SCAN] Host ${pause.host} paused by ${pause.actor} until ${pause.until}, deferring job ${job.id}`
+        );
+        await job.moveToDelayed(new Date(pause.until).getTime(), token);
+        throw new DelayedError();
+      }
+
       try {
         // Update finding status to scanning
         await db
@@ -38,7 +63,7 @@ export function createScanWorker() {
         logger.info(`[SCAN] Finding ${job.data.findingId} status updated to scanning`);
 
         // Perform the scan
-        const scanResult = await performScan(job.data);
+        const scanResult = await performScan(fetcher, job.data, pause);
 
         // Queue render job only if scan was not suppressed
         if (!scanResult.suppressed) {
@@ -46,10 +71,12 @@ export function createScanWorker() {
             const renderJob = await addRenderJob({
               findingId: job.data.findingId,
               url: job.data.url,
+              targetId: getBreakerTargetId(job.data.url),
               options: {
                 timeout: 30000,
                 waitUntil: 'networkidle',
                 captureHAR: true,
+                journey: job.data.journey,
               },
             });
 
@@ -59,9 +86,22 @@ export function createScanWorker() {
           }
         } else {
           logger.info(`[SCAN] Skipping render job for suppressed finding ${job.data.findingId}`);
+
+          // A suppressed finding is terminal, so it may be the last one its run waits for
+          const [finding] = await db
+            .select({ runId: findings.runId })
+            .from(findings)
+            .where(eq(findings.id, job.data.findingId));
+          if (finding?.runId) {
+            await runService.checkAndUpdateRunStatus(finding.runId);
+          }
         }
 
-        return { status: 'completed', findingId: job.data.findingId };
+        return {
+          status: 'completed',
+          findingId: job.data.findingId,
+          contentChanged: scanResult.contentChanged,
+        };
       } catch (error) {
         logger.error(`Scan job ${job.id} failed:`, error);
         throw error;
@@ -84,9 +124,35 @@ export function createScanWorker() {
 interface ScanResult {
   suppressed: boolean;
   reason?: string;
+  /** Page changed since the last scan (null on the first one); set with FETCH_CACHE_ENABLED */
+  contentChanged?: boolean | null;
 }
 
-async function performScan(data: ScanJobData): Promise<ScanResult> {
+/**
+ * Conditional fetch of the page: has it changed since the last scan? Returns
+ * undefined when the fetch fails.
+ */
+async function checkContentChanged(
+  fetcher: IFetcher,
+  url: string
+): Promise<boolean | null | undefined> {
+  const result = await fetcher.fetch(url, { retries: 1, targetId: getBreakerTargetId(url) });
+  if (!result.cache) {
+    logger.warn(`[SCAN] Could not check ${url} for changes (${result.error || `status ${result.status}`})`);
+    return undefined;
+  }
+
+  logger.info(
+    `[SCAN] ${url} ${result.cache.notModified ? 'not modified (304)' : `fetched (HTTP ${result.status})`}, content changed: ${result.cache.contentChanged ?? 'first scan'}`
+  );
+  return result.cache.contentChanged;
+}
+
+async function performScan(
+  fetcher: IFetcher,
+  data: ScanJobData,
+  pause: HostPause | null
+): Promise<ScanResult> {
   const redis = getRedisClient();
   logger.info(`[SCAN] Starting scan for ${data.url}`);
 
@@ -105,6 +171,20 @@ async function performScan(data: ScanJobData): Promise<ScanResult> {
       return { suppressed: true, reason: 'not_in_allowlist' };
     }
 
+    // Step 1b: Check whether an admin paused the host (timed pauses were deferred)
+    if (pause) {
+      logger.warn(`[SCAN] Host ${pause.host} paused by ${pause.actor}, suppressing ${data.url}`);
+      await db
+        .update(findings)
+        .set({
+          status: 'suppressed',
+          metadata: { suppressReason: 'host_paused', pausedBy: pause.actor },
+          updatedAt: new Date(),
+        })
+        .where(eq(findings.id, data.findingId));
+      return { suppressed: true, reason: 'host_paused' };
+    }
+
     // Step 2: Find matching rule
     const rule = findMatchingRule(data.url);
     logger.info(`[SCAN] Matched rule: ${rule?.id || 'default-web'} for ${data.url}`);
@@ -144,6 +224,12 @@ async function performScan(data: ScanJobData): Promise<ScanResult> {
       // Continue anyway
     }
 
+    // Step 4b: Conditional fetch for the change signal (cached ETag / Last-Modified)
+    let contentChanged: boolean | null | undefined;
+    if (config.fetchCache.enabled) {
+      contentChanged = await checkContentChanged(fetcher, data.url);
+    }
+
     // Step 5: Generate fingerprint
     const fingerprint = generateFingerprint(data.url, 200, undefined);
 
@@ -182,13 +268,14 @@ async function performScan(data: ScanJobData): Promise<ScanResult> {
         metadata: { 
           ruleId: rule?.id || 'default-web',
           cooldownSeconds,
+          ...(contentChanged !== undefined && { contentChanged }),
         },
         updatedAt: new Date(),
       })
       .where(eq(findings.id, data.findingId));
 
     logger.info(`[SCAN] Scan completed successfully for ${data.url}`);
-    return { suppressed: false };
+    return { suppressed: false, contentChanged };
   } catch (error) {
     logger.error(`[SCAN] Scan failed for ${data.url}:`, error);
     throw error;
@@ -0,0 +1,156 @@
+import { Worker, Job } from 'bullmq';
+import { getRedisClient } from '../config/redis';
+import { db } from '../db';
+import { findings, type Finding } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { verifyFinding } from '../services/verifier/verifyFinding';
+import { checkSuppression } from '../services/rulesEngine';
+import { alertService, type AlertDetails } from '../services/alertService';
+import { recordFindingVerification } from '../utils/metrics';
+import { logger } from '../utils/logger';
+
+export interface VerifyJobData {
+  findingId: string;
+  /** Alert details when the producer already cleared suppression (fetch-stage findings) */
+  alert?: AlertDetails;
+}
+
+export interface VerifyJobResult {
+  findingId: string;
+  verified: boolean;
+  falsePositive: boolean;
+  alerted: boolean;
+}
+
+function mergeMetadata(finding: Finding, verification: Record<string, unknown>) {
+  return {
+    ...((finding.metadata as Record<string, unknown>) || {}),
+    verification,
+  };
+}
+
+/**
+ * Queue the alert for a CRM-verified finding (subject to rules engine suppression,
+ * unless the producer already checked it and sent the alert details along)
+ */
+async function alertVerifiedFinding(finding: Finding, details?: AlertDetails): Promise<boolean> {
+  // Checking again would find the cooldown the first check started
+  if (details) {
+    await alertService.enqueueAlert(finding, details);
+    return true;
+  }
+
+  const suppression = await checkSuppression(
+    getRedisClient(),
+    finding.url,
+    finding.findingType || 'unknown',
+    undefined,
+    finding.detectedValue || undefined
+  );
+
+  if (suppression.suppressed) {
+    logger.debug(
+      `[VERIFY] Alert for finding ${finding.id} suppressed (reason: ${suppression.reason})`
+    );
+    return false;
+  }
+
+  await alertService.enqueueAlert(finding, { fingerprint: suppression.fingerprint });
+
+  return true;
+}
+
+export function createVerifyWorker() {
+  const connection = getRedisClient();
+
+  const worker = new Worker<VerifyJobData, VerifyJobResult>(
+    'verify-queue',
+    async (job: Job<VerifyJobData>) => {
+      logger.info(`Processing verify job ${job.id} for finding ${job.data.findingId}`);
+
+      const [finding] = await db
+        .select()
+        .from(findings)
+        .where(eq(findings.id, job.data.findingId))
+        .limit(1);
+
+      if (!finding) {
+        logger.warn(`[VERIFY] Finding ${job.data.findingId} not found, skipping verification`);
+        return {
+          findingId: job.data.findingId,
+          verified: false,
+          falsePositive: false,
+          alerted: false,
+        };
+      }
+
+      if (!finding.findingType) {
+        logger.info(`[VERIFY] Finding ${finding.id} has no detection, nothing to verify`);
+        return { findingId: finding.id, verified: false, falsePositive: false, alerted: false };
+      }
+
+      // Errors are thrown so BullMQ retries the CRM call
+      const { finding: updated, response } = await verifyFinding(finding);
+
+      // Only verified findings reach Slack
+      const alerted = response.verified
+        ? await alertVerifiedFinding(updated, job.data.alert)
+        : false;
+
+      return {
+        findingId: finding.id,
+        verified: response.verified,
+        falsePositive: response.falsePositive,
+        alerted,
+      };
+    },
+    { connection }
+  );
+
+  worker.on('completed', (job, result) => {
+    logger.info(
+      `Verify job ${job.id} completed: finding ${result.findingId} ` +
+        `${result.verified ? 'verified' : 'not verified'}${result.alerted ? ', alert queued' : ''}`
+    );
+  });
+
+  worker.on('failed', async (job, err) => {
+    logger.error(`Verify job ${job?.id} failed:`, err);
+
+    // If the CRM never answered, record the error and leave the finding unverified (no alert)
+    if (job && job.attemptsMade >= (job.opts.attempts || 3)) {
+      try {
+        const [finding] = await db
+          .select()
+          .from(findings)
+          .where(eq(findings.id, job.data.findingId))
+          .limit(1);
+
+        if (finding) {
+          await db
+            .update(findings)
+            .set({
+              metadata: mergeMetadata(finding, {
+                verified: false,
+                falsePositive: false,
+                error: err.message,
+                verifiedAt: new Date().toISOString(),
+              }),
+              updatedAt: new Date(),
+            })
+            .where(eq(findings.id, finding.id));
+        }
+
+        recordFindingVerification('unconfirmed');
+      } catch (error) {
+        logger.error(`Failed to record verification error for ${job.data.findingId}:`, error);
+      }
+    }
+  });
+
+  worker.on('error', (err) => {
+    logger.error('Verify worker error:', err);
+  });
+
+  return worker;
+}
@@ -0,0 +1,23 @@
+import { getRetentionDays } from '../src/services/artifactService';
+
+jest.mock('../src/db', () => ({ db: {} }));
+jest.mock('../src/utils/logger');
+jest.mock('../src/config', () => ({
+  config: {
+    retentionDays: 7,
+    traceRetentionDays: 3,
+    videoRetentionDays: 2,
+  },
+}));
+
+describe('getRetentionDays', () => {
+  it('should use the trace and video retention periods for recordings', () => {
+    expect(getRetentionDays('trace')).toBe(3);
+    expect(getRetentionDays('video')).toBe(2);
+  });
+
+  it('should keep other artifacts for 7 days', () => {
+    expect(getRetentionDays('screenshot')).toBe(7);
+    expect(getRetentionDays('har')).toBe(7);
+  });
+});
@@ -0,0 +1,251 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type Redis from 'ioredis';
+import { BreakerService } from '../src/services/breaker';
+import { recordBreakerTransition } from '../src/services/breakerHistory';
+import { loadRulesConfig } from '../src/services/rulesService';
+
+jest.mock('../src/utils/logger');
+jest.mock('../src/services/breakerHistory');
+
+function createRedis(): Redis {
+  return { eval: jest.fn() } as unknown as Redis;
+}
+
+const scriptKeys = (targetId: string) =>
+  ['state', 'next_probe', 'probe_lease', 'fail_count', 'opened_at', 'failure_window'].map(
+    (key) => `cb:${targetId}:${key}`
+  );
+
+describe('BreakerService per-rule settings', () => {
+  const configPath = path.join(os.tmpdir(), `breaker-rules-${process.pid}.json`);
+
+  beforeAll(() => {
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        defaults: {
+          cooldownSeconds: 60,
+          latencyMsThreshold: 1500,
+          respectRobots: true,
+          suppressDuringMaintenance: false,
+          breaker: { openSeconds: 300 },
+        },
+        rules: [
+          {
+            id: 'checkout',
+            pattern: '/checkout',
+            breaker: { failThreshold: 1, probeBackoffSeconds: 900 },
+          },
+          { id: 'default-web', pattern: '.*' },
+        ],
+      })
+    );
+    loadRulesConfig(configPath);
+  });
+
+  afterAll(() => {
+    fs.unlinkSync(configPath);
+  });
+
+  it('should resolve rule and default settings over the service config', () => {
+    const breaker = new BreakerService(createRedis(), { failThreshold: 3 });
+
+    expect(breaker.getConfig('https://shop.example.com/checkout')).toEqual({
+      failThreshold: 1,
+      openDurationMs: 300000,
+      halfOpenProbeDelayMs: 900000,
+      failureWindowSize: 10,
+      failureRateThreshold: 0.5,
+      probeLeaseMs: 300000,
+    });
+    expect(breaker.getConfig('https://shop.example.com/')).toMatchObject({
+      failThreshold: 3,
+      openDurationMs: 300000,
+      halfOpenProbeDelayMs: 40 * 60 * 1000,
+    });
+  });
+
+  it('should pass each target its own settings when recording a failure', async () => {
+    const redis = createRedis();
+    (redis.eval as jest.Mock).mockResolvedValue(['closed', 0, 1, 'threshold', 1, 1]);
+    const breaker = new BreakerService(redis, { failThreshold: 3 });
+    const checkout = 'https://shop.example.com/checkout';
+
+    await breaker.recordFailure(checkout);
+
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining("redis.call('INCR', KEYS[4])"),
+      6,
+      ...scriptKeys(checkout),
+      expect.any(Number),
+      1,
+      300000,
+      900000,
+      10,
+      0.5,
+      ''
+    );
+    expect(recordBreakerTransition).toHaveBeenCalledWith({
+      targetId: checkout,
+      fromState: 'closed',
+      toState: 'open',
+      reason: 'threshold',
+      failureRate: 1,
+      failCount: 1,
+    });
+  });
+});
+
+describe('BreakerService probe lease', () => {
+  const target = 'https://shop.example.com/';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should let only the lease holder through while half-open', async () => {
+    const redis = createRedis();
+    (redis.eval as jest.Mock)
+      .mockResolvedValueOnce(['half_open', 1, 1])
+      .mockResolvedValueOnce(['half_open', 0, 0]);
+    const breaker = new BreakerService(redis, { probeLeaseMs: 60000 });
+
+    expect((await breaker.acquire(target)).allowed).toBe(true);
+    expect((await breaker.acquire(target)).allowed).toBe(false);
+    expect(recordBreakerTransition).toHaveBeenCalledTimes(1);
+    expect(recordBreakerTransition).toHaveBeenCalledWith({
+      targetId: target,
+      fromState: 'open',
+      toState: 'half_open',
+      reason: 'probe_due',
+    });
+    expect(redis.eval).toHaveBeenCalledWith(
+      expect.stringContaining("'NX', 'PX'"),
+      6,
+      ...scriptKeys(target),
+      expect.any(Number),
+      60000
+    );
+  });
+
+  it('should release only the lease it took', async () => {
+    const redis = createRedis();
+    (redis.eval as jest.Mock)
+      .mockResolvedValueOnce(['half_open', 0, 1, '1700000000000'])
+      .mockResolvedValueOnce(['half_open', 0, 1]);
+    const breaker = new BreakerService(redis);
+
+    const access = await breaker.acquire(target);
+    await breaker.releaseProbe(target, access.probeLease!);
+
+    expect(access).toEqual({ allowed: true, probeLease: '1700000000000' });
+    expect(redis.eval).toHaveBeenLastCalledWith(
+      expect.stringContaining("redis.call('GET', KEYS[3]) == ARGV[2]"),
+      6,
+      ...scriptKeys(target),
+      expect.any(Number),
+      '1700000000000'
+    );
+  });
+
+  it('should skip open circuits and allow closed ones', async () => {
+    const redis = createRedis();
+    (redis.eval as jest.Mock)
+      .mockResolvedValueOnce(['open', 0, 0])
+      .mockResolvedValueOnce(['closed', 0, 1]);
+    const breaker = new BreakerService(redis);
+
+    expect((await breaker.acquire(target)).allowed).toBe(false);
+    expect((await breaker.acquire(target)).allowed).toBe(true);
+  });
+
+  it('should check the state without taking the probe lease', async () => {
+    const redis = createRedis();
+    (redis.eval as jest.Mock)
+      .mockResolvedValueOnce(['half_open', 1])
+      .mockResolvedValueOnce(['open', 0]);
+    const breaker = new BreakerService(redis);
+
+    expect(await breaker.shouldSkip(target)).toBe(false);
+    expect(await breaker.shouldSkip(target)).toBe(true);
+    expect(redis.eval).not.toHaveBeenCalledWith(
+      expect.stringContaining("'NX', 'PX'"),
+      ...Array(8).fill(expect.anything())
+    );
+  });
+
+  it('should pass the probe lease with the outcome of a request', async () => {
+    const redis = createRedis();
+    (redis.eval as jest.Mock)
+      .mockResolvedValueOnce(['half_open', 0, 1])
+      .mockResolvedValueOnce(['half_open', 0, 1, 'probe', 1, 1]);
+    const breaker = new BreakerService(redis);
+
+    await breaker.recordSuccess(target, '1700000000000');
+    await breaker.recordFailure(target, 'HTTP_503', '1700000000000');
+
+    expect(redis.eval).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining("redis.call('GET', KEYS[3]) == ARGV[3]"),
+      6,
+      ...scriptKeys(target),
+      expect.any(Number),
+      10,
+      '1700000000000'
+    );
+    expect(redis.eval).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining("redis.call('GET', KEYS[3]) == ARGV[7]"),
+      6,
+      ...scriptKeys(target),
+      expect.any(Number),
+      ...Array(5).fill(expect.any(Number)),
+      '1700000000000'
+    );
+    expect(recordBreakerTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ fromState: 'half_open', toState: 'closed' })
+    );
+    expect(recordBreakerTransition).toHaveBeenCalledWith(
+      expect.objectContaining({ fromState: 'half_open', toState: 'open', reason: 'probe_failed' })
+    );
+  });
+
+  it('should allow requests when Redis fails', async () => {
+    const redis = createRedis();
+    (redis.eval as jest.Mock).mockRejectedValue(new Error('Connection is closed.'));
+    const breaker = new BreakerService(redis);
+
+    expect(await breaker.shouldSkip(target)).toBe(false);
+    expect(await breaker.getState(target)).toBe('closed');
+  });
+});
+
+describe('BreakerService manual controls', () => {
+  it('should hold a forced-open circuit until the given time', async () => {
+    const chain = { set: jest.fn(), del: jest.fn(), exec: jest.fn() };
+    chain.set.mockReturnValue(chain);
+    chain.del.mockReturnValue(chain);
+    const redis = {
+      eval: jest.fn().mockResolvedValue(['closed', 0]),
+      multi: jest.fn(() => chain),
+    } as unknown as Redis;
+    const breaker = new BreakerService(redis);
+    const target = 'https://shop.example.com/';
+    const before = Date.now();
+
+    const until = await breaker.forceOpen(target, 30 * 60 * 1000);
+
+    expect(until.getTime()).toBeGreaterThanOrEqual(before + 30 * 60 * 1000);
+    expect(chain.set).toHaveBeenCalledWith(`cb:${target}:state`, 'open');
+    expect(chain.set).toHaveBeenCalledWith(`cb:${target}:next_probe`, String(until.getTime()));
+    expect(chain.del).toHaveBeenCalledWith(`cb:${target}:probe_lease`);
+    expect(recordBreakerTransition).toHaveBeenCalledWith({
+      targetId: target,
+      fromState: 'closed',
+      toState: 'open',
+      reason: 'manual_open',
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { EventEmitter } from 'events';
+import type { Browser, BrowserContext } from 'playwright';
+import { BrowserPool, type BrowserPoolConfig } from '../src/services/browserPool';
+
+// Mock logger and metrics
+jest.mock('../src/utils/logger');
+jest.mock('../src/utils/metrics');
+
+class FakeBrowser extends EventEmitter {
+  contexts: Array<{ options: unknown; close: jest.Mock }> = [];
+  closed = false;
+
+  async newContext(options: unknown) {
+    const context = { options, close: jest.fn(async () => undefined) };
+    this.contexts.push(context);
+    return context as unknown as BrowserContext;
+  }
+
+  async close() {
+    this.closed = true;
+    this.emit('disconnected');
+  }
+}
+
+/** Let fire-and-forget pool work (warming, relaunches) settle */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('BrowserPool', () => {
+  let launched: FakeBrowser[];
+
+  const createPool = (overrides: Partial<BrowserPoolConfig> = {}) =>
+    new BrowserPool({
+      maxContexts: 2,
+      warmContexts: 1,
+      maxPagesPerBrowser: 100,
+      defaultContextOptions: { viewport: { width: 1920, height: 1080 } },
+      launch: async () => {
+        const browser = new FakeBrowser();
+        launched.push(browser);
+        return browser as unknown as Browser;
+      },
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    launched = [];
+  });
+
+  it('should hand out warm contexts for default options', async () => {
+    const pool = createPool();
+    await pool.initialize();
+
+    const warm = launched[0].contexts[0];
+    const context = await pool.acquire();
+
+    expect(context).toBe(warm);
+    await flush();
+    expect(pool.stats()).toMatchObject({ browsers: 1, activeContexts: 1, warmContexts: 1 });
+  });
+
+  it('should create a fresh context for non-default options', async () => {
+    const pool = createPool();
+    await pool.initialize();
+
+    const recordHar = { path: '/tmp/test.har', mode: 'minimal' as const };
+    const context = (await pool.acquire({ recordHar })) as unknown as { options: unknown };
+
+    expect(context.options).toEqual({ viewport: { width: 1920, height: 1080 }, recordHar });
+  });
+
+  it('should wait for a free slot when maxContexts are in use', async () => {
+    const pool = createPool({ warmContexts: 0 });
+    const first = await pool.acquire();
+    await pool.acquire();
+
+    let third: BrowserContext | null = null;
+    const pending = pool.acquire().then((context) => (third = context));
+    await flush();
+
+    expect(third).toBeNull();
+    expect(pool.stats().waiting).toBe(1);
+
+    await pool.release(first);
+    await pending;
+
+    expect(third).not.toBeNull();
+    expect(pool.stats().activeContexts).toBe(2);
+  });
+
+  it('should recycle the browser after maxPagesPerBrowser contexts', async () => {
+    const pool = createPool({ warmContexts: 0, maxPagesPerBrowser: 2 });
+    const first = await pool.acquire();
+    const second = await pool.acquire();
+
+    // The retired browser stays open until its in-flight contexts are released
+    expect(launched[0].closed).toBe(false);
+    await pool.release(first);
+    await pool.release(second);
+    expect(launched[0].closed).toBe(true);
+
+    await pool.acquire();
+    expect(launched).toHaveLength(2);
+    expect(pool.stats().relaunches).toBe(1);
+  });
+
+  it('should relaunch after the browser crashes', async () => {
+    const pool = createPool({ warmContexts: 0 });
+    const context = await pool.acquire();
+
+    launched[0].emit('disconnected');
+    await flush();
+
+    expect(launched).toHaveLength(2);
+    expect(pool.stats()).toMatchObject({ browsers: 1, relaunches: 1 });
+
+    // Releasing a context from the crashed browser still frees its slot
+    await pool.release(context);
+    expect(pool.stats().activeContexts).toBe(0);
+  });
+
+  it('should close every browser on close', async () => {
+    const pool = createPool();
+    await pool.initialize();
+    await pool.acquire();
+
+    await pool.close();
+
+    expect(launched[0].closed).toBe(true);
+    expect(pool.stats()).toMatchObject({ browsers: 0, activeContexts: 0 });
+  });
+});
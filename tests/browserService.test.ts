@@ -0,0 +1,74 @@
+import type { BrowserContext, Route } from 'playwright';
+import { BrowserService } from '../src/services/browserService';
+import type { BrowserPool } from '../src/services/browserPool';
+import { BlockedDestinationError, checkDestination } from '../src/services/destinationGuard';
+
+jest.mock('../src/utils/logger');
+jest.mock('../src/services/destinationGuard', () => ({
+  ...jest.requireActual('../src/services/destinationGuard'),
+  checkDestination: jest.fn(),
+}));
+
+type RouteHandler = (route: Route) => Promise<void>;
+
+describe('BrowserService destination guard', () => {
+  let handler: RouteHandler;
+
+  const createRoute = (url: string) =>
+    ({
+      request: () => ({ url: () => url }),
+      abort: jest.fn().mockResolvedValue(undefined),
+      continue: jest.fn().mockResolvedValue(undefined),
+    }) as unknown as Route & { abort: jest.Mock; continue: jest.Mock };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const context = {
+      route: jest.fn(async (_pattern: string, fn: RouteHandler) => {
+        handler = fn;
+      }),
+      newPage: jest.fn().mockResolvedValue({ once: jest.fn() }),
+    } as unknown as BrowserContext;
+    const pool = {
+      acquire: jest.fn().mockResolvedValue(context),
+      release: jest.fn(),
+    } as unknown as BrowserPool;
+
+    await new BrowserService(pool).createPage();
+  });
+
+  it('should let public requests through', async () => {
+    (checkDestination as jest.Mock).mockResolvedValue(undefined);
+    const route = createRoute('https://shop.example.com/app.js');
+
+    await handler(route);
+
+    expect(route.continue).toHaveBeenCalled();
+    expect(route.abort).not.toHaveBeenCalled();
+  });
+
+  it('should abort blocked requests', async () => {
+    (checkDestination as jest.Mock).mockRejectedValue(
+      new BlockedDestinationError('http://169.254.169.254/', 'metadata')
+    );
+    const route = createRoute('http://169.254.169.254/');
+
+    await handler(route);
+
+    expect(route.abort).toHaveBeenCalledWith('blockedbyclient');
+  });
+
+  it('should abort instead of throwing when the check itself fails', async () => {
+    (checkDestination as jest.Mock).mockRejectedValue(
+      Object.assign(new Error('DNS lookup failed for missing.example.com (ENOTFOUND)'), {
+        code: 'ENOTFOUND',
+      })
+    );
+    const route = createRoute('https://missing.example.com/');
+
+    await expect(handler(route)).resolves.toBeUndefined();
+
+    expect(route.abort).toHaveBeenCalledWith('failed');
+    expect(route.continue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,327 @@
+import { Worker, type Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import {
+  extractLinks,
+  getCrawlLimits,
+  isInCrawlScope,
+  normalizeCrawlUrl,
+  type CrawlLimits,
+} from '../src/services/crawlerService';
+import { crawlPage, createCrawlWorker, type CrawlJobData } from '../src/workers/crawlWorker';
+import type { FetchResult, IFetcher } from '../src/services/fetcher/types';
+import { addCrawlJob } from '../src/services/queueService';
+import { runService } from '../src/services/runService';
+import { getRedisClient } from '../src/config/redis';
+import { isUrlAllowed } from '../src/services/allowListService';
+import { isAllowedByRobotsTxt } from '../src/services/robotsService';
+import { findMatchingRule, getEffectiveRobotsRespect } from '../src/services/rulesService';
+
+jest.mock('../src/utils/logger');
+jest.mock('bullmq', () => ({ ...jest.requireActual('bullmq'), Worker: jest.fn() }));
+jest.mock('../src/services/fetcher/index', () => ({
+  createFetcher: jest.fn(),
+  getFetcherConfigFromEnv: jest.fn(),
+}));
+jest.mock('../src/config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../src/services/queueService', () => ({ addCrawlJob: jest.fn() }));
+jest.mock('../src/services/runService', () => ({
+  runService: { addDiscoveredUrl: jest.fn(), finishCrawl: jest.fn() },
+}));
+jest.mock('../src/services/allowListService', () => ({ isUrlAllowed: jest.fn() }));
+jest.mock('../src/services/robotsService', () => ({ isAllowedByRobotsTxt: jest.fn() }));
+jest.mock('../src/services/rulesService', () => ({
+  findMatchingRule: jest.fn().mockReturnValue(null),
+  getEffectiveRobotsRespect: jest.fn().mockReturnValue(true),
+}));
+jest.mock('../src/services/politeness', () => ({ waitForCrawlSlot: jest.fn() }));
+
+describe('normalizeCrawlUrl', () => {
+  it('should give equivalent URLs one form', () => {
+    expect(normalizeCrawlUrl('HTTPS://Shop.Example.com:443/signup?b=2&a=1#form')).toBe(
+      'https://shop.example.com/signup?a=1&b=2'
+    );
+    expect(normalizeCrawlUrl('/contact?', 'https://shop.example.com/about')).toBe(
+      'https://shop.example.com/contact'
+    );
+  });
+
+  it('should reject non-http URLs', () => {
+    expect(normalizeCrawlUrl('mailto:sales@example.com')).toBeNull();
+    expect(normalizeCrawlUrl('javascript:void(0)', 'https://shop.example.com/')).toBeNull();
+    expect(normalizeCrawlUrl('http://[broken')).toBeNull();
+  });
+});
+
+describe('extractLinks', () => {
+  it('should collect links and form actions', () => {
+    const html = `
+      <a href="/signup">Sign up</a>
+      <a class="nav" href='contact#top'>Contact</a>
+      <A HREF=/pricing>Pricing</A>
+      <a href="/signup">Duplicate</a>
+      <a href="tel:+100">Call</a>
+      <a name="anchor">No href</a>
+      <area href="/map" />
+      <form method="post" action="/newsletter?src=footer&amp;v=2"></form>
+      <form method="post"></form>`;
+
+    expect(extractLinks(html, 'https://shop.example.com/about/')).toEqual([
+      { url: 'https://shop.example.com/signup', source: 'link' },
+      { url: 'https://shop.example.com/about/contact', source: 'link' },
+      { url: 'https://shop.example.com/pricing', source: 'link' },
+      { url: 'https://shop.example.com/map', source: 'link' },
+      { url: 'https://shop.example.com/newsletter?src=footer&v=2', source: 'form' },
+    ]);
+  });
+
+  it('should resolve links against <base href>', () => {
+    const html = `<base href="https://cdn.example.com/app/"><a href="start">Start</a>`;
+
+    expect(extractLinks(html, 'https://shop.example.com/')).toEqual([
+      { url: 'https://cdn.example.com/app/start', source: 'link' },
+    ]);
+  });
+});
+
+describe('isInCrawlScope', () => {
+  it('should keep host scope to the seed host', () => {
+    const seed = 'https://www.example.com/';
+    expect(isInCrawlScope('https://www.example.com/a', seed, 'host')).toBe(true);
+    expect(isInCrawlScope('http://www.example.com/a', seed, 'host')).toBe(true);
+    expect(isInCrawlScope('https://shop.example.com/a', seed, 'host')).toBe(false);
+  });
+
+  it('should include subdomains of the seed domain', () => {
+    const seed = 'https://www.example.com/';
+    expect(isInCrawlScope('https://shop.example.com/a', seed, 'subdomains')).toBe(true);
+    expect(isInCrawlScope('https://example.com/a', seed, 'subdomains')).toBe(true);
+    expect(isInCrawlScope('https://example.com.evil.net/a', seed, 'subdomains')).toBe(false);
+  });
+});
+
+describe('getCrawlLimits', () => {
+  it('should let a run lower the limits but not raise them', () => {
+    expect(getCrawlLimits()).toEqual({ maxDepth: 2, maxPages: 100, scope: 'host' });
+    expect(getCrawlLimits({ maxDepth: 1, maxPages: 10 })).toMatchObject({
+      maxDepth: 1,
+      maxPages: 10,
+    });
+    expect(getCrawlLimits({ maxDepth: 9, maxPages: '5' })).toMatchObject({
+      maxDepth: 2,
+      maxPages: 100,
+    });
+  });
+});
+
+describe('crawlPage', () => {
+  const seen = new Set<string>();
+  let pages = 0;
+  const mockRedis = {
+    sadd: jest.fn(async (_key: string, url: string) => (seen.has(url) ? 0 : (seen.add(url), 1))),
+    incr: jest.fn(async (key: string) => (key.endsWith(':pages') ? ++pages : 1)),
+    decr: jest.fn(async () => 0),
+    expire: jest.fn(),
+    get: jest.fn(async () => null),
+  } as unknown as Redis;
+
+  const limits: CrawlLimits = { maxDepth: 2, maxPages: 10, scope: 'host' };
+  const job = (data: Partial<CrawlJobData> = {}): CrawlJobData => ({
+    runId: 'run-1',
+    url: 'https://shop.example.com/',
+    seed: 'https://shop.example.com/',
+    depth: 0,
+    limits,
+    ...data,
+  });
+
+  const page = (body: string, contentType = 'text/html; charset=utf-8'): IFetcher => ({
+    fetch: jest.fn(async (): Promise<FetchResult> => ({
+      status: 200,
+      body,
+      headers: { 'content-type': contentType },
+      latencyMs: 10,
+      success: true,
+    })),
+    getAdapterName: () => 'fake',
+  });
+
+  const html = `
+    <a href="/signup">Sign up</a>
+    <a href="/contact">Contact</a>
+    <a href="/private/admin">Admin</a>
+    <a href="/internal/tools">Tools</a>
+    <a href="https://twitter.com/shop">Twitter</a>
+    <form action="/subscribe" method="post"></form>`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    seen.clear();
+    seen.add('https://shop.example.com/contact'); // Already in the run
+    pages = 0;
+    (isUrlAllowed as jest.Mock).mockImplementation((url: string) => !url.includes('/internal/'));
+    (isAllowedByRobotsTxt as jest.Mock).mockImplementation(
+      async (_redis: Redis, url: string) => !url.includes('/private/')
+    );
+  });
+
+  it('should add new in-scope pages to the run and crawl them', async () => {
+    const result = await crawlPage(mockRedis, page(html), job());
+
+    expect(result).toMatchObject({
+      links: 6,
+      added: 2,
+      crawled: 1,
+      skipped: { scope: 1, seen: 1, allowList: 1, robots: 1 },
+      pageLimitReached: false,
+    });
+    expect(runService.addDiscoveredUrl).toHaveBeenCalledWith(
+      'run-1',
+      'https://shop.example.com/signup',
+      undefined
+    );
+    expect(runService.addDiscoveredUrl).toHaveBeenCalledWith(
+      'run-1',
+      'https://shop.example.com/subscribe',
+      undefined
+    );
+    // Form actions are scanned but not crawled
+    expect(addCrawlJob).toHaveBeenCalledTimes(1);
+    expect(addCrawlJob).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://shop.example.com/signup', depth: 1 })
+    );
+    // Counted as pending before it is queued
+    expect(mockRedis.incr).toHaveBeenCalledWith('crawl:run-1:pending');
+  });
+
+  it('should not crawl past the depth limit', async () => {
+    await crawlPage(mockRedis, page(html), job({ depth: 1 }));
+
+    expect(runService.addDiscoveredUrl).toHaveBeenCalledTimes(2);
+    expect(addCrawlJob).not.toHaveBeenCalled();
+  });
+
+  it('should stop at the page limit', async () => {
+    pages = 9;
+
+    const result = await crawlPage(mockRedis, page(html), job());
+
+    expect(result.added).toBe(1);
+    expect(result.pageLimitReached).toBe(true);
+  });
+
+  it('should crawl without rules loaded and still respect robots.txt', async () => {
+    const notLoaded = () => {
+      throw new Error('Rules configuration not loaded. Call loadRulesConfig() first.');
+    };
+    (findMatchingRule as jest.Mock).mockImplementation(notLoaded);
+    (getEffectiveRobotsRespect as jest.Mock).mockImplementation(notLoaded);
+
+    try {
+      const result = await crawlPage(mockRedis, page(html), job());
+
+      expect(result.added).toBe(2);
+      expect(result.skipped.robots).toBe(1);
+    } finally {
+      (findMatchingRule as jest.Mock).mockReturnValue(null);
+      (getEffectiveRobotsRespect as jest.Mock).mockReturnValue(true);
+    }
+  });
+
+  it('should not fetch pages of a paused host', async () => {
+    (mockRedis.get as jest.Mock).mockResolvedValueOnce(
+      JSON.stringify({ host: 'shop.example.com', actor: 'ops', reason: 'outage' })
+    );
+    const fetcher = page(html);
+
+    const result = await crawlPage(mockRedis, fetcher, job());
+
+    expect(mockRedis.get).toHaveBeenCalledWith('pause:host:shop.example.com');
+    expect(fetcher.fetch).not.toHaveBeenCalled();
+    expect(result.links).toBe(0);
+  });
+
+  it('should not fetch a page that robots.txt or the allow-list rules out', async () => {
+    const fetcher = page(html);
+
+    await crawlPage(mockRedis, fetcher, job({ url: 'https://shop.example.com/private/' }));
+    await crawlPage(mockRedis, fetcher, job({ url: 'https://shop.example.com/internal/' }));
+
+    expect(fetcher.fetch).not.toHaveBeenCalled();
+    expect(runService.addDiscoveredUrl).not.toHaveBeenCalled();
+  });
+
+  it('should not follow the links of a seed in a sitemaps-only run', async () => {
+    const fetcher = page(html);
+
+    const result = await crawlPage(
+      mockRedis,
+      fetcher,
+      job({ limits: { ...limits, maxDepth: 0 }, sitemapMaxUrls: 200 })
+    );
+
+    expect(fetcher.fetch).not.toHaveBeenCalled();
+    expect(result.added).toBe(0);
+  });
+
+  it('should not count a crawl job that could not be queued', async () => {
+    (addCrawlJob as jest.Mock).mockRejectedValueOnce(new Error('Connection is closed.'));
+
+    await expect(crawlPage(mockRedis, page(html), job())).rejects.toThrow('Connection is closed.');
+
+    expect(mockRedis.incr).toHaveBeenCalledWith('crawl:run-1:pending');
+    expect(mockRedis.decr).toHaveBeenCalledWith('crawl:run-1:pending');
+  });
+
+  it('should skip pages that are not HTML', async () => {
+    const result = await crawlPage(mockRedis, page('{"href": "/x"}', 'application/json'), job());
+
+    expect(result.links).toBe(0);
+    expect(runService.addDiscoveredUrl).not.toHaveBeenCalled();
+  });
+});
+
+describe('crawl worker', () => {
+  type Handler = (job: Job<CrawlJobData>, error?: Error) => Promise<void>;
+  const handlers: Record<string, Handler> = {};
+  const redis = { decr: jest.fn() };
+
+  const job = (attemptsMade = 1) =>
+    ({
+      id: 'crawl-1',
+      data: { runId: 'run-1' },
+      attemptsMade,
+      opts: { attempts: 3 },
+    }) as unknown as Job<CrawlJobData>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getRedisClient as jest.Mock).mockReturnValue(redis);
+    (Worker as unknown as jest.Mock).mockImplementation(() => ({
+      on: (event: string, fn: Handler) => {
+        handlers[event] = fn;
+      },
+    }));
+    createCrawlWorker();
+  });
+
+  it("should finish the crawl when the run's last crawl job completes", async () => {
+    redis.decr.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+    await handlers.completed(job());
+    expect(runService.finishCrawl).not.toHaveBeenCalled();
+
+    await handlers.completed(job());
+    expect(redis.decr).toHaveBeenCalledWith('crawl:run-1:pending');
+    expect(runService.finishCrawl).toHaveBeenCalledWith('run-1');
+  });
+
+  it('should count a failed crawl job as done only after its last attempt', async () => {
+    redis.decr.mockResolvedValue(0);
+
+    await handlers.failed(job(1), new Error('boom'));
+    expect(redis.decr).not.toHaveBeenCalled();
+
+    await handlers.failed(job(3), new Error('boom'));
+    expect(runService.finishCrawl).toHaveBeenCalledWith('run-1');
+  });
+});
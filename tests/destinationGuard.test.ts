@@ -0,0 +1,216 @@
+import http from 'http';
+import dns from 'dns/promises';
+import type { AddressInfo } from 'net';
+import {
+  BlockedDestinationError,
+  checkDestination,
+  classifyAddress,
+  clearDestinationCache,
+} from '../src/services/destinationGuard';
+import { DirectFetcher } from '../src/services/fetcher/adapters/direct';
+
+jest.mock('../src/utils/logger');
+
+const guard = { enabled: true, allowedHosts: [], allowedCidrs: [] };
+
+describe('classifyAddress', () => {
+  it.each([
+    ['127.0.0.1', 'loopback'],
+    ['10.1.2.3', 'private'],
+    ['172.31.255.255', 'private'],
+    ['192.168.0.10', 'private'],
+    ['169.254.169.254', 'metadata'],
+    ['169.254.10.1', 'link-local'],
+    ['100.64.0.1', 'shared'],
+    ['0.0.0.0', 'unspecified'],
+    ['::1', 'loopback'],
+    ['fd00:ec2::254', 'metadata'],
+    ['fd12:3456::1', 'private'],
+    ['fe80::1', 'link-local'],
+    ['::ffff:127.0.0.1', 'loopback'],
+    ['::ffff:169.254.169.254', 'metadata'],
+  ])('should classify %s as %s', (address, range) => {
+    expect(classifyAddress(address)).toBe(range);
+  });
+
+  it.each(['93.184.216.34', '172.32.0.1', '8.8.8.8', '2606:4700::1111'])(
+    'should leave public address %s alone',
+    (address) => {
+      expect(classifyAddress(address)).toBeNull();
+    }
+  );
+});
+
+describe('checkDestination', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    clearDestinationCache();
+  });
+
+  it('should reject internal IP literals', async () => {
+    await expect(
+      checkDestination('http://169.254.169.254/latest/meta-data/', guard)
+    ).rejects.toThrow('metadata addresses are not allowed');
+    await expect(checkDestination('http://[::1]:6379/', guard)).rejects.toBeInstanceOf(
+      BlockedDestinationError
+    );
+  });
+
+  it('should reject hostnames that resolve to internal addresses', async () => {
+    await expect(checkDestination('http://localhost:6379/', guard)).rejects.toMatchObject({
+      code: 'BLOCKED_DESTINATION',
+      range: 'loopback',
+    });
+  });
+
+  it('should reject a hostname if any of its addresses is internal', async () => {
+    jest.spyOn(dns, 'lookup').mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ] as never);
+
+    await expect(checkDestination('https://rebind.example.com/', guard)).rejects.toMatchObject({
+      address: '10.0.0.5',
+      range: 'private',
+    });
+  });
+
+  it('should allow public hostnames and reject names that do not resolve', async () => {
+    const lookup = jest
+      .spyOn(dns, 'lookup')
+      .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }] as never)
+      .mockRejectedValueOnce(
+        Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' })
+      );
+
+    await expect(checkDestination('https://shop.example.com/', guard)).resolves.toBeUndefined();
+    await expect(checkDestination('https://shop.example.com/cart', guard)).resolves.toBeUndefined();
+    await expect(checkDestination('https://missing.example.com/', guard)).rejects.toMatchObject({
+      message: 'DNS lookup failed for missing.example.com (ENOTFOUND)',
+      code: 'ENOTFOUND',
+    });
+    expect(lookup).toHaveBeenCalledTimes(2); // shop.example.com answered from the cache
+  });
+
+  it('should reject non-http protocols', async () => {
+    await expect(checkDestination('file:///etc/passwd', guard)).rejects.toThrow('file protocol');
+  });
+
+  it('should honour host and CIDR exceptions', async () => {
+    await expect(
+      checkDestination('http://localhost:3000/', { ...guard, allowedHosts: ['localhost:3000'] })
+    ).resolves.toBeUndefined();
+    await expect(
+      checkDestination('http://localhost:6379/', { ...guard, allowedHosts: ['localhost:3000'] })
+    ).rejects.toThrow(BlockedDestinationError);
+    await expect(
+      checkDestination('http://10.20.1.1/', { ...guard, allowedCidrs: ['10.20.0.0/16'] })
+    ).resolves.toBeUndefined();
+    await expect(
+      checkDestination('http://10.21.1.1/', { ...guard, allowedCidrs: ['10.20.0.0/16'] })
+    ).rejects.toThrow(BlockedDestinationError);
+  });
+
+  it('should do nothing when disabled', async () => {
+    await expect(
+      checkDestination('http://127.0.0.1/', { ...guard, enabled: false })
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('DirectFetcher destination guard', () => {
+  let server: http.Server;
+  let origin: string;
+  let host: string;
+
+  beforeAll(async () => {
+    // /to-internal redirects to localhost, /hop redirects back to this host
+    server = http.createServer((req, res) => {
+      const port = (server.address() as AddressInfo).port;
+      if (req.url === '/to-internal') {
+        res.writeHead(302, { location: `http://localhost:${port}/secret` });
+        res.end();
+      } else if (req.url === '/hop') {
+        res.writeHead(301, { location: '/landing' });
+        res.end();
+      } else if (req.url === '/loop') {
+        res.writeHead(302, { location: '/loop' });
+        res.end();
+      } else {
+        res.writeHead(200, { 'content-type': 'text/plain' });
+        res.end(`${req.method} ${req.url}`);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+    origin = `http://${host}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const createFetcher = (allowedHosts: string[]) =>
+    new DirectFetcher({ defaultRetries: 0, destinationGuard: { ...guard, allowedHosts } });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    clearDestinationCache();
+  });
+
+  it('should refuse internal targets', async () => {
+    const result = await createFetcher([]).fetch(`${origin}/`);
+
+    expect(result.success).toBe(false);
+    expect(result.status).toBeNull();
+    expect(result.error).toMatch(/^Blocked destination .*loopback/);
+  });
+
+  it('should check the address it connects to, not just the first lookup', async () => {
+    const requests = jest.fn();
+    server.on('request', requests);
+    // Public for the guard's lookup, loopback by the time the connection is made
+    jest
+      .spyOn(dns, 'lookup')
+      .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }] as never)
+      .mockResolvedValue([{ address: '127.0.0.1', family: 4 }] as never);
+
+    const result = await createFetcher([]).fetch(
+      `http://rebind.example.com:${host.split(':')[1]}/`
+    );
+    server.off('request', requests);
+
+    expect(result.status).toBeNull();
+    expect(result.error).toMatch(/^Blocked destination .*\(127\.0\.0\.1\): loopback/);
+    expect(requests).not.toHaveBeenCalled();
+  });
+
+  it('should check every redirect hop', async () => {
+    const result = await createFetcher([host]).fetch(`${origin}/to-internal`);
+
+    expect(result.status).toBeNull();
+    expect(result.error).toMatch(/Blocked destination http:\/\/localhost:\d+\/secret/);
+  });
+
+  it('should follow allowed redirects', async () => {
+    const result = await createFetcher([host]).fetch(`${origin}/hop`);
+
+    expect(result.status).toBe(200);
+    expect(result.body).toBe('GET /landing');
+  });
+
+  it('should return redirects as-is when not following them', async () => {
+    const result = await createFetcher([host]).fetch(`${origin}/to-internal`, {
+      followRedirects: false,
+    });
+
+    expect(result.status).toBe(302);
+    expect(result.headers?.location).toMatch(/^http:\/\/localhost:/);
+  });
+
+  it('should give up on redirect loops', async () => {
+    const result = await createFetcher([host]).fetch(`${origin}/loop`);
+
+    expect(result.error).toBe('Too many redirects (more than 20)');
+  });
+});
@@ -0,0 +1,286 @@
+import {
+  registerDetector,
+  unregisterDetector,
+  getDetector,
+  listDetectors,
+  selectDetectors,
+  runDetectors,
+  mostSevereFinding,
+  http5xxDetector,
+  httpLatencyDetector,
+  httpTimeoutDetector,
+  httpNetworkDetector,
+  dnsFailureDetector,
+  tlsErrorDetector,
+  tlsExpiringDetector,
+  type Detector,
+  type DetectedFinding,
+} from '../src/services/detectors';
+import { loadRulesConfig, findMatchingRule } from '../src/services/rulesService';
+import type { FetchResult } from '../src/services/fetcher/types';
+import fs from 'fs';
+import path from 'path';
+
+// Mock logger
+jest.mock('../src/utils/logger');
+
+function makeResult(overrides: Partial<FetchResult> = {}): FetchResult {
+  return {
+    success: true,
+    status: 200,
+    latencyMs: 100,
+    ...overrides,
+  };
+}
+
+describe('Detectors', () => {
+  const testConfigPath = path.join(__dirname, 'test-detector-rules.json');
+
+  const rulesConfig = {
+    defaults: {
+      cooldownSeconds: 900,
+      latencyMsThreshold: 1500,
+      respectRobots: true,
+      detectors: ['http.5xx', 'http.timeout'],
+    },
+    rules: [
+      {
+        id: 'checkout',
+        pattern: 'https://shop\\.example\\.com/checkout.*',
+        latencyMsThreshold: 500,
+        detectors: ['http.5xx', 'http.latency', 'form.submit_blocked', 'missing.detector'],
+      },
+      {
+        id: 'default-web',
+        pattern: '.*',
+      },
+    ],
+  };
+
+  beforeAll(() => {
+    fs.writeFileSync(testConfigPath, JSON.stringify(rulesConfig));
+    loadRulesConfig(testConfigPath);
+  });
+
+  afterAll(() => {
+    if (fs.existsSync(testConfigPath)) {
+      fs.unlinkSync(testConfigPath);
+    }
+  });
+
+  describe('registry', () => {
+    it('should register the built-in detectors', () => {
+      const ids = listDetectors().map((detector) => detector.id);
+      expect(ids).toEqual(
+        expect.arrayContaining([
+          'http.5xx',
+          'http.latency',
+          'http.timeout',
+          'http.network',
+          'dns.failure',
+          'tls.error',
+          'tls.expiring',
+          'form.submit_blocked',
+        ])
+      );
+    });
+
+    it('should register and unregister custom detectors', () => {
+      const custom: Detector = {
+        id: 'custom.check',
+        description: 'Test detector',
+        inputs: ['evidence'],
+        detect: () => [],
+      };
+
+      registerDetector(custom);
+      expect(getDetector('custom.check')).toBe(custom);
+
+      expect(unregisterDetector('custom.check')).toBe(true);
+      expect(getDetector('custom.check')).toBeUndefined();
+    });
+  });
+
+  describe('selectDetectors', () => {
+    it('should use the rule detectors list for the stage inputs', () => {
+      const rule = findMatchingRule('https://shop.example.com/checkout');
+
+      expect(selectDetectors(rule, ['fetch']).map((d) => d.id)).toEqual([
+        'http.5xx',
+        'http.latency',
+      ]);
+      expect(selectDetectors(rule, ['evidence', 'forms']).map((d) => d.id)).toEqual([
+        'form.submit_blocked',
+      ]);
+    });
+
+    it('should fall back to the default detectors list', () => {
+      const rule = findMatchingRule('https://other.example.com');
+
+      expect(selectDetectors(rule, ['fetch']).map((d) => d.id)).toEqual([
+        'http.5xx',
+        'http.timeout',
+      ]);
+    });
+  });
+
+  describe('http detectors', () => {
+    it('should flag 5xx responses', () => {
+      const found = http5xxDetector.detect({
+        url: 'https://example.com',
+        fetchResult: makeResult({ success: false, status: 503 }),
+      }) as DetectedFinding[];
+
+      expect(found).toHaveLength(1);
+      expect(found[0]).toMatchObject({ type: '5xx', severity: 'high' });
+    });
+
+    it('should flag latency above the rule threshold', () => {
+      const rule = findMatchingRule('https://shop.example.com/checkout');
+      const input = { url: 'https://shop.example.com/checkout', rule };
+
+      expect(
+        httpLatencyDetector.detect({ ...input, fetchResult: makeResult({ latencyMs: 400 }) })
+      ).toEqual([]);
+      expect(
+        httpLatencyDetector.detect({ ...input, fetchResult: makeResult({ latencyMs: 800 }) })
+      ).toEqual([expect.objectContaining({ type: 'latency', detectedValue: '800ms' })]);
+    });
+
+    it('should split timeouts from other network errors', () => {
+      const timeout = makeResult({ success: false, status: null, error: 'Request timeout' });
+      const refused = makeResult({ success: false, status: null, error: 'ECONNREFUSED' });
+
+      expect(
+        httpTimeoutDetector.detect({ url: 'https://example.com', fetchResult: timeout })
+      ).toHaveLength(1);
+      expect(
+        httpNetworkDetector.detect({ url: 'https://example.com', fetchResult: timeout })
+      ).toHaveLength(0);
+      expect(
+        httpTimeoutDetector.detect({ url: 'https://example.com', fetchResult: refused })
+      ).toHaveLength(0);
+      expect(
+        httpNetworkDetector.detect({ url: 'https://example.com', fetchResult: refused })
+      ).toHaveLength(1);
+    });
+
+    it('should ignore requests skipped by the breaker', () => {
+      const skipped = makeResult({
+        success: false,
+        skipped: true,
+        reason: 'breaker_open',
+        status: null,
+        error: 'skipped',
+      });
+
+      expect(
+        httpNetworkDetector.detect({ url: 'https://example.com', fetchResult: skipped })
+      ).toEqual([]);
+    });
+  });
+
+  describe('connection detectors', () => {
+    const certificate = {
+      subject: 'CN=shop.example.com',
+      issuer: "C=US, O=Let's Encrypt, CN=R3",
+      validFrom: '2026-09-01T00:00:00.000Z',
+      validTo: '2026-11-30T00:00:00.000Z',
+      daysRemaining: 10,
+      fingerprint256: 'AB:CD',
+    };
+
+    it('should report DNS failures instead of a network error', () => {
+      const result = makeResult({
+        success: false,
+        status: null,
+        error: 'DNS lookup failed for shop.example.com (ENOTFOUND)',
+        diagnostics: {
+          host: 'shop.example.com',
+          failure: { stage: 'dns', code: 'ENOTFOUND', message: 'getaddrinfo ENOTFOUND' },
+        },
+      });
+      const input = { url: 'https://shop.example.com', fetchResult: result };
+
+      expect(dnsFailureDetector.detect(input)).toEqual([
+        expect.objectContaining({ type: 'dns', severity: 'high', detectedValue: 'ENOTFOUND' }),
+      ]);
+      expect(httpNetworkDetector.detect(input)).toEqual([]);
+      expect(tlsErrorDetector.detect(input)).toEqual([]);
+    });
+
+    it('should report certificate chain errors instead of a network error', () => {
+      const result = makeResult({
+        success: false,
+        status: null,
+        error: 'TLS certificate error for shop.example.com: CERT_HAS_EXPIRED',
+        diagnostics: {
+          host: 'shop.example.com',
+          certificate: { ...certificate, daysRemaining: -2 },
+          chainError: 'CERT_HAS_EXPIRED',
+          failure: { stage: 'tls', code: 'CERT_HAS_EXPIRED', message: 'CERT_HAS_EXPIRED' },
+        },
+      });
+      const input = { url: 'https://shop.example.com', fetchResult: result };
+
+      expect(tlsErrorDetector.detect(input)).toEqual([
+        expect.objectContaining({
+          type: 'tls',
+          title: 'Invalid TLS certificate (CERT_HAS_EXPIRED)',
+          context: "CN=shop.example.com issued by C=US, O=Let's Encrypt, CN=R3",
+        }),
+      ]);
+      expect(tlsExpiringDetector.detect(input)).toEqual([]);
+      expect(httpNetworkDetector.detect(input)).toEqual([]);
+    });
+
+    it('should flag certificates inside the expiry warning window', () => {
+      const fetchResult = (daysRemaining: number) =>
+        makeResult({
+          diagnostics: { host: 'shop.example.com', certificate: { ...certificate, daysRemaining } },
+        });
+      const url = 'https://shop.example.com';
+
+      expect(tlsExpiringDetector.detect({ url, fetchResult: fetchResult(30) })).toEqual([]);
+      expect(tlsExpiringDetector.detect({ url, fetchResult: fetchResult(10) })).toEqual([
+        expect.objectContaining({
+          type: 'tls.expiring',
+          severity: 'medium',
+          title: 'TLS certificate expires in 10 days',
+          detectedValue: '2026-11-30T00:00:00.000Z',
+        }),
+      ]);
+      expect(tlsExpiringDetector.detect({ url, fetchResult: fetchResult(1) })).toEqual([
+        expect.objectContaining({ severity: 'high', title: 'TLS certificate expires in 1 day' }),
+      ]);
+    });
+  });
+
+  describe('runDetectors', () => {
+    it('should skip detectors that throw', async () => {
+      const failing: Detector = {
+        id: 'failing',
+        description: 'Always throws',
+        inputs: ['fetch'],
+        detect: () => {
+          throw new Error('boom');
+        },
+      };
+
+      const found = await runDetectors(
+        { url: 'https://example.com', fetchResult: makeResult({ success: false, status: 500 }) },
+        [failing, http5xxDetector]
+      );
+
+      expect(found.map((finding) => finding.detector)).toEqual(['http.5xx']);
+    });
+
+    it('should pick the most severe finding', () => {
+      const low: DetectedFinding = { detector: 'a', type: 'a', severity: 'low', title: 'A' };
+      const high: DetectedFinding = { detector: 'b', type: 'b', severity: 'high', title: 'B' };
+
+      expect(mostSevereFinding([low, high, low])).toBe(high);
+      expect(mostSevereFinding([])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { deviceSlug, isKnownDevice, resolveDevice } from '../src/services/deviceProfiles';
+
+describe('Device Profiles', () => {
+  describe('resolveDevice', () => {
+    it('should resolve mobile descriptors with their user agent and touch settings', () => {
+      const profile = resolveDevice('Pixel 7');
+
+      expect(profile).toMatchObject({ name: 'Pixel 7', isMobile: true, hasTouch: true });
+      expect(profile.userAgent).toContain('Android');
+      expect(profile.viewport.width).toBeLessThan(600);
+    });
+
+    it('should resolve desktop descriptors', () => {
+      expect(resolveDevice('Desktop Chrome')).toMatchObject({ isMobile: false, hasTouch: false });
+    });
+
+    it('should throw for unknown devices', () => {
+      expect(() => resolveDevice('Nokia 3310')).toThrow('Unknown device "Nokia 3310"');
+    });
+  });
+
+  describe('isKnownDevice', () => {
+    it('should only accept Playwright descriptor names', () => {
+      expect(isKnownDevice('iPhone 13')).toBe(true);
+      expect(isKnownDevice('iphone 13')).toBe(false);
+      expect(isKnownDevice('toString')).toBe(false);
+    });
+  });
+
+  describe('deviceSlug', () => {
+    it('should produce file-name-safe slugs', () => {
+      expect(deviceSlug('iPhone 13 Pro Max')).toBe('iphone-13-pro-max');
+      expect(deviceSlug('Galaxy Tab S4 landscape')).toBe('galaxy-tab-s4-landscape');
+      expect(deviceSlug('Desktop Chrome HiDPI')).toBe('desktop-chrome-hidpi');
+    });
+  });
+});
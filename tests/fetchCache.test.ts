@@ -0,0 +1,180 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { Redis } from 'ioredis';
+import { CachingFetcher, pruneFetchCache } from '../src/services/fetcher/cache';
+import type { FetchOptions, FetchResult, IFetcher } from '../src/services/fetcher/types';
+
+jest.mock('../src/utils/logger');
+
+/**
+ * Upstream that answers with the queued results in turn and keeps the
+ * options of every call
+ */
+function createUpstream(results: FetchResult[]): IFetcher & { calls: FetchOptions[] } {
+  const calls: FetchOptions[] = [];
+  return {
+    calls,
+    fetch: jest.fn(async (_url: string, options: FetchOptions = {}) => {
+      calls.push(options);
+      return results[Math.min(calls.length - 1, results.length - 1)];
+    }),
+    getAdapterName: () => 'fake',
+  };
+}
+
+function createRedis(): Redis {
+  const store = new Map<string, string>();
+  return {
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    }),
+  } as unknown as Redis;
+}
+
+const ok = (body: string, headers: Record<string, string> = {}): FetchResult => ({
+  status: 200,
+  body,
+  headers: { 'content-type': 'text/html', ...headers },
+  latencyMs: 20,
+  success: true,
+});
+
+const notModified = (headers: Record<string, string> = {}): FetchResult => ({
+  status: 304,
+  body: '',
+  headers,
+  latencyMs: 5,
+  success: false,
+});
+
+describe('CachingFetcher', () => {
+  const url = 'https://shop.example.com/pricing';
+  let cacheDir: string;
+  let redis: Redis;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fetch-cache-'));
+    redis = createRedis();
+  });
+
+  afterEach(async () => {
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  const createFetcher = (upstream: IFetcher) =>
+    new CachingFetcher(upstream, { redis, cacheDir, ttlSeconds: 3600, maxBodyBytes: 1024 });
+
+  it('should revalidate with the stored validators and serve 304s from the cache', async () => {
+    const validators = { etag: '"v1"', 'last-modified': 'Mon, 19 Oct 2026 08:00:00 GMT' };
+    const upstream = createUpstream([ok('<h1>Pricing</h1>', validators), notModified()]);
+    const fetcher = createFetcher(upstream);
+
+    const first = await fetcher.fetch(url, { headers: { 'User-Agent': 'Unleak/1.0' } });
+    expect(first.cache).toEqual({ notModified: false, contentChanged: null });
+    expect(upstream.calls[0].headers).toEqual({ 'User-Agent': 'Unleak/1.0' });
+
+    const second = await fetcher.fetch(url, { headers: { 'User-Agent': 'Unleak/1.0' } });
+    expect(upstream.calls[1].headers).toEqual({
+      'User-Agent': 'Unleak/1.0',
+      'If-None-Match': '"v1"',
+      'If-Modified-Since': 'Mon, 19 Oct 2026 08:00:00 GMT',
+    });
+    expect(second).toMatchObject({
+      status: 304,
+      success: true,
+      body: '<h1>Pricing</h1>',
+      headers: { 'content-type': 'text/html', etag: '"v1"' },
+      cache: { notModified: true, contentChanged: false, previousFetchAt: expect.any(String) },
+    });
+  });
+
+  it('should flag changed content', async () => {
+    const upstream = createUpstream([
+      ok('<h1>Pricing</h1>', { etag: '"v1"' }),
+      ok('<h1>New pricing</h1>', { etag: '"v2"' }),
+      notModified(),
+    ]);
+    const fetcher = createFetcher(upstream);
+
+    await fetcher.fetch(url);
+    const changed = await fetcher.fetch(url);
+    const unchanged = await fetcher.fetch(url);
+
+    expect(changed.cache).toMatchObject({ notModified: false, contentChanged: true });
+    expect(upstream.calls[2].headers).toEqual({ 'If-None-Match': '"v2"' });
+    expect(unchanged.body).toBe('<h1>New pricing</h1>');
+  });
+
+  it('should compare bodies of pages without validators', async () => {
+    const upstream = createUpstream([ok('same'), ok('same')]);
+    const fetcher = createFetcher(upstream);
+
+    await fetcher.fetch(url);
+    const second = await fetcher.fetch(url);
+
+    expect(upstream.calls[1].headers).toEqual({});
+    expect(second.cache).toEqual({
+      notModified: false,
+      contentChanged: false,
+      previousFetchAt: expect.any(String),
+    });
+    expect(await fs.readdir(cacheDir)).toEqual([]); // Nothing to revalidate, nothing stored
+  });
+
+  it('should refetch in full when the cached body is gone', async () => {
+    const upstream = createUpstream([
+      ok('<h1>Pricing</h1>', { etag: '"v1"' }),
+      notModified(),
+      ok('<h1>Pricing</h1>', { etag: '"v1"' }),
+    ]);
+    const fetcher = createFetcher(upstream);
+
+    await fetcher.fetch(url);
+    await fs.rm(cacheDir, { recursive: true, force: true });
+    const result = await fetcher.fetch(url);
+
+    expect(upstream.calls).toHaveLength(3);
+    expect(upstream.calls[2].headers).toBeUndefined();
+    expect(result).toMatchObject({ status: 200, body: '<h1>Pricing</h1>' });
+  });
+
+  it('should pass through requests it cannot cache', async () => {
+    const upstream = createUpstream([ok('created', { etag: '"v1"' })]);
+    const fetcher = createFetcher(upstream);
+
+    const post = await fetcher.fetch(url, { method: 'POST', body: 'a=1' });
+    await fetcher.fetch(url, { headers: { 'If-None-Match': '"mine"' } });
+
+    expect(post.cache).toBeUndefined();
+    expect(redis.get).not.toHaveBeenCalled();
+  });
+
+  it('should leave errors untouched', async () => {
+    const failed: FetchResult = { status: 503, latencyMs: 10, success: false, body: 'down' };
+    const fetcher = createFetcher(createUpstream([failed]));
+
+    expect(await fetcher.fetch(url)).toBe(failed);
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+});
+
+describe('pruneFetchCache', () => {
+  it('should delete bodies older than the TTL', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fetch-cache-'));
+    await fs.mkdir(path.join(cacheDir, 'ab'));
+    const stale = path.join(cacheDir, 'ab', 'ab01.body');
+    const fresh = path.join(cacheDir, 'ab', 'ab02.body');
+    await fs.writeFile(stale, 'old');
+    await fs.writeFile(fresh, 'new');
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await fs.utimes(stale, twoHoursAgo, twoHoursAgo);
+
+    expect(await pruneFetchCache(cacheDir, 3600)).toBe(1);
+    expect(await fs.readdir(path.join(cacheDir, 'ab'))).toEqual(['ab02.body']);
+
+    await fs.rm(cacheDir, { recursive: true, force: true });
+  });
+});
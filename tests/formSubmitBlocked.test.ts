@@ -0,0 +1,225 @@
+import {
+  classifySubmission,
+  detectFormSubmitBlocked,
+  resolveFormFieldValue,
+  loadFormTestData,
+  FORM_SUBMIT_BLOCKED,
+  type FormTestData,
+} from '../src/services/detectors/formSubmitBlocked';
+import type { FormField, FormSubmissionAttempt } from '../src/services/browserService';
+import path from 'path';
+
+// Mock logger
+jest.mock('../src/utils/logger');
+
+function makeField(overrides: Partial<FormField> = {}): FormField {
+  return {
+    tag: 'input',
+    type: 'text',
+    name: '',
+    id: '',
+    placeholder: '',
+    autocomplete: '',
+    required: false,
+    ...overrides,
+  };
+}
+
+function makeAttempt(overrides: Partial<FormSubmissionAttempt> = {}): FormSubmissionAttempt {
+  return {
+    form: {
+      index: 0,
+      selector: 'form#contact',
+      action: 'https://example.com/contact',
+      method: 'POST',
+      fields: [],
+      hasSubmitButton: true,
+    },
+    filledFields: ['email', 'message'],
+    responseStatus: 200,
+    responseHeaders: {},
+    requestUrl: 'https://example.com/contact',
+    requestMethod: 'POST',
+    finalUrl: 'https://example.com/contact/thanks',
+    title: 'Thanks',
+    html: '<html><body>Thanks for getting in touch</body></html>',
+    navigated: true,
+    domChanged: true,
+    durationMs: 1200,
+    ...overrides,
+  };
+}
+
+describe('form.submit_blocked detector', () => {
+  const testData: FormTestData = {
+    fields: [
+      { match: 'email', value: 'qa@example.com' },
+      { match: 'phone|tel', value: '+15555550100' },
+      { match: 'message', value: 'Hello' },
+    ],
+    defaults: {
+      text: 'Unleak test',
+      textarea: 'Default message',
+    },
+  };
+
+  describe('resolveFormFieldValue', () => {
+    it('should match fields by name', () => {
+      expect(resolveFormFieldValue(makeField({ name: 'contact_email' }), testData)).toBe(
+        'qa@example.com'
+      );
+    });
+
+    it('should match fields by input type', () => {
+      expect(resolveFormFieldValue(makeField({ type: 'tel' }), testData)).toBe('+15555550100');
+    });
+
+    it('should fall back to type defaults', () => {
+      expect(resolveFormFieldValue(makeField({ tag: 'textarea', type: 'textarea' }), testData)).toBe(
+        'Default message'
+      );
+      expect(resolveFormFieldValue(makeField({ name: 'nickname' }), testData)).toBe('Unleak test');
+    });
+
+    it('should check checkboxes and radios', () => {
+      expect(resolveFormFieldValue(makeField({ type: 'checkbox' }), testData)).toBe('on');
+      expect(resolveFormFieldValue(makeField({ type: 'radio' }), testData)).toBe('on');
+    });
+
+    it('should leave fields without test data untouched', () => {
+      expect(resolveFormFieldValue(makeField({ type: 'date' }), testData)).toBeNull();
+    });
+  });
+
+  describe('classifySubmission', () => {
+    it('should classify a successful submission', () => {
+      expect(classifySubmission(makeAttempt()).outcome).toBe('submitted');
+    });
+
+    it('should classify a Cloudflare block page as waf_block', () => {
+      const result = classifySubmission(
+        makeAttempt({
+          responseStatus: 403,
+          title: 'Attention Required! | Cloudflare',
+          html: '<h1>Sorry, you have been blocked</h1>',
+        })
+      );
+
+      expect(result.outcome).toBe('waf_block');
+      expect(result.signal).toMatch(/Cloudflare|blocked/);
+    });
+
+    it('should classify a challenge interstitial', () => {
+      const result = classifySubmission(
+        makeAttempt({
+          responseStatus: 403,
+          html: '<html><head><title>Just a moment...</title></head></html>',
+        })
+      );
+
+      expect(result.outcome).toBe('challenge');
+    });
+
+    it('should classify the cf-mitigated challenge header', () => {
+      const result = classifySubmission(
+        makeAttempt({ responseHeaders: { 'cf-mitigated': 'challenge' } })
+      );
+
+      expect(result).toEqual({ outcome: 'challenge', signal: 'cf-mitigated: challenge' });
+    });
+
+    it('should classify plain 403 and 429 responses', () => {
+      expect(classifySubmission(makeAttempt({ responseStatus: 403 })).outcome).toBe('forbidden');
+      expect(classifySubmission(makeAttempt({ responseStatus: 429 })).outcome).toBe(
+        'rate_limited'
+      );
+    });
+
+    it('should classify 5xx responses as server_error', () => {
+      expect(classifySubmission(makeAttempt({ responseStatus: 502 })).outcome).toBe(
+        'server_error'
+      );
+    });
+
+    it('should classify a submit with no visible effect as silent_noop', () => {
+      const result = classifySubmission(
+        makeAttempt({
+          responseStatus: null,
+          requestUrl: null,
+          navigated: false,
+          domChanged: false,
+        })
+      );
+
+      expect(result.outcome).toBe('silent_noop');
+    });
+
+    it('should classify failures to submit as error', () => {
+      const result = classifySubmission(
+        makeAttempt({
+          responseStatus: null,
+          navigated: false,
+          error: 'locator.click: Timeout 10000ms exceeded',
+        })
+      );
+
+      expect(result.outcome).toBe('error');
+    });
+  });
+
+  describe('detectFormSubmitBlocked', () => {
+    it('should report no finding when every form submitted', () => {
+      const result = detectFormSubmitBlocked('https://example.com/contact', [makeAttempt()]);
+
+      expect(result.blocked).toBe(false);
+      expect(result.severity).toBeNull();
+      expect(result.attempts).toHaveLength(1);
+      expect(result.attempts[0].outcome).toBe('submitted');
+    });
+
+    it('should report the most severe blocked form', () => {
+      const noop = makeAttempt({
+        responseStatus: null,
+        navigated: false,
+        domChanged: false,
+      });
+      const blocked = makeAttempt({
+        form: { ...makeAttempt().form, index: 1, selector: 'form >> nth=1' },
+        responseStatus: 403,
+        html: '<p>Request unsuccessful. Incapsula incident ID: 123-456</p>',
+      });
+
+      const result = detectFormSubmitBlocked('https://example.com/contact', [noop, blocked]);
+
+      expect(result.blocked).toBe(true);
+      expect(result.findingType).toBe(FORM_SUBMIT_BLOCKED);
+      expect(result.severity).toBe('high');
+      expect(result.detectedValue).toBe('Request unsuccessful. Incapsula incident ID');
+      expect(result.title).toContain('example.com');
+
+      const context = JSON.parse(result.context!);
+      expect(context.outcome).toBe('waf_block');
+      expect(context.form).toBe('form >> nth=1');
+      expect(context.responseStatus).toBe(403);
+      expect(context.snippet).toContain('Incapsula');
+      expect(result.waf).toMatchObject({ vendor: 'imperva', blockType: 'hard_block' });
+    });
+  });
+
+  describe('loadFormTestData', () => {
+    it('should load the bundled test data', () => {
+      const data = loadFormTestData(
+        path.join(__dirname, '..', 'src', 'config', 'form-test-data.json')
+      );
+
+      expect(data.fields.length).toBeGreaterThan(0);
+      expect(resolveFormFieldValue(makeField({ type: 'email' }), data)).toContain('@');
+    });
+
+    it('should fall back to empty test data when the file is missing', () => {
+      const data = loadFormTestData(path.join(__dirname, 'missing-test-data.json'));
+
+      expect(data).toEqual({ fields: [], defaults: {} });
+    });
+  });
+});
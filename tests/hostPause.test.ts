@@ -0,0 +1,53 @@
+import type { Redis } from 'ioredis';
+import { getHostPause, normalizePauseHost, pauseHost } from '../src/services/hostPause';
+
+jest.mock('../src/utils/logger');
+
+describe('Host pause', () => {
+  const createRedis = () => {
+    const store = new Map<string, string>();
+    return {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        store.set(key, value);
+        return 'OK';
+      }),
+    } as unknown as Redis;
+  };
+
+  it('should key pauses by host for URLs and bare hosts alike', () => {
+    expect(normalizePauseHost('https://Shop.Example.com:8443/cart')).toBe('shop.example.com:8443');
+    expect(normalizePauseHost(' Shop.Example.com ')).toBe('shop.example.com');
+  });
+
+  it('should apply a pause to every URL of the host', async () => {
+    const redis = createRedis();
+
+    await pauseHost(redis, 'shop.example.com', { actor: 'ops', reason: 'Vendor outage' });
+
+    expect(await getHostPause(redis, 'https://shop.example.com/checkout')).toMatchObject({
+      host: 'shop.example.com',
+      actor: 'ops',
+      reason: 'Vendor outage',
+      until: null,
+    });
+    expect(await getHostPause(redis, 'https://api.example.com/')).toBeNull();
+  });
+
+  it('should expire timed pauses in Redis', async () => {
+    const redis = createRedis();
+
+    const pause = await pauseHost(redis, 'https://shop.example.com/', {
+      actor: 'ops',
+      durationMs: 60000,
+    });
+
+    expect(redis.set).toHaveBeenCalledWith(
+      'pause:host:shop.example.com',
+      expect.any(String),
+      'PX',
+      60000
+    );
+    expect(Date.parse(pause.until!) - Date.parse(pause.pausedAt)).toBe(60000);
+  });
+});
@@ -0,0 +1,65 @@
+import { describeJourneyStep, validateJourney } from '../src/services/journeyService';
+
+describe('Journey Service', () => {
+  describe('validateJourney', () => {
+    it('should accept every supported step action', () => {
+      const steps = [
+        { action: 'goto', url: '/checkout' },
+        { action: 'click', selector: 'text=Add to cart', name: 'Add to cart' },
+        { action: 'fill', selector: '#email', value: 'qa@example.com' },
+        { action: 'select', selector: '#country', value: 'GB' },
+        { action: 'wait-for-selector', selector: '#payment', state: 'visible', timeout: 5000 },
+        { action: 'submit', selector: 'form#checkout' },
+        { action: 'assert-text', text: 'Thank you for your order' },
+      ];
+
+      expect(validateJourney(steps)).toEqual(steps);
+    });
+
+    it('should reject a non-array journey', () => {
+      expect(() => validateJourney({ action: 'goto', url: '/' })).toThrow(
+        'journey must be an array of steps'
+      );
+    });
+
+    it('should reject unknown actions', () => {
+      expect(() => validateJourney([{ action: 'hover', selector: '#menu' }])).toThrow(
+        'journey step 0 has unknown action "hover"'
+      );
+    });
+
+    it('should reject steps missing required fields', () => {
+      expect(() => validateJourney([{ action: 'goto' }])).toThrow('must have a string "url"');
+      expect(() => validateJourney([{ action: 'click', selector: '' }])).toThrow(
+        'must have a string "selector"'
+      );
+      expect(() => validateJourney([{ action: 'assert-text', selector: 'h1' }])).toThrow(
+        'must have a string "text"'
+      );
+    });
+
+    it('should reject invalid timeouts and wait states', () => {
+      expect(() => validateJourney([{ action: 'click', selector: '#a', timeout: 0 }])).toThrow(
+        'timeout must be a positive number'
+      );
+      expect(() =>
+        validateJourney([{ action: 'wait-for-selector', selector: '#a', state: 'enabled' }])
+      ).toThrow('state must be one of');
+    });
+
+    it('should prefix errors with the given label', () => {
+      expect(() =>
+        validateJourney([{ action: 'submit', selector: 42 }], 'payload.journey')
+      ).toThrow('payload.journey step 0 (submit) selector must be a string');
+    });
+  });
+
+  describe('describeJourneyStep', () => {
+    it('should prefer the step name and fall back to its position and action', () => {
+      expect(describeJourneyStep({ action: 'click', selector: '#buy', name: 'Buy now' }, 0)).toBe(
+        'Buy now'
+      );
+      expect(describeJourneyStep({ action: 'submit' }, 2)).toBe('3. submit');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  classifySubrequest,
+  findDocumentRequest,
+  networkSubrequestDetector,
+  NETWORK_SUBREQUEST_FAILED,
+  type DetectedFinding,
+} from '../src/services/detectors';
+import type { EvidenceCapture, NetworkRequest } from '../src/services/browserService';
+
+jest.mock('../src/utils/logger');
+
+const request = (overrides: Partial<NetworkRequest>): NetworkRequest => ({
+  url: 'https://shop.example.com/',
+  method: 'GET',
+  resourceType: 'document',
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  navigation: false,
+  thirdParty: false,
+  timing: { startTime: 0, endTime: 10, duration: 10 },
+  ...overrides,
+});
+
+describe('Network log', () => {
+  describe('classifySubrequest', () => {
+    it('should flag form POST endpoints answering 4xx/5xx', () => {
+      expect(
+        classifySubrequest(
+          request({
+            url: 'https://shop.example.com/api/checkout',
+            method: 'POST',
+            resourceType: 'xhr',
+            status: 403,
+          })
+        )
+      ).toMatchObject({ problem: 'form_post_error', severity: 'high', status: 403 });
+
+      expect(
+        classifySubrequest(request({ method: 'POST', resourceType: 'fetch', status: 422 }))
+      ).toMatchObject({ problem: 'form_post_error', severity: 'medium' });
+    });
+
+    it('should flag blocked third-party scripts', () => {
+      expect(
+        classifySubrequest(
+          request({
+            url: 'https://js.stripe.com/v3/',
+            resourceType: 'script',
+            status: null,
+            thirdParty: true,
+            failure: 'net::ERR_BLOCKED_BY_CLIENT',
+          })
+        )
+      ).toMatchObject({
+        problem: 'third_party_script_blocked',
+        failure: 'net::ERR_BLOCKED_BY_CLIENT',
+      });
+    });
+
+    it('should ignore successful, first-party and navigation requests', () => {
+      expect(
+        classifySubrequest(request({ method: 'POST', resourceType: 'xhr', status: 201 }))
+      ).toBeNull();
+      expect(classifySubrequest(request({ resourceType: 'script', status: 404 }))).toBeNull();
+      expect(
+        classifySubrequest(request({ resourceType: 'image', status: 404, thirdParty: true }))
+      ).toBeNull();
+      expect(
+        classifySubrequest(request({ method: 'POST', status: 500, navigation: true }))
+      ).toBeNull();
+    });
+  });
+
+  describe('findDocumentRequest', () => {
+    it('should pick the navigation to the final URL', () => {
+      const requests = [
+        request({ url: 'https://shop.example.com/', status: 301, navigation: true }),
+        request({ url: 'https://shop.example.com/home', status: 403, navigation: true }),
+        request({ url: 'https://shop.example.com/app.js', resourceType: 'script' }),
+      ];
+
+      expect(findDocumentRequest(requests, 'https://shop.example.com/home')?.status).toBe(403);
+      expect(findDocumentRequest(requests, 'https://other.example.com/')?.status).toBe(301);
+      expect(findDocumentRequest(undefined, 'https://shop.example.com/')).toBeNull();
+    });
+  });
+
+  describe('network.subrequest_failed detector', () => {
+    it('should report the most severe failed sub-request', () => {
+      const evidence = {
+        networkRequests: [
+          request({ navigation: true }),
+          request({
+            url: 'https://cdn.tracker.io/t.js',
+            resourceType: 'script',
+            status: 404,
+            thirdParty: true,
+          }),
+          request({
+            url: 'https://shop.example.com/api/cart',
+            method: 'POST',
+            resourceType: 'fetch',
+            status: 503,
+          }),
+        ],
+      } as unknown as EvidenceCapture;
+
+      const found = networkSubrequestDetector.detect({
+        url: 'https://shop.example.com/',
+        evidence,
+      }) as DetectedFinding[];
+
+      expect(found).toHaveLength(1);
+      expect(found[0]).toMatchObject({
+        type: NETWORK_SUBREQUEST_FAILED,
+        severity: 'high',
+        detectedValue: 'form_post_error:503',
+      });
+      expect(found[0].metadata?.failedRequests).toHaveLength(2);
+    });
+
+    it('should not report pages without a network log', () => {
+      const evidence = { html: '' } as unknown as EvidenceCapture;
+
+      expect(
+        networkSubrequestDetector.detect({ url: 'https://shop.example.com/', evidence })
+      ).toEqual([]);
+    });
+  });
+});
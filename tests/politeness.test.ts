@@ -0,0 +1,155 @@
+import { DelayedError, type Job } from 'bullmq';
+import type { Redis } from 'ioredis';
+import { getCrawlPolicy, waitForCrawlSlot, type PoliteJobData } from '../src/services/politeness';
+import { getRobotsTxtRules } from '../src/services/robotsService';
+import type { Rule } from '../src/services/rulesService';
+
+jest.mock('../src/utils/logger');
+jest.mock('../src/utils/metrics');
+jest.mock('../src/services/robotsService', () => ({
+  getRobotsTxtRules: jest.fn(),
+}));
+jest.mock('../src/services/rulesService', () => ({
+  getEffectiveCrawlDelay: jest.fn((rule: Rule | null) => rule?.crawlDelaySeconds ?? null),
+  getEffectiveCrawlBurst: jest.fn((rule: Rule | null) => rule?.crawlBurst ?? null),
+  getEffectiveRobotsRespect: jest.fn((rule: Rule | null) => rule?.respectRobots ?? true),
+}));
+
+const mockRedis = { eval: jest.fn() } as unknown as Redis;
+const mockRobots = getRobotsTxtRules as jest.Mock;
+
+function createJob(data: Partial<PoliteJobData> = {}) {
+  const job = {
+    id: '42',
+    data: { url: 'https://shop.example.com/cart', ...data } as PoliteJobData,
+    updateData: jest.fn(async (next: PoliteJobData) => {
+      job.data = next;
+    }),
+    moveToDelayed: jest.fn(),
+  };
+  return job as typeof job & Job<PoliteJobData>;
+}
+
+describe('Politeness', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRobots.mockResolvedValue(null);
+    (mockRedis.eval as jest.Mock).mockResolvedValue(0);
+  });
+
+  describe('getCrawlPolicy', () => {
+    it('should prefer the rule crawl delay over robots.txt', async () => {
+      mockRobots.mockResolvedValue({ disallowedPaths: [], allowedPaths: [], crawlDelay: 10 });
+      const rule: Rule = { id: 'shop', pattern: '.*', crawlDelaySeconds: 2.5, crawlBurst: 3 };
+
+      expect(await getCrawlPolicy(mockRedis, 'https://shop.example.com/', rule)).toEqual({
+        intervalMs: 2500,
+        burst: 3,
+        source: 'rule',
+      });
+      expect(mockRobots).not.toHaveBeenCalled();
+    });
+
+    it('should use the robots.txt Crawl-delay, capped', async () => {
+      mockRobots.mockResolvedValueOnce({ disallowedPaths: [], allowedPaths: [], crawlDelay: 0.5 });
+      expect(await getCrawlPolicy(mockRedis, 'https://shop.example.com/', null)).toEqual({
+        intervalMs: 500,
+        burst: 1,
+        source: 'robots',
+      });
+
+      mockRobots.mockResolvedValueOnce({ disallowedPaths: [], allowedPaths: [], crawlDelay: 3600 });
+      expect((await getCrawlPolicy(mockRedis, 'https://shop.example.com/', null)).intervalMs).toBe(
+        60000
+      );
+    });
+
+    it('should ignore robots.txt when the rule does not respect it', async () => {
+      mockRobots.mockResolvedValue({ disallowedPaths: [], allowedPaths: [], crawlDelay: 10 });
+      const rule: Rule = { id: 'api', pattern: '.*', respectRobots: false };
+
+      expect(await getCrawlPolicy(mockRedis, 'https://api.example.com/', rule)).toEqual({
+        intervalMs: 1000,
+        burst: 1,
+        source: 'default',
+      });
+    });
+  });
+
+  describe('waitForCrawlSlot', () => {
+    it('should let a job run when its host has a free slot', async () => {
+      const job = createJob();
+
+      await waitForCrawlSlot(mockRedis, job, 'token', null, 'scan');
+
+      expect(mockRedis.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        1,
+        'politeness:tat:shop.example.com',
+        expect.any(Number),
+        1000,
+        1
+      );
+      expect(job.moveToDelayed).not.toHaveBeenCalled();
+    });
+
+    it('should re-queue a job until its reserved slot', async () => {
+      (mockRedis.eval as jest.Mock).mockResolvedValue(3000);
+      const job = createJob();
+      const before = Date.now();
+
+      await expect(
+        waitForCrawlSlot(mockRedis, job, 'token', null, 'render')
+      ).rejects.toBeInstanceOf(DelayedError);
+
+      const slotAt = job.data.crawlSlotAt!;
+      expect(slotAt).toBeGreaterThanOrEqual(before + 3000);
+      expect(job.moveToDelayed).toHaveBeenCalledWith(slotAt, 'token');
+    });
+
+    it('should run a returning job on its slot without reserving another', async () => {
+      const job = createJob({ crawlSlotAt: Date.now() - 100 });
+
+      await waitForCrawlSlot(mockRedis, job, 'token', null, 'render');
+
+      expect(mockRedis.eval).not.toHaveBeenCalled();
+      expect(job.data.crawlSlotAt).toBeUndefined();
+      expect(job.moveToDelayed).not.toHaveBeenCalled();
+    });
+
+    it('should send a job that returns early back to its slot', async () => {
+      const slotAt = Date.now() + 5000;
+      const job = createJob({ crawlSlotAt: slotAt });
+
+      await expect(waitForCrawlSlot(mockRedis, job, 'token', null, 'scan')).rejects.toBeInstanceOf(
+        DelayedError
+      );
+
+      expect(job.moveToDelayed).toHaveBeenCalledWith(slotAt, 'token');
+      expect(mockRedis.eval).not.toHaveBeenCalled();
+    });
+
+    it('should reserve a fresh slot when the old one went by long ago', async () => {
+      const job = createJob({ crawlSlotAt: Date.now() - 60000 });
+
+      await waitForCrawlSlot(mockRedis, job, 'token', null, 'scan');
+
+      expect(mockRedis.eval).toHaveBeenCalledTimes(1);
+      expect(job.data.crawlSlotAt).toBeUndefined();
+    });
+
+    it('should skip hosts with no crawl delay', async () => {
+      const job = createJob();
+
+      await waitForCrawlSlot(
+        mockRedis,
+        job,
+        'token',
+        { id: 'fast', pattern: '.*', crawlDelaySeconds: 0 },
+        'scan'
+      );
+
+      expect(mockRedis.eval).not.toHaveBeenCalled();
+    });
+  });
+});
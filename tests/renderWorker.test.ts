@@ -0,0 +1,287 @@
+import { DelayedError, Worker, type Job } from 'bullmq';
+import { createRenderWorker, type RenderJobData } from '../src/workers/renderWorker';
+import { browserService } from '../src/services/browserService';
+import { getBreakerService } from '../src/services/breaker';
+import { acquireHostSlot, releaseHostSlot } from '../src/services/hostConcurrency';
+import { getHostPause } from '../src/services/hostPause';
+import { runService } from '../src/services/runService';
+import { db } from '../src/db';
+
+jest.mock('../src/utils/logger');
+jest.mock('bullmq', () => ({ ...jest.requireActual('bullmq'), Worker: jest.fn() }));
+jest.mock('../src/config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../src/config', () => {
+  const actual = jest.requireActual('../src/config');
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      circuitBreaker: { ...actual.config.circuitBreaker, enabled: true },
+      render: { ...actual.config.render, maxPerHost: 2, hostRetryDelayMs: 5000 },
+      verifier: { ...actual.config.verifier, enabled: false },
+    },
+  };
+});
+jest.mock('../src/db', () => ({ db: { update: jest.fn() } }));
+jest.mock('../src/services/browserService', () => ({
+  browserService: {
+    captureEvidence: jest.fn(),
+    runJourney: jest.fn(),
+    selectProxy: jest.fn().mockReturnValue(null),
+    close: jest.fn(),
+  },
+  NavigationError: class NavigationError extends Error {},
+}));
+jest.mock('../src/services/artifactService', () => ({
+  artifactService: { saveArtifacts: jest.fn().mockResolvedValue([]) },
+}));
+jest.mock('../src/services/storageService', () => ({
+  storageService: { initialize: jest.fn() },
+}));
+jest.mock('../src/services/runService', () => ({
+  runService: { checkAndUpdateRunStatus: jest.fn() },
+  TERMINAL_FINDING_STATUSES: ['evidence_captured', 'completed', 'failed', 'resolved', 'suppressed'],
+}));
+jest.mock('../src/services/queueService', () => ({ addVerifyJob: jest.fn() }));
+jest.mock('../src/services/breaker', () => ({
+  ...jest.requireActual('../src/services/breaker'),
+  getBreakerService: jest.fn(),
+}));
+jest.mock('../src/services/hostConcurrency', () => ({
+  ...jest.requireActual('../src/services/hostConcurrency'),
+  acquireHostSlot: jest.fn(),
+  releaseHostSlot: jest.fn(),
+}));
+jest.mock('../src/services/hostPause', () => ({ getHostPause: jest.fn() }));
+jest.mock('../src/services/politeness', () => ({ waitForCrawlSlot: jest.fn() }));
+jest.mock('../src/services/detectors', () => ({
+  findRuleForDetection: jest.fn().mockReturnValue(null),
+  mostSevereFinding: jest.fn().mockReturnValue(null),
+  runDetectors: jest.fn().mockResolvedValue([]),
+  selectDetectors: jest.fn().mockReturnValue([]),
+}));
+
+type Processor = (job: Job<RenderJobData>, token?: string) => Promise<unknown>;
+
+const target = 'https://shop.example.com';
+
+function createBreaker() {
+  return {
+    acquire: jest.fn(),
+    releaseProbe: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn(),
+    getState: jest.fn().mockResolvedValue('half_open'),
+    getNextProbeETA: jest.fn().mockResolvedValue(60000),
+  };
+}
+
+function createJob(): Job<RenderJobData> {
+  return {
+    id: '1',
+    data: { findingId: 'finding-1', url: `${target}/signup`, targetId: target },
+    moveToDelayed: jest.fn(),
+  } as unknown as Job<RenderJobData>;
+}
+
+function evidenceWithStatus(status: number) {
+  return {
+    url: `${target}/signup`,
+    title: 'Sign up',
+    screenshot: Buffer.from('png'),
+    html: '<html></html>',
+    consoleLogs: [],
+    metadata: { status, loadTime: 120, finalUrl: `${target}/signup` },
+  };
+}
+
+describe('render worker circuit breaker', () => {
+  let processor: Processor;
+  let breaker: ReturnType<typeof createBreaker>;
+  let statuses: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Worker as unknown as jest.Mock).mockImplementation((_queue: string, fn: Processor) => {
+      processor = fn;
+      return { on: jest.fn() };
+    });
+    createRenderWorker();
+
+    breaker = createBreaker();
+    (getBreakerService as jest.Mock).mockReturnValue(breaker);
+    (acquireHostSlot as jest.Mock).mockResolvedValue(true);
+    (getHostPause as jest.Mock).mockResolvedValue(null);
+
+    // Record every finding status the worker writes
+    statuses = [];
+    (db.update as jest.Mock).mockImplementation(() => ({
+      set: (values: { status: string }) => {
+        statuses.push(values.status);
+        return {
+          where: () =>
+            Object.assign(Promise.resolve(), {
+              returning: () => Promise.resolve([{ id: 'finding-1', runId: 'run-1' }]),
+            }),
+        };
+      },
+    }));
+  });
+
+  it('should requeue a job while the circuit is open and load the page as the probe', async () => {
+    const job = createJob();
+    breaker.acquire.mockResolvedValueOnce({ allowed: false, probeLease: null });
+    const before = Date.now();
+
+    await expect(processor(job, 'token')).rejects.toBeInstanceOf(DelayedError);
+
+    expect(browserService.captureEvidence).not.toHaveBeenCalled();
+    expect(statuses).toEqual(['skipped_breaker_open']);
+    expect((job.moveToDelayed as jest.Mock).mock.calls[0][0]).toBeGreaterThanOrEqual(
+      before + 60000
+    );
+    expect(releaseHostSlot).toHaveBeenCalledWith(undefined, 'shop.example.com', 'render:1');
+
+    // Back from the delayed set once the probe is due
+    breaker.acquire.mockResolvedValueOnce({ allowed: true, probeLease: '1700000000000' });
+    (browserService.captureEvidence as jest.Mock).mockResolvedValue(evidenceWithStatus(200));
+
+    await processor(job, 'token');
+
+    expect(breaker.recordSuccess).toHaveBeenCalledWith(target, '1700000000000');
+    expect(statuses).toEqual(['skipped_breaker_open', 'processing', 'evidence_captured']);
+    expect(breaker.releaseProbe).toHaveBeenCalledWith(target, '1700000000000');
+  });
+
+  it('should release the probe lease when the page load does not count', async () => {
+    breaker.acquire.mockResolvedValueOnce({ allowed: true, probeLease: '1700000000000' });
+    (browserService.captureEvidence as jest.Mock).mockResolvedValue(evidenceWithStatus(404));
+
+    await processor(createJob(), 'token');
+
+    expect(breaker.recordSuccess).not.toHaveBeenCalled();
+    expect(breaker.recordFailure).not.toHaveBeenCalled();
+    expect(breaker.releaseProbe).toHaveBeenCalledWith(target, '1700000000000');
+  });
+
+  it('should not take the probe lease for a job deferred by the host cap', async () => {
+    (acquireHostSlot as jest.Mock).mockResolvedValue(false);
+
+    await expect(processor(createJob(), 'token')).rejects.toBeInstanceOf(DelayedError);
+
+    expect(breaker.acquire).not.toHaveBeenCalled();
+    expect(statuses).toEqual([]);
+  });
+});
+
+describe('render worker host pause', () => {
+  let processor: Processor;
+  let updates: Array<Record<string, unknown>>;
+
+  const pause = {
+    host: 'shop.example.com',
+    actor: 'ops',
+    reason: 'outage',
+    pausedAt: '2024-05-01T10:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Worker as unknown as jest.Mock).mockImplementation((_queue: string, fn: Processor) => {
+      processor = fn;
+      return { on: jest.fn() };
+    });
+    createRenderWorker();
+
+    updates = [];
+    (db.update as jest.Mock).mockImplementation(() => ({
+      set: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return {
+          where: () =>
+            Object.assign(Promise.resolve(), {
+              returning: () => Promise.resolve([{ id: 'finding-1', runId: 'run-1' }]),
+            }),
+        };
+      },
+    }));
+  });
+
+  it('should defer a job until a timed pause ends', async () => {
+    const job = createJob();
+    const until = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+    (getHostPause as jest.Mock).mockResolvedValue({ ...pause, until });
+
+    await expect(processor(job, 'token')).rejects.toBeInstanceOf(DelayedError);
+
+    expect(job.moveToDelayed).toHaveBeenCalledWith(new Date(until).getTime(), 'token');
+    expect(acquireHostSlot).not.toHaveBeenCalled();
+    expect(browserService.captureEvidence).not.toHaveBeenCalled();
+    expect(updates).toEqual([]);
+  });
+
+  it('should suppress the finding while a host is paused until unpaused', async () => {
+    const job = createJob();
+    (getHostPause as jest.Mock).mockResolvedValue({ ...pause, until: null });
+
+    await expect(processor(job, 'token')).resolves.toBeNull();
+
+    expect(job.moveToDelayed).not.toHaveBeenCalled();
+    expect(browserService.captureEvidence).not.toHaveBeenCalled();
+    expect(updates).toEqual([
+      expect.objectContaining({
+        status: 'suppressed',
+        metadata: { suppressReason: 'host_paused', pausedBy: 'ops' },
+      }),
+    ]);
+    expect(runService.checkAndUpdateRunStatus).toHaveBeenCalledWith('run-1');
+  });
+});
+
+describe('render worker egress proxy', () => {
+  let processor: Processor;
+
+  const proxy = { id: 'proxy-1:8080', protocol: 'http', host: 'proxy-1', port: 8080 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Worker as unknown as jest.Mock).mockImplementation((_queue: string, fn: Processor) => {
+      processor = fn;
+      return { on: jest.fn() };
+    });
+    createRenderWorker();
+
+    (getBreakerService as jest.Mock).mockReturnValue(null);
+    (acquireHostSlot as jest.Mock).mockResolvedValue(true);
+    (getHostPause as jest.Mock).mockResolvedValue(null);
+    (db.update as jest.Mock).mockImplementation(() => ({
+      set: () => ({
+        where: () =>
+          Object.assign(Promise.resolve(), {
+            returning: () => Promise.resolve([{ id: 'finding-1', runId: 'run-1' }]),
+          }),
+      }),
+    }));
+  });
+
+  it('should run the journey through the proxy the page was captured through', async () => {
+    (browserService.selectProxy as jest.Mock).mockReturnValueOnce(proxy);
+    (browserService.captureEvidence as jest.Mock).mockResolvedValue(evidenceWithStatus(200));
+    (browserService.runJourney as jest.Mock).mockResolvedValue({ steps: [] });
+    const job = createJob();
+    job.data.options = { journey: [{ action: 'click', selector: '#signup' }] };
+
+    await processor(job, 'token');
+
+    expect(browserService.selectProxy).toHaveBeenCalledTimes(1);
+    expect(browserService.captureEvidence).toHaveBeenCalledWith(
+      job.data.url,
+      expect.objectContaining({ proxy })
+    );
+    expect(browserService.runJourney).toHaveBeenCalledWith(
+      job.data.url,
+      job.data.options.journey,
+      expect.objectContaining({ proxy })
+    );
+  });
+});
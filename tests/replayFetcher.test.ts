@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  ReplayFetcher,
+  cassettePath,
+  normalizeRequest,
+  type Cassette,
+} from '../src/services/fetcher/adapters/replay';
+import type { FetchResult, IFetcher } from '../src/services/fetcher/types';
+
+jest.mock('../src/utils/logger');
+
+/**
+ * Upstream that answers with the queued results in turn
+ */
+function createUpstream(results: FetchResult[]): IFetcher & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    async fetch(url) {
+      calls.push(url);
+      return results[Math.min(calls.length - 1, results.length - 1)];
+    },
+    getAdapterName: () => 'fake',
+  };
+}
+
+const ok: FetchResult = {
+  status: 200,
+  body: '<html>ok</html>',
+  headers: { 'content-type': 'text/html' },
+  latencyMs: 120,
+  success: true,
+};
+const unavailable: FetchResult = { status: 503, body: 'down', latencyMs: 80, success: false };
+
+describe('normalizeRequest', () => {
+  it('should share a key between equivalent URLs', () => {
+    const a = normalizeRequest('HTTPS://Shop.Example.com:443/cart?b=2&a=1#top');
+    const b = normalizeRequest('https://shop.example.com/cart?a=1&b=2');
+
+    expect(a).toEqual({ method: 'GET', url: 'https://shop.example.com/cart?a=1&b=2' });
+    expect(cassettePath('/c', a)).toBe(cassettePath('/c', b));
+  });
+
+  it('should tell requests apart by method and body', () => {
+    const get = normalizeRequest('https://shop.example.com/checkout');
+    const post = normalizeRequest('https://shop.example.com/checkout', {
+      method: 'POST',
+      body: 'qty=1',
+    });
+    const otherPost = normalizeRequest('https://shop.example.com/checkout', {
+      method: 'POST',
+      body: 'qty=2',
+    });
+
+    expect(post.bodyHash).toHaveLength(64);
+    expect(new Set([get, post, otherPost].map((request) => cassettePath('/c', request))).size).toBe(
+      3
+    );
+    expect(cassettePath('/c', post)).toMatch(/^\/c\/shop\.example\.com\/post-[0-9a-f]{16}\.json$/);
+  });
+});
+
+describe('ReplayFetcher', () => {
+  let cassetteDir: string;
+
+  beforeEach(async () => {
+    cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(cassetteDir, { recursive: true, force: true });
+  });
+
+  const recorder = (upstream: IFetcher) =>
+    new ReplayFetcher({ upstream, replay: { mode: 'record', cassetteDir } });
+  const player = (simulateLatency = false) =>
+    new ReplayFetcher({ replay: { mode: 'replay', cassetteDir, simulateLatency } });
+
+  it('should record results and replay them without the upstream', async () => {
+    const upstream = createUpstream([ok]);
+    await recorder(upstream).fetch('https://shop.example.com/?utm=1#hero');
+
+    const result = await player().fetch('https://shop.example.com/?utm=1');
+
+    expect(result).toEqual(ok);
+    expect(upstream.calls).toHaveLength(1);
+
+    const file = cassettePath(cassetteDir, normalizeRequest('https://shop.example.com/?utm=1'));
+    const cassette: Cassette = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(cassette.request).toEqual({ method: 'GET', url: 'https://shop.example.com/?utm=1' });
+    expect(cassette.responses[0].recordedAt).toEqual(expect.any(String));
+  });
+
+  it('should replay a recorded sequence in order and repeat the last response', async () => {
+    const fetcher = recorder(createUpstream([unavailable, unavailable, ok]));
+    for (let i = 0; i < 3; i++) {
+      await fetcher.fetch('https://api.example.com/health');
+    }
+
+    const replay = player();
+    const statuses = [];
+    for (let i = 0; i < 4; i++) {
+      statuses.push((await replay.fetch('https://api.example.com/health')).status);
+    }
+    expect(statuses).toEqual([503, 503, 200, 200]);
+
+    replay.rewind();
+    expect((await replay.fetch('https://api.example.com/health')).status).toBe(503);
+  });
+
+  it('should replace a cassette when it is recorded again', async () => {
+    await recorder(createUpstream([unavailable])).fetch('https://shop.example.com/');
+    await recorder(createUpstream([ok])).fetch('https://shop.example.com/');
+
+    const replay = player();
+    expect((await replay.fetch('https://shop.example.com/')).status).toBe(200);
+    expect((await replay.fetch('https://shop.example.com/')).status).toBe(200);
+  });
+
+  it('should keep concurrent recordings of the same request', async () => {
+    const fetcher = recorder(createUpstream([ok]));
+    await Promise.all([1, 2, 3].map(() => fetcher.fetch('https://shop.example.com/')));
+
+    const file = cassettePath(cassetteDir, normalizeRequest('https://shop.example.com/'));
+    const cassette: Cassette = JSON.parse(await fs.readFile(file, 'utf-8'));
+    expect(cassette.responses).toHaveLength(3);
+  });
+
+  it('should fail like a network error when nothing was recorded', async () => {
+    const result = await player().fetch('https://unknown.example.com/');
+
+    expect(result).toMatchObject({ status: null, success: false, latencyMs: 0 });
+    expect(result.error).toBe('No recorded response for GET https://unknown.example.com/');
+  });
+
+  it('should wait for the recorded latency when asked to', async () => {
+    await recorder(createUpstream([{ ...ok, latencyMs: 200 }])).fetch('https://slow.example.com/');
+
+    const start = Date.now();
+    await player(true).fetch('https://slow.example.com/');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+
+    const fastStart = Date.now();
+    await player(false).fetch('https://slow.example.com/');
+    expect(Date.now() - fastStart).toBeLessThan(150);
+  });
+
+  it('should need an upstream adapter to record', () => {
+    expect(() => new ReplayFetcher({ replay: { mode: 'record', cassetteDir } })).toThrow(
+      'upstream'
+    );
+  });
+});
@@ -2,12 +2,19 @@ import {
   isAllowedByRobotsTxt,
   getRobotsTxtRules, 
   clearRobotsCache,
-  getAllCachedRobots 
+  getAllCachedRobots,
+  isPathAllowed,
+  parseRobotsTxt,
 } from '../src/services/robotsService';
+import { BlockedDestinationError, checkDestination } from '../src/services/destinationGuard';
 import { Redis } from 'ioredis';
 
 // Mock dependencies
 jest.mock('../src/utils/logger');
+jest.mock('../src/services/destinationGuard', () => ({
+  ...jest.requireActual('../src/services/destinationGuard'),
+  checkDestination: jest.fn(),
+}));
 
 // Mock global fetch
 global.fetch = jest.fn();
@@ -38,10 +45,7 @@ describe('Robots Service', () => {
 Disallow: /admin
 Allow: /api`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/api/users');
       expect(result).toBe(true);
@@ -51,10 +55,7 @@ Allow: /api`;
       const robotsTxt = `User-agent: *
 Disallow: /admin`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/admin/users');
       expect(result).toBe(false);
@@ -64,40 +65,36 @@ Disallow: /admin`;
       const robotsTxt = `User-agent: *
 Disallow: /private/`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/private/data');
       expect(result).toBe(false);
     });
 
     it('should allow crawling when robots.txt is not found (404)', async () => {
-      mockedFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/any/path');
       expect(result).toBe(true);
     });
 
-    it('should allow crawling when fetch fails', async () => {
+    it('should disallow crawling when robots.txt is unreachable', async () => {
       mockedFetch.mockRejectedValueOnce(new Error('Network error'));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/any/path');
-      expect(result).toBe(true);
+      expect(result).toBe(false);
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        'robots:https://example.com',
+        600,
+        JSON.stringify({ disallowedPaths: ['/'], allowedPaths: [] })
+      );
     });
 
     it('should cache robots.txt rules in Redis', async () => {
       const robotsTxt = `User-agent: *
 Disallow: /admin`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       await isAllowedByRobotsTxt(mockRedis, 'https://example.com/api');
 
@@ -123,10 +120,7 @@ Disallow: /admin`;
     });
 
     it('should handle empty robots.txt', async () => {
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => '',
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(''));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/any/path');
       expect(result).toBe(true);
@@ -137,20 +131,14 @@ Disallow: /admin`;
 Disallow: /api
 Allow: /api/public`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/api/public/data');
       expect(result).toBe(true);
     });
 
     it('should fetch robots.txt with correct URL', async () => {
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => 'User-agent: *\nAllow: /',
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response('User-agent: *\nAllow: /'));
 
       await isAllowedByRobotsTxt(mockRedis, 'https://example.com/deep/path/to/resource');
 
@@ -161,10 +149,7 @@ Allow: /api/public`;
     });
 
     it('should handle URLs with ports', async () => {
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => 'User-agent: *\nAllow: /',
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response('User-agent: *\nAllow: /'));
 
       await isAllowedByRobotsTxt(mockRedis, 'https://example.com:8080/api/users');
 
@@ -181,10 +166,7 @@ Disallow: /
 User-agent: *
 Allow: /`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/any/path', 'UnleakBot');
       expect(result).toBe(true);
@@ -198,10 +180,7 @@ Crawl-delay: 5
 Disallow: /admin
 Allow: /api`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const rules = await getRobotsTxtRules(mockRedis, 'https://example.com/api');
       
@@ -213,20 +192,14 @@ Allow: /api`;
     });
 
     it('should return null when robots.txt not found', async () => {
-      mockedFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
 
       const rules = await getRobotsTxtRules(mockRedis, 'https://example.com/api');
       expect(rules).toBeNull();
     });
 
     it('should cache null result when robots.txt not found', async () => {
-      mockedFetch.mockResolvedValueOnce({
-        ok: false,
-        status: 404,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(null, { status: 404 }));
 
       await getRobotsTxtRules(mockRedis, 'https://example.com/api');
 
@@ -261,10 +234,7 @@ Allow: /api`;
 Crawl-delay: 2
 Disallow: /admin`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const rules = await getRobotsTxtRules(mockRedis, 'https://example.com/api');
       expect(rules?.crawlDelay).toBe(2);
@@ -275,10 +245,7 @@ Disallow: /admin`;
 Crawl-delay: invalid
 Disallow: /admin`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const rules = await getRobotsTxtRules(mockRedis, 'https://example.com/api');
       expect(rules?.crawlDelay).toBeUndefined();
@@ -292,10 +259,7 @@ Disallow: /admin
 # Another comment
 Allow: /api`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       const rules = await getRobotsTxtRules(mockRedis, 'https://example.com/api');
       expect(rules?.disallowedPaths).toEqual(['/admin']);
@@ -376,10 +340,7 @@ Disallow: /admin.html`;
 
       // Need fresh mock for each test
       (mockRedis.get as jest.Mock).mockResolvedValueOnce(null);
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       expect(await isAllowedByRobotsTxt(mockRedis, 'https://example.com/admin.html')).toBe(false);
       
@@ -397,10 +358,7 @@ Disallow: /admin.html`;
 Disallow: /api`;
 
       (mockRedis.get as jest.Mock).mockResolvedValueOnce(null);
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       expect(await isAllowedByRobotsTxt(mockRedis, 'https://test.com/api')).toBe(false);
       
@@ -421,10 +379,7 @@ Disallow: /api`;
 Disallow: /admin/`;
 
       (mockRedis.get as jest.Mock).mockResolvedValueOnce(null);
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       expect(await isAllowedByRobotsTxt(mockRedis, 'https://site.com/admin/')).toBe(false);
       
@@ -440,10 +395,7 @@ Disallow: /admin/`;
       const robotsTxt = `User-agent: *
 Disallow: /`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       expect(await isAllowedByRobotsTxt(mockRedis, 'https://example.com/any/path')).toBe(false);
     });
@@ -452,28 +404,239 @@ Disallow: /`;
       const robotsTxt = `User-agent: *
 Disallow: /search?`;
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => robotsTxt,
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response(robotsTxt));
 
       expect(await isAllowedByRobotsTxt(mockRedis, 'https://example.com/search?q=test')).toBe(false);
     });
   });
 
+  describe('RFC 9309 matching', () => {
+    const rules = (disallowedPaths: string[], allowedPaths: string[] = []) => ({
+      disallowedPaths,
+      allowedPaths,
+    });
+
+    it('should match * wildcards', () => {
+      expect(isPathAllowed('/shop/item.pdf', rules(['/*.pdf']))).toBe(false);
+      expect(isPathAllowed('/cart?session=abc', rules(['/*?session=']))).toBe(false);
+      expect(isPathAllowed('/cart', rules(['/*?session=']))).toBe(true);
+    });
+
+    it('should anchor patterns ending in $', () => {
+      expect(isPathAllowed('/file.pdf', rules(['/*.pdf$']))).toBe(false);
+      expect(isPathAllowed('/file.pdf?download=1', rules(['/*.pdf$']))).toBe(true);
+      expect(isPathAllowed('/', rules(['/$']))).toBe(false);
+      expect(isPathAllowed('/page', rules(['/$']))).toBe(true);
+    });
+
+    it('should match repeated wildcards without backtracking', () => {
+      const hostile = `/*${'a*'.repeat(20)}c$`;
+      const path = `/${'a'.repeat(5000)}`;
+      const started = Date.now();
+
+      expect(isPathAllowed(path, rules([hostile]))).toBe(true);
+      expect(isPathAllowed(`${path}c`, rules([hostile]))).toBe(false);
+      expect(isPathAllowed('/a/b/a/c', rules(['/*a*a*c$']))).toBe(false);
+      expect(Date.now() - started).toBeLessThan(100);
+    });
+
+    it('should let the longest match win', () => {
+      // Longer Disallow beats a shorter Allow
+      expect(isPathAllowed('/api/private/keys', rules(['/api/private'], ['/api']))).toBe(false);
+      expect(isPathAllowed('/api/users', rules(['/api/private'], ['/api']))).toBe(true);
+      // Allow wins a tie
+      expect(isPathAllowed('/page', rules(['/page'], ['/page']))).toBe(true);
+      expect(isPathAllowed('/page', rules(['/p*'], ['/pa']))).toBe(true);
+    });
+
+    it('should compare percent-encoded and raw characters alike', () => {
+      expect(isPathAllowed('/caf%C3%A9/menu', rules(['/café']))).toBe(false);
+      expect(isPathAllowed('/caf%c3%a9/menu', rules(['/caf%C3%A9']))).toBe(false);
+    });
+
+    it('should always allow /robots.txt', () => {
+      expect(isPathAllowed('/robots.txt', rules(['/']))).toBe(true);
+    });
+
+    it('should merge consecutive user-agent lines into one group', () => {
+      const parsed = parseRobotsTxt(`User-agent: OtherBot
+User-agent: UnleakBot
+Disallow: /private
+
+User-agent: *
+Disallow: /`);
+
+      expect(parsed.disallowedPaths).toEqual(['/private']);
+    });
+
+    it('should prefer the group naming our bot over *', () => {
+      const parsed = parseRobotsTxt(`User-agent: *
+Disallow: /
+Crawl-delay: 10
+
+User-agent: unleakbot/2.0
+Disallow: /checkout
+Crawl-delay: 1.5
+
+User-agent: UnleakBot
+Allow: /checkout/status`);
+
+      expect(parsed).toEqual({
+        disallowedPaths: ['/checkout'],
+        allowedPaths: ['/checkout/status'],
+        crawlDelay: 1.5,
+      });
+    });
+
+    it('should ignore rules outside a group and comments, and collect sitemaps', () => {
+      const parsed = parseRobotsTxt(`\uFEFFDisallow: /orphan
+Sitemap: https://example.com/sitemap.xml
+User-agent: * # everyone
+Sitemap: https://example.com/other.xml
+User-agent: UnleakBot
+Disallow: /tmp # scratch
+Disallow:`);
+
+      expect(parsed).toEqual({
+        disallowedPaths: ['/tmp'],
+        allowedPaths: [],
+        sitemaps: ['https://example.com/sitemap.xml', 'https://example.com/other.xml'],
+      });
+    });
+
+    it('should disallow everything when robots.txt returns a server error', async () => {
+      mockedFetch.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+      expect(await isAllowedByRobotsTxt(mockRedis, 'https://example.com/any/path')).toBe(false);
+      expect(mockRedis.setex).toHaveBeenCalledWith(
+        'robots:https://example.com',
+        600,
+        JSON.stringify({ disallowedPaths: ['/'], allowedPaths: [] })
+      );
+    });
+
+    it('should allow everything when robots.txt returns a client error', async () => {
+      mockedFetch.mockResolvedValueOnce(new Response(null, { status: 403 }));
+
+      expect(await isAllowedByRobotsTxt(mockRedis, 'https://example.com/any/path')).toBe(true);
+    });
+
+    it('should only parse the first 500 KiB', async () => {
+      const padding = `# ${'x'.repeat(500 * 1024)}\n`;
+      mockedFetch.mockResolvedValueOnce(
+        new Response(`User-agent: *\nDisallow: /admin\n${padding}Disallow: /late`)
+      );
+
+      const parsed = await getRobotsTxtRules(mockRedis, 'https://example.com/');
+      expect(parsed?.disallowedPaths).toEqual(['/admin']);
+    });
+
+    it('should drop a line cut by the 500 KiB limit', async () => {
+      // The limit falls inside the "€" of the last rule, right after "Disallow: /"
+      const prefix = 'User-agent: *\nDisallow: /admin\n';
+      const rule = 'Disallow: /';
+      const padding = `# ${'x'.repeat(500 * 1024 - prefix.length - rule.length - 4)}\n`;
+      mockedFetch.mockResolvedValueOnce(new Response(`${prefix}${padding}${rule}€uro\n`));
+
+      const parsed = await getRobotsTxtRules(mockRedis, 'https://example.com/');
+      expect(parsed?.disallowedPaths).toEqual(['/admin']);
+    });
+
+    it('should stop reading a body that never ends', async () => {
+      const chunk = new TextEncoder().encode(`# ${'x'.repeat(64 * 1024)}\n`);
+      let pulls = 0;
+      const endless = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('User-agent: *\nDisallow: /admin\n'));
+        },
+        pull(controller) {
+          pulls++;
+          controller.enqueue(chunk);
+        },
+      });
+      mockedFetch.mockResolvedValueOnce(new Response(endless));
+
+      const parsed = await getRobotsTxtRules(mockRedis, 'https://example.com/');
+      expect(parsed?.disallowedPaths).toEqual(['/admin']);
+      expect(pulls).toBeLessThan(20);
+    });
+
+    it('should identify as UnleakBot', async () => {
+      mockedFetch.mockResolvedValueOnce(
+        new Response(`User-agent: UnleakBot\nDisallow: /\n\nUser-agent: *\nAllow: /`)
+      );
+
+      expect(await isAllowedByRobotsTxt(mockRedis, 'https://example.com/page')).toBe(false);
+      expect(mockedFetch).toHaveBeenCalledWith(
+        'https://example.com/robots.txt',
+        expect.objectContaining({ headers: { 'User-Agent': 'UnleakBot/1.0' } })
+      );
+    });
+  });
+
+  describe('Destination guard', () => {
+    const redirectTo = (location: string) =>
+      new Response(null, { status: 301, headers: { location } });
+
+    it('should not fetch robots.txt from a blocked host', async () => {
+      (checkDestination as jest.Mock).mockRejectedValueOnce(
+        new BlockedDestinationError('http://127.0.0.1/robots.txt', 'loopback')
+      );
+
+      expect(await getRobotsTxtRules(mockRedis, 'http://127.0.0.1/')).toBeNull();
+      expect(mockedFetch).not.toHaveBeenCalled();
+    });
+
+    it('should check every redirect hop and stop at an internal address', async () => {
+      (checkDestination as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(
+          new BlockedDestinationError('http://169.254.169.254/robots.txt', 'metadata')
+        );
+      mockedFetch.mockResolvedValueOnce(redirectTo('http://169.254.169.254/robots.txt'));
+
+      expect(await getRobotsTxtRules(mockRedis, 'https://example.com/')).toBeNull();
+      expect(mockedFetch).toHaveBeenCalledTimes(1);
+      expect(mockedFetch).toHaveBeenCalledWith(
+        'https://example.com/robots.txt',
+        expect.objectContaining({ redirect: 'manual' })
+      );
+      expect(checkDestination).toHaveBeenLastCalledWith('http://169.254.169.254/robots.txt');
+    });
+
+    it('should follow a relative redirect to the rules', async () => {
+      mockedFetch
+        .mockResolvedValueOnce(redirectTo('/robots-live.txt'))
+        .mockResolvedValueOnce(new Response('User-agent: *\nDisallow: /admin'));
+
+      const parsed = await getRobotsTxtRules(mockRedis, 'https://example.com/');
+      expect(parsed?.disallowedPaths).toEqual(['/admin']);
+      expect(checkDestination).toHaveBeenLastCalledWith('https://example.com/robots-live.txt');
+    });
+
+    it('should treat more than five redirects as unavailable', async () => {
+      for (let i = 0; i < 6; i++) {
+        mockedFetch.mockResolvedValueOnce(redirectTo(`/hop-${i}`));
+      }
+
+      expect(await getRobotsTxtRules(mockRedis, 'https://example.com/')).toBeNull();
+      expect(mockedFetch).toHaveBeenCalledTimes(6);
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle fetch timeout', async () => {
       mockedFetch.mockRejectedValueOnce(new Error('AbortError'));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/api');
-      expect(result).toBe(true); // Allow on timeout
+      expect(result).toBe(false); // Unreachable: disallow all (RFC 9309)
     });
 
     it('should handle network errors', async () => {
       mockedFetch.mockRejectedValueOnce({ code: 'ECONNREFUSED' });
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/api');
-      expect(result).toBe(true); // Allow on error
+      expect(result).toBe(false); // Unreachable: disallow all (RFC 9309)
     });
 
     it('should handle invalid URLs gracefully', async () => {
@@ -484,10 +647,7 @@ Disallow: /search?`;
     it('should handle corrupt cached data', async () => {
       (mockRedis.get as jest.Mock).mockResolvedValueOnce('invalid json');
 
-      mockedFetch.mockResolvedValueOnce({
-        ok: true,
-        text: async () => 'User-agent: *\nDisallow: /admin',
-      } as Response);
+      mockedFetch.mockResolvedValueOnce(new Response('User-agent: *\nDisallow: /admin'));
 
       const result = await isAllowedByRobotsTxt(mockRedis, 'https://example.com/api');
       expect(result).toBe(true); // Should fetch fresh data
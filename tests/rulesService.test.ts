@@ -4,6 +4,7 @@ import {
   getEffectiveCooldown,
   getEffectiveLatencyThreshold,
   getEffectiveRobotsRespect,
+  getEffectiveBreakerSettings,
   isInMaintenanceWindow,
   shouldSuppressDuringMaintenance,
 } from '../src/services/rulesService';
@@ -132,6 +133,79 @@ describe('Rules Service', () => {
         loadRulesConfig(testConfigPath);
       }).toThrow('"start" must be before "end"');
     });
+
+    it('should throw error for an invalid journey step', () => {
+      const invalidConfig = {
+        ...validConfig,
+        rules: [
+          {
+            id: 'checkout',
+            pattern: '.*',
+            journey: [{ action: 'click', selector: '#buy' }, { action: 'fill', selector: '#email' }],
+          },
+        ],
+      };
+      fs.writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+      expect(() => {
+        loadRulesConfig(testConfigPath);
+      }).toThrow('Rule "checkout" journey step 1 (fill) must have a string "value"');
+    });
+
+    it('should throw error for unknown devices', () => {
+      const invalidConfig = {
+        ...validConfig,
+        rules: [{ id: 'mobile', pattern: '.*', devices: ['iPhone 13', 'Nokia 3310'] }],
+      };
+      fs.writeFileSync(testConfigPath, JSON.stringify(invalidConfig));
+      expect(() => {
+        loadRulesConfig(testConfigPath);
+      }).toThrow('Rule "mobile" has unknown devices: Nokia 3310');
+    });
+
+    it('should throw error for invalid crawl settings', () => {
+      fs.writeFileSync(
+        testConfigPath,
+        JSON.stringify({ ...validConfig, rules: [{ id: 'shop', pattern: '.*', crawlBurst: 0 }] })
+      );
+      expect(() => loadRulesConfig(testConfigPath)).toThrow(
+        'Rule "shop" crawlBurst must be a positive integer'
+      );
+
+      fs.writeFileSync(
+        testConfigPath,
+        JSON.stringify({
+          ...validConfig,
+          defaults: { ...validConfig.defaults, crawlDelaySeconds: -1 },
+        })
+      );
+      expect(() => loadRulesConfig(testConfigPath)).toThrow(
+        'defaults.crawlDelaySeconds must be a non-negative number'
+      );
+    });
+
+    it('should throw error for invalid breaker settings', () => {
+      fs.writeFileSync(
+        testConfigPath,
+        JSON.stringify({
+          ...validConfig,
+          rules: [{ id: 'shop', pattern: '.*', breaker: { failThreshold: 0 } }],
+        })
+      );
+      expect(() => loadRulesConfig(testConfigPath)).toThrow(
+        'Rule "shop" breaker.failThreshold must be a positive integer'
+      );
+
+      fs.writeFileSync(
+        testConfigPath,
+        JSON.stringify({
+          ...validConfig,
+          defaults: { ...validConfig.defaults, breaker: { failureRateThreshold: 50 } },
+        })
+      );
+      expect(() => loadRulesConfig(testConfigPath)).toThrow(
+        'defaults.breaker.failureRateThreshold must be a number between 0 and 1'
+      );
+    });
   });
 
   describe('findMatchingRule', () => {
@@ -227,6 +301,34 @@ describe('Rules Service', () => {
     });
   });
 
+  describe('getEffectiveBreakerSettings', () => {
+    it('should merge rule settings over the defaults field by field', () => {
+      fs.writeFileSync(
+        testConfigPath,
+        JSON.stringify({
+          defaults: { ...validConfig.defaults, breaker: { failThreshold: 5, openSeconds: 600 } },
+          rules: [
+            { id: 'checkout', pattern: '/checkout', breaker: { failThreshold: 2, windowSize: 20 } },
+            { id: 'default-web', pattern: '.*' },
+          ],
+        })
+      );
+      loadRulesConfig(testConfigPath);
+
+      expect(
+        getEffectiveBreakerSettings(findMatchingRule('https://shop.example.com/checkout'))
+      ).toEqual({
+        failThreshold: 2,
+        openSeconds: 600,
+        windowSize: 20,
+      });
+      expect(getEffectiveBreakerSettings(findMatchingRule('https://shop.example.com/'))).toEqual({
+        failThreshold: 5,
+        openSeconds: 600,
+      });
+    });
+  });
+
   describe('isInMaintenanceWindow', () => {
     beforeEach(() => {
       fs.writeFileSync(testConfigPath, JSON.stringify(validConfig));
@@ -0,0 +1,220 @@
+import { runService } from '../src/services/runService';
+import { addCrawlJob, addScanJob } from '../src/services/queueService';
+import { expandSeedUrl } from '../src/services/sitemapService';
+import { claimCrawlUrl, trackCrawlJob } from '../src/services/crawlerService';
+import { db } from '../src/db';
+
+jest.mock('../src/utils/logger');
+jest.mock('../src/config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('nanoid', () => ({ nanoid: () => 'test-id-123' }));
+jest.mock('../src/db', () => ({ db: { insert: jest.fn(), update: jest.fn(), select: jest.fn() } }));
+jest.mock('../src/services/queueService', () => ({
+  addScanJob: jest.fn(),
+  addCrawlJob: jest.fn(),
+}));
+jest.mock('../src/services/sitemapService', () => ({ expandSeedUrl: jest.fn() }));
+jest.mock('../src/services/crawlerService', () => ({
+  ...jest.requireActual('../src/services/crawlerService'),
+  claimCrawlUrl: jest.fn(),
+  trackCrawlJob: jest.fn(),
+  settleCrawlJob: jest.fn(),
+}));
+
+describe('RunService.addDiscoveredUrl', () => {
+  let runUpdates: Array<Record<string, unknown>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.insert as jest.Mock).mockReturnValue({
+      values: () => ({
+        returning: () => Promise.resolve([{ id: 'finding-2', runId: 'run-1' }]),
+      }),
+    });
+    runUpdates = [];
+    (db.update as jest.Mock).mockReturnValue({
+      set: (values: Record<string, unknown>) => {
+        runUpdates.push(values);
+        return { where: () => Promise.resolve() };
+      },
+    });
+    (addScanJob as jest.Mock).mockResolvedValue({ id: 'job-2' });
+  });
+
+  it('should put a run that was marked completed back in progress', async () => {
+    const result = await runService.addDiscoveredUrl('run-1', 'https://shop.example.com/signup');
+
+    expect(result).toEqual({ finding: { id: 'finding-2', runId: 'run-1' }, jobId: 'job-2' });
+    expect(addScanJob).toHaveBeenCalledWith(
+      expect.objectContaining({ findingId: 'finding-2', url: 'https://shop.example.com/signup' })
+    );
+    expect(runUpdates).toEqual([
+      expect.objectContaining({ status: 'in_progress', completedAt: null }),
+    ]);
+  });
+});
+
+describe('RunService crawl runs', () => {
+  let runUpdates: Array<Record<string, unknown>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.insert as jest.Mock).mockReturnValue({
+      values: (values: Record<string, unknown>) => ({
+        returning: () =>
+          Promise.resolve([{ id: 'run-1', runId: 'run-1', url: values.url, ...values }]),
+      }),
+    });
+    runUpdates = [];
+    (db.update as jest.Mock).mockReturnValue({
+      set: (values: Record<string, unknown>) => {
+        runUpdates.push(values);
+        return { where: () => Promise.resolve() };
+      },
+    });
+    (addScanJob as jest.Mock).mockResolvedValue({ id: 'scan-job' });
+    (addCrawlJob as jest.Mock).mockResolvedValue({ id: 'crawl-job' });
+  });
+
+  it('should queue the seeds for the crawl worker instead of expanding them', async () => {
+    const result = await runService.createRun({
+      urls: ['https://shop.example.com/'],
+      payload: { maxUrls: 20, maxDepth: 1 },
+      runType: 'crawl',
+    });
+
+    expect(expandSeedUrl).not.toHaveBeenCalled();
+    expect(addScanJob).not.toHaveBeenCalled();
+    expect(addCrawlJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        runId: 'run-1',
+        url: 'https://shop.example.com/',
+        seed: 'https://shop.example.com/',
+        depth: 0,
+        sitemapMaxUrls: 20,
+      })
+    );
+    expect(result.run).toMatchObject({
+      status: 'in_progress',
+      urlCount: 0,
+      payload: expect.objectContaining({
+        seeds: ['https://shop.example.com/'],
+        sitemapDiscovery: [],
+      }),
+    });
+    expect(result.jobIds).toEqual(['crawl-job']);
+    expect(trackCrawlJob).toHaveBeenCalledWith(undefined, 'run-1');
+  });
+
+  it('should add the sitemap pages of a seed the run has not seen yet', async () => {
+    (expandSeedUrl as jest.Mock).mockResolvedValue({
+      seed: 'https://shop.example.com/',
+      urls: [
+        'https://shop.example.com/',
+        'https://shop.example.com/signup',
+        'https://shop.example.com/contact',
+      ],
+      sitemaps: ['https://shop.example.com/sitemap.xml'],
+      skipped: { offSite: 1, allowList: 0, robots: 0 },
+      truncated: false,
+    });
+    (claimCrawlUrl as jest.Mock)
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false)
+      .mockResolvedValueOnce(true);
+
+    const added = await runService.expandCrawlSeed('run-1', 'https://shop.example.com/', 20);
+
+    expect(added).toBe(2);
+    expect(expandSeedUrl).toHaveBeenCalledWith(undefined, 'https://shop.example.com/', {
+      maxUrls: 20,
+      maxFiles: expect.any(Number),
+    });
+    expect((addScanJob as jest.Mock).mock.calls.map(([data]) => data.url)).toEqual([
+      'https://shop.example.com/',
+      'https://shop.example.com/contact',
+    ]);
+    expect(runUpdates).toHaveLength(3);
+    expect(runUpdates[2]).toHaveProperty('payload');
+  });
+
+  it('should still scan a seed whose sitemap discovery fails', async () => {
+    (expandSeedUrl as jest.Mock).mockRejectedValue(new Error('socket hang up'));
+    (claimCrawlUrl as jest.Mock).mockResolvedValue(true);
+
+    expect(await runService.expandCrawlSeed('run-1', 'https://shop.example.com/', 20)).toBe(1);
+    expect(addScanJob).toHaveBeenCalledWith(
+      expect.objectContaining({ url: 'https://shop.example.com/' })
+    );
+  });
+});
+
+describe('RunService.checkAndUpdateRunStatus', () => {
+  const withFindings = (...statuses: string[]) =>
+    (db.select as jest.Mock).mockReturnValue({
+      from: () => ({ where: () => Promise.resolve(statuses.map((status) => ({ status }))) }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.update as jest.Mock).mockReturnValue({
+      set: () => ({ where: () => Promise.resolve() }),
+    });
+  });
+
+  it('should complete a run whose remaining findings were suppressed', async () => {
+    withFindings('evidence_captured', 'suppressed');
+
+    await expect(runService.checkAndUpdateRunStatus('run-1')).resolves.toBe(true);
+  });
+
+  it('should keep a run open while a render waits for the circuit breaker', async () => {
+    withFindings('evidence_captured', 'skipped_breaker_open');
+
+    await expect(runService.checkAndUpdateRunStatus('run-1')).resolves.toBe(false);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('RunService.finishCrawl', () => {
+  let runUpdates: Array<Record<string, unknown>>;
+
+  const withFinding = (...rows: Array<{ id: string }>) =>
+    (db.select as jest.Mock).mockReturnValue({
+      from: () => ({ where: () => ({ limit: () => Promise.resolve(rows) }) }),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runUpdates = [];
+    (db.update as jest.Mock).mockReturnValue({
+      set: (values: Record<string, unknown>) => {
+        runUpdates.push(values);
+        return { where: () => Promise.resolve() };
+      },
+    });
+  });
+
+  it('should complete a crawl run that added no pages', async () => {
+    withFinding();
+
+    await runService.finishCrawl('run-1');
+
+    expect(runUpdates).toEqual([
+      expect.objectContaining({
+        status: 'completed',
+        completedAt: expect.any(Date),
+        findingCount: 0,
+      }),
+    ]);
+  });
+
+  it('should leave a run with findings to its findings', async () => {
+    withFinding({ id: 'finding-1' });
+    const check = jest.spyOn(runService, 'checkAndUpdateRunStatus').mockResolvedValueOnce(false);
+
+    await runService.finishCrawl('run-1');
+
+    expect(check).toHaveBeenCalledWith('run-1');
+    expect(runUpdates).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { DelayedError, Worker, type Job } from 'bullmq';
+import { createScanWorker, type ScanJobData } from '../src/workers/scanWorker';
+import { addRenderJob } from '../src/services/queueService';
+import { runService } from '../src/services/runService';
+import { getHostPause } from '../src/services/hostPause';
+import { db } from '../src/db';
+
+jest.mock('../src/utils/logger');
+jest.mock('bullmq', () => ({ ...jest.requireActual('bullmq'), Worker: jest.fn() }));
+jest.mock('../src/config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../src/db', () => ({ db: { select: jest.fn(), update: jest.fn() } }));
+jest.mock('../src/services/queueService', () => ({ addRenderJob: jest.fn() }));
+jest.mock('../src/services/runService', () => ({
+  runService: { checkAndUpdateRunStatus: jest.fn() },
+}));
+jest.mock('../src/services/rulesService', () => ({ findMatchingRule: jest.fn() }));
+jest.mock('../src/services/allowListService', () => ({ isUrlAllowed: () => true }));
+jest.mock('../src/services/hostPause', () => ({ getHostPause: jest.fn() }));
+jest.mock('../src/services/politeness', () => ({ waitForCrawlSlot: jest.fn() }));
+jest.mock('../src/services/fetcher/index', () => ({
+  createFetcher: jest.fn(),
+  getFetcherConfigFromEnv: jest.fn(),
+}));
+
+type Processor = (job: Job<ScanJobData>, token?: string) => Promise<unknown>;
+
+const pause = {
+  host: 'shop.example.com',
+  actor: 'ops',
+  reason: 'outage',
+  pausedAt: '2024-05-01T10:00:00.000Z',
+};
+
+function createJob(): Job<ScanJobData> {
+  return {
+    id: '1',
+    data: { findingId: 'finding-1', url: 'https://shop.example.com/checkout' },
+    moveToDelayed: jest.fn(),
+  } as unknown as Job<ScanJobData>;
+}
+
+describe('scan worker host pause', () => {
+  let processor: Processor;
+  let updates: Array<Record<string, unknown>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Worker as unknown as jest.Mock).mockImplementation((_queue: string, fn: Processor) => {
+      processor = fn;
+      return { on: jest.fn() };
+    });
+    createScanWorker();
+
+    updates = [];
+    (db.update as jest.Mock).mockImplementation(() => ({
+      set: (values: Record<string, unknown>) => {
+        updates.push(values);
+        return { where: () => Promise.resolve() };
+      },
+    }));
+    (db.select as jest.Mock).mockReturnValue({
+      from: () => ({ where: () => Promise.resolve([{ runId: 'run-1' }]) }),
+    });
+  });
+
+  it('should defer a job until a timed pause ends', async () => {
+    const job = createJob();
+    const until = new Date(Date.now() + 30 * 60 * 1000).toISOString();
+    (getHostPause as jest.Mock).mockResolvedValue({ ...pause, until });
+
+    await expect(processor(job, 'token')).rejects.toBeInstanceOf(DelayedError);
+
+    expect(job.moveToDelayed).toHaveBeenCalledWith(new Date(until).getTime(), 'token');
+    expect(updates).toEqual([]);
+  });
+
+  it('should suppress the finding and re-check its run while a host is paused until unpaused', async () => {
+    (getHostPause as jest.Mock).mockResolvedValue({ ...pause, until: null });
+
+    await processor(createJob(), 'token');
+
+    expect(updates).toContainEqual(
+      expect.objectContaining({
+        status: 'suppressed',
+        metadata: { suppressReason: 'host_paused', pausedBy: 'ops' },
+      })
+    );
+    expect(addRenderJob).not.toHaveBeenCalled();
+    expect(runService.checkAndUpdateRunStatus).toHaveBeenCalledWith('run-1');
+  });
+});
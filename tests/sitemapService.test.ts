@@ -0,0 +1,201 @@
+import http from 'http';
+import zlib from 'zlib';
+import type { AddressInfo } from 'net';
+import type { Redis } from 'ioredis';
+import { expandSeedUrl, parseSitemap } from '../src/services/sitemapService';
+import { getRobotsTxtRules, isAllowedByRobotsTxt } from '../src/services/robotsService';
+import { isUrlAllowed } from '../src/services/allowListService';
+
+jest.mock('../src/utils/logger');
+jest.mock('../src/services/destinationGuard', () => ({
+  checkDestination: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../src/services/robotsService', () => ({
+  ROBOTS_USER_AGENT: 'UnleakBot',
+  getRobotsTxtRules: jest.fn(),
+  isAllowedByRobotsTxt: jest.fn(),
+}));
+jest.mock('../src/services/allowListService', () => ({
+  isUrlAllowed: jest.fn(),
+}));
+jest.mock('../src/services/rulesService', () => ({
+  findMatchingRule: jest.fn().mockReturnValue(null),
+  getEffectiveRobotsRespect: jest.fn().mockReturnValue(true),
+}));
+
+const mockRedis = {} as Redis;
+const mockRobotsRules = getRobotsTxtRules as jest.Mock;
+const mockRobotsAllowed = isAllowedByRobotsTxt as jest.Mock;
+const mockAllowed = isUrlAllowed as jest.Mock;
+
+const urlset = (locs: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${locs.map((loc) => `  <url><loc>${loc}</loc><lastmod>2026-01-01</lastmod></url>`).join('\n')}
+</urlset>`;
+
+const sitemapIndex = (locs: string[]) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${locs.map((loc) => `  <sitemap><loc>${loc}</loc></sitemap>`).join('\n')}
+</sitemapindex>`;
+
+describe('parseSitemap', () => {
+  it('should read page locations from a urlset', () => {
+    const xml = `<urlset xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+  <url>
+    <loc> https://shop.example.com/?a=1&amp;b=2 </loc>
+    <image:image><image:loc>https://cdn.example.com/a.png</image:loc></image:image>
+  </url>
+  <url><loc><![CDATA[https://shop.example.com/checkout]]></loc></url>
+</urlset>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      type: 'urlset',
+      locs: ['https://shop.example.com/?a=1&b=2', 'https://shop.example.com/checkout'],
+    });
+  });
+
+  it('should recognise sitemap indexes', () => {
+    expect(parseSitemap(sitemapIndex(['https://shop.example.com/a.xml']))).toEqual({
+      type: 'sitemapindex',
+      locs: ['https://shop.example.com/a.xml'],
+    });
+  });
+});
+
+describe('expandSeedUrl', () => {
+  let server: http.Server;
+  let origin: string;
+  let endlessBytes = 0;
+  const served: string[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      served.push(req.url!);
+      const page = (path: string) => `${origin}${path}`;
+      switch (req.url) {
+        case '/sitemap_index.xml':
+          res.end(sitemapIndex([page('/pages.xml.gz'), page('/moved.xml')]));
+          break;
+        case '/pages.xml.gz':
+          res.setHeader('content-type', 'application/gzip');
+          res.end(
+            zlib.gzipSync(
+              urlset([
+                page('/'),
+                page('/contact'),
+                page('/private/admin'),
+                'https://other.example.com/page',
+              ])
+            )
+          );
+          break;
+        case '/moved.xml':
+          res.writeHead(301, { location: '/blog.xml' });
+          res.end();
+          break;
+        case '/blog.xml':
+          res.end(urlset([page('/blog/1'), page('/blog/2'), page('/drafts/3')]));
+          break;
+        case '/sitemap.xml':
+          res.end(urlset([page('/contact'), page('/signup')]));
+          break;
+        case '/endless.xml': {
+          // Chunked, so no Content-Length announces the size
+          const chunk = Buffer.alloc(1024 * 1024, ' ');
+          const write = () => {
+            while (!res.destroyed && endlessBytes < 200 * 1024 * 1024) {
+              endlessBytes += chunk.length;
+              if (!res.write(chunk)) {
+                res.once('drain', write);
+                return;
+              }
+            }
+            res.end();
+          };
+          res.write(urlset([page('/endless')]).replace('</urlset>', ''));
+          write();
+          break;
+        }
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    served.length = 0;
+    mockRobotsRules.mockResolvedValue({
+      disallowedPaths: ['/private'],
+      allowedPaths: [],
+      sitemaps: [`${origin}/sitemap_index.xml`],
+    });
+    mockRobotsAllowed.mockImplementation(async (_redis, url: string) => !url.includes('/private'));
+    mockAllowed.mockImplementation((url: string) => !url.includes('/drafts/'));
+  });
+
+  it('should follow robots.txt sitemaps, indexes, gzip and redirects', async () => {
+    const expansion = await expandSeedUrl(mockRedis, `${origin}/`, { maxUrls: 50, maxFiles: 10 });
+
+    expect(expansion.urls).toEqual([
+      `${origin}/`,
+      `${origin}/contact`,
+      `${origin}/signup`,
+      `${origin}/blog/1`,
+      `${origin}/blog/2`,
+    ]);
+    expect(expansion.sitemaps).toEqual([
+      `${origin}/sitemap_index.xml`,
+      `${origin}/sitemap.xml`,
+      `${origin}/pages.xml.gz`,
+      `${origin}/moved.xml`,
+    ]);
+    expect(expansion.skipped).toEqual({ offSite: 1, allowList: 1, robots: 1 });
+    expect(expansion.truncated).toBe(false);
+  });
+
+  it('should stop at the URL cap', async () => {
+    const expansion = await expandSeedUrl(mockRedis, `${origin}/`, { maxUrls: 3, maxFiles: 10 });
+
+    expect(expansion.urls).toEqual([`${origin}/`, `${origin}/contact`, `${origin}/signup`]);
+    expect(expansion.truncated).toBe(true);
+  });
+
+  it('should stop at the sitemap file cap', async () => {
+    const expansion = await expandSeedUrl(mockRedis, `${origin}/`, { maxUrls: 50, maxFiles: 1 });
+
+    expect(expansion.urls).toEqual([`${origin}/`]);
+    expect(expansion.sitemaps).toEqual([`${origin}/sitemap_index.xml`]);
+    expect(expansion.truncated).toBe(true);
+  });
+
+  it('should stop reading a sitemap past 50 MB without a Content-Length', async () => {
+    mockRobotsRules.mockResolvedValue({
+      disallowedPaths: [],
+      allowedPaths: [],
+      sitemaps: [`${origin}/endless.xml`],
+    });
+
+    const expansion = await expandSeedUrl(mockRedis, `${origin}/`, { maxUrls: 50, maxFiles: 1 });
+
+    expect(expansion.urls).toEqual([`${origin}/`]);
+    expect(endlessBytes).toBeLessThan(100 * 1024 * 1024);
+  });
+
+  it('should fall back to /sitemap.xml without robots.txt', async () => {
+    mockRobotsRules.mockResolvedValue(null);
+
+    const expansion = await expandSeedUrl(mockRedis, `${origin}/`, { maxUrls: 50, maxFiles: 10 });
+
+    expect(expansion.urls).toEqual([`${origin}/`, `${origin}/contact`, `${origin}/signup`]);
+    expect(served).toEqual(['/sitemap.xml']);
+  });
+});
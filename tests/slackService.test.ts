@@ -0,0 +1,65 @@
+import axios from 'axios';
+import { config } from '../src/config';
+import { deliverSlackAlert, sendSlackAlert, type SlackAlert } from '../src/services/slackService';
+
+// Mock logger, metrics and axios
+jest.mock('../src/utils/logger');
+jest.mock('../src/utils/metrics');
+jest.mock('axios');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('Slack Service', () => {
+  const alert: SlackAlert = {
+    findingId: '3f1c2a9e-7d4b-4c8e-9a61-2b5d8e0f4c17',
+    url: 'https://example.com/checkout',
+    errorType: 'form.submit_blocked',
+    title: 'Form submission blocked on example.com (waf_block)',
+    error: 'Sorry, you have been blocked',
+  };
+
+  const originalWebhookUrl = config.slackWebhookUrl;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.slackWebhookUrl = 'https://hooks.slack.test/services/T000/B000/XXX';
+  });
+
+  afterAll(() => {
+    config.slackWebhookUrl = originalWebhookUrl;
+  });
+
+  describe('deliverSlackAlert', () => {
+    it('should post the alert and report it as sent', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: 'ok' });
+
+      await expect(deliverSlackAlert(alert)).resolves.toBe('sent');
+
+      const [url, payload] = mockedAxios.post.mock.calls[0];
+      expect(url).toBe(config.slackWebhookUrl);
+      expect((payload as any).text).toContain('Form Submission Blocked');
+      expect(JSON.stringify(payload)).toContain(`/admin/findings/${alert.findingId}`);
+    });
+
+    it('should skip delivery when no webhook is configured', async () => {
+      config.slackWebhookUrl = '';
+
+      await expect(deliverSlackAlert(alert)).resolves.toBe('skipped');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should throw when Slack rejects the alert', async () => {
+      mockedAxios.post.mockRejectedValue(new Error('Request failed with status code 503'));
+
+      await expect(deliverSlackAlert(alert)).rejects.toThrow('503');
+    });
+  });
+
+  describe('sendSlackAlert', () => {
+    it('should not throw when Slack rejects the alert', async () => {
+      mockedAxios.post.mockRejectedValue(new Error('Request failed with status code 503'));
+
+      await expect(sendSlackAlert(alert)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import axios from 'axios';
+import {
+  createCrmAdapter,
+  HttpCrmAdapter,
+  MockCrmAdapter,
+  type VerificationRequest,
+} from '../src/services/verifier';
+
+// Mock logger and axios
+jest.mock('../src/utils/logger');
+jest.mock('axios');
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('CRM verifier', () => {
+  const request: VerificationRequest = {
+    findingId: 'finding-1',
+    runId: 'run-1',
+    url: 'https://shop.example.com/checkout',
+    findingType: 'form.submit_blocked',
+    severity: 'high',
+    detectedValue: 'Sorry, you have been blocked',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createCrmAdapter', () => {
+    it('should create the requested adapter', () => {
+      expect(createCrmAdapter({ adapter: 'http' })).toBeInstanceOf(HttpCrmAdapter);
+      expect(createCrmAdapter({ adapter: 'mock' })).toBeInstanceOf(MockCrmAdapter);
+    });
+
+    it('should fall back to the mock adapter', () => {
+      expect(createCrmAdapter({ adapter: 'unknown' as any })).toBeInstanceOf(MockCrmAdapter);
+    });
+  });
+
+  describe('MockCrmAdapter', () => {
+    it('should verify findings on unknown hosts', async () => {
+      const result = await new MockCrmAdapter().verify(request);
+
+      expect(result.verified).toBe(true);
+      expect(result.falsePositive).toBe(false);
+      expect(result.adapter).toBe('mock');
+    });
+
+    it('should flag configured hosts as false positives', async () => {
+      const adapter = new MockCrmAdapter({ falsePositiveHosts: ['Shop.Example.com'] });
+      const result = await adapter.verify(request);
+
+      expect(result.verified).toBe(false);
+      expect(result.falsePositive).toBe(true);
+      expect(result.reason).toContain('shop.example.com');
+    });
+  });
+
+  describe('HttpCrmAdapter', () => {
+    it('should post the finding to the CRM and record the response', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { verified: true } });
+
+      const adapter = new HttpCrmAdapter({ url: 'http://crm.test/verify', timeoutMs: 1000 });
+      const result = await adapter.verify(request);
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'http://crm.test/verify',
+        request,
+        expect.objectContaining({ timeout: 1000 })
+      );
+      expect(result).toMatchObject({
+        verified: true,
+        falsePositive: false,
+        adapter: 'http',
+        raw: { verified: true },
+      });
+    });
+
+    it('should treat unverified findings as false positives unless told otherwise', async () => {
+      mockedAxios.post.mockResolvedValueOnce({
+        status: 200,
+        data: { verified: false, reason: 'Intentional geo-block' },
+      });
+      mockedAxios.post.mockResolvedValueOnce({
+        status: 200,
+        data: { verified: false, falsePositive: false },
+      });
+
+      const adapter = new HttpCrmAdapter();
+
+      expect(await adapter.verify(request)).toMatchObject({
+        verified: false,
+        falsePositive: true,
+        reason: 'Intentional geo-block',
+      });
+      expect(await adapter.verify(request)).toMatchObject({
+        verified: false,
+        falsePositive: false,
+      });
+    });
+
+    it('should reject malformed CRM responses', async () => {
+      mockedAxios.post.mockResolvedValue({ status: 200, data: { ok: true } });
+
+      await expect(new HttpCrmAdapter().verify(request)).rejects.toThrow('"verified"');
+    });
+  });
+});
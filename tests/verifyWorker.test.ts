@@ -0,0 +1,87 @@
+import { Worker, type Job } from 'bullmq';
+import { createVerifyWorker, type VerifyJobData } from '../src/workers/verifyWorker';
+import { verifyFinding } from '../src/services/verifier/verifyFinding';
+import { checkSuppression } from '../src/services/rulesEngine';
+import { alertService } from '../src/services/alertService';
+import { db } from '../src/db';
+
+jest.mock('../src/utils/logger');
+jest.mock('bullmq', () => ({ ...jest.requireActual('bullmq'), Worker: jest.fn() }));
+jest.mock('../src/config/redis', () => ({ getRedisClient: jest.fn() }));
+jest.mock('../src/db', () => ({ db: { select: jest.fn(), update: jest.fn() } }));
+jest.mock('../src/services/verifier/verifyFinding', () => ({ verifyFinding: jest.fn() }));
+jest.mock('../src/services/rulesEngine', () => ({ checkSuppression: jest.fn() }));
+jest.mock('../src/services/alertService', () => ({
+  alertService: { enqueueAlert: jest.fn() },
+}));
+
+type Processor = (job: Job<VerifyJobData>) => Promise<unknown>;
+
+const finding = {
+  id: 'finding-1',
+  url: 'https://shop.example.com/checkout',
+  findingType: 'http_5xx',
+  detectedValue: '503',
+  metadata: {},
+};
+
+function createJob(data: VerifyJobData): Job<VerifyJobData> {
+  return { id: '1', data } as unknown as Job<VerifyJobData>;
+}
+
+describe('verify worker', () => {
+  let processor: Processor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (Worker as unknown as jest.Mock).mockImplementation((_queue: string, fn: Processor) => {
+      processor = fn;
+      return { on: jest.fn() };
+    });
+    createVerifyWorker();
+
+    (db.select as jest.Mock).mockReturnValue({
+      from: () => ({ where: () => ({ limit: () => Promise.resolve([finding]) }) }),
+    });
+    (verifyFinding as jest.Mock).mockResolvedValue({
+      finding,
+      response: { verified: true, falsePositive: false },
+    });
+    (checkSuppression as jest.Mock).mockResolvedValue({
+      suppressed: false,
+      fingerprint: 'fp-render',
+    });
+  });
+
+  it('should check suppression before alerting on a verified finding', async () => {
+    const result = await processor(createJob({ findingId: 'finding-1' }));
+
+    expect(result).toMatchObject({ verified: true, alerted: true });
+    expect(checkSuppression).toHaveBeenCalled();
+    expect(alertService.enqueueAlert).toHaveBeenCalledWith(finding, { fingerprint: 'fp-render' });
+  });
+
+  it('should alert with the details of a finding the fetcher already cleared', async () => {
+    const alert = { fingerprint: 'fp-fetch', latencyMs: 2400, status: 503, error: 'HTTP 503' };
+
+    const result = await processor(createJob({ findingId: 'finding-1', alert }));
+
+    expect(result).toMatchObject({ verified: true, alerted: true });
+    expect(checkSuppression).not.toHaveBeenCalled();
+    expect(alertService.enqueueAlert).toHaveBeenCalledWith(finding, alert);
+  });
+
+  it('should not alert on a finding the CRM did not verify', async () => {
+    (verifyFinding as jest.Mock).mockResolvedValue({
+      finding,
+      response: { verified: false, falsePositive: true },
+    });
+
+    const result = await processor(
+      createJob({ findingId: 'finding-1', alert: { fingerprint: 'fp-fetch' } })
+    );
+
+    expect(result).toMatchObject({ verified: false, alerted: false });
+    expect(alertService.enqueueAlert).not.toHaveBeenCalled();
+  });
+});
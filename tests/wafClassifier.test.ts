@@ -0,0 +1,195 @@
+import {
+  classifyWafPage,
+  extractDocumentResponse,
+  wafBlockDetector,
+  WAF_BLOCK,
+  type WafPageInput,
+} from '../src/services/detectors/wafClassifier';
+import type { EvidenceCapture } from '../src/services/browserService';
+import type { DetectedFinding } from '../src/services/detectors/types';
+
+function makePage(overrides: Partial<WafPageInput> = {}): WafPageInput {
+  return {
+    html: '<html><body>Welcome</body></html>',
+    title: 'Shop',
+    headers: {},
+    status: 200,
+    finalUrl: 'https://shop.example.com/',
+    ...overrides,
+  };
+}
+
+describe('WAF classifier', () => {
+  describe('classifyWafPage', () => {
+    it('should ignore normal pages behind a WAF', () => {
+      expect(
+        classifyWafPage(makePage({ headers: { server: 'cloudflare', 'cf-ray': '8a1b-LHR' } }))
+      ).toBeNull();
+      expect(
+        classifyWafPage(
+          makePage({
+            html: '<div class="g-recaptcha"></div><script src="/cdn-cgi/challenge-platform/scripts/jsd/main.js"></script>',
+          })
+        )
+      ).toBeNull();
+    });
+
+    it('should classify a Cloudflare JS challenge', () => {
+      const result = classifyWafPage(
+        makePage({
+          status: 403,
+          headers: { server: 'cloudflare', 'cf-mitigated': 'challenge' },
+          html: '<html><head><title>Just a moment...</title></head></html>',
+        })
+      );
+
+      expect(result).toMatchObject({ vendor: 'cloudflare', blockType: 'js_challenge' });
+      expect(result!.signals).toEqual(
+        expect.arrayContaining(['cf-mitigated: challenge', 'server: cloudflare', 'HTTP 403'])
+      );
+    });
+
+    it('should classify a Cloudflare hard block', () => {
+      const result = classifyWafPage(
+        makePage({
+          status: 403,
+          title: 'Attention Required! | Cloudflare',
+          html: '<h1>Sorry, you have been blocked</h1><span>Cloudflare Ray ID: 8a1b</span>',
+        })
+      );
+
+      expect(result).toMatchObject({ vendor: 'cloudflare', blockType: 'hard_block' });
+    });
+
+    it('should classify an Akamai Access Denied page', () => {
+      const result = classifyWafPage(
+        makePage({
+          status: 403,
+          headers: { server: 'AkamaiGHost' },
+          title: 'Access Denied',
+          html: 'You don\'t have permission to access "http://shop.example.com/" on this server.<p>Reference #18.2f3e4d5c.1700000000.abc</p>',
+        })
+      );
+
+      expect(result).toMatchObject({ vendor: 'akamai', blockType: 'hard_block' });
+    });
+
+    it('should classify an Imperva incident page', () => {
+      const result = classifyWafPage(
+        makePage({
+          status: 200,
+          headers: { 'x-iinfo': '9-12345-0 0NNN RT(1700000000 0)' },
+          html: 'Request unsuccessful. Incapsula incident ID: 123000456-789',
+        })
+      );
+
+      expect(result).toMatchObject({ vendor: 'imperva', blockType: 'hard_block' });
+    });
+
+    it('should classify AWS WAF actions from headers', () => {
+      const result = classifyWafPage(
+        makePage({ status: 405, headers: { 'x-amzn-waf-action': 'captcha' } })
+      );
+
+      expect(result).toMatchObject({ vendor: 'aws_waf', blockType: 'captcha' });
+    });
+
+    it('should prefer the vendor that served the block page over the CDN', () => {
+      const result = classifyWafPage(
+        makePage({
+          status: 403,
+          headers: { 'x-amz-cf-id': 'abc', 'x-datadome': 'protected' },
+          html: '<script src="https://ct.captcha-delivery.com/c.js"></script><iframe src="https://geo.captcha-delivery.com/captcha/?initialCid=x"></iframe>',
+        })
+      );
+
+      expect(result).toMatchObject({ vendor: 'datadome', blockType: 'captcha' });
+    });
+
+    it('should classify 429 responses from a known vendor as rate limits', () => {
+      const result = classifyWafPage(makePage({ status: 429, headers: { 'cf-ray': '8a1b-LHR' } }));
+
+      expect(result).toMatchObject({ vendor: 'cloudflare', blockType: 'rate_limit' });
+    });
+
+    it('should classify unknown vendors only on error responses', () => {
+      const result = classifyWafPage(
+        makePage({ status: 403, title: 'Access Denied', html: '<title>Access Denied</title>' })
+      );
+
+      expect(result).toMatchObject({ vendor: 'unknown', blockType: 'hard_block' });
+    });
+  });
+
+  describe('extractDocumentResponse', () => {
+    it('should read the final URL entry from the HAR', () => {
+      const har = {
+        log: {
+          entries: [
+            {
+              request: { url: 'https://shop.example.com/' },
+              response: { status: 301, headers: [{ name: 'Location', value: '/home' }] },
+            },
+            {
+              request: { url: 'https://shop.example.com/home' },
+              response: {
+                status: 403,
+                headers: [
+                  { name: 'Server', value: 'cloudflare' },
+                  { name: 'Set-Cookie', value: 'a=1' },
+                  { name: 'Set-Cookie', value: 'b=2' },
+                ],
+              },
+            },
+          ],
+        },
+      };
+
+      expect(extractDocumentResponse(har, 'https://shop.example.com/home')).toEqual({
+        status: 403,
+        headers: { server: 'cloudflare', 'set-cookie': 'a=1\nb=2' },
+      });
+    });
+
+    it('should handle a missing HAR', () => {
+      expect(extractDocumentResponse(null, 'https://shop.example.com/')).toEqual({
+        status: null,
+        headers: {},
+      });
+    });
+  });
+
+  describe('waf.block detector', () => {
+    it('should report the vendor and block type on the finding metadata', () => {
+      const evidence = {
+        html: '<html><head><title>Just a moment...</title></head></html>',
+        title: 'Just a moment...',
+        url: 'https://shop.example.com/',
+        har: {
+          log: {
+            entries: [
+              {
+                request: { url: 'https://shop.example.com/' },
+                response: { status: 403, headers: [{ name: 'cf-mitigated', value: 'challenge' }] },
+              },
+            ],
+          },
+        },
+        metadata: { finalUrl: 'https://shop.example.com/' },
+      } as unknown as EvidenceCapture;
+
+      const found = wafBlockDetector.detect({
+        url: 'https://shop.example.com/',
+        evidence,
+      }) as DetectedFinding[];
+
+      expect(found).toHaveLength(1);
+      expect(found[0]).toMatchObject({
+        type: WAF_BLOCK,
+        severity: 'medium',
+        detectedValue: 'cloudflare:js_challenge',
+        metadata: { waf: { vendor: 'cloudflare', blockType: 'js_challenge', status: 403 } },
+      });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ZenRowsFetcher } from '../src/services/fetcher/adapters/zenrows';
+import { startMockZenRowsServer, type MockZenRowsServer } from '../src/scripts/mockZenRows';
+
+jest.mock('../src/utils/logger');
+
+describe('ZenRowsFetcher', () => {
+  let mock: MockZenRowsServer;
+  let target: http.Server;
+  let targetUrl: string;
+
+  beforeAll(async () => {
+    // Target site: /blocked answers 403, everything else echoes the request headers
+    target = http.createServer((req, res) => {
+      if (req.url === '/blocked') {
+        res.writeHead(403, { 'content-type': 'text/html' });
+        res.end('<title>Access Denied</title>');
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ method: req.method, headers: req.headers }));
+    });
+    await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+    targetUrl = `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+
+    mock = await startMockZenRowsServer({ apiKey: 'test-key' });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+    await new Promise((resolve) => target.close(resolve));
+  });
+
+  beforeEach(() => {
+    mock.requests.length = 0;
+  });
+
+  const createFetcher = (overrides: Record<string, unknown> = {}) =>
+    new ZenRowsFetcher({
+      apiKey: 'test-key',
+      apiUrl: mock.url,
+      defaultRetries: 0,
+      zenrows: {},
+      ...overrides,
+    });
+
+  it('should build the request parameters', async () => {
+    const fetcher = createFetcher({
+      zenrows: { premiumProxy: true, proxyCountry: 'US', waitFor: '#checkout' },
+    });
+
+    const result = await fetcher.fetch(`${targetUrl}/page`);
+
+    expect(result.success).toBe(true);
+    expect(mock.requests[0].params).toEqual({
+      url: `${targetUrl}/page`,
+      apikey: 'test-key',
+      original_status: 'true',
+      js_render: 'true', // Implied by wait_for
+      premium_proxy: 'true',
+      proxy_country: 'us',
+      wait_for: '#checkout',
+    });
+  });
+
+  it('should pass custom headers through to the target', async () => {
+    const result = await createFetcher().fetch(`${targetUrl}/page`, {
+      headers: { 'x-unleak-probe': 'yes' },
+    });
+
+    expect(mock.requests[0].params.custom_headers).toBe('true');
+    expect(JSON.parse(result.body!).headers['x-unleak-probe']).toBe('yes');
+  });
+
+  it("should return the target's original status", async () => {
+    const result = await createFetcher().fetch(`${targetUrl}/blocked`);
+
+    expect(result).toMatchObject({ status: 403, success: false });
+    expect(result.body).toContain('Access Denied');
+  });
+
+  it('should report the request cost and concurrency headers', async () => {
+    const fetcher = createFetcher({ zenrows: { jsRender: true, premiumProxy: true } });
+
+    const result = await fetcher.fetch(`${targetUrl}/page`);
+
+    expect(result.providerUsage).toMatchObject({
+      provider: 'zenrows',
+      requestCost: 25,
+      concurrencyLimit: 5,
+      concurrencyRemaining: 4,
+      finalUrl: `${targetUrl}/page`,
+    });
+    expect(result.providerUsage?.requestId).toBeDefined();
+  });
+
+  it('should surface ZenRows errors without a target status', async () => {
+    const result = await createFetcher({ apiKey: 'wrong-key' }).fetch(`${targetUrl}/page`);
+
+    expect(result).toMatchObject({ status: null, success: false });
+    expect(result.error).toBe('ZenRows error 401: AUTH002 Invalid API Key');
+  });
+
+  it('should not call ZenRows without an API key', async () => {
+    const result = await createFetcher({ apiKey: '' }).fetch(`${targetUrl}/page`);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('ZENROWS_API_KEY');
+    expect(mock.requests).toHaveLength(0);
+  });
+});